@@ -6,6 +6,10 @@ pragma solidity ^0.8.19;
  * @dev A simple registry to store and verify file manifest hashes on-chain.
  * This contract maps a unique manifest ID (e.g., a UUID generated by the backend)
  * to its SHA-256 hash, providing a tamper-proof record of data integrity.
+ * Manifests can also be anchored in batches: only the root of a Merkle tree over
+ * (manifestId, hash) leaves is stored, and inclusion is proven against it.
+ * A manifest found to be corrupted or leaked can be revoked, optionally pointing at
+ * the manifest that supersedes it; revoked manifests no longer verify.
  */
 contract ManifestRegistry {
     // Mapping from manifest ID to its hash
@@ -14,6 +18,28 @@ contract ManifestRegistry {
     // Event to be emitted when a new manifest is registered
     event ManifestRegistered(string indexed manifestId, bytes32 hash, address indexed registrant, uint256 timestamp);
 
+    // Anchored Merkle roots and the number of manifests under each
+    struct RootAnchor {
+        uint256 leafCount;
+        uint256 timestamp;
+    }
+    mapping(bytes32 => RootAnchor) private _roots;
+
+    // Event to be emitted when a batch root is anchored
+    event RootAnchored(bytes32 indexed root, uint256 leafCount, address indexed registrant, uint256 timestamp);
+
+    // Revoked manifests, with the manifest replacing each one if any
+    struct Revocation {
+        uint256 timestamp;
+        string supersededBy;
+        string reason;
+    }
+    mapping(string => Revocation) private _revocations;
+
+    // Events to be emitted when a manifest is revoked, and when it is linked to its successor
+    event ManifestRevoked(string indexed manifestId, string reason, address indexed revoker, uint256 timestamp);
+    event ManifestSuperseded(string indexed manifestId, string supersededBy, address indexed revoker, uint256 timestamp);
+
     // Owner of the contract, who can grant/revoke registration rights
     address public owner;
 
@@ -60,10 +86,105 @@ contract ManifestRegistry {
      * @dev Verifies if a given hash matches the one stored on-chain for a specific manifest ID.
      * @param manifestId The unique ID of the manifest.
      * @param hash The hash to verify.
-     * @return True if the hashes match, false otherwise.
+     * @return True if the hashes match and the manifest isn't revoked, false otherwise.
      */
     function verifyManifest(string calldata manifestId, bytes32 hash) external view returns (bool) {
-        return _manifests[manifestId] == hash;
+        return _manifests[manifestId] == hash && _revocations[manifestId].timestamp == 0;
+    }
+
+    /**
+     * @dev Anchors the Merkle root of a batch of manifests. Can only be called by an authorized registrar.
+     * @param root The root of the tree over keccak256(keccak256(abi.encode(manifestId, hash))) leaves.
+     * @param leafCount The number of manifests in the batch.
+     */
+    function anchorRoot(bytes32 root, uint256 leafCount) external onlyRegistrar {
+        require(root != 0, "Root must not be zero");
+        require(leafCount > 0, "Batch must not be empty");
+        require(_roots[root].timestamp == 0, "Root already anchored");
+        _roots[root] = RootAnchor(leafCount, block.timestamp);
+        emit RootAnchored(root, leafCount, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Retrieves when a root was anchored and how many manifests it covers.
+     * @param root The Merkle root.
+     * @return leafCount The number of manifests, or 0 if the root is unknown.
+     * @return timestamp The block timestamp of the anchoring, or 0 if the root is unknown.
+     */
+    function getRoot(bytes32 root) external view returns (uint256 leafCount, uint256 timestamp) {
+        RootAnchor memory anchor = _roots[root];
+        return (anchor.leafCount, anchor.timestamp);
+    }
+
+    /**
+     * @dev Verifies that a manifest hash is included under an anchored root.
+     * @param root The anchored Merkle root.
+     * @param manifestId The unique ID of the manifest.
+     * @param hash The hash to verify.
+     * @param proof The sibling hashes from the leaf up to the root.
+     * @return True if the root is anchored, the manifest isn't revoked and the proof leads from the leaf to it.
+     */
+    function verifyManifestInclusion(
+        bytes32 root,
+        string calldata manifestId,
+        bytes32 hash,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        if (_roots[root].timestamp == 0 || _revocations[manifestId].timestamp != 0) {
+            return false;
+        }
+        bytes32 node = keccak256(bytes.concat(keccak256(abi.encode(manifestId, hash))));
+        for (uint256 i = 0; i < proof.length; i++) {
+            // Pairs are hashed in sorted order, so the proof needs no left/right flags
+            node = node < proof[i]
+                ? keccak256(abi.encodePacked(node, proof[i]))
+                : keccak256(abi.encodePacked(proof[i], node));
+        }
+        return node == root;
+    }
+
+    /**
+     * @dev Revokes a manifest, whether registered individually or in a batch. Can only be called by an authorized registrar.
+     * @param manifestId The unique ID of the manifest.
+     * @param reason Why the manifest is revoked.
+     */
+    function revokeManifest(string calldata manifestId, string calldata reason) external onlyRegistrar {
+        _revoke(manifestId, reason);
+    }
+
+    /**
+     * @dev Revokes a manifest and links it to the manifest replacing it. Can only be called by an authorized registrar.
+     * @param manifestId The unique ID of the manifest.
+     * @param supersededBy The unique ID of the replacing manifest.
+     * @param reason Why the manifest is revoked.
+     */
+    function supersedeManifest(
+        string calldata manifestId,
+        string calldata supersededBy,
+        string calldata reason
+    ) external onlyRegistrar {
+        require(bytes(supersededBy).length > 0, "Successor must not be empty");
+        require(keccak256(bytes(manifestId)) != keccak256(bytes(supersededBy)), "Manifest cannot supersede itself");
+        require(_revocations[supersededBy].timestamp == 0, "Successor is revoked");
+        _revoke(manifestId, reason);
+        _revocations[manifestId].supersededBy = supersededBy;
+        emit ManifestSuperseded(manifestId, supersededBy, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Retrieves a manifest's revocation.
+     * @param manifestId The unique ID of the manifest.
+     * @return timestamp The block timestamp of the revocation, or 0 if the manifest isn't revoked.
+     * @return supersededBy The unique ID of the replacing manifest, or empty.
+     * @return reason Why the manifest was revoked.
+     */
+    function getRevocation(string calldata manifestId)
+        external
+        view
+        returns (uint256 timestamp, string memory supersededBy, string memory reason)
+    {
+        Revocation memory revocation = _revocations[manifestId];
+        return (revocation.timestamp, revocation.supersededBy, revocation.reason);
     }
 
     /**
@@ -81,4 +202,12 @@ contract ManifestRegistry {
     function removeRegistrar(address registrarAddress) external onlyOwner {
         isRegistrar[registrarAddress] = false;
     }
+
+    function _revoke(string calldata manifestId, string calldata reason) private {
+        require(bytes(manifestId).length > 0, "Manifest ID must not be empty");
+        require(_revocations[manifestId].timestamp == 0, "Manifest already revoked");
+        _revocations[manifestId].timestamp = block.timestamp;
+        _revocations[manifestId].reason = reason;
+        emit ManifestRevoked(manifestId, reason, msg.sender, block.timestamp);
+    }
 }
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title SmartWalletMock
+ * @dev A minimal EIP-1271 contract wallet for trying contract-wallet sign-in against a
+ * local Hardhat node. It accepts any signature its owner made over the hash, much as a
+ * 1-of-1 Safe would. Not for production use.
+ */
+contract SmartWalletMock {
+    // bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+    bytes4 internal constant MAGIC_VALUE = 0x1626ba7e;
+
+    address public owner;
+
+    constructor(address walletOwner) {
+        owner = walletOwner;
+    }
+
+    /**
+     * @dev Returns MAGIC_VALUE if `signature` is the owner's 65-byte ECDSA signature of `hash`.
+     */
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        if (signature.length != 65) {
+            return 0xffffffff;
+        }
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (v < 27) {
+            v += 27;
+        }
+
+        address signer = ecrecover(hash, v, r, s);
+        return signer != address(0) && signer == owner ? MAGIC_VALUE : bytes4(0xffffffff);
+    }
+}
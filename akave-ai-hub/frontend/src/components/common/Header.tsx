@@ -1,8 +1,29 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
 import { useAppStore } from '../../store';
+import { WorkspaceService, Workspace } from '../../services/workspaces';
 
 const Header: React.FC = () => {
-  const { isAuthenticated, walletAddress, login, logout } = useAppStore();
+  const { isAuthenticated, walletAddress, workspace, login, logout, switchWorkspace } = useAppStore();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    WorkspaceService.listWorkspaces()
+      .then(setWorkspaces)
+      .catch(error => console.error('Failed to load workspaces:', error));
+  }, [isAuthenticated]);
+
+  const handleSwitch = async (workspaceId: string) => {
+    try {
+      await switchWorkspace(workspaceId);
+      // Everything on screen belongs to the previous workspace
+      window.location.reload();
+    } catch (error: any) {
+      console.error('Failed to switch workspace:', error);
+      toast.error(error.response?.data?.message || 'Failed to switch workspace');
+    }
+  };
 
   return (
     <header className="bg-white shadow-md p-4 flex justify-between items-center">
@@ -10,6 +31,20 @@ const Header: React.FC = () => {
       <div>
         {isAuthenticated ? (
           <div className="flex items-center space-x-4">
+            {workspaces.length > 1 && (
+              <select
+                value={workspace?.id ?? workspaces.find(w => w.personalUserId)?.id}
+                onChange={(e) => handleSwitch(e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-700"
+                title="Active workspace"
+              >
+                {workspaces.map(w => (
+                  <option key={w.id} value={w.id}>
+                    {w.personalUserId ? 'Personal' : w.name} ({w.role})
+                  </option>
+                ))}
+              </select>
+            )}
             <span className="text-gray-600">{`${walletAddress?.substring(0, 6)}...${walletAddress?.substring(walletAddress.length - 4)}`}</span>
             <button 
               onClick={logout}
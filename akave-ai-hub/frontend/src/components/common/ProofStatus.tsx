@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { CheckCircleIcon, ExclamationTriangleIcon, ClockIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { CheckCircleIcon, ExclamationTriangleIcon, ClockIcon, ArrowPathIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import { ProofService } from '../../services/proof';
 
@@ -25,8 +25,8 @@ export const ProofStatus: React.FC<ProofStatusProps> = ({
     setIsLoading(true);
     try {
       const response = await ProofService.registerProof(manifestId);
-      toast.success('Proof registered successfully!');
-      onProofUpdate?.(true, false, response.transactionHash);
+      toast.success(response.message);
+      onProofUpdate?.(true, false, response.data.txHash ?? undefined);
     } catch (error: any) {
       console.error('Failed to register proof:', error);
       toast.error(error.response?.data?.message || 'Failed to register proof');
@@ -39,7 +39,15 @@ export const ProofStatus: React.FC<ProofStatusProps> = ({
     setIsVerifying(true);
     try {
       const response = await ProofService.verifyProof(manifestId);
-      toast.success(response.isValid ? 'Proof verified successfully!' : 'Proof verification failed');
+      if (response.revoked) {
+        toast.error(
+          response.supersededBy
+            ? `Manifest was revoked and superseded by ${response.supersededBy}`
+            : 'Manifest was revoked'
+        );
+      } else {
+        toast.success(response.isValid ? 'Proof verified successfully!' : 'Proof verification failed');
+      }
       onProofUpdate?.(true, response.isValid, transactionHash);
     } catch (error: any) {
       console.error('Failed to verify proof:', error);
@@ -49,6 +57,20 @@ export const ProofStatus: React.FC<ProofStatusProps> = ({
     }
   };
 
+  const handleDownloadBundle = async () => {
+    try {
+      await ProofService.downloadBundle(manifestId);
+    } catch (error: any) {
+      console.error('Failed to download proof bundle:', error);
+      // The body of a failed blob request is itself a blob
+      const body = error.response?.data;
+      const message = body instanceof Blob
+        ? await body.text().then(text => JSON.parse(text).message).catch(() => undefined)
+        : body?.message;
+      toast.error(message || 'Failed to download proof bundle');
+    }
+  };
+
   const getStatusIcon = () => {
     if (isValid) {
       return <CheckCircleIcon className="h-5 w-5 text-green-500" />;
@@ -120,6 +142,17 @@ export const ProofStatus: React.FC<ProofStatusProps> = ({
             )}
           </button>
         )}
+
+        {isValid && (
+          <button
+            onClick={handleDownloadBundle}
+            title="Download a signed proof bundle"
+            className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+            Certificate
+          </button>
+        )}
       </div>
 
       {transactionHash && (
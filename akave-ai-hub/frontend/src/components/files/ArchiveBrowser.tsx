@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { DocumentIcon, FolderIcon, ArrowDownTrayIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { FileService, ArchiveListing, ArchiveFile } from '../../services/files';
+
+export interface ArchiveBrowserProps {
+  manifestId: string;
+  formatFileSize: (bytes: number) => string;
+}
+
+export const ArchiveBrowser: React.FC<ArchiveBrowserProps> = ({ manifestId, formatFileSize }) => {
+  const [path, setPath] = useState('');
+  const [listing, setListing] = useState<ArchiveListing | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setLoading(true);
+        setListing(await FileService.listEntries(manifestId, path));
+      } catch (error: any) {
+        console.error('Failed to load archive entries:', error);
+        toast.error('Failed to load archive entries');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadEntries();
+  }, [manifestId, path]);
+
+  const handleDownload = async (entry: ArchiveFile) => {
+    try {
+      await FileService.downloadEntry(manifestId, entry);
+      toast.success('Download started');
+    } catch (error: any) {
+      console.error('Failed to download entry:', error);
+      toast.error('Failed to download file');
+    }
+  };
+
+  // "images/train/" -> [{ name: 'images', path: 'images/' }, { name: 'train', path: 'images/train/' }]
+  const crumbs = path.split('/').filter(Boolean).map((name, index, parts) => ({
+    name,
+    path: parts.slice(0, index + 1).join('/') + '/'
+  }));
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-md">
+      <div className="flex items-center px-3 py-2 bg-gray-50 text-sm text-gray-600 border-b border-gray-200">
+        <button onClick={() => setPath('')} className="hover:text-blue-600">
+          root
+        </button>
+        {crumbs.map(crumb => (
+          <React.Fragment key={crumb.path}>
+            <ChevronRightIcon className="h-3 w-3 mx-1 text-gray-400" />
+            <button onClick={() => setPath(crumb.path)} className="hover:text-blue-600">
+              {crumb.name}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {loading || !listing ? (
+        <div className="flex items-center justify-center py-4">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+          {listing.directories.map(directory => (
+            <li key={directory.path}>
+              <button
+                onClick={() => setPath(directory.path)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50"
+              >
+                <span className="flex items-center min-w-0">
+                  <FolderIcon className="flex-shrink-0 h-4 w-4 text-yellow-500" />
+                  <span className="ml-2 truncate text-gray-900">{directory.name}</span>
+                </span>
+                <span className="text-gray-500">
+                  {directory.fileCount} files • {formatFileSize(directory.size)}
+                </span>
+              </button>
+            </li>
+          ))}
+          {listing.files.map(entry => (
+            <li key={entry.path} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="flex items-center min-w-0">
+                <DocumentIcon className="flex-shrink-0 h-4 w-4 text-gray-400" />
+                <span className="ml-2 truncate text-gray-900">{entry.name}</span>
+              </span>
+              <span className="flex items-center space-x-3 text-gray-500">
+                <span>{formatFileSize(entry.size)}</span>
+                <button
+                  onClick={() => handleDownload(entry)}
+                  className="text-gray-500 hover:text-blue-600"
+                  title="Download file"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+          {listing.directories.length === 0 && listing.files.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">This archive is empty.</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ArchiveBrowser;
@@ -1,22 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { DocumentIcon, TrashIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { DocumentIcon, FolderIcon, TrashIcon, ArrowDownTrayIcon, LinkIcon } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
-import { FileService, FileManifest } from '../../services/files';
+import { FileService, FileManifest, DIRECTORY_CONTENT_TYPE } from '../../services/files';
+import { ShareService } from '../../services/shares';
 import { ProofStatus } from '../common/ProofStatus';
+import { ArchiveBrowser } from './ArchiveBrowser';
 
 export const FileList: React.FC = () => {
   const [files, setFiles] = useState<FileManifest[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
+  const [browsingId, setBrowsingId] = useState<string | null>(null);
+  const [scope, setScope] = useState<'own' | 'shared'>('own');
 
   useEffect(() => {
     loadFiles();
-  }, []);
+  }, [scope]);
 
   const loadFiles = async () => {
     try {
       setLoading(true);
-      const response = await FileService.listFiles(50, 0);
+      const response = await FileService.listFiles(50, 0, scope);
       setFiles(response.data);
     } catch (error: any) {
       console.error('Failed to load files:', error);
@@ -58,6 +62,17 @@ export const FileList: React.FC = () => {
     }
   };
 
+  const handleShare = async (id: string) => {
+    try {
+      const link = await ShareService.createShareLink(id);
+      await navigator.clipboard.writeText(link.url);
+      toast.success(`Share link copied; it expires ${formatDate(link.expiresAt)}`);
+    } catch (error: any) {
+      console.error('Failed to create share link:', error);
+      toast.error(error.response?.data?.message || 'Failed to create share link');
+    }
+  };
+
   const handleProofUpdate = (fileId: string, isRegistered: boolean, isValid: boolean, transactionHash?: string) => {
     setFiles(prev => prev.map(file => {
       if (file.id === fileId) {
@@ -87,6 +102,12 @@ export const FileList: React.FC = () => {
     };
   };
 
+  const getDirectoryInfo = (file: FileManifest): { entryCount: number; expandedSize: number } | null => {
+    if (file.contentType !== DIRECTORY_CONTENT_TYPE) return null;
+    const metadata = JSON.parse(file.metadata || '{}');
+    return metadata.directory || { entryCount: 0, expandedSize: 0 };
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -105,92 +126,163 @@ export const FileList: React.FC = () => {
     });
   };
 
+  const scopeTabs = (
+    <div className="flex space-x-4 mb-4 text-sm">
+      {(['own', 'shared'] as const).map(option => (
+        <button
+          key={option}
+          onClick={() => setScope(option)}
+          className={scope === option ? 'font-medium text-blue-600' : 'text-gray-500 hover:text-gray-700'}
+        >
+          {option === 'own' ? 'Workspace files' : 'Shared with me'}
+        </button>
+      ))}
+    </div>
+  );
+
   if (loading) {
     return (
-      <div className="flex items-center justify-center py-12">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        <span className="ml-2 text-gray-600">Loading files...</span>
+      <div>
+        {scopeTabs}
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-2 text-gray-600">Loading files...</span>
+        </div>
       </div>
     );
   }
 
   if (files.length === 0) {
     return (
-      <div className="text-center py-12">
-        <DocumentIcon className="mx-auto h-12 w-12 text-gray-400" />
-        <h3 className="mt-2 text-sm font-medium text-gray-900">No files uploaded</h3>
-        <p className="mt-1 text-sm text-gray-500">Get started by uploading your first file.</p>
+      <div>
+        {scopeTabs}
+        <div className="text-center py-12">
+          <DocumentIcon className="mx-auto h-12 w-12 text-gray-400" />
+          {scope === 'own' ? (
+            <>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No files uploaded</h3>
+              <p className="mt-1 text-sm text-gray-500">Get started by uploading your first file.</p>
+            </>
+          ) : (
+            <>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing shared with you</h3>
+              <p className="mt-1 text-sm text-gray-500">Files teammates grant you access to will appear here.</p>
+            </>
+          )}
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="bg-white shadow overflow-hidden sm:rounded-md">
-      <ul className="divide-y divide-gray-200">
-        {files.map((file) => {
-          const proofStatus = getProofStatus(file);
-          const isDeleting = deletingIds.has(file.id);
-          
-          return (
-            <li key={file.id} className="px-6 py-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center min-w-0 flex-1">
-                  <DocumentIcon className="flex-shrink-0 h-10 w-10 text-gray-400" />
-                  <div className="ml-4 min-w-0 flex-1">
-                    <div className="flex items-center space-x-2">
-                      <p className="text-sm font-medium text-gray-900 truncate">
-                        {file.filename}
-                      </p>
-                      {file.isMLData && (
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                          ML Data
-                        </span>
+    <div>
+      {scopeTabs}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {files.map((file) => {
+            const proofStatus = getProofStatus(file);
+            const isDeleting = deletingIds.has(file.id);
+            const directory = getDirectoryInfo(file);
+            
+            return (
+              <li key={file.id} className="px-6 py-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center min-w-0 flex-1">
+                    {directory ? (
+                      <FolderIcon className="flex-shrink-0 h-10 w-10 text-yellow-500" />
+                    ) : (
+                      <DocumentIcon className="flex-shrink-0 h-10 w-10 text-gray-400" />
+                    )}
+                    <div className="ml-4 min-w-0 flex-1">
+                      <div className="flex items-center space-x-2">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {file.filename}
+                        </p>
+                        {file.isMLData && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            ML Data
+                          </span>
+                        )}
+                        {file.role && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                            Shared · {file.role}
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-1 flex items-center space-x-4 text-sm text-gray-500">
+                        {directory ? (
+                          <>
+                            <span>{directory.entryCount} files</span>
+                            <span>{formatFileSize(directory.expandedSize)} expanded</span>
+                            <button
+                              onClick={() => setBrowsingId(browsingId === file.id ? null : file.id)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              {browsingId === file.id ? 'Hide' : 'Browse'}
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <span>{formatFileSize(file.size)}</span>
+                            <span>{file.contentType}</span>
+                          </>
+                        )}
+                        <span>Uploaded {formatDate(file.createdAt)}</span>
+                      </div>
+                      <div className="mt-2">
+                        <ProofStatus
+                          manifestId={file.id}
+                          isRegistered={proofStatus.isRegistered}
+                          isValid={proofStatus.isValid}
+                          transactionHash={proofStatus.transactionHash}
+                          onProofUpdate={(isRegistered, isValid, transactionHash) => 
+                            handleProofUpdate(file.id, isRegistered, isValid, transactionHash)
+                          }
+                        />
+                      </div>
+                      {browsingId === file.id && (
+                        <ArchiveBrowser manifestId={file.id} formatFileSize={formatFileSize} />
                       )}
                     </div>
-                    <div className="mt-1 flex items-center space-x-4 text-sm text-gray-500">
-                      <span>{formatFileSize(file.size)}</span>
-                      <span>{file.contentType}</span>
-                      <span>Uploaded {formatDate(file.createdAt)}</span>
-                    </div>
-                    <div className="mt-2">
-                      <ProofStatus
-                        manifestId={file.id}
-                        isRegistered={proofStatus.isRegistered}
-                        isValid={proofStatus.isValid}
-                        transactionHash={proofStatus.transactionHash}
-                        onProofUpdate={(isRegistered, isValid, transactionHash) => 
-                          handleProofUpdate(file.id, isRegistered, isValid, transactionHash)
-                        }
-                      />
-                    </div>
                   </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => handleDownload(file.id)}
-                    className="inline-flex items-center p-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    title="Download file"
-                  >
-                    <ArrowDownTrayIcon className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(file.id)}
-                    disabled={isDeleting}
-                    className="inline-flex items-center p-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Delete file"
-                  >
-                    {isDeleting ? (
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                    ) : (
-                      <TrashIcon className="h-4 w-4" />
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleDownload(file.id)}
+                      className="inline-flex items-center p-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      title="Download file"
+                    >
+                      <ArrowDownTrayIcon className="h-4 w-4" />
+                    </button>
+                    {!directory && !file.role && (
+                      <button
+                        onClick={() => handleShare(file.id)}
+                        className="inline-flex items-center p-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        title="Copy share link"
+                      >
+                        <LinkIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                    {!file.role && (
+                      <button
+                        onClick={() => handleDelete(file.id)}
+                        disabled={isDeleting}
+                        className="inline-flex items-center p-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Delete file"
+                      >
+                        {isDeleting ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        ) : (
+                          <TrashIcon className="h-4 w-4" />
+                        )}
+                      </button>
                     )}
-                  </button>
+                  </div>
                 </div>
-              </div>
-            </li>
-          );
-        })}
-      </ul>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
     </div>
   );
 };
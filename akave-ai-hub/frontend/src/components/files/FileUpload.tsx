@@ -3,6 +3,8 @@ import { CloudArrowUpIcon, DocumentIcon, XMarkIcon } from '@heroicons/react/24/o
 import toast from 'react-hot-toast';
 import { FileService, FileUploadRequest } from '../../services/files';
 
+const ARCHIVE_PATTERN = /\.(zip|tar|tgz|tar\.gz)$/i;
+
 export interface FileUploadProps {
   onUploadSuccess?: () => void;
 }
@@ -10,10 +12,12 @@ export interface FileUploadProps {
 export const FileUpload: React.FC<FileUploadProps> = ({ onUploadSuccess }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
   const [isMLData, setIsMLData] = useState(false);
+  const [expandArchive, setExpandArchive] = useState(false);
   const [metadata, setMetadata] = useState<Record<string, any>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -51,15 +55,21 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadSuccess }) => {
     }
 
     setUploading(true);
+    setUploadProgress(0);
     try {
       const request: FileUploadRequest = {
         file: selectedFile,
         tags: tags.length > 0 ? tags : undefined,
         isMLData,
-        metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        expandArchive: expandArchive && ARCHIVE_PATTERN.test(selectedFile.name)
       };
 
-      await FileService.uploadFile(request);
+      // Archives are expanded by the server, so they have to stream through it
+      const upload = request.expandArchive ? FileService.uploadFileResumable : FileService.uploadFileDirect;
+      await upload.call(FileService, request, (uploaded, total) => {
+        setUploadProgress(total > 0 ? Math.round((uploaded / total) * 100) : 100);
+      });
       toast.success('File uploaded successfully!');
       
       // Reset form
@@ -67,6 +77,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadSuccess }) => {
       setTags([]);
       setNewTag('');
       setIsMLData(false);
+      setExpandArchive(false);
       setMetadata({});
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -172,6 +183,23 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadSuccess }) => {
             </label>
           </div>
 
+          {/* Archive Expansion */}
+          {ARCHIVE_PATTERN.test(selectedFile.name) && (
+            <div className="flex items-center">
+              <input
+                id="expand-archive"
+                name="expand-archive"
+                type="checkbox"
+                checked={expandArchive}
+                onChange={(e) => setExpandArchive(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="expand-archive" className="ml-2 block text-sm text-gray-900">
+                Expand archive into a browsable directory
+              </label>
+            </div>
+          )}
+
           {/* Tags */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -247,7 +275,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadSuccess }) => {
               {uploading ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Uploading...
+                  Uploading... {uploadProgress}%
                 </>
               ) : (
                 'Upload File'
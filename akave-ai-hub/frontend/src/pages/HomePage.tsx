@@ -9,6 +9,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { useAppStore } from '../store';
 import api from '../services/api';
+import { UsageService, StorageUsage } from '../services/usage';
 
 interface DashboardStats {
   totalFiles: number;
@@ -16,6 +17,7 @@ interface DashboardStats {
   activeTrainingJobs: number;
   completedTrainingJobs: number;
   totalStorage: number;
+  usage: StorageUsage | null;
   recentActivity: any[];
 }
 
@@ -27,6 +29,7 @@ const HomePage: React.FC = () => {
     activeTrainingJobs: 0,
     completedTrainingJobs: 0,
     totalStorage: 0,
+    usage: null,
     recentActivity: []
   });
   const [loading, setLoading] = useState(true);
@@ -40,10 +43,11 @@ const HomePage: React.FC = () => {
       setLoading(true);
       
       // Load dashboard stats from your backend
-      const [filesRes, trainingRes, queryRes] = await Promise.all([
+      const [filesRes, trainingRes, queryRes, usage] = await Promise.all([
         api.get('/files'),
         api.get('/training'),
-        api.get('/query/results')
+        api.get('/query/results'),
+        UsageService.getUsage()
       ]);
 
       const files = filesRes.data.data || [];
@@ -55,7 +59,8 @@ const HomePage: React.FC = () => {
         totalQueries: queries.length,
         activeTrainingJobs: trainingJobs.filter((job: any) => job.status === 'running').length,
         completedTrainingJobs: trainingJobs.filter((job: any) => job.status === 'completed').length,
-        totalStorage: files.reduce((total: number, file: any) => total + file.size, 0),
+        totalStorage: usage.usedBytes,
+        usage,
         recentActivity: [
           ...files.slice(0, 3).map((file: any) => ({
             type: 'upload',
@@ -161,6 +166,14 @@ const HomePage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Storage Used</p>
               <p className="text-2xl font-bold text-gray-900">{formatBytes(stats.totalStorage)}</p>
+              {stats.usage?.quotaBytes ? (
+                <p className="text-xs text-gray-500">of {formatBytes(stats.usage.quotaBytes)} quota</p>
+              ) : null}
+              {stats.usage && (
+                <p className="text-xs text-gray-500">
+                  Datasets {formatBytes(stats.usage.datasets.bytes)} · Checkpoints {formatBytes(stats.usage.checkpoints.bytes)} · Queries {formatBytes(stats.usage.queryResults.bytes)}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -47,7 +47,23 @@ api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
+  async (error) => {
+    const { config } = error;
+
+    // The access token expired or its session was refreshed elsewhere: refresh once and retry
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !config._retried &&
+      !/^\/auth\/(refresh|wallet\/)/.test(config.url ?? '')
+    ) {
+      config._retried = true;
+      const { useAppStore } = await import('../store');
+      if (await useAppStore.getState().refreshSession()) {
+        return api(config);
+      }
+    }
+
     // Handle common HTTP errors
     if (error.response) {
       const { status, data } = error.response;
@@ -1,3 +1,4 @@
+import axios from 'axios';
 import api from './api';
 
 export interface FileManifest {
@@ -13,6 +14,8 @@ export interface FileManifest {
   s3Key: string;
   createdAt: string;
   updatedAt: string;
+  /** Set on files another user shared with you: the access you were granted */
+  role?: 'reader' | 'writer';
 }
 
 export interface FileUploadRequest {
@@ -20,6 +23,32 @@ export interface FileUploadRequest {
   tags?: string[];
   isMLData?: boolean;
   metadata?: Record<string, any>;
+  /** Expand a ZIP/TAR archive into a browsable directory on the server */
+  expandArchive?: boolean;
+}
+
+/** Content type of manifests created by expanding an archive */
+export const DIRECTORY_CONTENT_TYPE = 'application/vnd.akave.directory+json';
+
+export interface ArchiveDirectory {
+  name: string;
+  path: string;
+  fileCount: number;
+  size: number;
+}
+
+export interface ArchiveFile {
+  name: string;
+  path: string;
+  size: number;
+  hash: string;
+  contentType: string;
+}
+
+export interface ArchiveListing {
+  path: string;
+  directories: ArchiveDirectory[];
+  files: ArchiveFile[];
 }
 
 export interface FileUploadResponse {
@@ -28,6 +57,39 @@ export interface FileUploadResponse {
   data: FileManifest;
 }
 
+export interface UploadSessionStatus {
+  id: string;
+  filename: string;
+  size: number;
+  offset: number;
+  status: 'active' | 'completed';
+  expiresAt: string;
+  manifestId: string | null;
+}
+
+export interface DirectUploadTarget {
+  id: string;
+  mode: 'single' | 'multipart';
+  size: number;
+  partSize: number | null;
+  expiresAt: string;
+  headers: Record<string, string>;
+  url?: string;
+  parts?: Array<{ partNumber: number; url: string; size: number }>;
+}
+
+export type UploadProgressCallback = (uploadedBytes: number, totalBytes: number) => void;
+
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 5;
+const SESSION_STORAGE_PREFIX = 'akave-upload-session:';
+
+// Identifies the same local file across page reloads so an interrupted upload can be resumed
+const sessionStorageKey = (file: File) =>
+  `${SESSION_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export interface FileListResponse {
   status: string;
   data: FileManifest[];
@@ -53,6 +115,10 @@ export class FileService {
       formData.append('metadata', JSON.stringify(request.metadata));
     }
 
+    if (request.expandArchive) {
+      formData.append('expandArchive', 'true');
+    }
+
     const response = await api.post<FileUploadResponse>('/files', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
@@ -61,12 +127,170 @@ export class FileService {
     return response.data;
   }
 
+  /**
+   * Upload a file in chunks through a resumable upload session.
+   * Network failures are retried from the offset the server reports.
+   */
+  static async uploadFileResumable(
+    request: FileUploadRequest,
+    onProgress?: UploadProgressCallback
+  ): Promise<FileUploadResponse> {
+    const { file } = request;
+    const storageKey = sessionStorageKey(file);
+    let session = await this.resumeSession(storageKey);
+
+    if (!session) {
+      const response = await api.post<{ data: UploadSessionStatus }>('/files/uploads', {
+        filename: file.name,
+        size: file.size,
+        contentType: file.type || 'application/octet-stream',
+        tags: request.tags,
+        isMLData: request.isMLData,
+        metadata: request.metadata,
+        expandArchive: request.expandArchive,
+      });
+      session = response.data.data;
+      localStorage.setItem(storageKey, session.id);
+    }
+
+    let offset = session.offset;
+    let failures = 0;
+    onProgress?.(offset, file.size);
+
+    while (offset < file.size) {
+      const chunk = file.slice(offset, Math.min(offset + CHUNK_SIZE, file.size));
+      try {
+        const response = await api.patch(`/files/uploads/${session.id}`, chunk, {
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+          },
+          timeout: 0,
+        });
+        offset = Number(response.headers['upload-offset']);
+        failures = 0;
+        onProgress?.(offset, file.size);
+      } catch (error) {
+        if (++failures > MAX_CHUNK_RETRIES) {
+          throw error;
+        }
+        await wait(1000 * 2 ** (failures - 1));
+        // Ask the server how much it kept before retrying
+        offset = (await this.getUploadStatus(session.id)).offset;
+      }
+    }
+
+    const response = await api.post<FileUploadResponse>(`/files/uploads/${session.id}/complete`, undefined, {
+      timeout: 0,
+    });
+    localStorage.removeItem(storageKey);
+    return response.data;
+  }
+
+  /**
+   * Upload a file straight to storage through presigned URLs, so the bytes never pass
+   * through the API server. Falls back to a resumable upload when the storage endpoint
+   * can't be reached from the browser (e.g. the bucket has no CORS rule for this origin).
+   */
+  static async uploadFileDirect(
+    request: FileUploadRequest,
+    onProgress?: UploadProgressCallback
+  ): Promise<FileUploadResponse> {
+    const { file } = request;
+    const response = await api.post<{ data: DirectUploadTarget }>('/files/direct', {
+      filename: file.name,
+      size: file.size,
+      contentType: file.type || 'application/octet-stream',
+      tags: request.tags,
+      isMLData: request.isMLData,
+      metadata: request.metadata,
+    });
+    const target = response.data.data;
+
+    let parts: Array<{ partNumber: number; etag: string }> | undefined;
+    try {
+      parts = await this.putToStorage(file, target, onProgress);
+    } catch (error: any) {
+      if (error?.response) {
+        throw error;
+      }
+      await api.delete(`/files/direct/${target.id}`).catch(() => undefined);
+      return this.uploadFileResumable(request, onProgress);
+    }
+
+    const completed = await api.post<FileUploadResponse>(`/files/direct/${target.id}/complete`, { parts }, {
+      timeout: 0,
+    });
+    return completed.data;
+  }
+
+  // Storage requests use plain axios: the presigned URL is the credential, and the
+  // API's Authorization header would break the signature
+  private static async putToStorage(
+    file: File,
+    target: DirectUploadTarget,
+    onProgress?: UploadProgressCallback
+  ): Promise<Array<{ partNumber: number; etag: string }> | undefined> {
+    if (target.url) {
+      await axios.put(target.url, file, {
+        headers: target.headers,
+        timeout: 0,
+        onUploadProgress: event => onProgress?.(event.loaded, file.size),
+      });
+      return undefined;
+    }
+
+    const completed: Array<{ partNumber: number; etag: string }> = [];
+    let uploaded = 0;
+    let offset = 0;
+    for (const part of target.parts ?? []) {
+      const chunk = file.slice(offset, offset + part.size);
+      const result = await axios.put(part.url, chunk, {
+        headers: target.headers,
+        timeout: 0,
+        onUploadProgress: event => onProgress?.(uploaded + event.loaded, file.size),
+      });
+      // Reading the ETag needs the bucket's CORS rule to expose it (ExposeHeaders: ETag)
+      completed.push({ partNumber: part.partNumber, etag: result.headers['etag'] });
+      offset += part.size;
+      uploaded += part.size;
+      onProgress?.(uploaded, file.size);
+    }
+    return completed;
+  }
+
+  /**
+   * Get the current offset of a resumable upload session
+   */
+  static async getUploadStatus(id: string): Promise<UploadSessionStatus> {
+    const response = await api.get<{ data: UploadSessionStatus }>(`/files/uploads/${id}`);
+    return response.data.data;
+  }
+
+  private static async resumeSession(storageKey: string): Promise<UploadSessionStatus | null> {
+    const sessionId = localStorage.getItem(storageKey);
+    if (!sessionId) return null;
+
+    try {
+      const session = await this.getUploadStatus(sessionId);
+      if (session.status === 'active') return session;
+    } catch {
+      // Session expired or was cleaned up; start a new one
+    }
+    localStorage.removeItem(storageKey);
+    return null;
+  }
+
   /**
    * List all files for the authenticated user
    */
-  static async listFiles(limit: number = 10, offset: number = 0): Promise<FileListResponse> {
+  static async listFiles(
+    limit: number = 10,
+    offset: number = 0,
+    scope: 'own' | 'shared' = 'own'
+  ): Promise<FileListResponse> {
     const response = await api.get<FileListResponse>('/files', {
-      params: { limit, offset }
+      params: { limit, offset, scope: scope === 'shared' ? scope : undefined }
     });
     return response.data;
   }
@@ -91,6 +315,36 @@ export class FileService {
     window.URL.revokeObjectURL(url);
   }
 
+  /**
+   * List one directory level of an expanded archive
+   */
+  static async listEntries(id: string, path: string = ''): Promise<ArchiveListing> {
+    const response = await api.get<{ data: ArchiveListing }>(`/files/${id}/entries`, {
+      params: { path }
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Download a single file from an expanded archive
+   */
+  static async downloadEntry(id: string, entry: ArchiveFile): Promise<void> {
+    const response = await api.get(`/files/${id}/entries/download`, {
+      params: { path: entry.path },
+      responseType: 'blob'
+    });
+
+    const blob = new Blob([response.data]);
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = entry.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
   /**
    * Delete a file by its ID
    */
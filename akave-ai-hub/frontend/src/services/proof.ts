@@ -1,25 +1,95 @@
 import api from './api';
+import type { ProofBundle, ProofBundleVerification } from '@shared/proofBundle';
 
 export interface ProofRegistrationRequest {
   manifestId: string;
 }
 
+/** A manifest's place in a Merkle batch anchored on-chain */
+export interface ManifestAnchor {
+  manifestId: string;
+  manifestHash: string;
+  leaf: string;
+  status: 'pending' | 'submitted' | 'anchored';
+  root: string | null;
+  jobId: string | null;
+  proof: string[];
+  txHash: string | null;
+  blockNumber: number | null;
+  requestedAt: string;
+  anchoredAt: string | null;
+}
+
+/** A manifest's revocation on-chain */
+export interface ManifestRevocation {
+  manifestId: string;
+  status: 'pending' | 'revoked';
+  reason: string;
+  supersededBy: string | null;
+  jobId: string | null;
+  txHash: string | null;
+  revokedAt: string | null;
+}
+
+export interface ProofRevocationResponse {
+  status: string;
+  message: string;
+  data: ManifestRevocation;
+}
+
+/** A ManifestRegistry event read from the chain */
+export interface RegistryEvent {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  event: 'ManifestRegistered' | 'RootAnchored';
+  manifestId: string | null;
+  manifestIdHash: string | null;
+  hash: string | null;
+  root: string | null;
+  leafCount: number | null;
+  registrant: string;
+  /** Sent by someone other than the hub */
+  external: boolean;
+  timestamp: string;
+  indexedAt: string;
+}
+
+export interface RegistryEventQuery {
+  event?: RegistryEvent['event'];
+  registrant?: string;
+  manifestId?: string;
+  external?: boolean;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface ProofRegistrationResponse {
   status: string;
   message: string;
-  transactionHash: string;
+  data: ManifestAnchor;
 }
 
 export interface ProofVerificationResponse {
   status: string;
   isValid: boolean;
-  onChainHash: string;
+  /** A revoked manifest never verifies */
+  revoked: boolean;
+  supersededBy: string | null;
   localHash: string;
+  /** Set for batched manifests */
+  anchor?: ManifestAnchor;
+  /** Set for manifests registered individually */
+  onChainHash?: string;
+  revocation: ManifestRevocation | null;
 }
 
 export class ProofService {
   /**
-   * Register a manifest's hash on the blockchain
+   * Queue a manifest's hash for the next batch anchored on the blockchain
    */
   static async registerProof(manifestId: string): Promise<ProofRegistrationResponse> {
     const response = await api.post<ProofRegistrationResponse>('/proof/register', {
@@ -28,6 +98,64 @@ export class ProofService {
     return response.data;
   }
 
+  /**
+   * Revoke a manifest on the blockchain, optionally naming the manifest that supersedes it
+   */
+  static async revokeManifest(
+    manifestId: string,
+    reason: string,
+    supersededBy?: string
+  ): Promise<ProofRevocationResponse> {
+    const response = await api.post<ProofRevocationResponse>('/proof/revoke', {
+      manifestId,
+      reason,
+      supersededBy
+    });
+    return response.data;
+  }
+
+  /**
+   * Registry events indexed from the blockchain, newest first
+   */
+  static async listEvents(query: RegistryEventQuery = {}): Promise<RegistryEvent[]> {
+    const response = await api.get<{ status: string; data: RegistryEvent[] }>('/proof/events', {
+      params: query
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Download the manifest's signed proof bundle, which can be verified without the hub
+   */
+  static async downloadBundle(manifestId: string): Promise<void> {
+    const response = await api.get(`/proof/bundle/${manifestId}`, {
+      responseType: 'blob'
+    });
+
+    const blob = new Blob([response.data], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${manifestId}.proof.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Verify a proof bundle, and the file it covers if given, against the blockchain
+   */
+  static async verifyBundle(bundle: ProofBundle, file?: File): Promise<ProofBundleVerification> {
+    const form = new FormData();
+    form.append('bundle', JSON.stringify(bundle));
+    if (file) {
+      form.append('file', file);
+    }
+    const response = await api.post<{ status: string; data: ProofBundleVerification }>('/proof/bundle/verify', form);
+    return response.data.data;
+  }
+
   /**
    * Verify a manifest's hash against the blockchain
    */
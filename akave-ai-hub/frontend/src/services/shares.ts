@@ -0,0 +1,57 @@
+import api from './api';
+
+export interface ShareLink {
+  id: string;
+  manifestId: string;
+  expiresAt: string;
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  revokedAt: string | null;
+  createdAt: string;
+  status: 'active' | 'expired' | 'revoked' | 'exhausted';
+}
+
+export interface CreateShareLinkRequest {
+  expiresInHours?: number;
+  maxDownloads?: number;
+  password?: string;
+}
+
+export interface ShareLinkAccess {
+  id: number;
+  outcome: 'granted' | 'expired' | 'revoked' | 'exhausted' | 'bad_password';
+  ipAddress: string | null;
+  userAgent: string | null;
+  accessedAt: string;
+}
+
+export class ShareService {
+  /**
+   * Create a public download link for a file. The returned url is shown only once.
+   */
+  static async createShareLink(
+    manifestId: string,
+    request: CreateShareLinkRequest = {}
+  ): Promise<ShareLink & { url: string }> {
+    const response = await api.post<{ data: ShareLink & { url: string } }>(`/files/${manifestId}/shares`, request);
+    return response.data.data;
+  }
+
+  static async listShareLinks(manifestId?: string): Promise<ShareLink[]> {
+    const response = await api.get<{ data: ShareLink[] }>('/shares', { params: { manifestId } });
+    return response.data.data;
+  }
+
+  static async revokeShareLink(id: string): Promise<ShareLink> {
+    const response = await api.delete<{ data: ShareLink }>(`/shares/${id}`);
+    return response.data.data;
+  }
+
+  static async getShareLinkAccesses(id: string): Promise<ShareLinkAccess[]> {
+    const response = await api.get<{ data: ShareLinkAccess[] }>(`/shares/${id}/accesses`);
+    return response.data.data;
+  }
+}
+
+export default ShareService;
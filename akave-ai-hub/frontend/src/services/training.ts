@@ -10,6 +10,8 @@ export interface TrainingJob {
   metrics: string;
   userId: string;
   config: string;
+  /** JSON array of the dataset versions the job resolved its datasetIds to */
+  datasetVersions?: string;
   logs?: string[];
   checkpointPath?: string;
 }
@@ -24,6 +26,7 @@ export interface TrainingConfig {
 
 export interface TrainingStartRequest {
   modelName: string;
+  /** File ids or `name@version` dataset references */
   datasetIds: string[];
   hyperparameters?: Record<string, any>;
   framework: 'pytorch' | 'tensorflow' | 'sklearn';
@@ -0,0 +1,30 @@
+import api from './api';
+
+export interface UsageBreakdown {
+  bytes: number;
+  count: number;
+}
+
+export interface StorageUsage {
+  /** null when the account has no quota */
+  quotaBytes: number | null;
+  usedBytes: number;
+  /** Declared size of uploads still in progress */
+  reservedBytes: number;
+  availableBytes: number | null;
+  datasets: UsageBreakdown;
+  checkpoints: UsageBreakdown;
+  queryResults: UsageBreakdown;
+}
+
+export class UsageService {
+  /**
+   * Get the authenticated user's storage quota and usage
+   */
+  static async getUsage(): Promise<StorageUsage> {
+    const response = await api.get<{ status: string; data: StorageUsage }>('/usage');
+    return response.data.data;
+  }
+}
+
+export default UsageService;
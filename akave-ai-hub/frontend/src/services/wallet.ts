@@ -1,4 +1,8 @@
 import { ethers } from 'ethers';
+import { buildSiweMessage, siweTypedData, SiweMessage, SiweSignatureType } from '@shared/siwe';
+
+// How long a sign-in message stays valid after it is signed
+const SIWE_MESSAGE_TTL_MS = 5 * 60 * 1000;
 
 export class WalletService {
   private provider: ethers.BrowserProvider | null = null;
@@ -60,6 +64,46 @@ export class WalletService {
     }
   }
 
+  /**
+   * Sign a Sign-In with Ethereum message for this site carrying the hub's nonce
+   */
+  async signInWithEthereum(
+    nonce: string,
+    signatureType: SiweSignatureType = 'eip191'
+  ): Promise<{ message: string; signature: string; signatureType: SiweSignatureType }> {
+    if (!this.signer || !this.provider) {
+      throw new Error('Wallet not connected. Please connect first.');
+    }
+
+    const { chainId } = await this.provider.getNetwork();
+    const issuedAt = new Date();
+    const fields: SiweMessage = {
+      domain: window.location.host,
+      address: await this.signer.getAddress(),
+      statement: 'Sign in to Akave AI Hub.',
+      uri: window.location.origin,
+      version: '1',
+      chainId: Number(chainId),
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + SIWE_MESSAGE_TTL_MS).toISOString(),
+    };
+    const message = buildSiweMessage(fields);
+
+    // The server verifies either form against the same text message
+    let signature: string | null;
+    if (signatureType === 'eip712') {
+      const { domain, types, value } = siweTypedData(fields);
+      signature = await this.signer.signTypedData(domain, types, value);
+    } else {
+      signature = await this.signMessage(message);
+    }
+    if (!signature) {
+      throw new Error('Message signing failed.');
+    }
+    return { message, signature, signatureType };
+  }
+
   async getNetwork(): Promise<ethers.Network | null> {
     if (!this.provider) return null;
     return await this.provider.getNetwork();
@@ -0,0 +1,75 @@
+import api from './api';
+
+export type WorkspaceRole = 'admin' | 'member' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  personalUserId: string | null;
+  createdBy: string;
+  createdAt: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  workspaceId: string;
+  userId: string;
+  walletAddress: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspaceId: string;
+  workspaceName?: string;
+  walletAddress: string;
+  role: WorkspaceRole;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  createdAt: string;
+  expiresAt: string;
+}
+
+export class WorkspaceService {
+  static async listWorkspaces(): Promise<Workspace[]> {
+    const response = await api.get<{ data: Workspace[] }>('/workspaces');
+    return response.data.data;
+  }
+
+  static async createWorkspace(name: string): Promise<Workspace> {
+    const response = await api.post<{ data: Workspace }>('/workspaces', { name });
+    return response.data.data;
+  }
+
+  static async getWorkspace(id: string): Promise<Workspace & { members: WorkspaceMember[] }> {
+    const response = await api.get<{ data: Workspace & { members: WorkspaceMember[] } }>(`/workspaces/${id}`);
+    return response.data.data;
+  }
+
+  static async invite(id: string, walletAddress: string, role: WorkspaceRole = 'member'): Promise<WorkspaceInvitation> {
+    const response = await api.post<{ data: WorkspaceInvitation }>(`/workspaces/${id}/invitations`, { walletAddress, role });
+    return response.data.data;
+  }
+
+  static async listMyInvitations(): Promise<WorkspaceInvitation[]> {
+    const response = await api.get<{ data: WorkspaceInvitation[] }>('/workspaces/invitations');
+    return response.data.data;
+  }
+
+  static async respondToInvitation(invitationId: string, accept: boolean): Promise<WorkspaceInvitation> {
+    const response = await api.post<{ data: WorkspaceInvitation }>(
+      `/workspaces/invitations/${invitationId}/${accept ? 'accept' : 'decline'}`
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Get a token whose active workspace is `id`; files, training jobs and queries follow it
+   */
+  static async switchWorkspace(id: string): Promise<{ token: string; workspace: Workspace }> {
+    const response = await api.post<{ token: string; workspace: Workspace }>('/auth/workspace', { workspaceId: id });
+    return response.data;
+  }
+}
+
+export default WorkspaceService;
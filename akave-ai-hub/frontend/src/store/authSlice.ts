@@ -44,14 +44,11 @@ export const createAuthSlice: StateCreator<AuthSlice, [], [], AuthSlice> = (set,
       // 1. Get nonce from the server
       const { data: { nonce } } = await api.post('/auth/wallet/challenge', { walletAddress });
 
-      // 2. Sign the nonce
-      const signature = await walletService.signMessage(`Signing in to Akave AI Hub: ${nonce}`);
-      if (!signature) {
-        throw new Error('Message signing failed.');
-      }
+      // 2. Sign a Sign-In with Ethereum message carrying the nonce
+      const { message, signature } = await walletService.signInWithEthereum(nonce);
 
       // 3. Verify the signature and get JWT
-      const { data: { token } } = await api.post('/auth/wallet/verify', { walletAddress, signature });
+      const { data: { token } } = await api.post('/auth/wallet/verify', { message, signature });
 
       // 4. Decode token and set state
       const { id: userId } = jwt_decode<{ id: string }>(token);
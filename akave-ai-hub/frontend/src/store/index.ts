@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import api from '../services/api';
+import { walletService } from '../services/wallet';
+import { WorkspaceService, Workspace } from '../services/workspaces';
 
 interface User {
   id: string;
@@ -13,7 +15,9 @@ interface AppState {
   isAuthenticated: boolean;
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   walletAddress: string | null;
+  workspace: Workspace | null;
   
   // UI state
   isConnecting: boolean;
@@ -22,18 +26,25 @@ interface AppState {
   // Actions
   login: () => Promise<void>;
   logout: () => void;
+  refreshSession: () => Promise<boolean>;
+  switchWorkspace: (workspaceId: string) => Promise<void>;
   setError: (error: string | null) => void;
   clearError: () => void;
 }
 
+// Refresh tokens rotate on use, so concurrent 401s must share a single refresh
+let pendingRefresh: Promise<boolean> | null = null;
+
 export const useAppStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // Initial state
       isAuthenticated: false,
       user: null,
       token: null,
+      refreshToken: null,
       walletAddress: null,
+      workspace: null,
       isConnecting: false,
       error: null,
 
@@ -42,48 +53,38 @@ export const useAppStore = create<AppState>()(
         try {
           set({ isConnecting: true, error: null });
 
-          if (!window.ethereum) {
-            throw new Error('No Ethereum wallet found. Please install MetaMask.');
-          }
-
-          // Request account access
-          const accounts = await window.ethereum.request({
-            method: 'eth_requestAccounts'
-          });
-
-          if (!accounts || accounts.length === 0) {
-            throw new Error('No accounts found. Please unlock your wallet.');
+          // Connect the wallet (walletService reports a missing or locked wallet)
+          const walletAddress = await walletService.connect();
+          if (!walletAddress) {
+            throw new Error('Wallet connection failed.');
           }
 
-          const walletAddress = accounts[0];
-
-          // Get challenge from backend
+          // Get a nonce from the backend
           const challengeResponse = await api.post('/auth/wallet/challenge', {
             walletAddress
           });
 
-          const { challenge } = challengeResponse.data.data;
+          const { nonce } = challengeResponse.data;
 
-          // Sign the challenge
-          const signature = await window.ethereum.request({
-            method: 'personal_sign',
-            params: [challenge, walletAddress]
-          });
+          // Sign a Sign-In with Ethereum message carrying the nonce
+          const { message, signature, signatureType } = await walletService.signInWithEthereum(nonce);
 
           // Verify signature and get JWT
           const verifyResponse = await api.post('/auth/wallet/verify', {
-            walletAddress,
+            message,
             signature,
-            challenge
+            signatureType
           });
 
-          const { user, token } = verifyResponse.data.data;
+          const { user, token, refreshToken, workspace } = verifyResponse.data;
 
           set({
             isAuthenticated: true,
             user,
             token,
+            refreshToken,
             walletAddress,
+            workspace,
             isConnecting: false,
             error: null
           });
@@ -99,15 +100,45 @@ export const useAppStore = create<AppState>()(
       },
 
       logout: () => {
+        // Sign the session out on the server too; the local state is cleared regardless
+        if (get().token) {
+          api.post('/auth/logout').catch(() => undefined);
+        }
         set({
           isAuthenticated: false,
           user: null,
           token: null,
+          refreshToken: null,
           walletAddress: null,
+          workspace: null,
           error: null
         });
       },
 
+      refreshSession: () => {
+        const { refreshToken } = get();
+        if (!refreshToken) {
+          return Promise.resolve(false);
+        }
+
+        pendingRefresh ??= api
+          .post('/auth/refresh', { refreshToken })
+          .then(({ data }) => {
+            set({ token: data.token, refreshToken: data.refreshToken, user: data.user, workspace: data.workspace });
+            return true;
+          })
+          .catch(() => false)
+          .finally(() => {
+            pendingRefresh = null;
+          });
+        return pendingRefresh;
+      },
+
+      switchWorkspace: async (workspaceId: string) => {
+        const { token, workspace } = await WorkspaceService.switchWorkspace(workspaceId);
+        set({ token, workspace });
+      },
+
       setError: (error: string | null) => {
         set({ error });
       },
@@ -122,7 +153,9 @@ export const useAppStore = create<AppState>()(
         isAuthenticated: state.isAuthenticated,
         user: state.user,
         token: state.token,
-        walletAddress: state.walletAddress
+        refreshToken: state.refreshToken,
+        walletAddress: state.walletAddress,
+        workspace: state.workspace
       })
     }
   )
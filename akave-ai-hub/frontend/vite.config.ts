@@ -7,12 +7,17 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Code shared with the hub, e.g. the Sign-In with Ethereum message format
+      '@shared': path.resolve(__dirname, '../src/shared'),
     },
   },
   server: {
     port: 5173,
     host: true, // Allow external connections
     open: true,
+    fs: {
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3000',
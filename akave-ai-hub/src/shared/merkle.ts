@@ -0,0 +1,66 @@
+import { AbiCoder, concat, keccak256 } from 'ethers';
+
+/**
+ * Merkle trees over manifest hashes, as anchored in the ManifestRegistry contract.
+ * Leaves are double-hashed and pairs are hashed in sorted order, so a proof is just the
+ * list of sibling hashes and the contract can check it without knowing leaf positions.
+ */
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * The manifest's SHA-256 as bytes32. Hashes that aren't 32 bytes of hex are hashed
+ * as text, as the per-manifest registration always has.
+ */
+export const manifestHashToBytes32 = (hash: string): string => {
+  const hex = hash.startsWith('0x') ? hash.slice(2) : hash;
+  return /^[0-9a-fA-F]{64}$/.test(hex) ? `0x${hex.toLowerCase()}` : keccak256(new TextEncoder().encode(hash));
+};
+
+/** keccak256(keccak256(abi.encode(manifestId, hash))), matching the contract */
+export const manifestLeaf = (manifestId: string, hash: string): string =>
+  keccak256(keccak256(abiCoder.encode(['string', 'bytes32'], [manifestId, manifestHashToBytes32(hash)])));
+
+const hashPair = (a: string, b: string): string =>
+  keccak256(a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a]));
+
+export interface MerkleTree {
+  root: string;
+  /** Sibling hashes from each leaf up to the root, in the order of the leaves given */
+  proofs: string[][];
+}
+
+/**
+ * Build the tree bottom-up. A node without a sibling is carried up a level unchanged,
+ * which adds nothing to the proofs of the leaves under it.
+ */
+export const buildMerkleTree = (leaves: string[]): MerkleTree => {
+  if (leaves.length === 0) {
+    throw new Error('A Merkle tree needs at least one leaf.');
+  }
+
+  const proofs: string[][] = leaves.map(() => []);
+  // Which leaves sit under each node of the current level
+  let level = leaves.map((hash, index) => ({ hash, leaves: [index] }));
+
+  while (level.length > 1) {
+    const next: typeof level = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      left.leaves.forEach(leaf => proofs[leaf].push(right.hash));
+      right.leaves.forEach(leaf => proofs[leaf].push(left.hash));
+      next.push({ hash: hashPair(left.hash, right.hash), leaves: [...left.leaves, ...right.leaves] });
+    }
+    level = next;
+  }
+
+  return { root: level[0].hash, proofs };
+};
+
+export const verifyMerkleProof = (leaf: string, proof: string[], root: string): boolean =>
+  proof.reduce(hashPair, leaf).toLowerCase() === root.toLowerCase();
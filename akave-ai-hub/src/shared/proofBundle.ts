@@ -0,0 +1,304 @@
+import { Contract, Interface, Provider, getAddress, id, isAddress, sha256, verifyMessage } from 'ethers';
+import { manifestHashToBytes32, manifestLeaf, verifyMerkleProof } from './merkle';
+
+/**
+ * Proof bundles: a manifest's anchoring packaged so anyone holding the file can check it
+ * without the hub. The bundle is signed by the hub's registrar key; verifying it needs only
+ * the bundle, the file and, for the on-chain checks, any RPC endpoint for the chain.
+ */
+
+export const PROOF_BUNDLE_VERSION = 1;
+
+export interface ProofBundleManifest {
+  id: string;
+  filename: string;
+  size: number;
+  contentType: string;
+  /** SHA-256 of the file's bytes, hex */
+  sha256: string;
+  uploadedAt: string;
+}
+
+/** The manifest is a leaf of a Merkle tree whose root was anchored */
+export interface MerkleAnchorProof {
+  type: 'merkle';
+  leaf: string;
+  root: string;
+  leafCount: number;
+  proof: string[];
+  /** The anchoring transaction; null if the hub didn't see which one it was */
+  txHash: string | null;
+  blockNumber: number | null;
+  anchoredAt: string | null;
+}
+
+/** The manifest was registered on its own with registerManifest */
+export interface DirectAnchorProof {
+  type: 'direct';
+  txHash: string;
+  blockNumber: number;
+  registeredAt: string;
+}
+
+export interface ProofBundle {
+  version: typeof PROOF_BUNDLE_VERSION;
+  manifest: ProofBundleManifest;
+  chain: { chainId: number; contractAddress: string };
+  anchor: MerkleAnchorProof | DirectAnchorProof;
+  /** Address whose signature covers the bundle; a registrar of the contract */
+  issuer: string;
+  issuedAt: string;
+  /** EIP-191 signature over proofBundleMessage() */
+  signature: string;
+}
+
+export type UnsignedProofBundle = Omit<ProofBundle, 'signature'>;
+
+export type ProofBundleCheckName =
+  | 'format'
+  | 'signature'
+  | 'registry'
+  | 'fileHash'
+  | 'fileSize'
+  | 'inclusion'
+  | 'chainId'
+  | 'anchorOnChain'
+  | 'transaction'
+  | 'issuerIsRegistrar'
+  | 'notRevoked';
+
+export interface ProofBundleCheck {
+  name: ProofBundleCheckName;
+  /** Null when the check was skipped, e.g. no file or no provider was given */
+  passed: boolean | null;
+  detail?: string;
+}
+
+export interface ProofBundleVerification {
+  /**
+   * valid: no check failed, and the signature, the manifest proof, the anchor and the issuer's
+   * registrar rights all checked out. unverified: nothing failed, but the anchor or the issuer
+   * couldn't be checked on-chain. invalid: a check failed.
+   */
+  status: 'valid' | 'unverified' | 'invalid';
+  /** status is 'valid'; a bundle anyone could have signed never is */
+  valid: boolean;
+  /** Every on-chain check ran and passed */
+  onChain: boolean;
+  checks: ProofBundleCheck[];
+}
+
+export interface VerifyProofBundleOptions {
+  /** The file's bytes, or their SHA-256 and size when they were hashed as a stream */
+  file?: Uint8Array | { sha256: string; size: number };
+  /** Runs the on-chain checks when given */
+  provider?: Provider;
+  /** The registry the bundle must name; without it, the bundle's own is used */
+  registry?: { chainId: number; contractAddress: string };
+}
+
+const registryInterface = new Interface([
+  'event ManifestRegistered(string indexed manifestId, bytes32 hash, address indexed registrant, uint256 timestamp)',
+  'event RootAnchored(bytes32 indexed root, uint256 leafCount, address indexed registrant, uint256 timestamp)',
+  'function getManifestHash(string calldata manifestId) external view returns (bytes32)',
+  'function getRoot(bytes32 root) external view returns (uint256 leafCount, uint256 timestamp)',
+  'function getRevocation(string calldata manifestId) external view returns (uint256 timestamp, string supersededBy, string reason)',
+  'function isRegistrar(address) external view returns (bool)',
+]);
+
+/** JSON with object keys sorted at every level, so the signed text doesn't depend on key order */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/** The text the issuer signs */
+export const proofBundleMessage = (bundle: UnsignedProofBundle): string =>
+  `Akave AI Hub proof bundle\n${canonicalJson(bundle)}`;
+
+const isHex32 = (value: unknown): value is string => typeof value === 'string' && /^0x[0-9a-fA-F]{64}$/.test(value);
+
+/**
+ * Check the bundle's shape, so verification can rely on it
+ */
+export const isProofBundle = (value: unknown): value is ProofBundle => {
+  const bundle = value as ProofBundle;
+  if (!bundle || typeof bundle !== 'object' || bundle.version !== PROOF_BUNDLE_VERSION) return false;
+
+  const { manifest, chain, anchor } = bundle;
+  if (
+    !manifest || typeof manifest.id !== 'string' || typeof manifest.sha256 !== 'string' ||
+    typeof manifest.size !== 'number' || typeof manifest.filename !== 'string'
+  ) return false;
+  if (!chain || !Number.isInteger(chain.chainId) || !isAddress(chain.contractAddress)) return false;
+  if (!isAddress(bundle.issuer) || typeof bundle.signature !== 'string' || typeof bundle.issuedAt !== 'string') return false;
+
+  if (anchor?.type === 'merkle') {
+    return isHex32(anchor.leaf) && isHex32(anchor.root) && Array.isArray(anchor.proof) && anchor.proof.every(isHex32) &&
+      (anchor.txHash === null || isHex32(anchor.txHash));
+  }
+  if (anchor?.type === 'direct') {
+    return isHex32(anchor.txHash) && Number.isInteger(anchor.blockNumber);
+  }
+  return false;
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Verify a bundle, and the file it is for if given. Offline checks cover the issuer's
+ * signature, the file's hash and the manifest's Merkle proof; with a provider, the anchor,
+ * its transaction, the issuer's registrar rights and the manifest's revocation are read
+ * from the chain. Without the chain the bundle is at best unverified.
+ */
+export const verifyProofBundle = async (
+  value: unknown,
+  options: VerifyProofBundleOptions = {}
+): Promise<ProofBundleVerification> => {
+  if (!isProofBundle(value)) {
+    const checks: ProofBundleCheck[] = [{ name: 'format', passed: false, detail: 'Not a version 1 proof bundle.' }];
+    return { status: 'invalid', valid: false, onChain: false, checks };
+  }
+
+  const bundle = value;
+  const { manifest, anchor } = bundle;
+  const checks: ProofBundleCheck[] = [{ name: 'format', passed: true }];
+  const check = (name: ProofBundleCheckName, passed: boolean | null, detail?: string) =>
+    checks.push(detail === undefined ? { name, passed } : { name, passed, detail });
+
+  // 1. The issuer signed exactly this bundle
+  const { signature, ...unsigned } = bundle;
+  try {
+    check('signature', getAddress(verifyMessage(proofBundleMessage(unsigned), signature)) === getAddress(bundle.issuer));
+  } catch (error) {
+    check('signature', false, errorMessage(error));
+  }
+
+  const registry = options.registry ?? bundle.chain;
+  const expectedRegistry =
+    registry.chainId === bundle.chain.chainId && getAddress(registry.contractAddress) === getAddress(bundle.chain.contractAddress);
+  check('registry', expectedRegistry, options.registry ? undefined : 'Taken from the bundle.');
+
+  // 2. The file is the one the manifest describes
+  if (options.file) {
+    const digest = options.file instanceof Uint8Array
+      ? { sha256: sha256(options.file).slice(2), size: options.file.length }
+      : options.file;
+    check('fileHash', manifestHashToBytes32(digest.sha256) === manifestHashToBytes32(manifest.sha256));
+    check('fileSize', digest.size === manifest.size);
+  } else {
+    check('fileHash', null, 'No file given.');
+    check('fileSize', null, 'No file given.');
+  }
+
+  // 3. The manifest is under the anchored root
+  if (anchor.type === 'merkle') {
+    const leaf = manifestLeaf(manifest.id, manifest.sha256);
+    check('inclusion', leaf === anchor.leaf && verifyMerkleProof(leaf, anchor.proof, anchor.root));
+  } else {
+    check('inclusion', true, 'Registered individually.');
+  }
+
+  // 4. What the chain says
+  const chainChecks: ProofBundleCheckName[] = ['chainId', 'anchorOnChain', 'transaction', 'issuerIsRegistrar', 'notRevoked'];
+  if (!options.provider) {
+    chainChecks.forEach(name => check(name, null, 'No provider given.'));
+  } else if (!expectedRegistry) {
+    // Whatever another contract says proves nothing
+    chainChecks.forEach(name => check(name, null, 'Not the expected registry.'));
+  } else {
+    await verifyOnChain(bundle, options.provider, check);
+  }
+
+  // The signature only shows who issued the bundle; the chain says whether that means anything
+  const passed = (name: ProofBundleCheckName) => checks.find(c => c.name === name)?.passed;
+  const required: ProofBundleCheckName[] = ['signature', 'inclusion', 'anchorOnChain', 'issuerIsRegistrar'];
+  const status = checks.some(c => c.passed === false)
+    ? 'invalid'
+    : required.every(name => passed(name) === true) ? 'valid' : 'unverified';
+  return {
+    status,
+    valid: status === 'valid',
+    onChain: chainChecks.every(name => passed(name) === true),
+    checks,
+  };
+};
+
+const verifyOnChain = async (
+  bundle: ProofBundle,
+  provider: Provider,
+  check: (name: ProofBundleCheckName, passed: boolean | null, detail?: string) => void
+): Promise<void> => {
+  const { manifest, anchor } = bundle;
+  const contractAddress = getAddress(bundle.chain.contractAddress);
+  const contract = new Contract(contractAddress, registryInterface, provider);
+  const hash = manifestHashToBytes32(manifest.sha256);
+
+  try {
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== BigInt(bundle.chain.chainId)) {
+      check('chainId', false, `The provider is on chain ${chainId}.`);
+      ['anchorOnChain', 'transaction', 'issuerIsRegistrar', 'notRevoked'].forEach(name =>
+        check(name as ProofBundleCheckName, null, 'Wrong chain.')
+      );
+      return;
+    }
+    check('chainId', true);
+  } catch (error) {
+    check('chainId', null, errorMessage(error));
+  }
+
+  try {
+    if (anchor.type === 'merkle') {
+      const [leafCount, timestamp]: [bigint, bigint] = await contract.getRoot(anchor.root);
+      check('anchorOnChain', timestamp !== 0n && Number(leafCount) === anchor.leafCount);
+    } else {
+      check('anchorOnChain', (await contract.getManifestHash(manifest.id)) === hash);
+    }
+  } catch (error) {
+    check('anchorOnChain', null, errorMessage(error));
+  }
+
+  if (anchor.txHash) {
+    try {
+      const receipt = await provider.getTransactionReceipt(anchor.txHash);
+      const emitted = receipt?.status === 1 && receipt.logs.some(log => {
+        if (getAddress(log.address) !== contractAddress) return false;
+        const parsed = registryInterface.parseLog(log);
+        return anchor.type === 'merkle'
+          ? parsed?.name === 'RootAnchored' && parsed.args.root === anchor.root
+          : parsed?.name === 'ManifestRegistered' && parsed.args.manifestId.hash === id(manifest.id) && parsed.args.hash === hash;
+      });
+      check('transaction', !!emitted && receipt!.blockNumber === anchor.blockNumber);
+    } catch (error) {
+      check('transaction', null, errorMessage(error));
+    }
+  } else {
+    check('transaction', null, 'The bundle names no transaction.');
+  }
+
+  try {
+    check('issuerIsRegistrar', await contract.isRegistrar(bundle.issuer));
+  } catch (error) {
+    check('issuerIsRegistrar', null, errorMessage(error));
+  }
+
+  try {
+    const [timestamp, supersededBy, reason]: [bigint, string, string] = await contract.getRevocation(manifest.id);
+    if (timestamp === 0n) {
+      check('notRevoked', true);
+    } else {
+      check('notRevoked', false, supersededBy ? `Revoked (${reason}); superseded by ${supersededBy}.` : `Revoked (${reason}).`);
+    }
+  } catch (error) {
+    check('notRevoked', null, errorMessage(error));
+  }
+};
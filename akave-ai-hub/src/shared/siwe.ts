@@ -0,0 +1,274 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) messages, shared by the hub and the frontend.
+ * Builds, parses and checks the message fields, and maps them to EIP-712 typed data;
+ * signature recovery is left to the caller.
+ */
+
+export interface SiweMessage {
+  /** Scheme of the requesting origin, when it isn't https */
+  scheme?: string;
+  /** host[:port] the user is signing in to */
+  domain: string;
+  /** EIP-55 checksummed address of the signer */
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SiweValidationOptions {
+  /** Domains this deployment accepts sign-ins for */
+  domains: string[];
+  chainIds: number[];
+  /** The nonce the server issued, if it is checked here */
+  nonce?: string;
+  now?: Date;
+  /** Reject messages without an Expiration Time */
+  requireExpiration?: boolean;
+  /** Tolerated clock difference for Issued At, in seconds */
+  clockSkewSeconds?: number;
+}
+
+/** How the message was signed: personal_sign over the text, or eth_signTypedData_v4 */
+export type SiweSignatureType = 'eip191' | 'eip712';
+
+export const SIWE_SIGNATURE_TYPES: SiweSignatureType[] = ['eip191', 'eip712'];
+
+/** The message as EIP-712 typed data, in the (domain, types, value) form ethers signs */
+export interface SiweTypedData {
+  domain: { name: string; version: string; chainId: number };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  value: Record<string, unknown>;
+}
+
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const HEADER_PATTERN = /^(?:([a-zA-Z][a-zA-Z0-9+.-]*):\/\/)?([^\s/?#]+)$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+
+// The tagged fields, in the order the message lists them
+const FIELDS: Array<[keyof SiweMessage, string, boolean]> = [
+  ['uri', 'URI', true],
+  ['version', 'Version', true],
+  ['chainId', 'Chain ID', true],
+  ['nonce', 'Nonce', true],
+  ['issuedAt', 'Issued At', true],
+  ['expirationTime', 'Expiration Time', false],
+  ['notBefore', 'Not Before', false],
+  ['requestId', 'Request ID', false],
+];
+
+const isTimestamp = (value: string): boolean => /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+
+const checkFields = (message: SiweMessage): void => {
+  if (!message.domain || /\s/.test(message.domain)) {
+    throw new SiweError('Invalid domain.');
+  }
+  if (!ADDRESS_PATTERN.test(message.address)) {
+    throw new SiweError('Invalid address.');
+  }
+  if (message.statement !== undefined && /\n/.test(message.statement)) {
+    throw new SiweError('The statement must be a single line.');
+  }
+  if (!message.uri) {
+    throw new SiweError('Invalid URI.');
+  }
+  if (message.version !== '1') {
+    throw new SiweError('Unsupported version.');
+  }
+  if (!Number.isSafeInteger(message.chainId) || message.chainId <= 0) {
+    throw new SiweError('Invalid chain ID.');
+  }
+  if (!NONCE_PATTERN.test(message.nonce)) {
+    throw new SiweError('The nonce must be at least 8 alphanumeric characters.');
+  }
+  for (const [key, label] of [['issuedAt', 'Issued At'], ['expirationTime', 'Expiration Time'], ['notBefore', 'Not Before']] as const) {
+    const value = message[key];
+    if (value !== undefined && !isTimestamp(value)) {
+      throw new SiweError(`${label} must be an ISO 8601 timestamp.`);
+    }
+  }
+};
+
+export const buildSiweMessage = (message: SiweMessage): string => {
+  checkFields(message);
+
+  const origin = message.scheme ? `${message.scheme}://${message.domain}` : message.domain;
+  const lines = [`${origin}${HEADER_SUFFIX}`, message.address, ''];
+  if (message.statement !== undefined) {
+    lines.push(message.statement);
+  }
+  lines.push('');
+
+  for (const [key, label] of FIELDS) {
+    const value = message[key];
+    if (value !== undefined) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  }
+  return lines.join('\n');
+};
+
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const lines = text.split('\n');
+
+  const header = lines[0] ?? '';
+  const origin = header.endsWith(HEADER_SUFFIX) ? header.slice(0, -HEADER_SUFFIX.length) : null;
+  const originMatch = origin !== null ? HEADER_PATTERN.exec(origin) : null;
+  if (!originMatch) {
+    throw new SiweError('Not a Sign-In with Ethereum message.');
+  }
+  if (lines[2] !== '') {
+    throw new SiweError('Malformed message: expected a blank line after the address.');
+  }
+
+  // An optional statement sits between two blank lines
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index];
+    index++;
+    if (lines[index] !== '') {
+      throw new SiweError('Malformed message: expected a blank line after the statement.');
+    }
+  }
+  index++;
+
+  const values: Record<string, string> = {};
+  for (const [key, label, required] of FIELDS) {
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(`${label}: `)) {
+      values[key] = line.slice(label.length + 2);
+      index++;
+    } else if (required) {
+      throw new SiweError(`Malformed message: missing ${label}.`);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    resources = [];
+    index++;
+    while (index < lines.length && lines[index].startsWith('- ')) {
+      resources.push(lines[index].slice(2));
+      index++;
+    }
+  }
+  if (index !== lines.length) {
+    throw new SiweError(`Malformed message: unexpected line ${index + 1}.`);
+  }
+
+  if (!/^[0-9]+$/.test(values.chainId)) {
+    throw new SiweError('Invalid chain ID.');
+  }
+
+  const message: SiweMessage = {
+    scheme: originMatch[1],
+    domain: originMatch[2],
+    address: lines[1],
+    statement,
+    uri: values.uri,
+    version: values.version as '1',
+    chainId: Number(values.chainId),
+    nonce: values.nonce,
+    issuedAt: values.issuedAt,
+    expirationTime: values.expirationTime,
+    notBefore: values.notBefore,
+    requestId: values.requestId,
+    resources,
+  };
+  checkFields(message);
+  return message;
+};
+
+const TYPED_DATA_TYPES: SiweTypedData['types'] = {
+  SignIn: [
+    { name: 'domain', type: 'string' },
+    { name: 'address', type: 'address' },
+    { name: 'statement', type: 'string' },
+    { name: 'uri', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'nonce', type: 'string' },
+    { name: 'issuedAt', type: 'string' },
+    { name: 'expirationTime', type: 'string' },
+    { name: 'notBefore', type: 'string' },
+    { name: 'requestId', type: 'string' },
+    { name: 'resources', type: 'string[]' },
+  ],
+};
+
+/**
+ * The same fields as EIP-712 typed data, for wallets that sign structured data. Absent
+ * optional fields are empty strings, so the text and typed forms describe one message.
+ */
+export const siweTypedData = (message: SiweMessage): SiweTypedData => {
+  checkFields(message);
+  return {
+    domain: { name: 'Akave AI Hub', version: '1', chainId: message.chainId },
+    types: TYPED_DATA_TYPES,
+    value: {
+      domain: message.domain,
+      address: message.address,
+      statement: message.statement ?? '',
+      uri: message.uri,
+      version: message.version,
+      chainId: message.chainId,
+      nonce: message.nonce,
+      issuedAt: message.issuedAt,
+      expirationTime: message.expirationTime ?? '',
+      notBefore: message.notBefore ?? '',
+      requestId: message.requestId ?? '',
+      resources: message.resources ?? [],
+    },
+  };
+};
+
+/**
+ * Check a parsed message against this deployment: the domain it was signed for, the
+ * chain, the nonce and its validity window. Throws a SiweError naming the first problem.
+ */
+export const validateSiweMessage = (message: SiweMessage, options: SiweValidationOptions): void => {
+  const now = (options.now ?? new Date()).getTime();
+  const skew = (options.clockSkewSeconds ?? 60) * 1000;
+
+  if (!options.domains.some(domain => domain.toLowerCase() === message.domain.toLowerCase())) {
+    throw new SiweError(`This message was signed for ${message.domain}, which is not this site.`);
+  }
+  if (!options.chainIds.includes(message.chainId)) {
+    throw new SiweError(`Chain ID ${message.chainId} is not supported.`);
+  }
+  if (options.nonce !== undefined && message.nonce !== options.nonce) {
+    throw new SiweError('Nonce mismatch.');
+  }
+  if (Date.parse(message.issuedAt) > now + skew) {
+    throw new SiweError('The message is issued in the future.');
+  }
+  if (message.expirationTime === undefined) {
+    if (options.requireExpiration) {
+      throw new SiweError('The message must carry an Expiration Time.');
+    }
+  } else if (Date.parse(message.expirationTime) <= now) {
+    throw new SiweError('The message has expired.');
+  }
+  if (message.notBefore !== undefined && Date.parse(message.notBefore) > now + skew) {
+    throw new SiweError('The message is not valid yet.');
+  }
+};
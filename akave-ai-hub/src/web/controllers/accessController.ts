@@ -0,0 +1,89 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AuthorizationService, AccessControlError } from '../services/authorizationService';
+
+export class AccessController {
+  constructor(private authorizationService: AuthorizationService) {}
+
+  /**
+   * List who besides the owner can access a file; owner only
+   */
+  public listGrants = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const grants = await this.authorizationService.listGrants(req.user.id, req.params.id);
+      if (!grants) {
+        res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: grants });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list access grants.');
+    }
+  };
+
+  /**
+   * Grant a wallet or team access to a file ({ walletAddress | teamId, role: 'reader' | 'writer' })
+   */
+  public grantAccess = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { walletAddress, teamId, role } = req.body || {};
+
+    try {
+      const grant = await this.authorizationService.grant(req.user.id, req.params.id, { walletAddress, teamId, role });
+      if (!grant) {
+        res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Access granted.', data: grant });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to grant access.');
+    }
+  };
+
+  /**
+   * Revoke a grant; the principal comes from the path (/acl/users/:walletAddress or /acl/teams/:teamId)
+   */
+  public revokeAccess = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const principal = req.params.walletAddress !== undefined
+      ? { walletAddress: req.params.walletAddress }
+      : { teamId: req.params.teamId };
+
+    try {
+      const revoked = await this.authorizationService.revoke(req.user.id, req.params.id, principal);
+      if (revoked === null) {
+        res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
+        return;
+      }
+      if (!revoked) {
+        res.status(404).json({ status: 'error', message: 'Grant not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Access revoked.' });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke access.');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof AccessControlError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
@@ -0,0 +1,76 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiTokenService, ApiTokenError } from '../services/apiTokenService';
+
+export class ApiTokenController {
+  constructor(private apiTokenService: ApiTokenService) {}
+
+  /**
+   * Create an API token in the active workspace ({ name, scopes, expiresInDays? }).
+   * The response carries the only copy of the secret.
+   */
+  public createToken = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { name, scopes, expiresInDays } = req.body || {};
+
+    try {
+      const created = await this.apiTokenService.createToken(req.user.id, req.user.workspaceId, {
+        name,
+        scopes,
+        expiresInDays: expiresInDays === undefined ? undefined : Number(expiresInDays),
+      });
+      res.status(201).json({
+        status: 'success',
+        message: 'API token created. Store it now; it will not be shown again.',
+        data: { ...created.token, token: created.secret },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create API token.');
+    }
+  };
+
+  public listTokens = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const tokens = await this.apiTokenService.listTokens(req.user.id);
+      res.status(200).json({ status: 'success', data: tokens });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list API tokens.');
+    }
+  };
+
+  public revokeToken = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const token = await this.apiTokenService.revokeToken(req.user.id, req.params.id);
+      if (!token) {
+        res.status(404).json({ status: 'error', message: 'API token not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'API token revoked.', data: token });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke API token.');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof ApiTokenError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
@@ -1,100 +1,236 @@
 import { Request, Response } from 'express';
 import { ethers } from 'ethers';
 import * as jose from 'jose';
-import { v4 as uuidv4 } from 'uuid';
 import { DatabaseService } from '../services/databaseService';
+import { WorkspaceService } from '../services/workspaceService';
+import { SiweService } from '../services/siweService';
+import { SessionService, SessionError } from '../services/sessionService';
+import { SiweError } from '../../shared/siwe';
+import { AuthenticatedRequest } from '../middleware/auth';
 
 const JWT_SECRET = process.env.JWT_SECRET;
 if (!JWT_SECRET) {
   throw new Error('JWT_SECRET is not defined in the .env file');
 }
 
-// A temporary store for challenges (nonces)
-const challengeStore: Map<string, string> = new Map();
-
 export class AuthController {
-  constructor(private dbService: DatabaseService) {}
+  private siweService: SiweService;
+
+  constructor(
+    private dbService: DatabaseService,
+    private workspaceService: WorkspaceService,
+    private sessionService: SessionService
+  ) {
+    this.siweService = new SiweService(dbService);
+  }
 
+  /**
+   * Issue a nonce for a Sign-In with Ethereum message. The response also lists the
+   * domains and chain IDs the message may name.
+   */
   public createChallenge = async (req: Request, res: Response): Promise<void> => {
-    const { walletAddress } = req.body;
-    if (!walletAddress || !ethers.isAddress(walletAddress)) {
-      res.status(400).json({ status: 'error', message: 'Valid walletAddress is required.' });
+    const { walletAddress } = req.body || {};
+    if (walletAddress !== undefined && !ethers.isAddress(walletAddress)) {
+      res.status(400).json({ status: 'error', message: 'walletAddress must be a valid address.' });
       return;
     }
 
     try {
-      const nonce = uuidv4();
-      challengeStore.set(walletAddress.toLowerCase(), nonce);
-
-      // Set a timeout to expire the challenge
-      setTimeout(() => {
-        if (challengeStore.get(walletAddress.toLowerCase()) === nonce) {
-          challengeStore.delete(walletAddress.toLowerCase());
-        }
-      }, 5 * 60 * 1000); // 5 minutes
-
-      res.status(200).json({ nonce });
-
+      res.status(200).json(await this.siweService.createNonce(walletAddress));
     } catch (error) {
       console.error('Challenge creation failed:', error);
       res.status(500).json({ status: 'error', message: 'Failed to create challenge.' });
     }
   };
 
+  /**
+   * Verify a signed SIWE message ({ message, signature, signatureType?, workspaceId? }), start
+   * a session and issue an access token with the session's refresh token. signatureType is
+   * 'eip191' (the default) for a signed text message or 'eip712' for the typed-data form.
+   */
   public verifySignature = async (req: Request, res: Response): Promise<void> => {
-    const { walletAddress, signature } = req.body;
-    if (!walletAddress || !signature) {
-      res.status(400).json({ status: 'error', message: 'walletAddress and signature are required.' });
+    const { message, signature, signatureType, workspaceId } = req.body || {};
+    if (!message || !signature) {
+      res.status(400).json({ status: 'error', message: 'message and signature are required.' });
       return;
     }
 
-    const nonce = challengeStore.get(walletAddress.toLowerCase());
-    if (!nonce) {
-      res.status(400).json({ status: 'error', message: 'Challenge not found or expired.' });
+    try {
+      const { address } = await this.siweService.verify(message, signature, signatureType);
+
+      // Find or create the user in the database
+      const user: { id: string; walletAddress: string } = await this.dbService.findOrCreateUser(address);
+
+      // Sign in to the requested workspace, or the personal one
+      const active = await this.workspaceService.resolveActiveWorkspace(
+        user.id,
+        typeof workspaceId === 'string' && workspaceId ? workspaceId : undefined
+      );
+      if (!active) {
+        res.status(403).json({ status: 'error', message: 'You are not a member of that workspace.' });
+        return;
+      }
+
+      const { session, refreshToken } = await this.sessionService.startSession(user.id, active.workspace.id, {
+        userAgent: req.get('user-agent') ?? null,
+        ipAddress: req.ip ?? null,
+      });
+      const token = await this.issueToken(user, active.workspace.id, session.id);
+      res.status(200).json({
+        token,
+        refreshToken,
+        user: { id: user.id, walletAddress: user.walletAddress },
+        workspace: { ...active.workspace, role: active.role },
+      });
+
+    } catch (error) {
+      if (error instanceof SiweError) {
+        res.status(401).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Signature verification failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to verify signature.' });
+    }
+  };
+
+  /**
+   * Exchange a refresh token ({ refreshToken }) for a new access token and its successor.
+   * The session stays in the workspace last switched to, or falls back to the personal one
+   * if the user has since left it.
+   */
+  public refreshSession = async (req: Request, res: Response): Promise<void> => {
+    const { refreshToken } = req.body || {};
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      res.status(400).json({ status: 'error', message: 'refreshToken is required.' });
       return;
     }
 
     try {
-      const message = `Signing in to Akave AI Hub: ${nonce}`;
-      const recoveredAddress = ethers.verifyMessage(message, signature);
+      const { session, refreshToken: next } = await this.sessionService.refresh(refreshToken, req.ip ?? null);
+      const user = await this.dbService.getUserById(session.userId);
+      if (!user) {
+        throw new SessionError('User not found.');
+      }
 
-      if (recoveredAddress.toLowerCase() !== walletAddress.toLowerCase()) {
-        res.status(401).json({ status: 'error', message: 'Signature verification failed.' });
+      let active = session.workspaceId
+        ? await this.workspaceService.resolveActiveWorkspace(user.id, session.workspaceId)
+        : null;
+      if (!active) {
+        active = await this.workspaceService.resolveActiveWorkspace(user.id);
+        if (!active) {
+          throw new Error(`User ${user.id} has no workspace to sign in to`);
+        }
+        await this.sessionService.setWorkspace(session.id, active.workspace.id);
+      }
+
+      const token = await this.issueToken(user, active.workspace.id, session.id);
+      res.status(200).json({
+        token,
+        refreshToken: next,
+        user: { id: user.id, walletAddress: user.walletAddress },
+        workspace: { ...active.workspace, role: active.role },
+      });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        res.status(401).json({ status: 'error', message: error.message });
         return;
       }
+      console.error('Session refresh failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to refresh session.' });
+    }
+  };
 
-      // Signature is valid, so clear the challenge
-      challengeStore.delete(walletAddress.toLowerCase());
+  /**
+   * Sign out the current session, or every session of the user with body.all
+   */
+  public logout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user?.sessionId) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
 
-      // Find or create the user in the database
-      const user: { id: string; walletAddress: string } = await this.dbService.findOrCreateUser(walletAddress);
+    try {
+      const revoked = req.body?.all === true
+        ? await this.sessionService.revokeAllSessions(req.user.id)
+        : Number(await this.sessionService.revokeSession(req.user.id, req.user.sessionId));
+      res.status(200).json({ status: 'success', data: { revoked } });
+    } catch (error) {
+      console.error('Logout failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to sign out.' });
+    }
+  };
 
-      // Ensure JWT_SECRET is defined
-      if (!JWT_SECRET) {
-        throw new Error('JWT_SECRET is not defined');
+  /**
+   * List the user's signed-in sessions, marking the one making the request
+   */
+  public listSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const sessions = await this.sessionService.listSessions(req.user.id, req.user.sessionId);
+      res.status(200).json({ status: 'success', data: sessions });
+    } catch (error) {
+      console.error('Session listing failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list sessions.' });
+    }
+  };
+
+  public revokeSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      if (!(await this.sessionService.revokeSession(req.user.id, req.params.id))) {
+        res.status(404).json({ status: 'error', message: 'Session not found.' });
+        return;
       }
+      res.status(200).json({ status: 'success', message: 'Session signed out.' });
+    } catch (error) {
+      console.error('Session revocation failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to sign out session.' });
+    }
+  };
 
-      // Generate JWT
-      const secret = new TextEncoder().encode(JWT_SECRET);
-      const alg = 'HS256';
-      const token = await new jose.SignJWT({ id: user.id, walletAddress: user.walletAddress })
-        .setProtectedHeader({ alg })
-        .setExpirationTime(process.env.JWT_EXPIRES_IN || '7d')
-        .setIssuedAt()
-        .sign(secret);
+  /**
+   * Exchange the current token for one whose active workspace is body.workspaceId
+   */
+  public switchWorkspace = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user?.sessionId) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
 
-      res.status(200).json({ token });
+    const { workspaceId } = req.body || {};
+    if (typeof workspaceId !== 'string' || !workspaceId) {
+      res.status(400).json({ status: 'error', message: 'workspaceId is required.' });
+      return;
+    }
 
+    try {
+      const active = await this.workspaceService.resolveActiveWorkspace(req.user.id, workspaceId);
+      if (!active) {
+        res.status(404).json({ status: 'error', message: 'Workspace not found or access denied.' });
+        return;
+      }
+
+      await this.sessionService.setWorkspace(req.user.sessionId, active.workspace.id);
+      const token = await this.issueToken(req.user, active.workspace.id, req.user.sessionId);
+      res.status(200).json({ token, workspace: { ...active.workspace, role: active.role } });
     } catch (error) {
-      console.error('Signature verification failed:', error);
-      res.status(500).json({ status: 'error', message: 'Failed to verify signature.' });
+      console.error('Workspace switch failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to switch workspace.' });
     }
   };
 
   public loginWithWallet = async (req: Request, res: Response): Promise<void> => {
-    const { walletAddress, signature } = req.body;
+    const { message, signature } = req.body;
     
-    if (!walletAddress && !signature) {
+    if (!message && !signature) {
       // If no signature provided, create challenge
       await this.createChallenge(req, res);
       return;
@@ -149,4 +285,20 @@ export class AuthController {
       });
     }
   };
+
+  private async issueToken(user: { id: string; walletAddress: string }, workspaceId: string, sessionId: string): Promise<string> {
+    // Ensure JWT_SECRET is defined
+    if (!JWT_SECRET) {
+      throw new Error('JWT_SECRET is not defined');
+    }
+
+    // Generate a short-lived JWT carrying the active workspace and the session it belongs to
+    const secret = new TextEncoder().encode(JWT_SECRET);
+    const alg = 'HS256';
+    return new jose.SignJWT({ id: user.id, walletAddress: user.walletAddress, workspaceId, sid: sessionId })
+      .setProtectedHeader({ alg })
+      .setExpirationTime(process.env.JWT_EXPIRES_IN || '15m')
+      .setIssuedAt()
+      .sign(secret);
+  }
 }
@@ -0,0 +1,166 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { DatasetService, DatasetNotFoundError, DatasetVersionError } from '../services/datasetService';
+
+const parseVersion = (value: unknown): number | null => {
+  const version = parseInt(String(value ?? '').replace(/^v/, ''), 10);
+  return Number.isSafeInteger(version) && version > 0 ? version : null;
+};
+
+export class DatasetController {
+  constructor(private datasetService: DatasetService) {}
+
+  public listDatasets = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || 10;
+    const offset = parseInt(req.query.offset as string, 10) || 0;
+
+    try {
+      const datasets = await this.datasetService.listDatasets(req.user.id, limit, offset);
+      res.status(200).json({ status: 'success', data: datasets });
+    } catch (error) {
+      console.error('Failed to list datasets:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to retrieve datasets.' });
+    }
+  };
+
+  /**
+   * Publish a new version; `name` comes from the URL or, when creating a dataset, the body
+   */
+  public createVersion = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const name = req.params.name || req.body.name;
+    const { manifestId, changelog, description, parentVersion } = req.body;
+
+    if (!name || !manifestId) {
+      res.status(400).json({ status: 'error', message: 'name and manifestId are required.' });
+      return;
+    }
+
+    const parent = parentVersion === undefined || parentVersion === null ? undefined : parseVersion(parentVersion);
+    if (parent === null) {
+      res.status(400).json({ status: 'error', message: 'parentVersion must be a positive version number.' });
+      return;
+    }
+
+    try {
+      const version = await this.datasetService.createVersion(req.user.id, name, {
+        manifestId,
+        changelog,
+        description,
+        parentVersion: parent,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: `Published ${name}@${version.version}.`,
+        data: version,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to publish dataset version.');
+    }
+  };
+
+  public getDataset = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const { dataset, versions } = await this.datasetService.getDataset(req.user.id, req.params.name);
+      res.status(200).json({ status: 'success', data: { ...dataset, versions } });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to retrieve dataset.');
+    }
+  };
+
+  public getVersion = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const version = parseVersion(req.params.version);
+    if (version === null) {
+      res.status(400).json({ status: 'error', message: 'Invalid version number.' });
+      return;
+    }
+
+    try {
+      const lineage = await this.datasetService.getLineage(req.user.id, req.params.name, version);
+      res.status(200).json({
+        status: 'success',
+        data: { ...lineage[0], lineage: lineage.slice(1) },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to retrieve dataset version.');
+    }
+  };
+
+  public diffVersions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ status: 'error', message: 'from and to version numbers are required.' });
+      return;
+    }
+
+    try {
+      const diff = await this.datasetService.diffVersions(req.user.id, req.params.name, from, to);
+      res.status(200).json({ status: 'success', data: diff });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to diff dataset versions.');
+    }
+  };
+
+  public promoteVersion = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const version = parseVersion(req.body.version);
+    if (version === null) {
+      res.status(400).json({ status: 'error', message: 'A version number is required.' });
+      return;
+    }
+
+    try {
+      const dataset = await this.datasetService.promoteVersion(req.user.id, req.params.name, version);
+      res.status(200).json({
+        status: 'success',
+        message: `${dataset.name}@${version} promoted.`,
+        data: dataset,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to promote dataset version.');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof DatasetNotFoundError) {
+      res.status(404).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof DatasetVersionError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
@@ -0,0 +1,134 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { UploadService, DirectUploadError, DirectUploadTarget, InvalidMetadataError } from '../services/uploadService';
+import { IntegrityError } from '../services/akaveService';
+import { toEncryptionRequest, EncryptionKeyError } from '../services/encryptionService';
+import { QuotaExceededError } from '../services/usageService';
+import { sendQuotaExceeded } from '../middleware/quota';
+import { UploadIntent } from '../services/databaseService';
+
+/**
+ * Direct uploads: the client asks for an upload intent, PUTs the bytes straight to the
+ * presigned URL(s) it gets back, then completes the intent so the hub can verify the
+ * object and record its manifest.
+ */
+export class DirectUploadController {
+  constructor(private uploadService: UploadService) {}
+
+  public createIntent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { filename, size, contentType, tags, isMLData, metadata, hash, encrypt, expandArchive } = req.body;
+    const length = Number(size);
+
+    if (!filename || !Number.isSafeInteger(length) || length <= 0) {
+      res.status(400).json({ status: 'error', message: 'filename and a positive size are required.' });
+      return;
+    }
+
+    try {
+      const target = await this.uploadService.createDirectUpload(req.user.id, {
+        filename,
+        size: length,
+        contentType: contentType || 'application/octet-stream',
+        tags,
+        isMLData: isMLData === true || isMLData === 'true',
+        metadata,
+        hash,
+        encryption: toEncryptionRequest(encrypt, req.user.walletAddress),
+        expandArchive: expandArchive === true || expandArchive === 'true',
+        workspaceId: req.user.workspaceId,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Upload intent created.',
+        data: this.toTarget(target),
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create upload intent.');
+    }
+  };
+
+  public completeIntent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const intent = await this.findIntent(req, res);
+    if (!intent) return;
+
+    try {
+      const manifest = await this.uploadService.completeDirectUpload(intent, req.body?.parts);
+      res.status(201).json({
+        status: 'success',
+        message: 'File uploaded successfully.',
+        data: manifest,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to complete upload.');
+    }
+  };
+
+  public cancelIntent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const intent = await this.findIntent(req, res);
+    if (!intent) return;
+
+    try {
+      await this.uploadService.cancelDirectUpload(intent);
+      res.status(204).end();
+    } catch (error) {
+      this.handleError(res, error, 'Failed to cancel upload.');
+    }
+  };
+
+  private async findIntent(req: AuthenticatedRequest, res: Response): Promise<UploadIntent | null> {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return null;
+    }
+
+    try {
+      const intent = await this.uploadService.getDirectUpload(req.params.id);
+      if (!intent || intent.userId !== req.user.id) {
+        res.status(404).json({ status: 'error', message: 'Upload not found.' });
+        return null;
+      }
+      return intent;
+    } catch (error) {
+      console.error('Failed to load upload intent:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to load upload intent.' });
+      return null;
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof QuotaExceededError) {
+      sendQuotaExceeded(res, error);
+      return;
+    }
+    if (
+      error instanceof DirectUploadError ||
+      error instanceof IntegrityError ||
+      error instanceof EncryptionKeyError ||
+      error instanceof InvalidMetadataError
+    ) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+
+  private toTarget({ intent, headers, url, parts }: DirectUploadTarget) {
+    return {
+      id: intent.id,
+      mode: intent.mode,
+      size: intent.size,
+      partSize: intent.partSize,
+      expiresAt: intent.expiresAt,
+      headers,
+      url,
+      parts,
+    };
+  }
+}
@@ -1,23 +1,23 @@
 import { Response } from 'express';
 import fs from 'fs';
-import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { AkaveService } from '../services/akaveService';
 import { DatabaseService } from '../services/databaseService';
-
-// Helper function to compute file hash
-const computeFileHash = (filePath: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const hash = crypto.createHash('sha256');
-    const stream = fs.createReadStream(filePath);
-    stream.on('data', (data) => hash.update(data));
-    stream.on('end', () => resolve(hash.digest('hex')));
-    stream.on('error', (err) => reject(err));
-  });
-};
+import { UploadService, InvalidMetadataError } from '../services/uploadService';
+import { AuthorizationService } from '../services/authorizationService';
+import { encryptionService, readEnvelope, toEncryptionRequest, EncryptionKeyError } from '../services/encryptionService';
+import { ArchiveError, isDirectoryManifest } from '../services/archiveService';
+import { QuotaExceededError } from '../services/usageService';
+import { sendQuotaExceeded } from '../middleware/quota';
 
 export class FileController {
-  constructor(private dbService: DatabaseService, private akaveService: AkaveService) {}
+  constructor(
+    private dbService: DatabaseService,
+    private akaveService: AkaveService,
+    private uploadService: UploadService,
+    private authorizationService: AuthorizationService
+  ) {}
 
   public uploadFile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     if (!req.file) {
@@ -34,24 +34,22 @@ export class FileController {
     const userId = req.user.id;
 
     try {
-      // 1. Compute file hash
-      const hash = await computeFileHash(file.path);
-
-      // 2. Upload to Akave O3
-      const fileKey = `uploads/${userId}/${Date.now()}-${file.originalname}`;
-      await this.akaveService.uploadFile(file, fileKey);
+      const encryption = toEncryptionRequest(
+        req.body.encrypt,
+        req.user.walletAddress,
+        req.body.encryptionSignature || req.header('X-Encryption-Signature')
+      );
 
-      // 3. Create manifest in the database
-      const manifest = await this.dbService.createManifest({
+      const manifest = await this.uploadService.ingestFile(userId, file.path, {
         filename: file.originalname,
-        size: file.size,
-        hash: hash,
         contentType: file.mimetype,
-        tags: JSON.stringify(req.body.tags || []),
+        size: file.size,
+        tags: req.body.tags,
         isMLData: req.body.isMLData === 'true',
-        metadata: JSON.stringify(req.body.metadata || {}),
-        userId: userId,
-        s3Key: fileKey, // Storing the S3 key
+        metadata: req.body.metadata,
+        encryption,
+        expandArchive: req.body.expandArchive === 'true',
+        workspaceId: req.user.workspaceId,
       });
 
       res.status(201).json({ 
@@ -61,10 +59,18 @@ export class FileController {
       });
 
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        sendQuotaExceeded(res, error);
+        return;
+      }
+      if (error instanceof EncryptionKeyError || error instanceof ArchiveError || error instanceof InvalidMetadataError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
       console.error('File upload failed:', error);
       res.status(500).json({ status: 'error', message: 'File upload failed.' });
     } finally {
-      // 4. Clean up the temporary file
+      // Clean up the temporary file
       fs.unlink(file.path, (err) => {
         if (err) console.error('Failed to delete temporary file:', file.path, err);
       });
@@ -79,12 +85,34 @@ export class FileController {
     }
 
     try {
-      const manifest = await this.dbService.getManifestById(id);
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, id, 'reader');
 
-      if (!manifest || manifest.userId !== req.user.id) {
+      if (!manifest) {
         res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
         return;
       }
+      await this.dbService.touchManifest(manifest.id);
+
+      // Encrypted content can't be handed out as a presigned URL; decrypt it on the way through
+      const envelope = readEnvelope(manifest);
+      if (envelope) {
+        const source = await this.akaveService.openStream(manifest.s3Key);
+        let plaintext;
+        try {
+          plaintext = encryptionService.decryptStream(source, envelope, {
+            walletAddress: req.user.walletAddress,
+            walletSignature: req.header('X-Encryption-Signature'),
+          });
+        } catch (error) {
+          source.destroy();
+          throw error;
+        }
+
+        res.setHeader('Content-Type', manifest.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(manifest.filename)}"`);
+        await pipeline(plaintext, res);
+        return;
+      }
 
       const presignedUrl = await this.akaveService.getPresignedUrl(manifest.s3Key);
 
@@ -92,13 +120,112 @@ export class FileController {
       res.redirect(presignedUrl);
 
     } catch (error) {
+      if (error instanceof EncryptionKeyError) {
+        res.status(403).json({ status: 'error', message: error.message });
+        return;
+      }
       console.error('Failed to generate download link:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ status: 'error', message: 'Could not process download request.' });
+      }
+    }
+  };
+
+  /**
+   * Browse an expanded archive one directory level at a time (`?path=images/train/`)
+   */
+  public listEntries = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const dirPath = typeof req.query.path === 'string' ? req.query.path.replace(/^\/+/, '') : '';
+    const prefix = dirPath && !dirPath.endsWith('/') ? `${dirPath}/` : dirPath;
+
+    try {
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, id, 'reader');
+
+      if (!manifest) {
+        res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
+        return;
+      }
+
+      if (!isDirectoryManifest(manifest)) {
+        res.status(400).json({ status: 'error', message: 'File is not an expanded archive.' });
+        return;
+      }
+
+      // Collapse everything below the next path separator into a directory row
+      const directories = new Map<string, { name: string; path: string; fileCount: number; size: number }>();
+      const files = [];
+      for (const entry of await this.dbService.listManifestEntries(id, prefix)) {
+        const rest = entry.path.slice(prefix.length);
+        const slash = rest.indexOf('/');
+        if (slash === -1) {
+          files.push({ name: rest, path: entry.path, size: entry.size, hash: entry.hash, contentType: entry.contentType });
+          continue;
+        }
+
+        const name = rest.slice(0, slash);
+        const directory = directories.get(name) ?? { name, path: `${prefix}${name}/`, fileCount: 0, size: 0 };
+        directory.fileCount++;
+        directory.size += entry.size;
+        directories.set(name, directory);
+      }
+
+      if (prefix && directories.size === 0 && files.length === 0) {
+        res.status(404).json({ status: 'error', message: `Directory ${prefix} not found.` });
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: { path: prefix, directories: Array.from(directories.values()), files },
+      });
+    } catch (error) {
+      console.error('Failed to list archive entries:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to retrieve archive entries.' });
+    }
+  };
+
+  public downloadEntry = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    if (typeof req.query.path !== 'string' || !req.query.path) {
+      res.status(400).json({ status: 'error', message: 'path is required.' });
+      return;
+    }
+
+    try {
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, id, 'reader');
+
+      if (!manifest) {
+        res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
+        return;
+      }
+
+      const entry = await this.dbService.getManifestEntry(id, req.query.path);
+      if (!entry) {
+        res.status(404).json({ status: 'error', message: 'Entry not found.' });
+        return;
+      }
+      await this.dbService.touchManifest(manifest.id);
+
+      res.redirect(await this.akaveService.getPresignedUrl(entry.s3Key));
+    } catch (error) {
+      console.error('Failed to generate entry download link:', error);
       res.status(500).json({ status: 'error', message: 'Could not process download request.' });
     }
   };
 
   public listFiles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -108,7 +235,10 @@ export class FileController {
     const offset = parseInt(req.query.offset as string, 10) || 0;
 
     try {
-      const files = await this.dbService.listManifestsByUser(userId, limit, offset);
+      // ?scope=shared lists the files from outside the active workspace granted to this user
+      const files = req.query.scope === 'shared'
+        ? await this.dbService.listManifestsSharedWith(userId, req.user.workspaceId, limit, offset)
+        : await this.dbService.listManifestsByWorkspace(req.user.workspaceId, limit, offset);
       res.status(200).json({ 
         status: 'success',
         data: files 
@@ -127,18 +257,26 @@ export class FileController {
     }
 
     try {
-      const manifest = await this.dbService.getManifestById(id);
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, id, 'owner');
 
-      if (!manifest || manifest.userId !== req.user.id) {
+      if (!manifest) {
         res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
         return;
       }
 
-      // 1. Delete from Akave O3
-      await this.akaveService.deleteFile(manifest.s3Key);
+      // Published dataset versions are immutable, so the files they pin can't be removed
+      if (await this.dbService.countDatasetVersionsForManifest(id) > 0) {
+        res.status(409).json({ status: 'error', message: 'File is published as a dataset version and cannot be deleted.' });
+        return;
+      }
 
-      // 2. Delete from database
-      await this.dbService.deleteManifest(id);
+      // 1. Delete from database, releasing this manifest's references on the stored objects
+      const { releasedKeys } = await this.dbService.deleteManifest(id);
+
+      // 2. Delete from Akave O3 the objects no other manifest shares
+      for (const releasedKey of releasedKeys) {
+        await this.akaveService.deleteFile(releasedKey);
+      }
 
       res.status(200).json({ 
         status: 'success',
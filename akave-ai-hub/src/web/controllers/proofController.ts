@@ -1,14 +1,32 @@
 import { Response } from 'express';
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { BlockchainService } from '../services/blockchainService';
 import { DatabaseService } from '../services/databaseService';
+import { AuthorizationService } from '../services/authorizationService';
+import { AnchorService, AnchoringDisabledError } from '../services/anchorService';
+import { ProofJobView, ProofQueueService } from '../services/proofQueueService';
+import { RevocationConflictError, RevocationService } from '../services/revocationService';
+import { ProofBundleError, ProofBundleService } from '../services/proofBundleService';
 
 export class ProofController {
   constructor(
     private dbService: DatabaseService,
-    private blockchainService: BlockchainService
+    private blockchainService: BlockchainService,
+    private authorizationService: AuthorizationService,
+    private anchorService: AnchorService,
+    private proofQueue: ProofQueueService,
+    private revocationService: RevocationService,
+    private proofBundleService: ProofBundleService
   ) {}
 
+  /**
+   * Queue the manifest for the next anchor batch. Answers 202 while it waits, and 200 with
+   * the proof once it is anchored.
+   */
   public registerProof = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const { manifestId } = req.body;
     if (!manifestId) {
@@ -23,32 +41,93 @@ export class ProofController {
 
     try {
       // 1. Fetch the manifest from the database
-      const manifest = await this.dbService.getManifestById(manifestId);
-      if (!manifest || manifest.userId !== req.user.id) {
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, manifestId, 'writer');
+      if (!manifest) {
         res.status(404).json({ status: 'error', message: 'Manifest not found or access denied.' });
         return;
       }
 
-      // 2. Register the hash on the blockchain
-      const txHash = await this.blockchainService.registerManifest(manifest.id, manifest.hash);
+      // 2. Queue its hash; the batch's Merkle root is what goes on-chain
+      const anchor = await this.anchorService.enqueue(manifest, req.user.id);
+      const anchored = anchor.status === 'anchored';
 
-      // 3. (Optional) Store the transaction hash in the manifest's metadata
-      const metadata = JSON.parse(manifest.metadata || '{}');
-      metadata.onChainProof = { txHash, registeredAt: new Date().toISOString() };
-      await this.dbService.updateManifest(manifest.id, { metadata: JSON.stringify(metadata) });
-
-      res.status(200).json({ 
-        status: 'success', 
-        message: 'Manifest registered on-chain successfully.',
-        transactionHash: txHash
+      res.status(anchored ? 200 : 202).json({
+        status: 'success',
+        message: anchored ? 'Manifest is already anchored on-chain.' : 'Manifest queued for the next anchor batch.',
+        data: anchor
       });
 
     } catch (error: any) {
+      if (error instanceof AnchoringDisabledError) {
+        res.status(503).json({ status: 'error', message: error.message });
+        return;
+      }
       console.error('Proof registration failed:', error);
       res.status(500).json({ status: 'error', message: error.message || 'Failed to register proof.' });
     }
   };
 
+  /**
+   * Revoke a manifest on-chain, optionally naming the manifest that supersedes it. Only its
+   * owner may; answers 202 while the revocation is sent.
+   */
+  public revokeManifest = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { manifestId, reason, supersededBy } = req.body;
+    if (!manifestId || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ status: 'error', message: 'manifestId and reason are required.' });
+      return;
+    }
+    if (supersededBy !== undefined && supersededBy !== null && typeof supersededBy !== 'string') {
+      res.status(400).json({ status: 'error', message: 'supersededBy must be a manifest id.' });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, manifestId, 'owner');
+      if (!manifest) {
+        res.status(404).json({ status: 'error', message: 'Manifest not found or access denied.' });
+        return;
+      }
+      if (supersededBy && !(await this.authorizationService.authorizeManifest(req.user.id, supersededBy, 'reader'))) {
+        res.status(404).json({ status: 'error', message: 'Superseding manifest not found or access denied.' });
+        return;
+      }
+
+      const revocation = await this.revocationService.revoke(manifest.id, req.user.id, {
+        reason: reason.trim(),
+        supersededBy: supersededBy || null,
+      });
+
+      res.status(202).json({
+        status: 'success',
+        message: supersededBy ? 'Manifest supersession queued.' : 'Manifest revocation queued.',
+        data: revocation
+      });
+
+    } catch (error: any) {
+      if (error instanceof AnchoringDisabledError) {
+        res.status(503).json({ status: 'error', message: error.message });
+        return;
+      }
+      if (error instanceof RevocationConflictError) {
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Manifest revocation failed:', error);
+      res.status(500).json({ status: 'error', message: error.message || 'Failed to revoke manifest.' });
+    }
+  };
+
+  /**
+   * Verify a manifest's hash: offline against its batch's anchored root and inclusion proof,
+   * or for manifests registered one by one, against the hash stored on-chain. A revoked
+   * manifest never verifies; the response says why and what supersedes it.
+   */
   public verifyProof = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const { manifestId } = req.params;
     if (!manifestId) {
@@ -64,14 +143,36 @@ export class ProofController {
         return;
       }
 
-      // 2. Verify the hash against the blockchain
+      // 2. A revoked manifest fails whatever its proof says
+      const revocation = await this.revocationService.getRevocation(manifest.id);
+      const revoked = revocation?.status === 'revoked';
+
+      // 3. Batched manifests carry their own proof
+      const anchor = await this.anchorService.getAnchor(manifest.id);
+      if (anchor) {
+        res.status(200).json({
+          status: 'success',
+          isValid: !revoked && this.anchorService.verifyInclusion(manifest, anchor) === true,
+          revoked,
+          supersededBy: revoked ? revocation!.supersededBy : null,
+          localHash: manifest.hash,
+          anchor,
+          revocation
+        });
+        return;
+      }
+
+      // 4. Otherwise verify the hash against the blockchain
       const isValid = await this.blockchainService.verifyManifest(manifest.id, manifest.hash);
 
       res.status(200).json({ 
         status: 'success', 
-        isValid, 
+        isValid: !revoked && isValid, 
+        revoked,
+        supersededBy: revoked ? revocation!.supersededBy : null,
         onChainHash: await this.blockchainService.getManifestHash(manifest.id),
-        localHash: manifest.hash
+        localHash: manifest.hash,
+        revocation
       });
 
     } catch (error: any) {
@@ -79,4 +180,169 @@ export class ProofController {
       res.status(500).json({ status: 'error', message: error.message || 'Failed to verify proof.' });
     }
   };
+
+  /**
+   * Download a signed proof bundle for the manifest, verifiable without the hub
+   */
+  public downloadBundle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, req.params.manifestId, 'reader');
+      if (!manifest) {
+        res.status(404).json({ status: 'error', message: 'Manifest not found or access denied.' });
+        return;
+      }
+
+      const bundle = await this.proofBundleService.createBundle(manifest);
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(manifest.id)}.proof.json"`);
+      res.status(200).json(bundle);
+    } catch (error: any) {
+      if (error instanceof AnchoringDisabledError) {
+        res.status(503).json({ status: 'error', message: error.message });
+        return;
+      }
+      if (error instanceof ProofBundleError) {
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Failed to create proof bundle:', error);
+      res.status(500).json({ status: 'error', message: error.message || 'Failed to create proof bundle.' });
+    }
+  };
+
+  /**
+   * Verify a proof bundle, and the file's bytes if uploaded, against the chain only. The
+   * bundle comes as JSON, or as a multipart field next to the file.
+   */
+  public verifyBundle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const file = req.file;
+
+    try {
+      let bundle: unknown = req.body?.bundle;
+      if (typeof bundle === 'string') {
+        try {
+          bundle = JSON.parse(bundle);
+        } catch {
+          res.status(400).json({ status: 'error', message: 'bundle must be JSON.' });
+          return;
+        }
+      }
+      if (!bundle) {
+        res.status(400).json({ status: 'error', message: 'bundle is required.' });
+        return;
+      }
+
+      let digest: { sha256: string; size: number } | undefined;
+      if (file) {
+        const hash = crypto.createHash('sha256');
+        await pipeline(fs.createReadStream(file.path), hash);
+        digest = { sha256: hash.digest('hex'), size: file.size };
+      }
+
+      const verification = await this.proofBundleService.verifyBundle(bundle, digest);
+      res.status(200).json({ status: 'success', data: verification });
+    } catch (error: any) {
+      console.error('Proof bundle verification failed:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to verify proof bundle.' });
+    } finally {
+      if (file) {
+        fs.unlink(file.path, err => {
+          if (err) console.error('Failed to delete uploaded file:', err);
+        });
+      }
+    }
+  };
+
+  /**
+   * Registry events read from the chain, newest first, filtered by event, registrant,
+   * manifest id, origin and time
+   */
+  public listEvents = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 500);
+    const offset = parseInt(req.query.offset as string, 10) || 0;
+    const { event, registrant, manifestId, external, since, until } = req.query;
+
+    if (event !== undefined && event !== 'ManifestRegistered' && event !== 'RootAnchored') {
+      res.status(400).json({ status: 'error', message: 'event must be ManifestRegistered or RootAnchored.' });
+      return;
+    }
+    if (registrant !== undefined && (typeof registrant !== 'string' || !ethers.isAddress(registrant))) {
+      res.status(400).json({ status: 'error', message: 'registrant must be an address.' });
+      return;
+    }
+    for (const [name, value] of Object.entries({ since, until })) {
+      if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+        res.status(400).json({ status: 'error', message: `${name} must be a date.` });
+        return;
+      }
+    }
+
+    try {
+      const events = await this.blockchainService.listIndexedEvents(
+        {
+          event,
+          registrant,
+          manifestId: typeof manifestId === 'string' && manifestId ? manifestId : undefined,
+          external: external === undefined ? undefined : external === 'true',
+          since: since ? new Date(since as string).toISOString() : undefined,
+          until: until ? new Date(until as string).toISOString() : undefined,
+        },
+        limit,
+        offset
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: events.map(e => ({ ...e, external: e.external === 1 }))
+      });
+    } catch (error: any) {
+      console.error('Failed to list registry events:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list registry events.' });
+    }
+  };
+
+  /**
+   * A proof job's status, with every transaction sent for it. Only the user who queued it
+   * may see it, or, for a batch anchor, anyone who can read one of the batch's manifests.
+   */
+  public getJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const job = await this.proofQueue.getJob(req.params.jobId);
+      if (!job || !(await this.canSeeJob(req.user.id, job))) {
+        res.status(404).json({ status: 'error', message: 'Proof job not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: job });
+    } catch (error: any) {
+      console.error('Failed to fetch proof job:', error);
+      res.status(500).json({ status: 'error', message: error.message || 'Failed to fetch proof job.' });
+    }
+  };
+
+  private async canSeeJob(userId: string, job: ProofJobView): Promise<boolean> {
+    if (job.userId) {
+      return job.userId === userId;
+    }
+    if (job.kind !== 'anchor_root') {
+      return false;
+    }
+
+    const { batchId } = job.payload as { batchId: string };
+    const requesters = await this.dbService.listAnchorBatchRequesters(batchId);
+    for (const manifestId of requesters.flatMap(requester => requester.manifestIds)) {
+      if (await this.authorizationService.authorizeManifest(userId, manifestId, 'reader')) {
+        return true;
+      }
+    }
+    return false;
+  }
 }
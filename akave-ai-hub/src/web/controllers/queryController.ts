@@ -2,23 +2,25 @@ import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { QueryService, QueryRequest } from '../services/queryService';
 import { DatabaseService } from '../services/databaseService';
+import { AuthorizationService } from '../services/authorizationService';
 
 export class QueryController {
   constructor(
     private dbService: DatabaseService,
-    private queryService: QueryService
+    private queryService: QueryService,
+    private authorizationService: AuthorizationService
   ) {}
 
   /**
    * Execute a SQL query on structured datasets
    */
   public executeQuery = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
 
-    const { query, datasetIds, outputFormat, limit } = req.body;
+    const { query, datasetIds, outputFormat, limit, encryptionSignature } = req.body;
 
     // Validate required fields
     if (!query || !datasetIds || !Array.isArray(datasetIds) || datasetIds.length === 0) {
@@ -38,10 +40,10 @@ export class QueryController {
     }
 
     try {
-      // Verify that all datasets belong to the user
+      // Verify that the user can read every dataset
       for (const datasetId of datasetIds) {
-        const manifest = await this.dbService.getManifestById(datasetId);
-        if (!manifest || manifest.userId !== req.user.id) {
+        const manifest = await this.authorizationService.authorizeManifest(req.user.id, datasetId, 'reader');
+        if (!manifest) {
           res.status(404).json({ 
             status: 'error', 
             message: `Dataset ${datasetId} not found or access denied.` 
@@ -54,10 +56,14 @@ export class QueryController {
         query,
         datasetIds,
         outputFormat,
-        limit
+        limit,
+        credentials: {
+          walletAddress: req.user.walletAddress,
+          walletSignature: encryptionSignature || req.header('X-Encryption-Signature')
+        }
       };
 
-      const result = await this.queryService.executeQuery(req.user.id, request);
+      const result = await this.queryService.executeQuery(req.user.id, req.user.workspaceId, request);
 
       res.status(201).json({
         status: 'success',
@@ -78,7 +84,7 @@ export class QueryController {
    * Get query result by ID
    */
   public getQueryResult = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -86,7 +92,7 @@ export class QueryController {
     const { id } = req.params;
 
     try {
-      const result = await this.queryService.getQueryResult(req.user.id, id);
+      const result = await this.queryService.getQueryResult(req.user.workspaceId, id);
       
       if (!result) {
         res.status(404).json({ 
@@ -111,10 +117,10 @@ export class QueryController {
   };
 
   /**
-   * List query results for the authenticated user
+   * List query results in the active workspace
    */
   public listQueryResults = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -123,7 +129,7 @@ export class QueryController {
     const offset = parseInt(req.query.offset as string, 10) || 0;
 
     try {
-      const results = await this.queryService.listQueryResults(req.user.id, limit, offset);
+      const results = await this.queryService.listQueryResults(req.user.workspaceId, limit, offset);
       
       res.status(200).json({
         status: 'success',
@@ -155,16 +161,16 @@ export class QueryController {
   };
 
   /**
-   * Get available structured datasets for the user
+   * Get available structured datasets in the active workspace
    */
   public getStructuredDatasets = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
 
     try {
-      const datasets = await this.queryService.getStructuredDatasets(req.user.id);
+      const datasets = await this.queryService.getStructuredDatasets(req.user.workspaceId);
 
       res.status(200).json({
         status: 'success',
@@ -192,9 +198,9 @@ export class QueryController {
     const { id } = req.params;
 
     try {
-      // Verify dataset belongs to user
-      const manifest = await this.dbService.getManifestById(id);
-      if (!manifest || manifest.userId !== req.user.id) {
+      // Verify the user can read the dataset
+      const manifest = await this.authorizationService.authorizeManifest(req.user.id, id, 'reader');
+      if (!manifest) {
         res.status(404).json({ 
           status: 'error', 
           message: 'Dataset not found or access denied.' 
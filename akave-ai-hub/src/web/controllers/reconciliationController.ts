@@ -0,0 +1,87 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ReconciliationService, ReconciliationInProgressError } from '../services/reconciliationService';
+import { DatabaseService } from '../services/databaseService';
+
+const isTrue = (value: unknown) => value === true || value === 'true';
+
+export class ReconciliationController {
+  constructor(
+    private dbService: DatabaseService,
+    private reconciliationService: ReconciliationService
+  ) {}
+
+  public startRun = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { deep, repair, prefix } = req.body || {};
+
+    try {
+      const run = await this.reconciliationService.start({
+        deep: isTrue(deep),
+        repair: isTrue(repair),
+        prefix: typeof prefix === 'string' && prefix ? prefix : undefined,
+      });
+
+      res.status(202).json({
+        status: 'success',
+        message: 'Reconciliation started.',
+        data: { id: run.id, status: run.status, startedAt: run.startedAt },
+      });
+    } catch (error) {
+      if (error instanceof ReconciliationInProgressError) {
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Failed to start reconciliation:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to start reconciliation.' });
+    }
+  };
+
+  public listRuns = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    try {
+      const runs = await this.dbService.listReconciliationRuns(limit, offset);
+      res.status(200).json({
+        status: 'success',
+        data: {
+          running: this.reconciliationService.isRunning(),
+          runs: runs.map(run => ({
+            ...run,
+            options: JSON.parse(run.options || '{}'),
+            summary: JSON.parse(run.summary || '{}'),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to list reconciliation runs:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list reconciliation runs.' });
+    }
+  };
+
+  public getRun = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const run = await this.dbService.getReconciliationRun(req.params.id);
+      if (!run) {
+        res.status(404).json({ status: 'error', message: 'Reconciliation run not found.' });
+        return;
+      }
+
+      const issues = JSON.parse(run.issues || '[]');
+      const type = req.query.type as string | undefined;
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          ...run,
+          options: JSON.parse(run.options || '{}'),
+          summary: JSON.parse(run.summary || '{}'),
+          issues: type ? issues.filter((issue: { type: string }) => issue.type === type) : issues,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to get reconciliation run:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get reconciliation run.' });
+    }
+  };
+}
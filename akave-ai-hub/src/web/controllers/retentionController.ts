@@ -0,0 +1,75 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  RetentionService,
+  RetentionInProgressError,
+  RetentionRuleError,
+  validateRetentionRules,
+} from '../services/retentionService';
+
+export class RetentionController {
+  constructor(private retentionService: RetentionService) {}
+
+  public getStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    res.status(200).json({
+      status: 'success',
+      data: {
+        running: this.retentionService.isRunning(),
+        enforcing: process.env.RETENTION_ENFORCE === 'true',
+        rules: this.retentionService.getRules(),
+        lastReport: this.retentionService.getLastReport(),
+      },
+    });
+  };
+
+  /**
+   * Report what the rules would delete without touching anything. Pass `rules` in the
+   * body to preview a rule change instead of the loaded rules.
+   */
+  public dryRun = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const rules = req.body?.rules !== undefined ? validateRetentionRules(req.body.rules) : undefined;
+      const report = await this.retentionService.sweep({ dryRun: true, rules });
+      res.status(200).json({ status: 'success', data: report });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to evaluate retention rules.');
+    }
+  };
+
+  /**
+   * Delete everything the loaded rules match
+   */
+  public sweep = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const report = await this.retentionService.sweep({ dryRun: false });
+      res.status(200).json({ status: 'success', message: 'Retention sweep completed.', data: report });
+    } catch (error) {
+      this.handleError(res, error, 'Retention sweep failed.');
+    }
+  };
+
+  /**
+   * Re-read RETENTION_RULES_FILE
+   */
+  public reloadRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const rules = await this.retentionService.loadRules();
+      res.status(200).json({ status: 'success', message: 'Retention rules reloaded.', data: rules });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to reload retention rules.');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof RetentionRuleError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof RetentionInProgressError) {
+      res.status(409).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
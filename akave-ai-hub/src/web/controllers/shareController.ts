@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  ShareService,
+  ShareLinkError,
+  ShareLinkUnavailableError,
+  SharePasswordError,
+} from '../services/shareService';
+
+export class ShareController {
+  constructor(private shareService: ShareService) {}
+
+  /**
+   * Create a share link for a file ({ expiresInHours?, maxDownloads?, password? }).
+   * The response carries the only copy of the link's URL.
+   */
+  public createShare = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { expiresInHours, maxDownloads, password } = req.body || {};
+
+    try {
+      const created = await this.shareService.createLink(req.user.id, req.params.id, {
+        expiresInHours: expiresInHours === undefined ? undefined : Number(expiresInHours),
+        maxDownloads: maxDownloads === undefined || maxDownloads === null ? null : Number(maxDownloads),
+        password: password || undefined,
+      });
+      if (!created) {
+        res.status(404).json({ status: 'error', message: 'File not found or access denied.' });
+        return;
+      }
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Share link created.',
+        data: { ...created.link, token: created.token, url: created.url },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create share link.');
+    }
+  };
+
+  public listShares = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const manifestId = req.params.id ?? (typeof req.query.manifestId === 'string' ? req.query.manifestId : undefined);
+      const links = await this.shareService.listLinks(req.user.id, manifestId);
+      res.status(200).json({ status: 'success', data: links });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list share links.');
+    }
+  };
+
+  public revokeShare = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const link = await this.shareService.revokeLink(req.user.id, req.params.id);
+      if (!link) {
+        res.status(404).json({ status: 'error', message: 'Share link not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Share link revoked.', data: link });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke share link.');
+    }
+  };
+
+  public getShareAccesses = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const accesses = await this.shareService.getAccessLog(req.user.id, req.params.id);
+      if (!accesses) {
+        res.status(404).json({ status: 'error', message: 'Share link not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: accesses });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get share link accesses.');
+    }
+  };
+
+  /**
+   * Public: follow a share link straight to the download. Password-protected links take
+   * the password in X-Share-Password, or through redeemShare.
+   */
+  public downloadShare = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const resolved = await this.shareService.resolve(
+        req.params.token,
+        req.header('X-Share-Password'),
+        this.accessContext(req)
+      );
+      if (!resolved) {
+        res.status(404).json({ status: 'error', message: 'Share link not found.' });
+        return;
+      }
+      res.redirect(resolved.url);
+    } catch (error) {
+      this.handleError(res, error, 'Could not process download request.');
+    }
+  };
+
+  /**
+   * Public: exchange a share link (and its password, if any) for a short-lived download URL
+   */
+  public redeemShare = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const resolved = await this.shareService.resolve(
+        req.params.token,
+        req.body?.password || req.header('X-Share-Password'),
+        this.accessContext(req)
+      );
+      if (!resolved) {
+        res.status(404).json({ status: 'error', message: 'Share link not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: resolved });
+    } catch (error) {
+      this.handleError(res, error, 'Could not process download request.');
+    }
+  };
+
+  private accessContext(req: Request) {
+    return { ipAddress: req.ip ?? null, userAgent: req.header('User-Agent') ?? null };
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof ShareLinkError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof SharePasswordError) {
+      res.status(401).json({
+        status: 'error',
+        message: error.message,
+        data: { passwordRequired: true },
+      });
+      return;
+    }
+    if (error instanceof ShareLinkUnavailableError) {
+      res.status(410).json({ status: 'error', message: error.message, data: { reason: error.reason } });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
@@ -0,0 +1,128 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { TeamService, TeamError, TeamPermissionError } from '../services/teamService';
+
+export class TeamController {
+  constructor(private teamService: TeamService) {}
+
+  public createTeam = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const team = await this.teamService.createTeam(req.user.id, req.body?.name);
+      res.status(201).json({ status: 'success', message: 'Team created.', data: team });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create team.');
+    }
+  };
+
+  public listTeams = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const teams = await this.teamService.listTeams(req.user.id);
+      res.status(200).json({ status: 'success', data: teams });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list teams.');
+    }
+  };
+
+  public getTeam = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const team = await this.teamService.getTeam(req.user.id, req.params.id);
+      if (!team) {
+        res.status(404).json({ status: 'error', message: 'Team not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: team });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get team.');
+    }
+  };
+
+  /**
+   * Add a member, or change their role ({ walletAddress, role?: 'admin' | 'member' })
+   */
+  public addMember = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { walletAddress, role } = req.body || {};
+
+    try {
+      const member = await this.teamService.addMember(req.user.id, req.params.id, walletAddress, role);
+      if (!member) {
+        res.status(404).json({ status: 'error', message: 'Team not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Team member saved.', data: member });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to add team member.');
+    }
+  };
+
+  public removeMember = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const removed = await this.teamService.removeMember(req.user.id, req.params.id, req.params.walletAddress);
+      if (removed === null) {
+        res.status(404).json({ status: 'error', message: 'Team not found.' });
+        return;
+      }
+      if (!removed) {
+        res.status(404).json({ status: 'error', message: 'Member not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Team member removed.' });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to remove team member.');
+    }
+  };
+
+  public deleteTeam = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      if (!(await this.teamService.deleteTeam(req.user.id, req.params.id))) {
+        res.status(404).json({ status: 'error', message: 'Team not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Team deleted.' });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete team.');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof TeamError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof TeamPermissionError) {
+      res.status(403).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
@@ -2,6 +2,7 @@ import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { TrainingService, TrainingConfig } from '../services/trainingService';
 import { DatabaseService } from '../services/databaseService';
+import { DatasetNotFoundError } from '../services/datasetService';
 
 export class TrainingController {
   constructor(
@@ -13,15 +14,20 @@ export class TrainingController {
    * Start a new training job
    */
   public startTraining = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
 
-    const { modelName, datasetIds, hyperparameters, framework, customScript } = req.body;
+    const { modelName, datasetIds, hyperparameters, framework, customScript, encryptionSignature } = req.body;
 
     // Validate required fields
-    if (!modelName || !datasetIds || !Array.isArray(datasetIds) || datasetIds.length === 0) {
+    if (
+      !modelName ||
+      !Array.isArray(datasetIds) ||
+      datasetIds.length === 0 ||
+      !datasetIds.every((datasetId: unknown) => typeof datasetId === 'string')
+    ) {
       res.status(400).json({ 
         status: 'error', 
         message: 'modelName and datasetIds are required.' 
@@ -38,27 +44,19 @@ export class TrainingController {
     }
 
     try {
-      // Verify that all datasets belong to the user
-      for (const datasetId of datasetIds) {
-        const manifest = await this.dbService.getManifestById(datasetId);
-        if (!manifest || manifest.userId !== req.user.id) {
-          res.status(404).json({ 
-            status: 'error', 
-            message: `Dataset ${datasetId} not found or access denied.` 
-          });
-          return;
-        }
-      }
-
       const config: TrainingConfig = {
         modelName,
         datasetIds,
         hyperparameters: hyperparameters || {},
         framework,
-        customScript
+        customScript,
+        credentials: {
+          walletAddress: req.user.walletAddress,
+          walletSignature: encryptionSignature || req.header('X-Encryption-Signature')
+        }
       };
 
-      const job = await this.trainingService.startTrainingJob(req.user.id, config);
+      const job = await this.trainingService.startTrainingJob(req.user.id, req.user.workspaceId, config);
 
       res.status(201).json({
         status: 'success',
@@ -67,6 +65,11 @@ export class TrainingController {
       });
 
     } catch (error: any) {
+      // Ownership and existence of every dataset reference are checked while resolving them
+      if (error instanceof DatasetNotFoundError) {
+        res.status(404).json({ status: 'error', message: error.message });
+        return;
+      }
       console.error('Failed to start training job:', error);
       res.status(500).json({ 
         status: 'error', 
@@ -76,10 +79,10 @@ export class TrainingController {
   };
 
   /**
-   * List training jobs for the authenticated user
+   * List training jobs in the active workspace
    */
   public listTrainingJobs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -88,7 +91,7 @@ export class TrainingController {
     const offset = parseInt(req.query.offset as string, 10) || 0;
 
     try {
-      const jobs = await this.dbService.listTrainingJobsByUser(req.user.id, limit, offset);
+      const jobs = await this.dbService.listTrainingJobsByWorkspace(req.user.workspaceId, limit, offset);
       
       res.status(200).json({
         status: 'success',
@@ -108,7 +111,7 @@ export class TrainingController {
    * Get a specific training job (used for both /:id and /status/:jobId)
    */
   public getTrainingJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -118,7 +121,7 @@ export class TrainingController {
     try {
       const job = await this.dbService.getTrainingJobById(id);
       
-      if (!job || job.userId !== req.user.id) {
+      if (!job || job.workspaceId !== req.user.workspaceId) {
         res.status(404).json({ 
           status: 'error', 
           message: 'Training job not found or access denied.' 
@@ -153,7 +156,7 @@ export class TrainingController {
    * Cancel a training job
    */
   public cancelTrainingJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -163,7 +166,7 @@ export class TrainingController {
     try {
       const job = await this.dbService.getTrainingJobById(id);
       
-      if (!job || job.userId !== req.user.id) {
+      if (!job || job.workspaceId !== req.user.workspaceId) {
         res.status(404).json({ 
           status: 'error', 
           message: 'Training job not found or access denied.' 
@@ -202,7 +205,7 @@ export class TrainingController {
    * Get training job logs
    */
   public getTrainingLogs = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
@@ -212,7 +215,7 @@ export class TrainingController {
     try {
       const job = await this.dbService.getTrainingJobById(id);
       
-      if (!job || job.userId !== req.user.id) {
+      if (!job || job.workspaceId !== req.user.workspaceId) {
         res.status(404).json({ 
           status: 'error', 
           message: 'Training job not found or access denied.' 
@@ -237,16 +240,20 @@ export class TrainingController {
   };
 
   /**
-   * Get available ML datasets for the user
+   * Get available ML datasets in the active workspace
    */
   public getMLDatasets = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    if (!req.user) {
+    if (!req.user?.workspaceId) {
       res.status(401).json({ status: 'error', message: 'Authentication required.' });
       return;
     }
 
     try {
-      const datasets = await this.dbService.listManifestsByUser(req.user.id, 100, 0);
+      // Include the datasets teammates have shared, which can be trained on with reader access
+      const datasets = [
+        ...await this.dbService.listManifestsByWorkspace(req.user.workspaceId, 100, 0),
+        ...await this.dbService.listManifestsSharedWith(req.user.id, req.user.workspaceId, 100, 0),
+      ];
       const mlDatasets = datasets.filter(manifest => manifest.isMLData);
 
       res.status(200).json({
@@ -0,0 +1,219 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  UploadService,
+  UploadOffsetMismatchError,
+  UploadLockedError,
+  UploadFinalizingError,
+  InvalidMetadataError,
+} from '../services/uploadService';
+import { toEncryptionRequest, EncryptionKeyError } from '../services/encryptionService';
+import { ArchiveError } from '../services/archiveService';
+import { UploadSession } from '../services/databaseService';
+import { QuotaExceededError } from '../services/usageService';
+import { sendQuotaExceeded } from '../middleware/quota';
+
+/**
+ * Resumable (tus-style) uploads: create a session, PATCH chunks at the current
+ * offset, query the offset after a dropped connection, then finalize into a manifest.
+ */
+export class UploadController {
+  constructor(private uploadService: UploadService) {}
+
+  public createUpload = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { filename, size, contentType, tags, isMLData, metadata, encrypt, expandArchive } = req.body;
+    const length = Number(size);
+
+    if (!filename || !Number.isSafeInteger(length) || length <= 0) {
+      res.status(400).json({ status: 'error', message: 'filename and a positive size are required.' });
+      return;
+    }
+
+    try {
+      const session = await this.uploadService.createSession(req.user.id, {
+        filename,
+        size: length,
+        contentType,
+        tags,
+        isMLData: isMLData === true || isMLData === 'true',
+        metadata,
+        encryption: toEncryptionRequest(encrypt, req.user.walletAddress),
+        expandArchive: expandArchive === true || expandArchive === 'true',
+        workspaceId: req.user.workspaceId,
+      });
+
+      res.setHeader('Location', `${req.baseUrl}/uploads/${session.id}`);
+      res.setHeader('Upload-Offset', '0');
+      res.setHeader('Upload-Length', String(session.size));
+      res.status(201).json({
+        status: 'success',
+        message: 'Upload session created.',
+        data: this.toStatus(session),
+      });
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        sendQuotaExceeded(res, error);
+        return;
+      }
+      if (error instanceof EncryptionKeyError || error instanceof ArchiveError || error instanceof InvalidMetadataError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Failed to create upload session:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to create upload session.' });
+    }
+  };
+
+  public getUploadStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const session = await this.findSession(req, res);
+    if (!session) return;
+
+    res.setHeader('Upload-Offset', String(session.offset));
+    res.setHeader('Upload-Length', String(session.size));
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (req.method === 'HEAD') {
+      res.status(200).end();
+      return;
+    }
+
+    res.status(200).json({ status: 'success', data: this.toStatus(session) });
+  };
+
+  public uploadChunk = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const session = await this.findSession(req, res);
+    if (!session) return;
+
+    if (!req.is('application/offset+octet-stream')) {
+      res.status(415).json({ status: 'error', message: 'Content-Type must be application/offset+octet-stream.' });
+      return;
+    }
+
+    const offset = Number(req.header('Upload-Offset'));
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      res.status(400).json({ status: 'error', message: 'A valid Upload-Offset header is required.' });
+      return;
+    }
+
+    if (session.status === 'completed') {
+      res.status(409).json({ status: 'error', message: 'Upload has already been finalized.' });
+      return;
+    }
+
+    try {
+      const updated = await this.uploadService.appendChunk(session, offset, req);
+      res.setHeader('Upload-Offset', String(updated.offset));
+      res.status(204).end();
+    } catch (error: any) {
+      if (error instanceof UploadOffsetMismatchError) {
+        res.setHeader('Upload-Offset', String(error.expectedOffset));
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+      if (error instanceof UploadLockedError) {
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+
+      console.error('Failed to write upload chunk:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ status: 'error', message: 'Failed to write upload chunk.' });
+      }
+    }
+  };
+
+  public completeUpload = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const session = await this.findSession(req, res);
+    if (!session) return;
+
+    if (session.status !== 'completed' && session.offset !== session.size) {
+      res.status(409).json({
+        status: 'error',
+        message: `Upload incomplete: received ${session.offset} of ${session.size} bytes.`,
+      });
+      return;
+    }
+
+    try {
+      const manifest = await this.uploadService.finalizeSession(session, {
+        walletAddress: req.user!.walletAddress,
+        walletSignature: req.body?.encryptionSignature || req.header('X-Encryption-Signature'),
+      });
+      res.status(201).json({
+        status: 'success',
+        message: 'File uploaded successfully.',
+        data: manifest,
+      });
+    } catch (error) {
+      // The session stays active; the client decides whether to cancel it
+      if (error instanceof QuotaExceededError) {
+        sendQuotaExceeded(res, error);
+        return;
+      }
+      if (error instanceof EncryptionKeyError || error instanceof ArchiveError || error instanceof InvalidMetadataError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
+      if (error instanceof UploadFinalizingError) {
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Failed to finalize upload:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to finalize upload.' });
+    }
+  };
+
+  public cancelUpload = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const session = await this.findSession(req, res);
+    if (!session) return;
+
+    try {
+      await this.uploadService.cancelSession(session);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof UploadFinalizingError) {
+        res.status(409).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Failed to cancel upload:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to cancel upload.' });
+    }
+  };
+
+  private async findSession(req: AuthenticatedRequest, res: Response) {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return null;
+    }
+
+    try {
+      const session = await this.uploadService.getSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        res.status(404).json({ status: 'error', message: 'Upload session not found or access denied.' });
+        return null;
+      }
+      return session;
+    } catch (error) {
+      console.error('Failed to load upload session:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to load upload session.' });
+      return null;
+    }
+  }
+
+  private toStatus(session: UploadSession) {
+    return {
+      id: session.id,
+      filename: session.filename,
+      size: session.size,
+      offset: session.offset,
+      status: session.status,
+      expiresAt: session.expiresAt,
+      manifestId: session.manifestId,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { DatabaseService } from '../services/databaseService';
+import { UsageService } from '../services/usageService';
+
+export class UsageController {
+  constructor(
+    private dbService: DatabaseService,
+    private usageService: UsageService
+  ) {}
+
+  public getUsage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const usage = await this.usageService.getUsage(req.user.id);
+      res.status(200).json({ status: 'success', data: usage });
+    } catch (error) {
+      console.error('Failed to get storage usage:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to retrieve storage usage.' });
+    }
+  };
+
+  /**
+   * Operator endpoint: set a wallet's quota ({ quotaBytes }, or null for the default)
+   */
+  public setQuota = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { quotaBytes } = req.body || {};
+
+    if (quotaBytes !== null && (!Number.isSafeInteger(quotaBytes) || quotaBytes < 0)) {
+      res.status(400).json({ status: 'error', message: 'quotaBytes must be a non-negative integer or null.' });
+      return;
+    }
+
+    try {
+      const user = await this.dbService.getUserByWalletAddress(req.params.walletAddress);
+      if (!user) {
+        res.status(404).json({ status: 'error', message: 'User not found.' });
+        return;
+      }
+
+      const usage = await this.usageService.setQuota(user.id, quotaBytes);
+      res.status(200).json({
+        status: 'success',
+        message: 'Quota updated.',
+        data: { walletAddress: user.walletAddress, ...usage },
+      });
+    } catch (error) {
+      console.error('Failed to set storage quota:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to set storage quota.' });
+    }
+  };
+
+  public getUserUsage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const user = await this.dbService.getUserByWalletAddress(req.params.walletAddress);
+      if (!user) {
+        res.status(404).json({ status: 'error', message: 'User not found.' });
+        return;
+      }
+
+      const usage = await this.usageService.getUsage(user.id);
+      res.status(200).json({ status: 'success', data: { walletAddress: user.walletAddress, ...usage } });
+    } catch (error) {
+      console.error('Failed to get storage usage:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to retrieve storage usage.' });
+    }
+  };
+}
@@ -0,0 +1,220 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { WorkspaceService, WorkspaceError, WorkspacePermissionError } from '../services/workspaceService';
+
+export class WorkspaceController {
+  constructor(private workspaceService: WorkspaceService) {}
+
+  public createWorkspace = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const workspace = await this.workspaceService.createWorkspace(req.user.id, req.body?.name);
+      res.status(201).json({ status: 'success', message: 'Workspace created.', data: workspace });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create workspace.');
+    }
+  };
+
+  public listWorkspaces = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const workspaces = await this.workspaceService.listWorkspaces(req.user.id);
+      res.status(200).json({ status: 'success', data: workspaces });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list workspaces.');
+    }
+  };
+
+  public getWorkspace = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const workspace = await this.workspaceService.getWorkspace(req.user.id, req.params.id);
+      if (!workspace) {
+        res.status(404).json({ status: 'error', message: 'Workspace not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: workspace });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get workspace.');
+    }
+  };
+
+  /**
+   * Invite a wallet to the workspace ({ walletAddress, role?: 'admin' | 'member' | 'viewer' })
+   */
+  public invite = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    const { walletAddress, role } = req.body || {};
+
+    try {
+      const invitation = await this.workspaceService.invite(req.user.id, req.params.id, walletAddress, role);
+      if (!invitation) {
+        res.status(404).json({ status: 'error', message: 'Workspace not found.' });
+        return;
+      }
+      res.status(201).json({ status: 'success', message: 'Invitation sent.', data: invitation });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create invitation.');
+    }
+  };
+
+  public listInvitations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const invitations = await this.workspaceService.listInvitations(req.user.id, req.params.id);
+      if (!invitations) {
+        res.status(404).json({ status: 'error', message: 'Workspace not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', data: invitations });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list invitations.');
+    }
+  };
+
+  public revokeInvitation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const invitation = await this.workspaceService.revokeInvitation(req.user.id, req.params.id, req.params.invitationId);
+      if (!invitation) {
+        res.status(404).json({ status: 'error', message: 'Invitation not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Invitation revoked.', data: invitation });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke invitation.');
+    }
+  };
+
+  /**
+   * Pending invitations addressed to the authenticated wallet
+   */
+  public listMyInvitations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const invitations = await this.workspaceService.listMyInvitations(req.user.walletAddress);
+      res.status(200).json({ status: 'success', data: invitations });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list invitations.');
+    }
+  };
+
+  public acceptInvitation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.respond(req, res, true);
+  };
+
+  public declineInvitation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.respond(req, res, false);
+  };
+
+  /**
+   * Change a member's role ({ role })
+   */
+  public updateMember = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const member = await this.workspaceService.setMemberRole(
+        req.user.id,
+        req.params.id,
+        req.params.walletAddress,
+        req.body?.role
+      );
+      if (!member) {
+        res.status(404).json({ status: 'error', message: 'Workspace member not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Workspace member updated.', data: member });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update workspace member.');
+    }
+  };
+
+  public removeMember = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const removed = await this.workspaceService.removeMember(req.user.id, req.params.id, req.params.walletAddress);
+      if (removed === null) {
+        res.status(404).json({ status: 'error', message: 'Workspace not found.' });
+        return;
+      }
+      if (!removed) {
+        res.status(404).json({ status: 'error', message: 'Member not found.' });
+        return;
+      }
+      res.status(200).json({ status: 'success', message: 'Workspace member removed.' });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to remove workspace member.');
+    }
+  };
+
+  private async respond(req: AuthenticatedRequest, res: Response, accept: boolean): Promise<void> {
+    if (!req.user) {
+      res.status(401).json({ status: 'error', message: 'Authentication required.' });
+      return;
+    }
+
+    try {
+      const invitation = await this.workspaceService.respondToInvitation(req.user, req.params.invitationId, accept);
+      if (!invitation) {
+        res.status(404).json({ status: 'error', message: 'Invitation not found.' });
+        return;
+      }
+      res.status(200).json({
+        status: 'success',
+        message: accept ? 'Invitation accepted.' : 'Invitation declined.',
+        data: invitation,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to respond to invitation.');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof WorkspaceError) {
+      res.status(400).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof WorkspacePermissionError) {
+      res.status(403).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error(message, error);
+    res.status(500).json({ status: 'error', message });
+  }
+}
@@ -0,0 +1,26 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+
+// Wallets allowed to use the operator endpoints, as a comma-separated list
+const adminWallets = new Set(
+  (process.env.ADMIN_WALLETS || '')
+    .split(',')
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+export const isAdmin = (walletAddress?: string): boolean =>
+  !!walletAddress && adminWallets.has(walletAddress.toLowerCase());
+
+/**
+ * Must run after authMiddleware
+ */
+export const adminMiddleware = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!isAdmin(req.user?.walletAddress)) {
+    return res.status(403).json({
+      status: 'error',
+      message: 'Administrator access required.'
+    });
+  }
+  next();
+};
@@ -3,6 +3,9 @@ import * as jose from 'jose';
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import { WorkspaceRole } from '../services/databaseService';
+import { ApiTokenService, ApiTokenScope, API_TOKEN_PREFIX } from '../services/apiTokenService';
+import { SessionService } from '../services/sessionService';
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -17,36 +20,132 @@ if (!JWT_SECRET) {
   throw new Error('JWT_SECRET is not defined in the .env file');
 }
 
+// API tokens are looked up in the database; setupRoutes registers the service
+let apiTokenService: ApiTokenService | null = null;
+
+export const registerApiTokenService = (service: ApiTokenService) => {
+  apiTokenService = service;
+};
+
+// Access tokens name the session they were issued for, which may have been signed out since
+let sessionService: SessionService | null = null;
+
+export const registerSessionService = (service: SessionService) => {
+  sessionService = service;
+};
+
 // Extend the Express Request type to include the user property
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     walletAddress: string;
+    // The workspace claimed by the token; verified and filled in by the workspace middleware
+    workspaceId?: string;
+    workspaceRole?: WorkspaceRole;
+    // Set when the request authenticated with an API token rather than a session JWT
+    apiTokenId?: string;
+    scopes?: ApiTokenScope[];
+    // Set when the request authenticated with a session's access token
+    sessionId?: string;
   };
   file?: Express.Multer.File;
 }
 
-export const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const authHeader = req.headers.authorization;
+const authenticate = (acceptApiTokens: boolean) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ 
+        status: 'error',
+        message: 'Authentication required: No token provided.' 
+      });
+    }
+
+    const token = authHeader.split(' ')[1];
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ 
-      status: 'error',
-      message: 'Authentication required: No token provided.' 
-    });
-  }
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+      if (!acceptApiTokens) {
+        return res.status(403).json({
+          status: 'error',
+          message: 'API tokens cannot be used here; sign in with your wallet.'
+        });
+      }
 
-  const token = authHeader.split(' ')[1];
+      try {
+        // The rate limiters may already have resolved the token for this request
+        const principal = apiTokenService
+          && await apiTokenService.authenticate(token, req.ip ?? null, res.locals.apiTokenPrincipal);
+        if (!principal) {
+          return res.status(401).json({
+            status: 'error',
+            message: 'Authentication failed: Invalid, expired or revoked API token.'
+          });
+        }
+        req.user = {
+          id: principal.userId,
+          walletAddress: principal.walletAddress,
+          workspaceId: principal.workspaceId ?? undefined,
+          apiTokenId: principal.tokenId,
+          scopes: principal.scopes,
+        };
+        return next();
+      } catch (error) {
+        return next(error);
+      }
+    }
 
-  try {
-    const secret = new TextEncoder().encode(JWT_SECRET);
-    const { payload } = await jose.jwtVerify(token, secret);
-    req.user = { id: payload.id as string, walletAddress: payload.walletAddress as string };
+    let payload: jose.JWTPayload;
+    try {
+      const secret = new TextEncoder().encode(JWT_SECRET);
+      ({ payload } = await jose.jwtVerify(token, secret));
+    } catch (error) {
+      return res.status(401).json({ 
+        status: 'error',
+        message: 'Authentication failed: Invalid or expired token.' 
+      });
+    }
+
+    try {
+      if (typeof payload.sid !== 'string' || !sessionService || !(await sessionService.isActive(payload.sid))) {
+        return res.status(401).json({
+          status: 'error',
+          message: 'Authentication failed: The session has ended; sign in again.'
+        });
+      }
+      req.user = {
+        id: payload.id as string,
+        walletAddress: payload.walletAddress as string,
+        workspaceId: typeof payload.workspaceId === 'string' ? payload.workspaceId : undefined,
+        sessionId: payload.sid,
+      };
+      next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+
+/**
+ * Accepts a session JWT or an API token. Routes reachable with API tokens name the scope
+ * they need with requireScope.
+ */
+export const authMiddleware = authenticate(true);
+
+/**
+ * Accepts session JWTs only, for managing tokens, access and memberships
+ */
+export const sessionAuthMiddleware = authenticate(false);
+
+/**
+ * Must run after authMiddleware. Session JWTs carry every scope.
+ */
+export const requireScope = (scope: ApiTokenScope) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (req.user?.scopes && !req.user.scopes.includes(scope)) {
+      return res.status(403).json({
+        status: 'error',
+        message: `This API token lacks the ${scope} scope.`
+      });
+    }
     next();
-  } catch (error) {
-    return res.status(401).json({ 
-      status: 'error',
-      message: 'Authentication failed: Invalid or expired token.' 
-    });
-  }
-};
\ No newline at end of file
+  };
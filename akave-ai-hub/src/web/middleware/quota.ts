@@ -0,0 +1,42 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { UsageService, QuotaExceededError } from '../services/usageService';
+
+export const sendQuotaExceeded = (res: Response, error: QuotaExceededError) => {
+  res.status(413).json({
+    status: 'error',
+    message: error.message,
+    data: {
+      usedBytes: error.usedBytes,
+      quotaBytes: error.quotaBytes,
+      requestedBytes: error.requestedBytes,
+    },
+  });
+};
+
+/**
+ * Reject uploads that would exceed the user's storage quota before the body is read.
+ * The size comes from the declared upload length (`size` in a session request, or
+ * Upload-Length) and otherwise from Content-Length. Must run after authMiddleware.
+ */
+export const createQuotaMiddleware = (usageService: UsageService) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Authentication required.'
+      });
+    }
+
+    const requestedBytes = Number(req.body?.size ?? req.header('Upload-Length') ?? req.header('Content-Length') ?? 0);
+
+    try {
+      await usageService.assertWithinQuota(req.user.id, Number.isFinite(requestedBytes) ? requestedBytes : 0);
+      next();
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceeded(res, error);
+      }
+      next(error);
+    }
+  };
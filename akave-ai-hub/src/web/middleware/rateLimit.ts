@@ -0,0 +1,136 @@
+import { Request, RequestHandler, Response } from 'express';
+import * as jose from 'jose';
+import rateLimit, { MemoryStore, Options, RateLimitRequestHandler, Store } from 'express-rate-limit';
+import { DatabaseService } from '../services/databaseService';
+import { API_TOKEN_PREFIX, ApiTokenPrincipal, ApiTokenService } from '../services/apiTokenService';
+
+export type RateLimitGroup = 'default' | 'auth' | 'files' | 'shares' | 'query' | 'training' | 'proof';
+
+// Requests allowed per window, for each caller; override with RATE_LIMIT_<GROUP>=max/windowSeconds
+const DEFAULT_LIMITS: Record<RateLimitGroup, { max: number; windowSeconds: number }> = {
+  default: { max: 600, windowSeconds: 60 },
+  auth: { max: 20, windowSeconds: 60 },
+  files: { max: 120, windowSeconds: 60 },
+  shares: { max: 60, windowSeconds: 60 },
+  query: { max: 30, windowSeconds: 60 },
+  training: { max: 10, windowSeconds: 60 },
+  proof: { max: 30, windowSeconds: 60 },
+};
+
+const limitFor = (group: RateLimitGroup): { max: number; windowMs: number } => {
+  const configured = process.env[`RATE_LIMIT_${group.toUpperCase()}`];
+  const [max, windowSeconds] = (configured || '').split('/').map(Number);
+  const fallback = DEFAULT_LIMITS[group];
+  return {
+    max: Number.isInteger(max) && max > 0 ? max : fallback.max,
+    windowMs: (Number.isFinite(windowSeconds) && windowSeconds > 0 ? windowSeconds : fallback.windowSeconds) * 1000,
+  };
+};
+
+/**
+ * Fixed-window hit counters in the hub's SQLite database, so limits hold across restarts
+ * and are shared by every server using the same database file
+ */
+export class SqliteRateLimitStore implements Store {
+  private windowMs = 60 * 1000;
+
+  constructor(private dbService: DatabaseService, private keyPrefix: string) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+    setInterval(() => {
+      this.dbService.deleteExpiredRateLimits(Date.now()).catch(error => {
+        console.error('Failed to prune rate limit counters:', error);
+      });
+    }, this.windowMs).unref();
+  }
+
+  async get(key: string) {
+    const counter = await this.dbService.getRateLimit(this.keyPrefix + key, Date.now());
+    return counter ? { totalHits: counter.hits, resetTime: new Date(counter.resetAt) } : undefined;
+  }
+
+  async increment(key: string) {
+    const counter = await this.dbService.incrementRateLimit(this.keyPrefix + key, this.windowMs, Date.now());
+    return { totalHits: counter.hits, resetTime: new Date(counter.resetAt) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.dbService.decrementRateLimit(this.keyPrefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.dbService.resetRateLimit(this.keyPrefix + key);
+  }
+}
+
+/**
+ * Mark routes anyone can call. They are counted by client IP whatever credentials the
+ * request carries, so extra tokens don't buy extra attempts at a share password.
+ */
+export const countByIp: RequestHandler = (_req, res, next) => {
+  res.locals.rateLimitByIp = true;
+  next();
+};
+
+/**
+ * Who a request counts against: the wallet behind a valid session JWT, a valid API token,
+ * or else the client IP. Authentication itself still happens later.
+ */
+const callerKey = (apiTokenService: ApiTokenService) => async (req: Request, res: Response): Promise<string> => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+  if (!token || res.locals.rateLimitByIp) {
+    return `ip:${req.ip}`;
+  }
+  if (token.startsWith(API_TOKEN_PREFIX)) {
+    // Made-up tokens would otherwise each get a fresh allowance. The lookup is read-only and
+    // done once per request: every limiter on the route and authMiddleware reuse it.
+    if (res.locals.apiTokenPrincipal === undefined) {
+      res.locals.apiTokenPrincipal = await apiTokenService.resolve(token);
+    }
+    const principal = res.locals.apiTokenPrincipal as ApiTokenPrincipal | null;
+    return principal ? `token:${principal.tokenId}` : `ip:${req.ip}`;
+  }
+  if (process.env.JWT_SECRET) {
+    try {
+      const { payload } = await jose.jwtVerify(token, new TextEncoder().encode(process.env.JWT_SECRET));
+      if (typeof payload.id === 'string') {
+        return `user:${payload.id}`;
+      }
+    } catch {
+      // Counted by IP like any other unauthenticated request
+    }
+  }
+  return `ip:${req.ip}`;
+};
+
+/**
+ * Build a limiter per route group. Counters live in memory unless RATE_LIMIT_STORE=sqlite;
+ * responses carry the standard RateLimit-* headers, and Retry-After once limited.
+ */
+export const createRateLimitMiddleware = (dbService: DatabaseService, apiTokenService: ApiTokenService) => {
+  const useSqlite = process.env.RATE_LIMIT_STORE === 'sqlite';
+  const keyByCaller = callerKey(apiTokenService);
+
+  return (group: RateLimitGroup): RateLimitRequestHandler => {
+    const { max, windowMs } = limitFor(group);
+    return rateLimit({
+      windowMs,
+      max,
+      standardHeaders: true,
+      legacyHeaders: false,
+      store: useSqlite ? new SqliteRateLimitStore(dbService, `${group}:`) : new MemoryStore(),
+      // Signing in happens before there is a wallet to count against
+      keyGenerator: group === 'auth' ? (req: Request) => `ip:${req.ip}` : keyByCaller,
+      handler: (req: Request, res: Response) => {
+        console.warn(`🚦 Rate limit hit for ${group} on ${req.method} ${req.originalUrl}`);
+        res.status(429).json({
+          status: 'error',
+          message: `Too many requests; try again in ${res.getHeader('Retry-After')} seconds.`
+        });
+      },
+    });
+  };
+};
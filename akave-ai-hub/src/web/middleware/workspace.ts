@@ -0,0 +1,42 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { WorkspaceRole } from '../services/databaseService';
+import { WorkspaceService, hasWorkspaceRole } from '../services/workspaceService';
+
+/**
+ * Resolve the token's workspace claim against current membership (tokens without one act
+ * in the user's personal workspace) and require at least the given role. Sets
+ * req.user.workspaceId and workspaceRole. Must run after authMiddleware.
+ */
+export const createWorkspaceMiddleware = (workspaceService: WorkspaceService) =>
+  (required: WorkspaceRole = 'viewer') =>
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      if (!req.user) {
+        return res.status(401).json({
+          status: 'error',
+          message: 'Authentication required.'
+        });
+      }
+
+      try {
+        const active = await workspaceService.resolveActiveWorkspace(req.user.id, req.user.workspaceId);
+        if (!active) {
+          return res.status(403).json({
+            status: 'error',
+            message: 'You are no longer a member of this workspace. Switch workspaces to continue.'
+          });
+        }
+        if (!hasWorkspaceRole(active.role, required)) {
+          return res.status(403).json({
+            status: 'error',
+            message: `This requires the ${required} role in the workspace; you are a ${active.role}.`
+          });
+        }
+
+        req.user.workspaceId = active.workspace.id;
+        req.user.workspaceRole = active.role;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
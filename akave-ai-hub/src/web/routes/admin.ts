@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { ReconciliationController } from '../controllers/reconciliationController';
+import { RetentionController } from '../controllers/retentionController';
+import { UsageController } from '../controllers/usageController';
+import { sessionAuthMiddleware } from '../middleware/auth';
+import { adminMiddleware } from '../middleware/admin';
+import { DatabaseService } from '../services/databaseService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { RetentionService } from '../services/retentionService';
+import { UsageService } from '../services/usageService';
+
+export const createAdminRoutes = (
+  dbService: DatabaseService,
+  reconciliationService: ReconciliationService,
+  retentionService: RetentionService
+): Router => {
+  const router = Router();
+  const reconciliationController = new ReconciliationController(dbService, reconciliationService);
+  const usageController = new UsageController(dbService, new UsageService(dbService));
+  const retentionController = new RetentionController(retentionService);
+
+  router.use(sessionAuthMiddleware, adminMiddleware);
+
+  // Compare manifests against the bucket; pass { deep, repair, prefix } in the body
+  router.post('/reconciliation', reconciliationController.startRun);
+  router.get('/reconciliation', reconciliationController.listRuns);
+  router.get('/reconciliation/:id', reconciliationController.getRun);
+
+  // Retention rules: inspect them, preview a sweep ({ rules } to try changed rules), then enforce
+  router.get('/retention', retentionController.getStatus);
+  router.post('/retention/dry-run', retentionController.dryRun);
+  router.post('/retention/sweep', retentionController.sweep);
+  router.post('/retention/reload', retentionController.reloadRules);
+
+  // Inspect a wallet's storage usage and override its quota ({ quotaBytes }, null for the default)
+  router.get('/users/:walletAddress/usage', usageController.getUserUsage);
+  router.put('/users/:walletAddress/quota', usageController.setQuota);
+
+  return router;
+};
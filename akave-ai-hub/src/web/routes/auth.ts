@@ -1,10 +1,13 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
 import { DatabaseService } from '../services/databaseService';
+import { WorkspaceService } from '../services/workspaceService';
+import { SessionService } from '../services/sessionService';
+import { sessionAuthMiddleware } from '../middleware/auth';
 
-export const createAuthRoutes = (dbService: DatabaseService): Router => {
+export const createAuthRoutes = (dbService: DatabaseService, sessionService: SessionService): Router => {
   const router = Router();
-  const authController = new AuthController(dbService);
+  const authController = new AuthController(dbService, new WorkspaceService(dbService), sessionService);
 
   // Route to create a challenge (nonce) for wallet signing
   router.post('/wallet/challenge', authController.createChallenge);
@@ -12,5 +15,20 @@ export const createAuthRoutes = (dbService: DatabaseService): Router => {
   // Route to verify the signed challenge and get JWT
   router.post('/wallet/verify', authController.verifySignature);
 
+  // Route to exchange a refresh token for a new access token
+  router.post('/refresh', authController.refreshSession);
+
+  // Route to sign out the current session (or all of them)
+  router.post('/logout', sessionAuthMiddleware, authController.logout);
+
+  // Route to list the user's signed-in sessions
+  router.get('/sessions', sessionAuthMiddleware, authController.listSessions);
+
+  // Route to sign out one of the user's sessions
+  router.delete('/sessions/:id', sessionAuthMiddleware, authController.revokeSession);
+
+  // Route to get a new JWT for another workspace the user belongs to
+  router.post('/workspace', sessionAuthMiddleware, authController.switchWorkspace);
+
   return router;
 };
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { DatasetController } from '../controllers/datasetController';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { DatabaseService } from '../services/databaseService';
+import { DatasetService } from '../services/datasetService';
+
+export const createDatasetRoutes = (dbService: DatabaseService): Router => {
+  const router = Router();
+  const datasetService = new DatasetService(dbService);
+  const datasetController = new DatasetController(datasetService);
+
+  // Route to list the authenticated user's datasets
+  router.get('/', authMiddleware, requireScope('datasets:read'), datasetController.listDatasets);
+
+  // Route to create a dataset with its first version ({ name, manifestId, changelog })
+  router.post('/', authMiddleware, requireScope('datasets:write'), datasetController.createVersion);
+
+  // Route to get a dataset and all of its versions
+  router.get('/:name', authMiddleware, requireScope('datasets:read'), datasetController.getDataset);
+
+  // Route to compare two versions (?from=1&to=2)
+  router.get('/:name/diff', authMiddleware, requireScope('datasets:read'), datasetController.diffVersions);
+
+  // Route to publish a new version of an existing dataset
+  router.post('/:name/versions', authMiddleware, requireScope('datasets:write'), datasetController.createVersion);
+
+  // Route to get a version together with its lineage
+  router.get('/:name/versions/:version', authMiddleware, requireScope('datasets:read'), datasetController.getVersion);
+
+  // Route to choose the version that bare `name` references resolve to
+  router.post('/:name/promote', authMiddleware, requireScope('datasets:write'), datasetController.promoteVersion);
+
+  return router;
+};
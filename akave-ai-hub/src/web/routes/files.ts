@@ -1,27 +1,81 @@
 import { Router } from 'express';
 import { FileController } from '../controllers/fileController';
-import { authMiddleware } from '../middleware/auth';
+import { UploadController } from '../controllers/uploadController';
+import { DirectUploadController } from '../controllers/directUploadController';
+import { ShareController } from '../controllers/shareController';
+import { AccessController } from '../controllers/accessController';
+import { authMiddleware, requireScope, sessionAuthMiddleware } from '../middleware/auth';
 import { upload } from '../middleware/upload';
+import { createQuotaMiddleware } from '../middleware/quota';
+import { createWorkspaceMiddleware } from '../middleware/workspace';
 import { DatabaseService } from '../services/databaseService';
 import { AkaveService } from '../services/akaveService';
+import { UploadService } from '../services/uploadService';
+import { UsageService } from '../services/usageService';
+import { ShareService } from '../services/shareService';
+import { AuthorizationService } from '../services/authorizationService';
+import { WorkspaceService } from '../services/workspaceService';
 
 export const createFileUploadRoutes = (dbService: DatabaseService, akaveService: AkaveService): Router => {
   const router = Router();
-  const fileController = new FileController(dbService, akaveService);
+  const uploadService = new UploadService(dbService, akaveService);
+  const authorizationService = new AuthorizationService(dbService);
+  const fileController = new FileController(dbService, akaveService, uploadService, authorizationService);
+  const uploadController = new UploadController(uploadService);
+  const directUploadController = new DirectUploadController(uploadService);
+  const shareController = new ShareController(new ShareService(dbService, akaveService));
+  const accessController = new AccessController(authorizationService);
+  const quotaMiddleware = createQuotaMiddleware(new UsageService(dbService));
+  const workspace = createWorkspaceMiddleware(new WorkspaceService(dbService));
+
+  // API tokens reach these routes when they hold the scope named by requireScope
 
   // Route to upload a single file
   // The 'file' string in upload.single('file') must match the name attribute of the file input field in the frontend form.
-  router.post('/', authMiddleware, upload.single('file'), fileController.uploadFile);
+  // Uploads that would exceed the user's storage quota are rejected with 413 before the body is read
+  // Uploads land in the active workspace, which needs the member role
+  router.post('/', authMiddleware, requireScope('files:write'), workspace('member'), quotaMiddleware, upload.single('file'), fileController.uploadFile);
+
+  // Resumable upload sessions for large files over unreliable connections:
+  // create a session, PATCH chunks at the reported offset, then complete it into a manifest
+  router.post('/uploads', authMiddleware, requireScope('files:write'), workspace('member'), quotaMiddleware, uploadController.createUpload);
+  router.head('/uploads/:id', authMiddleware, requireScope('files:write'), uploadController.getUploadStatus);
+  router.get('/uploads/:id', authMiddleware, requireScope('files:write'), uploadController.getUploadStatus);
+  router.patch('/uploads/:id', authMiddleware, requireScope('files:write'), uploadController.uploadChunk);
+  router.post('/uploads/:id/complete', authMiddleware, requireScope('files:write'), uploadController.completeUpload);
+  router.delete('/uploads/:id', authMiddleware, requireScope('files:write'), uploadController.cancelUpload);
 
-  // Route to list all files for the authenticated user
-  router.get('/', authMiddleware, fileController.listFiles);
+  // Direct uploads: the browser PUTs straight to presigned storage URLs and the hub only
+  // verifies the object and records its manifest once the client completes the intent
+  router.post('/direct', authMiddleware, requireScope('files:write'), workspace('member'), quotaMiddleware, directUploadController.createIntent);
+  router.post('/direct/:id/complete', authMiddleware, requireScope('files:write'), directUploadController.completeIntent);
+  router.delete('/direct/:id', authMiddleware, requireScope('files:write'), directUploadController.cancelIntent);
+
+  // Route to list the files in the active workspace (?scope=shared for files shared with the user from elsewhere)
+  router.get('/', authMiddleware, requireScope('files:read'), workspace(), fileController.listFiles);
 
   // Route to download a file by its ID
   // This will redirect to a presigned URL for the actual download.
-  router.get('/:id/download', authMiddleware, fileController.downloadFile);
+  router.get('/:id/download', authMiddleware, requireScope('files:read'), fileController.downloadFile);
+
+  // Routes to browse and download the files of an expanded archive
+  router.get('/:id/entries', authMiddleware, requireScope('files:read'), fileController.listEntries);
+  router.get('/:id/entries/download', authMiddleware, requireScope('files:read'), fileController.downloadEntry);
+
+  // Sharing and access control need a wallet session; API tokens can't change who can reach a file
+
+  // Routes to create and list public share links for a file (managed further under /shares)
+  router.post('/:id/shares', sessionAuthMiddleware, shareController.createShare);
+  router.get('/:id/shares', sessionAuthMiddleware, shareController.listShares);
+
+  // Routes for the owner to see and change who else can access a file (readers and writers, per wallet or team)
+  router.get('/:id/acl', sessionAuthMiddleware, accessController.listGrants);
+  router.put('/:id/acl', sessionAuthMiddleware, accessController.grantAccess);
+  router.delete('/:id/acl/users/:walletAddress', sessionAuthMiddleware, accessController.revokeAccess);
+  router.delete('/:id/acl/teams/:teamId', sessionAuthMiddleware, accessController.revokeAccess);
 
   // Route to delete a file by its ID
-  router.delete('/:id', authMiddleware, fileController.deleteFile);
+  router.delete('/:id', authMiddleware, requireScope('files:write'), fileController.deleteFile);
 
   return router;
 };
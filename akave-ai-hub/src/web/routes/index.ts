@@ -4,12 +4,29 @@ import { createAuthRoutes } from './auth';
 import { createProofRoutes } from './proof';
 import { createTrainingRoutes } from './training';
 import { createQueryRoutes } from './query';
+import { createStorageRoutes } from './storage';
+import { createAdminRoutes } from './admin';
+import { createDatasetRoutes } from './datasets';
+import { createUsageRoutes } from './usage';
+import { createShareRoutes } from './shares';
+import { createTeamRoutes } from './teams';
+import { createWorkspaceRoutes } from './workspaces';
+import { createApiTokenRoutes } from './tokens';
+import { registerApiTokenService, registerSessionService } from '../middleware/auth';
+import { countByIp, createRateLimitMiddleware } from '../middleware/rateLimit';
 import { DatabaseService } from '../services/databaseService';
 import { AkaveService } from '../services/akaveService';
 import { BlockchainService } from '../services/blockchainService';
+import { AnchorService } from '../services/anchorService';
+import { ProofQueueService } from '../services/proofQueueService';
+import { RevocationService } from '../services/revocationService';
 import { WebSocketService } from '../services/websocketService';
 import { TrainingService } from '../services/trainingService';
 import { QueryService } from '../services/queryService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { RetentionService } from '../services/retentionService';
+import { ApiTokenService } from '../services/apiTokenService';
+import { SessionService } from '../services/sessionService';
 
 // This function aggregates all the routes for the application
 export const setupRoutes = (
@@ -18,10 +35,23 @@ export const setupRoutes = (
   blockchainService: BlockchainService, 
   wsService: WebSocketService, 
   trainingService: TrainingService, 
-  queryService: QueryService
+  queryService: QueryService,
+  reconciliationService: ReconciliationService,
+  retentionService: RetentionService,
+  anchorService: AnchorService,
+  proofQueue: ProofQueueService,
+  revocationService: RevocationService
 ): Router => {
   const router = Router();
 
+  // Let authMiddleware accept API tokens alongside session JWTs
+  const apiTokenService = new ApiTokenService(dbService);
+  registerApiTokenService(apiTokenService);
+
+  // ...and check that the session behind each access JWT is still signed in
+  const sessionService = new SessionService(dbService);
+  registerSessionService(sessionService);
+
   // Health check endpoint for the API
   router.get('/health', (req, res) => {
     res.status(200).json({ 
@@ -31,21 +61,50 @@ export const setupRoutes = (
     });
   });
 
+  // Everything below is rate limited per caller, and expensive route groups more tightly
+  const rateLimiter = createRateLimitMiddleware(dbService, apiTokenService);
+  router.use(['/shares/public', '/proof/verify', '/proof/bundle/verify'], countByIp);
+  router.use(rateLimiter('default'));
+
   // Mount the file upload routes under the '/files' path
-  router.use('/files', createFileUploadRoutes(dbService, akaveService));
+  router.use('/files', rateLimiter('files'), createFileUploadRoutes(dbService, akaveService));
 
   // Mount the authentication routes under the '/auth' path
-  router.use('/auth', createAuthRoutes(dbService));
+  router.use('/auth', rateLimiter('auth'), createAuthRoutes(dbService, sessionService));
+
+  // Mount the versioned dataset routes under the '/datasets' path
+  router.use('/datasets', createDatasetRoutes(dbService));
+
+  // Mount the storage usage routes under the '/usage' path
+  router.use('/usage', createUsageRoutes(dbService));
+
+  // Mount the share link routes under the '/shares' path
+  router.use('/shares', rateLimiter('shares'), createShareRoutes(dbService, akaveService));
+
+  // Mount the team routes under the '/teams' path
+  router.use('/teams', createTeamRoutes(dbService));
+
+  // Mount the workspace routes under the '/workspaces' path
+  router.use('/workspaces', createWorkspaceRoutes(dbService));
+
+  // Mount the API token routes under the '/tokens' path
+  router.use('/tokens', createApiTokenRoutes(dbService, apiTokenService));
 
   // Mount the proof routes under the '/proof' path
-  router.use('/proof', createProofRoutes(dbService, blockchainService));
+  router.use('/proof', rateLimiter('proof'), createProofRoutes(dbService, blockchainService, anchorService, proofQueue, revocationService));
 
   // Mount the training routes under the '/training' path
   // Fix: Pass all 3 required parameters to createTrainingRoutes
-  router.use('/training', createTrainingRoutes(dbService, akaveService, wsService));
+  router.use('/training', rateLimiter('training'), createTrainingRoutes(dbService, akaveService, wsService));
 
   // Mount the query routes under the '/query' path
-  router.use('/query', createQueryRoutes(dbService, akaveService));
+  router.use('/query', rateLimiter('query'), createQueryRoutes(dbService, akaveService));
+
+  // Mount the signed-URL endpoints used by the local and in-memory storage backends
+  router.use('/storage', createStorageRoutes(akaveService));
+
+  // Mount the operator endpoints (restricted to ADMIN_WALLETS) under the '/admin' path
+  router.use('/admin', createAdminRoutes(dbService, reconciliationService, retentionService));
 
   return router;
 };
@@ -1,18 +1,53 @@
 import { Router } from 'express';
 import { ProofController } from '../controllers/proofController';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireScope } from '../middleware/auth';
 import { DatabaseService } from '../services/databaseService';
 import { BlockchainService } from '../services/blockchainService';
+import { AuthorizationService } from '../services/authorizationService';
+import { AnchorService } from '../services/anchorService';
+import { ProofQueueService } from '../services/proofQueueService';
+import { RevocationService } from '../services/revocationService';
+import { ProofBundleService } from '../services/proofBundleService';
+import { upload } from '../middleware/upload';
 
-export const createProofRoutes = (dbService: DatabaseService, blockchainService: BlockchainService): Router => {
+export const createProofRoutes = (
+  dbService: DatabaseService,
+  blockchainService: BlockchainService,
+  anchorService: AnchorService,
+  proofQueue: ProofQueueService,
+  revocationService: RevocationService
+): Router => {
   const router = Router();
-  const proofController = new ProofController(dbService, blockchainService);
+  const proofController = new ProofController(
+    dbService,
+    blockchainService,
+    new AuthorizationService(dbService),
+    anchorService,
+    proofQueue,
+    revocationService,
+    new ProofBundleService(blockchainService, anchorService, revocationService)
+  );
 
-  // Route to register a manifest's hash on the blockchain
-  router.post('/register', authMiddleware, proofController.registerProof);
+  // Route to queue a manifest's hash for anchoring on the blockchain
+  router.post('/register', authMiddleware, requireScope('proofs:write'), proofController.registerProof);
+
+  // Route to revoke a manifest, or supersede it with another
+  router.post('/revoke', authMiddleware, requireScope('proofs:write'), proofController.revokeManifest);
+
+  // Route to download a signed proof bundle for a manifest
+  router.get('/bundle/:manifestId', authMiddleware, requireScope('proofs:read'), proofController.downloadBundle);
+
+  // Route to verify a proof bundle and, optionally, the file it covers; open to anyone holding one
+  router.post('/bundle/verify', upload.single('file'), proofController.verifyBundle);
+
+  // Route to list registry events read from the chain
+  router.get('/events', authMiddleware, requireScope('proofs:read'), proofController.listEvents);
 
   // Route to verify a manifest's hash against the blockchain
   router.get('/verify/:manifestId', proofController.verifyProof);
 
+  // Route to follow a queued proof transaction
+  router.get('/jobs/:jobId', authMiddleware, requireScope('proofs:write'), proofController.getJob);
+
   return router;
 };
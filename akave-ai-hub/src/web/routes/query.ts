@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { QueryController } from '../controllers/queryController';
 import { QueryService } from '../services/queryService';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { createWorkspaceMiddleware } from '../middleware/workspace';
 import { DatabaseService } from '../services/databaseService';
 import { AkaveService } from '../services/akaveService';
+import { AuthorizationService } from '../services/authorizationService';
+import { WorkspaceService } from '../services/workspaceService';
 
 export const createQueryRoutes = (
   dbService: DatabaseService, 
@@ -11,28 +14,29 @@ export const createQueryRoutes = (
 ): Router => {
   const router = Router();
   const queryService = new QueryService(dbService, akaveService);
-  const queryController = new QueryController(dbService, queryService);
+  const queryController = new QueryController(dbService, queryService, new AuthorizationService(dbService));
+  const workspace = createWorkspaceMiddleware(new WorkspaceService(dbService));
 
   // Route to execute a SQL query
-  router.post('/execute', authMiddleware, queryController.executeQuery);
+  router.post('/execute', authMiddleware, requireScope('query:write'), workspace('member'), queryController.executeQuery);
 
   // Route to get query result by ID
-  router.get('/result/:id', authMiddleware, queryController.getQueryResult);
+  router.get('/result/:id', authMiddleware, requireScope('query:read'), workspace(), queryController.getQueryResult);
 
-  // Route to list query results for the authenticated user
-  router.get('/results', authMiddleware, queryController.listQueryResults);
+  // Route to list query results in the active workspace
+  router.get('/results', authMiddleware, requireScope('query:read'), workspace(), queryController.listQueryResults);
 
   // Route to cancel a running query
-  router.post('/cancel/:id', authMiddleware, queryController.cancelQuery);
+  router.post('/cancel/:id', authMiddleware, requireScope('query:write'), queryController.cancelQuery);
 
   // Route to get available structured datasets
-  router.get('/datasets/structured', authMiddleware, queryController.getStructuredDatasets);
+  router.get('/datasets/structured', authMiddleware, requireScope('query:read'), workspace(), queryController.getStructuredDatasets);
 
   // Route to get dataset schema/preview
-  router.get('/datasets/:id/schema', authMiddleware, queryController.getDatasetSchema);
+  router.get('/datasets/:id/schema', authMiddleware, requireScope('query:read'), queryController.getDatasetSchema);
 
   // Route to get query examples and templates
-  router.get('/examples', authMiddleware, queryController.getQueryExamples);
+  router.get('/examples', authMiddleware, requireScope('query:read'), queryController.getQueryExamples);
 
   return router;
 };
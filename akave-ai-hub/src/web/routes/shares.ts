@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ShareController } from '../controllers/shareController';
+import { sessionAuthMiddleware } from '../middleware/auth';
+import { DatabaseService } from '../services/databaseService';
+import { AkaveService } from '../services/akaveService';
+import { ShareService } from '../services/shareService';
+
+export const createShareRoutes = (dbService: DatabaseService, akaveService: AkaveService): Router => {
+  const router = Router();
+  const shareController = new ShareController(new ShareService(dbService, akaveService));
+
+  // Public routes: anyone holding the link can download, subject to its expiry, download cap and password
+  router.get('/public/:token', shareController.downloadShare);
+  router.post('/public/:token', shareController.redeemShare);
+
+  // Route to list the authenticated user's share links (optionally ?manifestId=)
+  router.get('/', sessionAuthMiddleware, shareController.listShares);
+
+  // Route to revoke a share link; it stops working immediately
+  router.delete('/:id', sessionAuthMiddleware, shareController.revokeShare);
+
+  // Route to get a share link's access log
+  router.get('/:id/accesses', sessionAuthMiddleware, shareController.getShareAccesses);
+
+  return router;
+};
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { AkaveService } from '../services/akaveService';
+import { StorageError } from '../services/storage';
+import { verifyStorageSignature } from '../services/storage/signedUrl';
+
+/**
+ * Serves the signed URLs issued by the local-filesystem and in-memory storage backends,
+ * playing the role the presigned S3 endpoint plays for Akave O3.
+ */
+export const createStorageRoutes = (akaveService: AkaveService): Router => {
+  const router = Router();
+
+  const checkSignature = (req: Request, res: Response, method: 'GET' | 'PUT'): string | null => {
+    const key = req.params[0];
+    const { expires, signature } = req.query;
+
+    if (
+      req.query.method !== method ||
+      typeof signature !== 'string' ||
+      !verifyStorageSignature(key, method, Number(expires), signature)
+    ) {
+      res.status(403).json({ status: 'error', message: 'Invalid or expired signature.' });
+      return null;
+    }
+
+    return key;
+  };
+
+  // Download an object through a signed URL
+  router.get('/objects/*', async (req: Request, res: Response) => {
+    const key = checkSignature(req, res, 'GET');
+    if (!key) return;
+
+    try {
+      const info = await akaveService.getObjectInfo(key);
+      if (!info) {
+        res.status(404).json({ status: 'error', message: 'Object not found.' });
+        return;
+      }
+
+      res.setHeader('Content-Type', info.contentType || 'application/octet-stream');
+      res.setHeader('Content-Length', String(info.size));
+      await pipeline(await akaveService.openStream(key), res);
+    } catch (error) {
+      console.error('Failed to serve storage object:', error);
+      if (!res.headersSent) {
+        const status = error instanceof StorageError && error.code === 'NotFound' ? 404 : 500;
+        res.status(status).json({ status: 'error', message: 'Failed to read object.' });
+      }
+    }
+  });
+
+  // Upload an object through a signed URL
+  router.put('/objects/*', async (req: Request, res: Response) => {
+    const key = checkSignature(req, res, 'PUT');
+    if (!key) return;
+
+    const stagingPath = path.join(os.tmpdir(), `akave-put-${uuidv4()}`);
+    try {
+      await pipeline(req, fs.createWriteStream(stagingPath));
+      await akaveService.uploadFileFromPath(stagingPath, key, req.header('Content-Type') || 'application/octet-stream');
+      res.status(200).end();
+    } catch (error) {
+      console.error('Failed to store object from signed upload:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to store object.' });
+    } finally {
+      fs.promises.rm(stagingPath, { force: true }).catch(() => undefined);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { TeamController } from '../controllers/teamController';
+import { sessionAuthMiddleware } from '../middleware/auth';
+import { DatabaseService } from '../services/databaseService';
+import { TeamService } from '../services/teamService';
+
+export const createTeamRoutes = (dbService: DatabaseService): Router => {
+  const router = Router();
+  const teamController = new TeamController(new TeamService(dbService));
+
+  // Routes to create a team and list the teams the authenticated user belongs to
+  router.post('/', sessionAuthMiddleware, teamController.createTeam);
+  router.get('/', sessionAuthMiddleware, teamController.listTeams);
+
+  // Route to get a team with its members (members only)
+  router.get('/:id', sessionAuthMiddleware, teamController.getTeam);
+
+  // Routes for team admins to add members or change their role, and to remove them
+  router.put('/:id/members', sessionAuthMiddleware, teamController.addMember);
+  router.delete('/:id/members/:walletAddress', sessionAuthMiddleware, teamController.removeMember);
+
+  // Route to delete a team along with the access granted to it (owner only)
+  router.delete('/:id', sessionAuthMiddleware, teamController.deleteTeam);
+
+  return router;
+};
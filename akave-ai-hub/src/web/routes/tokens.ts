@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ApiTokenController } from '../controllers/apiTokenController';
+import { sessionAuthMiddleware } from '../middleware/auth';
+import { createWorkspaceMiddleware } from '../middleware/workspace';
+import { DatabaseService } from '../services/databaseService';
+import { ApiTokenService } from '../services/apiTokenService';
+import { WorkspaceService } from '../services/workspaceService';
+
+export const createApiTokenRoutes = (dbService: DatabaseService, apiTokenService: ApiTokenService): Router => {
+  const router = Router();
+  const apiTokenController = new ApiTokenController(apiTokenService);
+  const workspace = createWorkspaceMiddleware(new WorkspaceService(dbService));
+
+  // Tokens are managed with a wallet session only, so a leaked token can't mint more
+
+  // Route to create an API token acting in the active workspace
+  router.post('/', sessionAuthMiddleware, workspace(), apiTokenController.createToken);
+
+  // Route to list the authenticated user's API tokens
+  router.get('/', sessionAuthMiddleware, apiTokenController.listTokens);
+
+  // Route to revoke an API token; it stops working immediately
+  router.delete('/:id', sessionAuthMiddleware, apiTokenController.revokeToken);
+
+  return router;
+};
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { TrainingController } from '../controllers/trainingController';
 import { TrainingService } from '../services/trainingService';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { createWorkspaceMiddleware } from '../middleware/workspace';
 import { DatabaseService } from '../services/databaseService';
+import { WorkspaceService } from '../services/workspaceService';
 import { AkaveService } from '../services/akaveService';
 import { WebSocketService } from '../services/websocketService';
 
@@ -14,24 +16,25 @@ export const createTrainingRoutes = (
   const router = Router();
   const trainingService = new TrainingService(dbService, akaveService, wsService);
   const trainingController = new TrainingController(dbService, trainingService);
+  const workspace = createWorkspaceMiddleware(new WorkspaceService(dbService));
 
   // Route to start a new training job
-  router.post('/start', authMiddleware, trainingController.startTraining);
+  router.post('/start', authMiddleware, requireScope('training:write'), workspace('member'), trainingController.startTraining);
 
-  // Route to list training jobs for the authenticated user
-  router.get('/', authMiddleware, trainingController.listTrainingJobs);
+  // Route to list training jobs in the active workspace
+  router.get('/', authMiddleware, requireScope('training:read'), workspace(), trainingController.listTrainingJobs);
 
   // Route to get a specific training job
-  router.get('/:id', authMiddleware, trainingController.getTrainingJob);
+  router.get('/:id', authMiddleware, requireScope('training:read'), workspace(), trainingController.getTrainingJob);
 
   // Route to cancel a training job
-  router.post('/:id/cancel', authMiddleware, trainingController.cancelTrainingJob);
+  router.post('/:id/cancel', authMiddleware, requireScope('training:write'), workspace('member'), trainingController.cancelTrainingJob);
 
   // Route to get training job logs
-  router.get('/:id/logs', authMiddleware, trainingController.getTrainingLogs);
+  router.get('/:id/logs', authMiddleware, requireScope('training:read'), workspace(), trainingController.getTrainingLogs);
 
   // Route to get available ML datasets
-  router.get('/datasets/ml', authMiddleware, trainingController.getMLDatasets);
+  router.get('/datasets/ml', authMiddleware, requireScope('training:read'), workspace(), trainingController.getMLDatasets);
 
   return router;
 };
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { UsageController } from '../controllers/usageController';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { DatabaseService } from '../services/databaseService';
+import { UsageService } from '../services/usageService';
+
+export const createUsageRoutes = (dbService: DatabaseService): Router => {
+  const router = Router();
+  const usageController = new UsageController(dbService, new UsageService(dbService));
+
+  // Route to get the authenticated user's quota and usage by datasets, checkpoints and query results
+  router.get('/', authMiddleware, requireScope('usage:read'), usageController.getUsage);
+
+  return router;
+};
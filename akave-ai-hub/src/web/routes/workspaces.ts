@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { WorkspaceController } from '../controllers/workspaceController';
+import { sessionAuthMiddleware } from '../middleware/auth';
+import { DatabaseService } from '../services/databaseService';
+import { WorkspaceService } from '../services/workspaceService';
+
+export const createWorkspaceRoutes = (dbService: DatabaseService): Router => {
+  const router = Router();
+  const workspaceController = new WorkspaceController(new WorkspaceService(dbService));
+
+  // Routes to create a workspace and list the workspaces the authenticated user belongs to
+  // (switch between them with POST /auth/workspace)
+  router.post('/', sessionAuthMiddleware, workspaceController.createWorkspace);
+  router.get('/', sessionAuthMiddleware, workspaceController.listWorkspaces);
+
+  // Routes for the authenticated wallet to see and answer its pending invitations
+  router.get('/invitations', sessionAuthMiddleware, workspaceController.listMyInvitations);
+  router.post('/invitations/:invitationId/accept', sessionAuthMiddleware, workspaceController.acceptInvitation);
+  router.post('/invitations/:invitationId/decline', sessionAuthMiddleware, workspaceController.declineInvitation);
+
+  // Route to get a workspace with its members (members only)
+  router.get('/:id', sessionAuthMiddleware, workspaceController.getWorkspace);
+
+  // Routes for workspace admins to invite wallets and manage pending invitations
+  router.post('/:id/invitations', sessionAuthMiddleware, workspaceController.invite);
+  router.get('/:id/invitations', sessionAuthMiddleware, workspaceController.listInvitations);
+  router.delete('/:id/invitations/:invitationId', sessionAuthMiddleware, workspaceController.revokeInvitation);
+
+  // Routes for admins to change a member's role or remove them; any member can remove themselves
+  router.put('/:id/members/:walletAddress', sessionAuthMiddleware, workspaceController.updateMember);
+  router.delete('/:id/members/:walletAddress', sessionAuthMiddleware, workspaceController.removeMember);
+
+  return router;
+};
@@ -1,5 +1,6 @@
 import express from 'express';
 import cors from 'cors';
+import helmet from 'helmet';
 import { config } from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -12,6 +13,11 @@ import { BlockchainService } from './services/blockchainService';
 import { WebSocketService } from './services/websocketService';
 import { TrainingService } from './services/trainingService';
 import { QueryService } from './services/queryService';
+import { ReconciliationService } from './services/reconciliationService';
+import { RetentionService } from './services/retentionService';
+import { AnchorService } from './services/anchorService';
+import { ProofQueueService } from './services/proofQueueService';
+import { RevocationService } from './services/revocationService';
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -23,10 +29,37 @@ config({ path: resolve(__dirname, '../../.env') });
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a reverse proxy, req.ip (and so per-IP rate limiting) needs to know how many hops to trust
+// (a hop count, true, or addresses/subnets as Express accepts them)
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY) {
+  const hops = Number(TRUST_PROXY);
+  app.set('trust proxy', TRUST_PROXY === 'true' ? true : Number.isInteger(hops) ? hops : TRUST_PROXY);
+}
+
 // Middleware
-app.use(cors());
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+app.use(helmet({
+  // The frontend is served from another origin and embeds downloads
+  crossOriginResourcePolicy: { policy: 'cross-origin' },
+}));
+app.use(cors({
+  // Resumable upload clients read the offset from the response headers, and every client the rate limit
+  exposedHeaders: [
+    'Location',
+    'Upload-Offset',
+    'Upload-Length',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'Retry-After',
+  ],
+}));
+// Signed storage uploads carry raw object bytes, whatever their Content-Type
+const skipBodyParsing = (req: express.Request) => req.path.startsWith('/api/storage/');
+const jsonParser = express.json({ limit: '50mb' });
+const urlencodedParser = express.urlencoded({ extended: true, limit: '50mb' });
+app.use((req, res, next) => (skipBodyParsing(req) ? next() : jsonParser(req, res, next)));
+app.use((req, res, next) => (skipBodyParsing(req) ? next() : urlencodedParser(req, res, next)));
 
 // Initialize services and start server
 async function startServer() {
@@ -38,10 +71,20 @@ async function startServer() {
     
     // Initialize other services
     console.log('⚙️ Setting up additional services...');
-    const blockchainService = new BlockchainService();
+    const blockchainService = new BlockchainService(dbService);
+    blockchainService.startIndexer();
     const wsService = new WebSocketService(); // Will attach to HTTP server after it's created
     const trainingService = new TrainingService(dbService, akaveService, wsService);
     const queryService = new QueryService(dbService, akaveService);
+    const reconciliationService = new ReconciliationService(dbService, akaveService);
+    await reconciliationService.startSchedule();
+    const retentionService = new RetentionService(dbService, akaveService);
+    await retentionService.startSchedule();
+    const proofQueue = new ProofQueueService(dbService, blockchainService);
+    const anchorService = new AnchorService(dbService, blockchainService, proofQueue, wsService);
+    await anchorService.startSchedule();
+    const revocationService = new RevocationService(dbService, blockchainService, proofQueue, wsService);
+    proofQueue.startSchedule();
     
     // Setup routes
     console.log('🛣️ Setting up routes...');
@@ -51,7 +94,12 @@ async function startServer() {
       blockchainService, 
       wsService, 
       trainingService, 
-      queryService
+      queryService,
+      reconciliationService,
+      retentionService,
+      anchorService,
+      proofQueue,
+      revocationService
     ));
 
     // Health check
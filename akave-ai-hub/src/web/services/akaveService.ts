@@ -1,8 +1,19 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadBucketCommand, CreateBucketCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import fs from 'fs';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import {
+  createStorageBackend,
+  StorageBackend,
+  StorageError,
+  StorageObjectInfo,
+  ByteRange,
+  CompletedUploadPart,
+} from './storage';
+import { encryptionService, readEnvelope, DecryptionCredentials } from './encryptionService';
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -11,67 +22,70 @@ const __dirname = dirname(__filename);
 // Load environment variables
 config({ path: resolve(__dirname, '../../../.env') });
 
-export class AkaveService {
-  private s3Client: S3Client;
-  private bucketName: string;
+export interface MultipartUploadOptions {
+  partSize?: number;
+  concurrency?: number;
+  maxRetries?: number;
+}
 
-  constructor() {
-    const accessKeyId = process.env.AKAVE_ACCESS_KEY;
-    const secretAccessKey = process.env.AKAVE_SECRET_KEY;
-    const endpoint = process.env.AKAVE_ENDPOINT;
-    this.bucketName = process.env.AKAVE_BUCKET || 'akave-ai-hub';
+export interface DownloadOptions {
+  /** SHA-256 (hex) the downloaded bytes must match, usually `Manifest.hash` */
+  expectedHash?: string;
+  /** Fetch only this byte range (inclusive). Integrity is not checked for partial downloads. */
+  range?: { start: number; end?: number };
+  /** Continue from a previously interrupted download instead of starting over */
+  resume?: boolean;
+}
 
-    if (!accessKeyId || !secretAccessKey || !endpoint) {
-      throw new Error('Akave O3 storage credentials are not configured in .env file');
-    }
+/** The manifest fields needed to fetch and verify its content */
+export interface StoredManifest {
+  s3Key: string;
+  hash: string;
+  encryption?: string | null;
+}
 
-    this.s3Client = new S3Client({
-      region: process.env.AKAVE_REGION || 'us-east-1',
-      credentials: {
-        accessKeyId,
-        secretAccessKey,
-      },
-      endpoint,
-      forcePathStyle: true, // Required for S3-compatible services
-    });
+export class IntegrityError extends Error {
+  constructor(public key: string, public expectedHash: string, public actualHash: string) {
+    super(`Integrity check failed for ${key}: expected sha256 ${expectedHash}, got ${actualHash}`);
+    this.name = 'IntegrityError';
   }
+}
 
-  async initialize(): Promise<void> {
-    try {
-      // Check if the bucket exists
-      await this.s3Client.send(new HeadBucketCommand({ Bucket: this.bucketName }));
-      console.log(`Successfully connected to bucket: ${this.bucketName}`);
-    } catch (error: any) {
-      // If the bucket does not exist, create it
-      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
-        console.log(`Bucket '${this.bucketName}' not found. Creating it...`);
-        try {
-          await this.s3Client.send(new CreateBucketCommand({ Bucket: this.bucketName }));
-          console.log(`Bucket '${this.bucketName}' created successfully.`);
-        } catch (createError) {
-          console.error(`Failed to create bucket '${this.bucketName}':`, createError);
-          throw createError;
-        }
-      } else {
-        console.error('Failed to connect to Akave O3 storage:', error);
-        throw error;
-      }
-    }
+/**
+ * Storage facade used by controllers and services. Objects go to Akave O3 by default;
+ * the backend can be swapped for local disk or memory via STORAGE_BACKEND.
+ */
+export class AkaveService {
+  private backend: StorageBackend;
+
+  constructor(backend: StorageBackend = createStorageBackend()) {
+    this.backend = backend;
   }
 
-  async uploadFile(file: Express.Multer.File, key: string): Promise<string> {
-    const fileStream = file.path; // In ES modules, we can use the path directly
+  get backendName(): string {
+    return this.backend.name;
+  }
 
-    const uploadParams = {
-      Bucket: this.bucketName,
-      Key: key,
-      Body: fileStream,
-      ContentType: file.mimetype,
-    };
+  async initialize(): Promise<void> {
+    await this.backend.initialize();
+  }
+
+  async uploadFile(file: Express.Multer.File, key: string, options: MultipartUploadOptions = {}): Promise<string> {
+    return this.uploadFileFromPath(file.path, key, file.mimetype, options);
+  }
 
+  /**
+   * Upload a local file without buffering it in memory.
+   * On Akave O3, files larger than one part are sent as a multipart upload.
+   */
+  async uploadFileFromPath(
+    filePath: string,
+    key: string,
+    contentType: string = 'application/octet-stream',
+    options: MultipartUploadOptions = {}
+  ): Promise<string> {
     try {
-      const command = new PutObjectCommand(uploadParams);
-      await this.s3Client.send(command);
+      await this.backend.put(key, { filePath }, { contentType, ...options });
       return key;
     } catch (error) {
       console.error('Error uploading file to Akave O3:', error);
@@ -79,74 +93,212 @@ export class AkaveService {
     }
   }
 
-  async uploadFileFromPath(filePath: string, key: string, contentType: string = 'application/octet-stream'): Promise<string> {
-    const fs = await import('fs');
-    const fileBuffer = await fs.promises.readFile(filePath);
-
-    const uploadParams = {
-      Bucket: this.bucketName,
-      Key: key,
-      Body: fileBuffer,
-      ContentType: contentType,
-    };
-
+  async getPresignedUrl(key: string, expiresIn = 3600): Promise<string> {
     try {
-      const command = new PutObjectCommand(uploadParams);
-      await this.s3Client.send(command);
-      return key;
+      return await this.backend.presign(key, { expiresIn });
     } catch (error) {
-      console.error('Error uploading file from path to Akave O3:', error);
-      throw new Error('Failed to upload file from path.');
+      console.error('Error generating presigned URL:', error);
+      throw new Error('Failed to generate presigned URL.');
     }
   }
 
-  async getPresignedUrl(key: string, expiresIn = 3600): Promise<string> {
-    const command = new GetObjectCommand({ Bucket: this.bucketName, Key: key });
+  /**
+   * A URL the client can PUT the object's bytes to directly. The request must send the
+   * same Content-Type, since it is part of the signature.
+   */
+  async getPresignedUploadUrl(key: string, contentType: string, expiresIn = 3600): Promise<string> {
     try {
-      const signedUrl = await getSignedUrl(this.s3Client, command, { expiresIn });
-      return signedUrl;
+      return await this.backend.presign(key, { method: 'PUT', contentType, expiresIn });
     } catch (error) {
-      console.error('Error generating presigned URL:', error);
-      throw new Error('Failed to generate presigned URL.');
+      console.error('Error generating presigned upload URL:', error);
+      throw new Error('Failed to generate presigned upload URL.');
     }
   }
 
-  async deleteFile(key: string): Promise<void> {
-    const deleteParams = {
-      Bucket: this.bucketName,
-      Key: key,
-    };
+  /** Whether the backend can hand out presigned URLs for the parts of a multipart upload */
+  get supportsPresignedMultipart(): boolean {
+    return !!(
+      this.backend.createMultipartUpload &&
+      this.backend.presignUploadPart &&
+      this.backend.completeMultipartUpload &&
+      this.backend.abortMultipartUpload
+    );
+  }
+
+  /**
+   * Start a multipart upload and presign a PUT URL for each of its parts
+   */
+  async createPresignedMultipartUpload(
+    key: string,
+    contentType: string,
+    partCount: number,
+    expiresIn = 3600
+  ): Promise<{ uploadId: string; partUrls: string[] }> {
+    if (!this.supportsPresignedMultipart) {
+      throw new Error(`The ${this.backend.name} storage backend does not support presigned multipart uploads.`);
+    }
+
+    const uploadId = await this.backend.createMultipartUpload!(key, contentType);
+    const partUrls: string[] = [];
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      partUrls.push(await this.backend.presignUploadPart!(key, uploadId, partNumber, expiresIn));
+    }
+    return { uploadId, partUrls };
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: CompletedUploadPart[]): Promise<void> {
+    await this.backend.completeMultipartUpload!(key, uploadId, parts);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.backend.abortMultipartUpload!(key, uploadId);
+  }
 
+  async deleteFile(key: string): Promise<void> {
     try {
-      const command = new DeleteObjectCommand(deleteParams);
-      await this.s3Client.send(command);
+      await this.backend.delete(key);
     } catch (error) {
       console.error('Error deleting file from Akave O3:', error);
       throw new Error('Failed to delete file.');
     }
   }
 
-  async downloadFile(key: string, localPath: string): Promise<void> {
-    const command = new GetObjectCommand({ Bucket: this.bucketName, Key: key });
-    
-    try {
-      const response = await this.s3Client.send(command);
-      
-      if (!response.Body) {
-        throw new Error('No file content received');
+  async getObjectInfo(key: string): Promise<StorageObjectInfo | null> {
+    return this.backend.head(key);
+  }
+
+  async listObjects(prefix?: string): Promise<StorageObjectInfo[]> {
+    return this.backend.list(prefix);
+  }
+
+  async openStream(key: string, range?: ByteRange): Promise<Readable> {
+    return this.backend.stream(key, range);
+  }
+
+  /**
+   * SHA-256 (hex) of a stored object, read straight from the bucket
+   */
+  async hashObject(key: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of await this.backend.stream(key)) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Stream an object to disk.
+   * Full downloads are written to `<localPath>.part` and only moved into place once the
+   * SHA-256 matches `expectedHash`, so an interrupted transfer can be resumed with `resume`.
+   */
+  async downloadFile(key: string, localPath: string, options: DownloadOptions = {}): Promise<void> {
+    await fs.promises.mkdir(dirname(localPath), { recursive: true });
+
+    if (options.range) {
+      const { start, end } = options.range;
+      try {
+        await this.writeObject(key, localPath, { start, end }, 'w');
+        return;
+      } catch (error) {
+        console.error('Error downloading file range from Akave O3:', error);
+        throw new Error('Failed to download file.');
       }
+    }
 
-      // Ensure the directory exists
-      const dir = dirname(localPath);
-      // In ES modules, we need to handle file operations differently
-      // This is a simplified version - in a real implementation you'd need to handle this properly
+    const partialPath = `${localPath}.part`;
+    const hash = crypto.createHash('sha256');
+    let offset = 0;
 
-      return Promise.resolve();
+    try {
+      if (options.resume && fs.existsSync(partialPath)) {
+        // Re-hash what we already have so the final digest covers the whole object
+        for await (const chunk of fs.createReadStream(partialPath)) {
+          hash.update(chunk as Buffer);
+          offset += (chunk as Buffer).length;
+        }
+      }
 
+      try {
+        await this.writeObject(key, partialPath, offset > 0 ? { start: offset } : undefined, offset > 0 ? 'a' : 'w', hash);
+      } catch (error: any) {
+        // An unsatisfiable range means the partial file already holds the whole object
+        if (!(offset > 0 && error instanceof StorageError && error.code === 'InvalidRange')) {
+          throw error;
+        }
+      }
     } catch (error) {
       console.error('Error downloading file from Akave O3:', error);
       throw new Error('Failed to download file.');
     }
+
+    const actualHash = hash.digest('hex');
+    if (options.expectedHash && actualHash !== options.expectedHash.toLowerCase()) {
+      await fs.promises.rm(partialPath, { force: true });
+      console.error(`❌ Hash mismatch for ${key}: expected ${options.expectedHash}, got ${actualHash}`);
+      throw new IntegrityError(key, options.expectedHash, actualHash);
+    }
+
+    await fs.promises.rename(partialPath, localPath);
+  }
+
+  /**
+   * Download a manifest's content as plaintext. Encrypted objects are verified against
+   * their ciphertext hash, decrypted, and then checked against the manifest's plaintext hash.
+   */
+  async downloadManifest(
+    manifest: StoredManifest,
+    localPath: string,
+    options: { resume?: boolean; credentials?: DecryptionCredentials } = {}
+  ): Promise<void> {
+    const envelope = readEnvelope(manifest);
+    if (!envelope) {
+      await this.downloadFile(manifest.s3Key, localPath, { expectedHash: manifest.hash, resume: options.resume });
+      return;
+    }
+
+    const ciphertextPath = `${localPath}.enc`;
+    await this.downloadFile(manifest.s3Key, ciphertextPath, { expectedHash: envelope.ciphertextHash, resume: options.resume });
+
+    try {
+      await encryptionService.decryptFile(ciphertextPath, localPath, envelope, options.credentials);
+    } finally {
+      await fs.promises.rm(ciphertextPath, { force: true });
+    }
+
+    const plaintextHash = await new Promise<string>((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(localPath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+
+    if (plaintextHash !== manifest.hash.toLowerCase()) {
+      await fs.promises.rm(localPath, { force: true });
+      throw new IntegrityError(manifest.s3Key, manifest.hash, plaintextHash);
+    }
+  }
+
+  /**
+   * Pipe an object body (optionally a byte range of it) into a local file
+   */
+  private async writeObject(
+    key: string,
+    filePath: string,
+    range: ByteRange | undefined,
+    flags: 'w' | 'a',
+    hash?: crypto.Hash
+  ): Promise<void> {
+    const body = await this.backend.stream(key, range);
+
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash?.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    await pipeline(body, hasher, fs.createWriteStream(filePath, { flags }));
   }
 }
 
@@ -0,0 +1,201 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnchorBatch, DatabaseService, Manifest, ManifestAnchorDetails, ProofJob } from './databaseService';
+import { BlockchainService } from './blockchainService';
+import { ProofQueueService } from './proofQueueService';
+import { WebSocketService } from './websocketService';
+import { buildMerkleTree, manifestLeaf, verifyMerkleProof } from '../../shared/merkle';
+
+const BATCH_MAX_SIZE = parseInt(process.env.ANCHOR_BATCH_MAX_SIZE || '', 10) || 1000;
+
+export class AnchoringDisabledError extends Error {
+  constructor() {
+    super('Blockchain features are disabled. Please enable them in the configuration.');
+    this.name = 'AnchoringDisabledError';
+  }
+}
+
+/** A manifest's anchoring as shown to clients */
+export interface ManifestAnchorView {
+  manifestId: string;
+  manifestHash: string;
+  leaf: string;
+  /** pending: waiting for a batch; submitted: its batch's root is being anchored */
+  status: 'pending' | 'submitted' | 'anchored';
+  root: string | null;
+  /** The proof job sending the batch's root, once batched */
+  jobId: string | null;
+  proof: string[];
+  txHash: string | null;
+  blockNumber: number | null;
+  requestedAt: string;
+  anchoredAt: string | null;
+}
+
+interface AnchorRootPayload {
+  batchId: string;
+  root: string;
+  leafCount: number;
+}
+
+/**
+ * Anchors manifest hashes in batches rather than one transaction each. Requests are
+ * queued; each run builds a Merkle tree over the queued manifests, hands its root to the
+ * proof queue to anchor in the ManifestRegistry, and keeps every manifest's inclusion proof
+ * so membership can later be checked without the chain.
+ */
+export class AnchorService {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private dbService: DatabaseService,
+    private blockchainService: BlockchainService,
+    private proofQueue: ProofQueueService,
+    private wsService: WebSocketService
+  ) {
+    this.proofQueue.registerHandler<AnchorRootPayload>('anchor_root', {
+      transaction: ({ root, leafCount }) => ({ method: 'anchorRoot', args: [root, leafCount] }),
+      // A batch with the same manifests may already be anchored, e.g. by a run that was interrupted
+      isSettled: async ({ root }) => (await this.blockchainService.getRootAnchor(root)) !== null,
+      onConfirmed: (job, payload) => this.completeBatch(job, payload),
+      onFailed: async (job, { batchId }) => {
+        console.error(`❌ Anchoring batch ${batchId} failed; its manifests are queued again`);
+        await this.dbService.failAnchorBatch(batchId, job.lastError || `Proof job ${job.status}`);
+      },
+    });
+  }
+
+  /**
+   * Batch the queue every ANCHOR_BATCH_INTERVAL_SECONDS (0 disables it)
+   */
+  async startSchedule(): Promise<void> {
+    if (!this.blockchainService.isAvailable()) {
+      return;
+    }
+
+    const intervalSeconds = parseInt(process.env.ANCHOR_BATCH_INTERVAL_SECONDS ?? '300', 10);
+    if (!intervalSeconds || intervalSeconds <= 0) {
+      console.log('🌳 Scheduled manifest anchoring is disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.flush().catch(error => {
+        console.error('❌ Scheduled anchoring failed:', error);
+      });
+    }, intervalSeconds * 1000);
+    this.timer.unref();
+
+    console.log(`🌳 Manifest anchoring scheduled every ${intervalSeconds} seconds`);
+  }
+
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a manifest for the next batch; a manifest already queued or anchored is left as is
+   */
+  async enqueue(manifest: Manifest, userId: string): Promise<ManifestAnchorView> {
+    if (!this.blockchainService.isAvailable()) {
+      throw new AnchoringDisabledError();
+    }
+
+    const anchor = await this.dbService.queueManifestAnchor({
+      manifestId: manifest.id,
+      manifestHash: manifest.hash,
+      leaf: manifestLeaf(manifest.id, manifest.hash),
+      requestedBy: userId,
+    });
+    return this.toView(anchor);
+  }
+
+  async getAnchor(manifestId: string): Promise<ManifestAnchorView | null> {
+    const anchor = await this.dbService.getManifestAnchor(manifestId);
+    return anchor ? this.toView(anchor) : null;
+  }
+
+  /**
+   * Check offline that the manifest, as it is now, is included under its batch's anchored
+   * root. Null until the batch is anchored.
+   */
+  verifyInclusion(manifest: Manifest, anchor: ManifestAnchorView): boolean | null {
+    if (anchor.status !== 'anchored' || !anchor.root) {
+      return null;
+    }
+    const leaf = manifestLeaf(manifest.id, manifest.hash);
+    return leaf === anchor.leaf && verifyMerkleProof(leaf, anchor.proof, anchor.root);
+  }
+
+  /**
+   * Batch up to ANCHOR_BATCH_MAX_SIZE queued manifests under one root and queue the root to
+   * be anchored. Returns the batch, or null if nothing was queued or a run is already going.
+   */
+  async flush(): Promise<AnchorBatch | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const pending = await this.dbService.listPendingManifestAnchors(BATCH_MAX_SIZE);
+      if (pending.length === 0) {
+        return null;
+      }
+
+      const { root, proofs } = buildMerkleTree(pending.map(anchor => anchor.leaf));
+      const batch = await this.dbService.createAnchorBatch(
+        { id: uuidv4(), root, leafCount: pending.length },
+        pending.map((anchor, index) => ({ manifestId: anchor.manifestId, proof: proofs[index] }))
+      );
+
+      const payload: AnchorRootPayload = { batchId: batch.id, root, leafCount: pending.length };
+      const job = await this.proofQueue.enqueue('anchor_root', payload);
+      await this.dbService.setAnchorBatchJob(batch.id, job.id);
+      console.log(`🌳 Batched ${pending.length} manifest(s) under root ${root}`);
+
+      return this.dbService.getAnchorBatch(batch.id);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Record the anchored root and tell everyone waiting on a manifest in the batch
+   */
+  private async completeBatch(job: ProofJob, { batchId, root }: AnchorRootPayload): Promise<void> {
+    const anchoredAt = new Date().toISOString();
+    await this.dbService.completeAnchorBatch(batchId, { txHash: job.txHash, blockNumber: job.blockNumber, anchoredAt });
+    console.log(`🌳 Batch ${batchId} anchored under root ${root}`);
+
+    for (const { userId, manifestIds } of await this.dbService.listAnchorBatchRequesters(batchId)) {
+      this.wsService.broadcastToUser(userId, 'proof_confirmed', {
+        manifestIds,
+        root,
+        txHash: job.txHash,
+        blockNumber: job.blockNumber,
+        anchoredAt,
+      });
+    }
+  }
+
+  private toView(anchor: ManifestAnchorDetails): ManifestAnchorView {
+    return {
+      manifestId: anchor.manifestId,
+      manifestHash: anchor.manifestHash,
+      leaf: anchor.leaf,
+      status: anchor.batchStatus === 'anchored' ? 'anchored' : anchor.batchId ? 'submitted' : 'pending',
+      root: anchor.root,
+      jobId: anchor.jobId,
+      proof: anchor.proof ? JSON.parse(anchor.proof) : [],
+      txHash: anchor.txHash,
+      blockNumber: anchor.blockNumber,
+      requestedAt: anchor.requestedAt,
+      anchoredAt: anchor.anchoredAt,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiToken, DatabaseService } from './databaseService';
+
+const DEFAULT_TTL_DAYS = parseInt(process.env.API_TOKEN_DEFAULT_TTL_DAYS || '', 10) || 90;
+const MAX_TTL_DAYS = parseInt(process.env.API_TOKEN_MAX_TTL_DAYS || '', 10) || 365;
+
+/** Marks API tokens, so authMiddleware can tell them from session JWTs */
+export const API_TOKEN_PREFIX = 'akv_';
+
+export const API_TOKEN_SCOPES = [
+  'files:read',
+  'files:write',
+  'datasets:read',
+  'datasets:write',
+  'training:read',
+  'training:write',
+  'query:read',
+  'query:write',
+  'proofs:read',
+  'proofs:write',
+  'usage:read',
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export class ApiTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenError';
+  }
+}
+
+export interface ApiTokenOptions {
+  name: unknown;
+  scopes: unknown;
+  expiresInDays?: number;
+}
+
+/** A token as shown to its owner; the secret and its hash never leave the server */
+export type ApiTokenView = Omit<ApiToken, 'tokenHash' | 'scopes'> & {
+  scopes: ApiTokenScope[];
+  status: 'active' | 'expired' | 'revoked';
+};
+
+/** Who a valid token authenticates, and what it is allowed to do */
+export interface ApiTokenPrincipal {
+  tokenId: string;
+  userId: string;
+  walletAddress: string;
+  workspaceId: string | null;
+  scopes: ApiTokenScope[];
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Personal access tokens for CI pipelines and scripts that can't sign a wallet challenge.
+ * A token belongs to a wallet, acts in the workspace it was created in, and only reaches
+ * the routes its scopes cover; it expires, records when it was last used, and can be revoked.
+ */
+export class ApiTokenService {
+  constructor(private dbService: DatabaseService) {}
+
+  /**
+   * Create a token for the user. The secret is returned only here.
+   */
+  async createToken(
+    userId: string,
+    workspaceId: string | undefined,
+    options: ApiTokenOptions
+  ): Promise<{ token: ApiTokenView; secret: string }> {
+    const { name, scopes } = options;
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      throw new ApiTokenError('name is required and must be at most 100 characters.');
+    }
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every(scope => API_TOKEN_SCOPES.includes(scope as ApiTokenScope))
+    ) {
+      throw new ApiTokenError(`scopes must be a non-empty list of: ${API_TOKEN_SCOPES.join(', ')}.`);
+    }
+
+    const expiresInDays = options.expiresInDays ?? DEFAULT_TTL_DAYS;
+    if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > MAX_TTL_DAYS) {
+      throw new ApiTokenError(`expiresInDays must be between 0 and ${MAX_TTL_DAYS}.`);
+    }
+
+    const secret = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const token = await this.dbService.createApiToken({
+      id: uuidv4(),
+      userId,
+      workspaceId: workspaceId ?? null,
+      name: name.trim(),
+      tokenHash: hashToken(secret),
+      prefix: secret.slice(0, API_TOKEN_PREFIX.length + 8),
+      scopes: JSON.stringify([...new Set(scopes)]),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 3600 * 1000).toISOString(),
+    });
+
+    console.log(`🔑 API token ${token.id} created`);
+    return { token: this.toView(token), secret };
+  }
+
+  async listTokens(userId: string): Promise<ApiTokenView[]> {
+    const tokens = await this.dbService.listApiTokens(userId);
+    return tokens.map(token => this.toView(token));
+  }
+
+  /**
+   * Revoke one of the user's tokens; it stops working immediately. Null if it isn't theirs.
+   */
+  async revokeToken(userId: string, id: string): Promise<ApiTokenView | null> {
+    const token = await this.dbService.getApiToken(id);
+    if (!token || token.userId !== userId) {
+      return null;
+    }
+    const revoked = await this.dbService.revokeApiToken(id);
+    console.log(`🔒 API token ${id} revoked`);
+    return revoked ? this.toView(revoked) : null;
+  }
+
+  /**
+   * The principal for a presented secret, recording the use; null if the token is
+   * unknown, expired or revoked. Pass `resolved` when resolve already looked the secret
+   * up for this request.
+   */
+  async authenticate(
+    secret: string,
+    ipAddress: string | null,
+    resolved?: ApiTokenPrincipal | null
+  ): Promise<ApiTokenPrincipal | null> {
+    const principal = resolved !== undefined ? resolved : await this.resolve(secret);
+    if (principal) {
+      await this.dbService.touchApiToken(principal.tokenId, ipAddress);
+    }
+    return principal;
+  }
+
+  /**
+   * Like authenticate, but only reads: the use is not recorded
+   */
+  async resolve(secret: string): Promise<ApiTokenPrincipal | null> {
+    const token = await this.dbService.getApiTokenByHash(hashToken(secret));
+    if (!token || this.statusOf(token) !== 'active') {
+      return null;
+    }
+
+    return {
+      tokenId: token.id,
+      userId: token.userId,
+      walletAddress: token.walletAddress,
+      workspaceId: token.workspaceId,
+      scopes: JSON.parse(token.scopes),
+    };
+  }
+
+  private statusOf(token: ApiToken): ApiTokenView['status'] {
+    if (token.revokedAt) return 'revoked';
+    if (new Date(token.expiresAt).getTime() <= Date.now()) return 'expired';
+    return 'active';
+  }
+
+  private toView(token: ApiToken): ApiTokenView {
+    const { tokenHash, scopes, ...rest } = token;
+    return { ...rest, scopes: JSON.parse(scopes), status: this.statusOf(token) };
+  }
+}
@@ -0,0 +1,351 @@
+import path from 'path';
+import fs from 'fs';
+import zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const MAX_ENTRIES = parseInt(process.env.ARCHIVE_MAX_ENTRIES || '', 10) || 100_000;
+const MAX_EXPANDED_BYTES = parseInt(process.env.ARCHIVE_MAX_EXPANDED_BYTES || '', 10) || 20 * 1024 ** 3;
+// The central directory is read into memory in one piece
+const MAX_ZIP_DIRECTORY_BYTES = 64 * 1024 * 1024;
+// TAR pax headers and GNU long names are read into memory too; real ones are a few hundred bytes
+const MAX_TAR_METADATA_BYTES = 1024 * 1024;
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+/** Content type of the JSON tree index stored as an expanded archive's own object */
+export const DIRECTORY_CONTENT_TYPE = 'application/vnd.akave.directory+json';
+
+export const isDirectoryManifest = (manifest: { contentType: string }): boolean =>
+  manifest.contentType === DIRECTORY_CONTENT_TYPE;
+
+export interface ExtractedEntry {
+  /** Normalized path inside the archive, always relative and '/'-separated */
+  path: string;
+  /** Where the entry's bytes were written */
+  localPath: string;
+  size: number;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * Identify an archive from its leading bytes rather than its filename
+ */
+export const detectArchiveFormat = async (filePath: string): Promise<ArchiveFormat | null> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(512);
+    const { bytesRead } = await handle.read(header, 0, 512, 0);
+
+    if (bytesRead >= 4 && header.readUInt32LE(0) === 0x04034b50) return 'zip';
+    if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) return 'tar.gz';
+    if (bytesRead === 512 && header.toString('latin1', 257, 262) === 'ustar') return 'tar';
+    return null;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Turn an archive member name into a safe relative path, or null for entries that
+ * should not be extracted (directories, OS metadata, anything escaping the root).
+ */
+const normalizeEntryPath = (name: string): string | null => {
+  const cleaned = name.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (!cleaned || cleaned.endsWith('/') || cleaned.includes('\0') || cleaned.startsWith('/')) return null;
+  if (/^[A-Za-z]:/.test(cleaned)) return null;
+
+  const normalized = path.posix.normalize(cleaned);
+  if (normalized.split('/').some(segment => segment === '..')) return null;
+  if (normalized.startsWith('__MACOSX/') || path.posix.basename(normalized) === '.DS_Store') return null;
+
+  return normalized;
+};
+
+/**
+ * Extract every regular file in an archive into `destDir`. Entry sizes are enforced on the
+ * decompressed bytes actually written, not on what the archive headers claim.
+ */
+export const extractArchive = async (
+  filePath: string,
+  format: ArchiveFormat,
+  destDir: string
+): Promise<ExtractedEntry[]> => {
+  await fs.promises.mkdir(destDir, { recursive: true });
+
+  const entries = new Map<string, ExtractedEntry>();
+  let expandedBytes = 0;
+
+  const writeEntry = async (name: string, source: Readable): Promise<void> => {
+    const entryPath = normalizeEntryPath(name);
+    if (!entryPath) {
+      // Drain it: TAR members share one underlying stream
+      for await (const _chunk of source) {
+        // discard
+      }
+      return;
+    }
+
+    if (!entries.has(entryPath) && entries.size >= MAX_ENTRIES) {
+      source.destroy();
+      throw new ArchiveError(`Archive has more than ${MAX_ENTRIES} files.`);
+    }
+
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        expandedBytes += chunk.length;
+        if (expandedBytes > MAX_EXPANDED_BYTES) {
+          callback(new ArchiveError(`Archive expands to more than ${MAX_EXPANDED_BYTES} bytes.`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    // Later members with the same path replace earlier ones, as with `tar -x`
+    const localPath = entries.get(entryPath)?.localPath ?? path.join(destDir, `entry-${entries.size}`);
+    await pipeline(source, limiter, fs.createWriteStream(localPath));
+    const { size } = await fs.promises.stat(localPath);
+    entries.set(entryPath, { path: entryPath, localPath, size });
+  };
+
+  try {
+    if (format === 'zip') {
+      await readZip(filePath, writeEntry);
+    } else {
+      const source = fs.createReadStream(filePath);
+      await readTar(format === 'tar.gz' ? source.pipe(zlib.createGunzip()) : source, writeEntry);
+    }
+  } catch (error: any) {
+    if (error instanceof ArchiveError) throw error;
+    throw new ArchiveError(`Failed to read ${format} archive: ${error?.message || 'unknown error'}`);
+  }
+
+  return Array.from(entries.values()).sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+};
+
+type EntryHandler = (name: string, source: Readable) => Promise<void>;
+
+/**
+ * ZIP: walk the central directory (so sizes are known even for streamed archives)
+ * and read each member's data from its local header. ZIP64 archives are supported.
+ */
+const readZip = async (filePath: string, onEntry: EntryHandler): Promise<void> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const read = async (position: number, length: number): Promise<Buffer> => {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, position);
+      if (bytesRead !== length) throw new ArchiveError('Unexpected end of ZIP archive.');
+      return buffer;
+    };
+
+    // End of central directory record: 22 bytes plus a comment of up to 64KB
+    const tailLength = Math.min(fileSize, 22 + 0xffff);
+    const tail = await read(fileSize - tailLength, tailLength);
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) throw new ArchiveError('Not a ZIP archive: end of central directory not found.');
+
+    let entryCount = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    const locator = eocd - 20;
+    if (locator >= 0 && tail.readUInt32LE(locator) === 0x07064b50) {
+      const zip64 = await read(Number(tail.readBigUInt64LE(locator + 8)), 56);
+      if (zip64.readUInt32LE(0) !== 0x06064b50) throw new ArchiveError('Corrupt ZIP64 end of central directory.');
+      entryCount = Number(zip64.readBigUInt64LE(32));
+      directorySize = Number(zip64.readBigUInt64LE(40));
+      directoryOffset = Number(zip64.readBigUInt64LE(48));
+    }
+
+    if (directorySize > MAX_ZIP_DIRECTORY_BYTES) throw new ArchiveError('ZIP central directory is too large.');
+    const directory = await read(directoryOffset, directorySize);
+
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== 0x02014b50) throw new ArchiveError('Corrupt ZIP central directory.');
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      let compressedSize = directory.readUInt32LE(offset + 20);
+      let uncompressedSize = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      let localHeaderOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      // ZIP64 extended information: only the fields saturated in the record are present, in this order
+      let extra = offset + 46 + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        const id = directory.readUInt16LE(extra);
+        const length = directory.readUInt16LE(extra + 2);
+        if (id === 0x0001) {
+          let field = extra + 4;
+          if (uncompressedSize === 0xffffffff) { uncompressedSize = Number(directory.readBigUInt64LE(field)); field += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = Number(directory.readBigUInt64LE(field)); field += 8; }
+          if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(directory.readBigUInt64LE(field)); }
+        }
+        extra += 4 + length;
+      }
+      offset = extraEnd + commentLength;
+
+      if (name.endsWith('/')) continue;
+      if (flags & 0x1) throw new ArchiveError(`Encrypted ZIP entries are not supported (${name}).`);
+      if (method !== 0 && method !== 8) throw new ArchiveError(`Unsupported ZIP compression method ${method} (${name}).`);
+
+      const local = await read(localHeaderOffset, 30);
+      if (local.readUInt32LE(0) !== 0x04034b50) throw new ArchiveError(`Corrupt ZIP local header (${name}).`);
+      const dataStart = localHeaderOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+
+      const raw = compressedSize > 0
+        ? fs.createReadStream(filePath, { start: dataStart, end: dataStart + compressedSize - 1 })
+        : Readable.from([]);
+      await onEntry(name, method === 8 ? raw.pipe(zlib.createInflateRaw()) : raw);
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Pulls exact byte counts out of a stream, for the block-structured TAR format
+ */
+class ByteReader {
+  private iterator: AsyncIterator<Buffer>;
+  private buffered: Buffer = Buffer.alloc(0);
+
+  constructor(source: Readable) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /** Exactly `length` bytes, or null at a clean end of stream */
+  async read(length: number): Promise<Buffer | null> {
+    while (this.buffered.length < length) {
+      const { value, done } = await this.iterator.next();
+      if (done) {
+        if (this.buffered.length === 0) return null;
+        throw new ArchiveError('Unexpected end of TAR archive.');
+      }
+      this.buffered = Buffer.concat([this.buffered, value]);
+    }
+    const chunk = this.buffered.subarray(0, length);
+    this.buffered = this.buffered.subarray(length);
+    return chunk;
+  }
+
+  /** `length` bytes as a sequence of chunks, without holding them all in memory */
+  async *stream(length: number): AsyncGenerator<Buffer> {
+    let remaining = length;
+    while (remaining > 0) {
+      if (this.buffered.length === 0) {
+        const { value, done } = await this.iterator.next();
+        if (done) throw new ArchiveError('Unexpected end of TAR archive.');
+        this.buffered = value;
+      }
+      const chunk = this.buffered.subarray(0, Math.min(remaining, this.buffered.length));
+      this.buffered = this.buffered.subarray(chunk.length);
+      remaining -= chunk.length;
+      yield chunk;
+    }
+  }
+
+  async skip(length: number): Promise<void> {
+    for await (const _chunk of this.stream(length)) {
+      // discard
+    }
+  }
+}
+
+const readTarString = (block: Buffer, start: number, length: number): string => {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+};
+
+const readTarNumber = (block: Buffer, start: number, length: number): number => {
+  // GNU base-256 encoding for values that don't fit the octal field
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i++) value = value * 256 + block[i];
+    return value;
+  }
+  const text = readTarString(block, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+const parsePaxRecords = (data: Buffer): Record<string, string> => {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.toString('utf8', offset, space), 10);
+    if (!length) break;
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+};
+
+/**
+ * TAR (ustar, pax and GNU long names). Only regular files are extracted; links and
+ * special files are skipped.
+ */
+const readTar = async (source: Readable, onEntry: EntryHandler): Promise<void> => {
+  const reader = new ByteReader(source);
+  let nextPath: string | null = null;
+
+  for (;;) {
+    const header = await reader.read(512);
+    if (!header || header.every(byte => byte === 0)) break;
+
+    const checksum = readTarNumber(header, 148, 8);
+    let sum = 0;
+    for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+    if (sum !== checksum) throw new ArchiveError('Not a TAR archive: header checksum mismatch.');
+
+    const size = readTarNumber(header, 124, 12);
+    const padding = (512 - (size % 512)) % 512;
+    const type = String.fromCharCode(header[156] || 0x30);
+    // GNU tar ("ustar  ") reuses the POSIX prefix field for other data
+    const prefix = header.toString('latin1', 257, 263) === 'ustar\0' ? readTarString(header, 345, 155) : '';
+    const name = nextPath ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+
+    if (type === 'x' || type === 'L') {
+      // Metadata for the member that follows: a pax path record or a GNU long name
+      if (size > MAX_TAR_METADATA_BYTES) throw new ArchiveError('TAR header record is too large.');
+      const data = (await reader.read(size)) ?? Buffer.alloc(0);
+      await reader.skip(padding);
+      nextPath = type === 'x'
+        ? parsePaxRecords(data).path ?? nextPath
+        : data.toString('utf8').replace(/\0+$/, '');
+      continue;
+    }
+
+    nextPath = null;
+    if (type === '0' || type === '7') {
+      await onEntry(name, Readable.from(reader.stream(size)));
+    } else {
+      await reader.skip(size);
+    }
+    await reader.skip(padding);
+  }
+};
@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { DatabaseService, GrantRole, Manifest, ManifestGrant, WorkspaceRole } from './databaseService';
+
+export type AccessRole = GrantRole | 'owner';
+
+// Each role includes everything the roles before it allow
+const ROLE_RANK: Record<AccessRole, number> = { reader: 1, writer: 2, owner: 3 };
+
+// What membership of the manifest's workspace gives; members own what they uploaded
+const WORKSPACE_ACCESS: Record<WorkspaceRole, AccessRole> = { admin: 'owner', member: 'writer', viewer: 'reader' };
+
+const WALLET_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export class AccessControlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessControlError';
+  }
+}
+
+export interface GrantRequest {
+  /** Grant to one wallet... */
+  walletAddress?: string;
+  /** ...or to every member of a team */
+  teamId?: string;
+  role: GrantRole;
+}
+
+/**
+ * Decides what a user may do with a manifest. Inside its workspace, admins and the
+ * uploader own it, other members can write and viewers can read; outsiders need a
+ * reader or writer grant, made to their wallet or to a team they belong to. Readers can
+ * download, query and train on a file, writers can also publish it and register proofs,
+ * and only the owner can delete it, share it publicly or change its grants.
+ */
+export class AuthorizationService {
+  constructor(private dbService: DatabaseService) {}
+
+  async getRole(userId: string, manifest: Manifest): Promise<AccessRole | null> {
+    const roles: AccessRole[] = await this.dbService.listGrantedRoles(manifest.id, userId);
+
+    if (manifest.workspaceId) {
+      const membership = await this.dbService.getWorkspaceMember(manifest.workspaceId, userId);
+      if (membership) {
+        roles.push(
+          manifest.userId === userId && membership.role !== 'viewer' ? 'owner' : WORKSPACE_ACCESS[membership.role]
+        );
+      }
+    } else if (manifest.userId === userId) {
+      // Manifests from before workspaces belong to their uploader alone
+      return 'owner';
+    }
+
+    return roles.reduce<AccessRole | null>(
+      (best, role) => (best === null || ROLE_RANK[role] > ROLE_RANK[best] ? role : best),
+      null
+    );
+  }
+
+  async can(userId: string, manifest: Manifest, required: AccessRole): Promise<boolean> {
+    const role = await this.getRole(userId, manifest);
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+  }
+
+  /**
+   * The manifest, if it exists and the user holds at least `required` on it. Callers
+   * answer null with a 404 so that files a user can't see don't reveal that they exist.
+   */
+  async authorizeManifest(userId: string, manifestId: string, required: AccessRole): Promise<Manifest | null> {
+    const manifest = await this.dbService.getManifestById(manifestId);
+    if (!manifest || !(await this.can(userId, manifest, required))) {
+      return null;
+    }
+    return manifest;
+  }
+
+  async listGrants(userId: string, manifestId: string) {
+    const manifest = await this.authorizeManifest(userId, manifestId, 'owner');
+    return manifest ? this.dbService.listManifestGrants(manifest.id) : null;
+  }
+
+  /**
+   * Grant a wallet or team access to one of the user's manifests, replacing any earlier
+   * grant to the same principal. Null if the manifest isn't the user's.
+   */
+  async grant(userId: string, manifestId: string, request: GrantRequest): Promise<ManifestGrant | null> {
+    if (request.role !== 'reader' && request.role !== 'writer') {
+      throw new AccessControlError('role must be one of: reader, writer.');
+    }
+
+    const manifest = await this.authorizeManifest(userId, manifestId, 'owner');
+    if (!manifest) {
+      return null;
+    }
+
+    const principal = await this.resolvePrincipal(request);
+    if (!principal) {
+      throw new AccessControlError(`Wallet ${request.walletAddress} not found.`);
+    }
+    if (principal.principalType === 'user' && principal.principalId === manifest.userId) {
+      throw new AccessControlError('The owner already has full access.');
+    }
+
+    const grant = await this.dbService.upsertManifestGrant({
+      manifestId: manifest.id,
+      ...principal,
+      role: request.role,
+      grantedBy: userId,
+    });
+    console.log(`🔑 Granted ${request.role} on ${manifest.id} to ${principal.principalType} ${principal.principalId}`);
+    return grant;
+  }
+
+  /**
+   * Remove a grant; false if there was none, null if the manifest isn't the user's
+   */
+  async revoke(userId: string, manifestId: string, request: Omit<GrantRequest, 'role'>): Promise<boolean | null> {
+    const manifest = await this.authorizeManifest(userId, manifestId, 'owner');
+    if (!manifest) {
+      return null;
+    }
+
+    const principal = await this.resolvePrincipal(request, false);
+    if (!principal) {
+      return false;
+    }
+    return this.dbService.deleteManifestGrant(manifest.id, principal.principalType, principal.principalId);
+  }
+
+  private async resolvePrincipal(
+    request: Omit<GrantRequest, 'role'>,
+    createUser = true
+  ): Promise<Pick<ManifestGrant, 'principalType' | 'principalId'> | null> {
+    if ((request.walletAddress === undefined) === (request.teamId === undefined)) {
+      throw new AccessControlError('Specify exactly one of walletAddress or teamId.');
+    }
+
+    if (request.teamId !== undefined) {
+      const team = await this.dbService.getTeam(request.teamId);
+      if (!team) {
+        throw new AccessControlError(`Team ${request.teamId} not found.`);
+      }
+      return { principalType: 'team', principalId: team.id };
+    }
+
+    if (!WALLET_ADDRESS_PATTERN.test(request.walletAddress as string)) {
+      throw new AccessControlError('walletAddress must be a 0x-prefixed Ethereum address.');
+    }
+    // Users are keyed by the checksummed address sign-in records, whatever case the caller used
+    const walletAddress = ethers.getAddress((request.walletAddress as string).toLowerCase());
+    // Wallets that have never signed in get their user record now, so the grant is waiting for them
+    const user = await this.dbService.getUserByWalletAddress(walletAddress)
+      ?? (createUser ? await this.dbService.findOrCreateUser(walletAddress) : null);
+    return user ? { principalType: 'user', principalId: user.id } : null;
+  }
+}
@@ -2,6 +2,8 @@ import { ethers, Contract } from 'ethers';
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import { manifestHashToBytes32 } from '../../shared/merkle';
+import { DatabaseService, RegistryCheckpoint, RegistryEvent, RegistryEventFilter } from './databaseService';
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -10,6 +12,15 @@ const __dirname = dirname(__filename);
 // Load environment variables
 config({ path: resolve(__dirname, '../../../.env') });
 
+// The indexer reads registry events from INDEXER_START_BLOCK on, ideally the contract's deployment block
+const INDEXER_START_BLOCK = parseInt(process.env.INDEXER_START_BLOCK || '', 10) || 0;
+// Blocks per eth_getLogs request while catching up
+const INDEXER_BLOCK_RANGE = parseInt(process.env.INDEXER_BLOCK_RANGE || '', 10) || 2000;
+// Blocks below the head a reorg may still replace
+const INDEXER_REORG_DEPTH = parseInt(process.env.INDEXER_REORG_DEPTH || '', 10) || 64;
+// Registry events the indexer stores
+const INDEXED_EVENTS = ['ManifestRegistered', 'RootAnchored'] as const;
+
 // The ABI of the ManifestRegistry contract
 // In a real project, this would be loaded from a JSON file generated by the compiler
 const contractAbi = [
@@ -17,6 +28,15 @@ const contractAbi = [
   "function registerManifest(string calldata manifestId, bytes32 hash) external",
   "function getManifestHash(string calldata manifestId) external view returns (bytes32)",
   "function verifyManifest(string calldata manifestId, bytes32 hash) external view returns (bool)",
+  "event RootAnchored(bytes32 indexed root, uint256 leafCount, address indexed registrant, uint256 timestamp)",
+  "function anchorRoot(bytes32 root, uint256 leafCount) external",
+  "function getRoot(bytes32 root) external view returns (uint256 leafCount, uint256 timestamp)",
+  "function verifyManifestInclusion(bytes32 root, string calldata manifestId, bytes32 hash, bytes32[] calldata proof) external view returns (bool)",
+  "event ManifestRevoked(string indexed manifestId, string reason, address indexed revoker, uint256 timestamp)",
+  "event ManifestSuperseded(string indexed manifestId, string supersededBy, address indexed revoker, uint256 timestamp)",
+  "function revokeManifest(string calldata manifestId, string calldata reason) external",
+  "function supersedeManifest(string calldata manifestId, string calldata supersededBy, string calldata reason) external",
+  "function getRevocation(string calldata manifestId) external view returns (uint256 timestamp, string supersededBy, string reason)",
   "function owner() external view returns (address)",
   "function isRegistrar(address) external view returns (bool)",
   "function addRegistrar(address registrarAddress) external",
@@ -28,8 +48,10 @@ export class BlockchainService {
   private wallet: ethers.Wallet;
   private contract: Contract;
   private isEnabled: boolean;
+  private indexing = false;
+  private indexTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(private dbService: DatabaseService) {
     const providerUrl = process.env.ETHEREUM_NODE_URL;
     const privateKey = process.env.REGISTRAR_PRIVATE_KEY;
     const contractAddress = process.env.MANIFEST_REGISTRY_CONTRACT_ADDRESS;
@@ -59,7 +81,7 @@ export class BlockchainService {
 
     try {
       // Ensure the hash is a valid bytes32
-      const formattedHash = ethers.isBytes32(hash) ? hash : ethers.id(hash);
+      const formattedHash = manifestHashToBytes32(hash);
 
       const tx = await this.contract.registerManifest(manifestId, formattedHash);
       await tx.wait(); // Wait for the transaction to be mined
@@ -80,7 +102,7 @@ export class BlockchainService {
     }
 
     try {
-      const formattedHash = ethers.isBytes32(hash) ? hash : ethers.id(hash);
+      const formattedHash = manifestHashToBytes32(hash);
       return await this.contract.verifyManifest(manifestId, formattedHash);
     } catch (error) {
       console.error('Failed to verify manifest on-chain:', error);
@@ -88,6 +110,123 @@ export class BlockchainService {
     }
   }
 
+  public isAvailable(): boolean {
+    return this.isEnabled;
+  }
+
+  /**
+   * Address transactions are sent from
+   */
+  public getSenderAddress(): string {
+    this.requireEnabled();
+    return this.wallet.address;
+  }
+
+  public async getChainId(): Promise<number> {
+    this.requireEnabled();
+    return Number((await this.provider.getNetwork()).chainId);
+  }
+
+  public async getContractAddress(): Promise<string> {
+    this.requireEnabled();
+    return this.contract.getAddress();
+  }
+
+  /**
+   * The node connection, for read-only checks done outside this service
+   */
+  public getReadProvider(): ethers.Provider {
+    this.requireEnabled();
+    return this.provider;
+  }
+
+  /**
+   * EIP-191 signature by the registrar key, e.g. over a proof bundle
+   */
+  public async signMessage(message: string): Promise<string> {
+    this.requireEnabled();
+    return this.wallet.signMessage(message);
+  }
+
+  /**
+   * The sender's next nonce, counting mined transactions only ('latest') or also those
+   * waiting in the node's mempool ('pending')
+   */
+  public async getTransactionCount(blockTag: 'latest' | 'pending'): Promise<number> {
+    this.requireEnabled();
+    return this.provider.getTransactionCount(this.wallet.address, blockTag);
+  }
+
+  public async getFeeData(): Promise<ethers.FeeData> {
+    this.requireEnabled();
+    return this.provider.getFeeData();
+  }
+
+  public async getBlockNumber(): Promise<number> {
+    this.requireEnabled();
+    return this.provider.getBlockNumber();
+  }
+
+  public async getTransactionReceipt(txHash: string): Promise<ethers.TransactionReceipt | null> {
+    this.requireEnabled();
+    return this.provider.getTransactionReceipt(txHash);
+  }
+
+  /**
+   * Broadcast a registry call without waiting for it to be mined. The caller picks the
+   * nonce and fees, so a stuck transaction can be replaced with a better-paid one.
+   */
+  public async sendContractTransaction(
+    method: string,
+    args: unknown[],
+    overrides: ethers.Overrides
+  ): Promise<ethers.TransactionResponse> {
+    this.requireEnabled();
+    return this.contract.getFunction(method).send(...args, overrides);
+  }
+
+  /**
+   * When a root was anchored and how many manifests it covers; null if it never was
+   */
+  public async getRootAnchor(root: string): Promise<{ leafCount: number; anchoredAt: string } | null> {
+    if (!this.isEnabled) {
+      throw new Error('Blockchain features are disabled. Please enable them in the configuration.');
+    }
+
+    try {
+      const [leafCount, timestamp]: [bigint, bigint] = await this.contract.getRoot(root);
+      if (timestamp === 0n) {
+        return null;
+      }
+      return { leafCount: Number(leafCount), anchoredAt: new Date(Number(timestamp) * 1000).toISOString() };
+    } catch (error) {
+      console.error('Failed to read Merkle root from chain:', error);
+      throw new Error('Failed to retrieve on-chain root.');
+    }
+  }
+
+  /**
+   * When and why a manifest was revoked, and what supersedes it; null if it isn't revoked
+   */
+  public async getRevocation(
+    manifestId: string
+  ): Promise<{ revokedAt: string; supersededBy: string | null; reason: string } | null> {
+    if (!this.isEnabled) {
+      throw new Error('Blockchain features are disabled. Please enable them in the configuration.');
+    }
+
+    try {
+      const [timestamp, supersededBy, reason]: [bigint, string, string] = await this.contract.getRevocation(manifestId);
+      if (timestamp === 0n) {
+        return null;
+      }
+      return { revokedAt: new Date(Number(timestamp) * 1000).toISOString(), supersededBy: supersededBy || null, reason };
+    } catch (error) {
+      console.error('Failed to read manifest revocation from chain:', error);
+      throw new Error('Failed to retrieve on-chain revocation.');
+    }
+  }
+
   public async getManifestHash(manifestId: string): Promise<string> {
     if (!this.isEnabled) {
       throw new Error('Blockchain features are disabled. Please enable them in the configuration.');
@@ -100,4 +239,186 @@ export class BlockchainService {
       throw new Error('Failed to retrieve on-chain hash.');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Index registry events every INDEXER_POLL_SECONDS (0 disables it), catching up from
+   * INDEXER_START_BLOCK or wherever the last run stopped
+   */
+  public startIndexer(): void {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    const intervalSeconds = parseInt(process.env.INDEXER_POLL_SECONDS ?? '15', 10);
+    if (!intervalSeconds || intervalSeconds <= 0) {
+      console.log('📇 Registry event indexing is disabled');
+      return;
+    }
+
+    const poll = () => {
+      if (this.indexing) return;
+      this.indexEvents().catch(error => {
+        console.error('❌ Registry event indexing failed:', error);
+      });
+    };
+    this.indexTimer = setInterval(poll, intervalSeconds * 1000);
+    this.indexTimer.unref();
+    poll();
+
+    console.log(`📇 Indexing registry events every ${intervalSeconds} seconds`);
+  }
+
+  public stopIndexer(): void {
+    if (this.indexTimer) {
+      clearInterval(this.indexTimer);
+      this.indexTimer = null;
+    }
+  }
+
+  /**
+   * Read registry events up to the current head. Blocks a reorg replaced are forgotten and
+   * read again first. Returns the block indexed up to, or null if a run is already going.
+   */
+  public async indexEvents(): Promise<number | null> {
+    this.requireEnabled();
+    if (this.indexing) {
+      return null;
+    }
+
+    this.indexing = true;
+    try {
+      const head = await this.provider.getBlockNumber();
+      let cursor = await this.rewindReplacedBlocks();
+      const topics = [INDEXED_EVENTS.map(name => this.contract.interface.getEvent(name)!.topicHash)];
+      const address = await this.contract.getAddress();
+
+      while (cursor < head) {
+        const toBlock = Math.min(cursor + INDEXER_BLOCK_RANGE, head);
+        // Taken before the logs: a reorg after this point changes the checkpoint's hash too,
+        // so the next run notices it
+        const block = await this.provider.getBlock(toBlock);
+        if (!block?.hash) {
+          break;
+        }
+
+        const logs = await this.provider.getLogs({ address, topics, fromBlock: cursor + 1, toBlock });
+        const events: Omit<RegistryEvent, 'indexedAt'>[] = [];
+        for (const log of logs) {
+          events.push(await this.toRegistryEvent(log));
+        }
+
+        await this.dbService.recordRegistryEvents(events, { blockNumber: toBlock, blockHash: block.hash });
+        if (events.length > 0) {
+          console.log(`📇 Indexed ${events.length} registry event(s) up to block ${toBlock}`);
+        }
+        cursor = toBlock;
+      }
+
+      await this.dbService.pruneRegistryCheckpoints(head - INDEXER_REORG_DEPTH);
+      return cursor;
+    } finally {
+      this.indexing = false;
+    }
+  }
+
+  /**
+   * Indexed events, newest first. A manifest id matches its registration and the root of
+   * the batch it was anchored in.
+   */
+  public async listIndexedEvents(
+    filter: Omit<RegistryEventFilter, 'manifest'> & { manifestId?: string },
+    limit: number,
+    offset: number
+  ): Promise<RegistryEvent[]> {
+    const { manifestId, ...rest } = filter;
+    return this.dbService.listRegistryEvents(
+      manifestId ? { ...rest, manifest: { id: manifestId, idHash: ethers.id(manifestId) } } : rest,
+      limit,
+      offset
+    );
+  }
+
+  /**
+   * Find the newest checkpoint still on the canonical chain and forget everything indexed
+   * after it. Returns the block to resume after.
+   */
+  private async rewindReplacedBlocks(): Promise<number> {
+    const checkpoints: RegistryCheckpoint[] = await this.dbService.listRegistryCheckpoints();
+    if (checkpoints.length === 0) {
+      return INDEXER_START_BLOCK - 1;
+    }
+
+    for (const [index, checkpoint] of checkpoints.entries()) {
+      const block = await this.provider.getBlock(checkpoint.blockNumber);
+      if (block?.hash === checkpoint.blockHash) {
+        if (index > 0) {
+          console.warn(`⚠️ Reorg detected; re-indexing registry events after block ${checkpoint.blockNumber}`);
+          await this.dbService.rewindRegistryIndex(checkpoint.blockNumber);
+        }
+        return checkpoint.blockNumber;
+      }
+    }
+
+    // Deeper than any checkpoint kept
+    const oldest = checkpoints[checkpoints.length - 1].blockNumber;
+    const resumeAfter = Math.max(oldest - INDEXER_REORG_DEPTH, INDEXER_START_BLOCK - 1);
+    console.warn(`⚠️ Reorg deeper than ${INDEXER_REORG_DEPTH} blocks; re-indexing registry events after block ${resumeAfter}`);
+    await this.dbService.rewindRegistryIndex(resumeAfter);
+    return resumeAfter;
+  }
+
+  private async toRegistryEvent(log: ethers.Log): Promise<Omit<RegistryEvent, 'indexedAt'>> {
+    const parsed = this.contract.interface.parseLog(log)!;
+    const registrant: string = parsed.args.registrant;
+    const base = {
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      registrant,
+      external: registrant.toLowerCase() === this.wallet.address.toLowerCase() ? 0 : 1,
+      timestamp: new Date(Number(parsed.args.timestamp) * 1000).toISOString(),
+    };
+
+    if (parsed.name === 'RootAnchored') {
+      return {
+        ...base,
+        event: 'RootAnchored',
+        manifestId: null,
+        manifestIdHash: null,
+        hash: null,
+        root: parsed.args.root,
+        leafCount: Number(parsed.args.leafCount),
+      };
+    }
+
+    // The event only carries the id's hash; the id itself is in the registering call
+    const manifestIdHash: string = parsed.args.manifestId.hash;
+    let manifestId: string | null = null;
+    const tx = await this.provider.getTransaction(log.transactionHash);
+    try {
+      const call = tx ? this.contract.interface.parseTransaction({ data: tx.data }) : null;
+      if (call?.name === 'registerManifest' && ethers.id(call.args[0]) === manifestIdHash) {
+        manifestId = call.args[0];
+      }
+    } catch {
+      // Sent through another contract; only the hash is known
+    }
+
+    return {
+      ...base,
+      event: 'ManifestRegistered',
+      manifestId,
+      manifestIdHash,
+      hash: parsed.args.hash,
+      root: null,
+      leafCount: null,
+    };
+  }
+
+  private requireEnabled(): void {
+    if (!this.isEnabled) {
+      throw new Error('Blockchain features are disabled. Please enable them in the configuration.');
+    }
+  }
+}
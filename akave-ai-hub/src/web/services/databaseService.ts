@@ -2,6 +2,7 @@ import path from 'path';
 import fs from 'fs';
 import Database from 'better-sqlite3'; // Default import, not named import
 import { v4 as uuidv4 } from 'uuid';
+import { ethers } from 'ethers';
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
@@ -10,11 +11,20 @@ import { dirname, resolve } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// EIP-55 form of a wallet address; anything that isn't one is kept as it is
+const checksumAddress = (address: string): string => {
+  try {
+    return ethers.getAddress(address.toLowerCase());
+  } catch {
+    return address;
+  }
+};
+
 // Load environment variables
 config({ path: resolve(__dirname, '../../../.env') });
 
 // Type definitions
-type Manifest = {
+export type Manifest = {
   id: string;
   filename: string;
   size: number;
@@ -26,6 +36,12 @@ type Manifest = {
   metadata: string;
   userId: string;
   s3Key: string;
+  /** Workspace the file belongs to; null only for rows written before workspaces existed */
+  workspaceId: string | null;
+  /** Last download or use in a training job/query; null if never read since upload */
+  lastAccessedAt?: string | null;
+  /** EncryptionEnvelope (JSON) of an object the hub encrypted; null for plaintext */
+  encryption?: string | null;
 };
 
 type TrainingJob = {
@@ -37,6 +53,11 @@ type TrainingJob = {
   completedAt: string | null;
   metrics: string;
   userId: string;
+  workspaceId: string | null;
+  /** JSON array of the dataset references the job was started with, as resolved at start */
+  datasetVersions: string;
+  checkpointKey: string | null;
+  checkpointSize: number;
 };
 
 type User = {
@@ -60,8 +81,385 @@ type QueryResult = {
   createdAt: string;
   completedAt?: string;
   userId: string;
+  workspaceId?: string | null;
+};
+
+export type StoredBlob = {
+  hash: string;
+  s3Key: string;
+  size: number;
+  refCount: number;
+  createdAt: string;
+};
+
+export type UploadSession = {
+  id: string;
+  userId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  offset: number;
+  tags: string;
+  isMLData: boolean;
+  metadata: string;
+  tempPath: string;
+  encryption: 'master' | 'wallet' | null;
+  expandArchive: boolean;
+  workspaceId: string | null;
+  /** finalizing: a request has claimed the session and is turning it into a manifest */
+  status: 'active' | 'finalizing' | 'completed';
+  manifestId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+/** A browser-to-storage upload: the client PUTs straight to a presigned URL, then finalizes */
+export type UploadIntent = {
+  id: string;
+  userId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  tags: string;
+  isMLData: boolean;
+  metadata: string;
+  s3Key: string;
+  mode: 'single' | 'multipart';
+  /** Storage-side multipart upload id */
+  uploadId: string | null;
+  partSize: number | null;
+  /** SHA-256 the client declared up front, checked at finalize */
+  expectedHash: string | null;
+  workspaceId: string | null;
+  /** completing: a request has claimed the intent and is checking the object */
+  status: 'pending' | 'completing' | 'completed' | 'aborted';
+  manifestId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+export type ManifestEntry = {
+  id: string;
+  manifestId: string;
+  path: string;
+  size: number;
+  hash: string;
+  contentType: string;
+  s3Key: string;
+};
+
+export type Dataset = {
+  id: string;
+  userId: string;
+  name: string;
+  description: string;
+  promotedVersion: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DatasetVersion = {
+  id: string;
+  datasetId: string;
+  version: number;
+  parentVersionId: string | null;
+  manifestId: string;
+  hash: string;
+  size: number;
+  changelog: string;
+  createdAt: string;
+};
+
+export type ReconciliationRun = {
+  id: string;
+  triggeredBy: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed';
+  options: string;
+  summary: string;
+  issues: string;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+};
+
+/** A public download link for one manifest; only a hash of its token is stored */
+export type ShareLink = {
+  id: string;
+  manifestId: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: string;
+  /** null means unlimited */
+  maxDownloads: number | null;
+  downloadCount: number;
+  passwordHash: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type ShareLinkOutcome = 'granted' | 'expired' | 'revoked' | 'exhausted' | 'bad_password';
+
+export type ShareLinkAccess = {
+  id: number;
+  shareLinkId: string;
+  outcome: ShareLinkOutcome;
+  ipAddress: string | null;
+  userAgent: string | null;
+  accessedAt: string;
+};
+
+/** A Sign-In with Ethereum nonce, redeemable once before it expires */
+export type AuthNonce = {
+  nonce: string;
+  /** Set when the nonce was requested for a particular wallet */
+  walletAddress: string | null;
+  expiresAt: string;
+  createdAt: string;
+};
+
+/** A signed-in device; its refresh token rotates on every use and only its hash is stored */
+export type AuthSession = {
+  id: string;
+  userId: string;
+  workspaceId: string | null;
+  refreshTokenHash: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+};
+
+/** A Merkle root anchored on-chain for a batch of manifests */
+export type AnchorBatch = {
+  id: string;
+  root: string;
+  leafCount: number;
+  status: 'submitted' | 'anchored' | 'failed';
+  txHash: string | null;
+  blockNumber: number | null;
+  error: string | null;
+  /** The proof job sending the root; null for batches anchored before the job queue */
+  jobId: string | null;
+  createdAt: string;
+  anchoredAt: string | null;
+};
+
+/** A manifest's place in an anchor batch; batchId and proof stay null until it is batched */
+export type ManifestAnchor = {
+  manifestId: string;
+  manifestHash: string;
+  leaf: string;
+  batchId: string | null;
+  /** JSON array of sibling hashes from the leaf to the batch root */
+  proof: string | null;
+  requestedBy: string;
+  requestedAt: string;
+};
+
+export type ManifestAnchorDetails = ManifestAnchor & {
+  root: string | null;
+  jobId: string | null;
+  batchStatus: AnchorBatch['status'] | null;
+  txHash: string | null;
+  blockNumber: number | null;
+  anchoredAt: string | null;
+};
+
+/** A request to revoke a manifest on-chain, optionally in favour of the manifest superseding it */
+export type ManifestRevocation = {
+  manifestId: string;
+  reason: string;
+  supersededBy: string | null;
+  requestedBy: string;
+  /** The proof job sending the revocation */
+  jobId: string | null;
+  status: 'pending' | 'revoked' | 'failed';
+  txHash: string | null;
+  blockNumber: number | null;
+  error: string | null;
+  requestedAt: string;
+  revokedAt: string | null;
+};
+
+/** A ManifestRegistry event read from the chain, whoever sent it */
+export type RegistryEvent = {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  event: 'ManifestRegistered' | 'RootAnchored';
+  /** Null when the registering call couldn't be decoded, e.g. one made through another contract */
+  manifestId: string | null;
+  /** keccak256 of the manifest id, as the event indexes it */
+  manifestIdHash: string | null;
+  hash: string | null;
+  root: string | null;
+  leafCount: number | null;
+  registrant: string;
+  /** 1 if sent from an address other than the hub's registrar */
+  external: number;
+  /** The block timestamp the event carries */
+  timestamp: string;
+  indexedAt: string;
+};
+
+export type RegistryEventFilter = {
+  event?: RegistryEvent['event'];
+  registrant?: string;
+  /** The manifest id and its keccak256, which matches registrations the indexer couldn't decode */
+  manifest?: { id: string; idHash: string };
+  external?: boolean;
+  since?: string;
+  until?: string;
+};
+
+/** A block the indexer has read up to, kept to notice when a reorg replaces it */
+export type RegistryCheckpoint = {
+  blockNumber: number;
+  blockHash: string;
+};
+
+export type ProofJobStatus = 'pending' | 'submitted' | 'confirmed' | 'failed' | 'replaced';
+
+/** A contract call the proof queue sends, tracks and retries until it is confirmed */
+export type ProofJob = {
+  id: string;
+  kind: string;
+  /** JSON arguments for the job's handler */
+  payload: string;
+  /** Who to tell about the outcome, for jobs made on one user's behalf */
+  userId: string | null;
+  status: ProofJobStatus;
+  /** The sender nonce, fixed once the first transaction is broadcast */
+  nonce: number | null;
+  attempts: number;
+  nextAttemptAt: string;
+  /** The mined transaction once confirmed, otherwise the latest broadcast */
+  txHash: string | null;
+  blockNumber: number | null;
+  lastError: string | null;
+  createdAt: string;
+  submittedAt: string | null;
+  confirmedAt: string | null;
+};
+
+/** One broadcast of a job; a job has several when its gas price was bumped */
+export type ProofJobTransaction = {
+  txHash: string;
+  jobId: string;
+  nonce: number;
+  /** Fee fields in wei, as decimal strings; gasPrice only on chains without EIP-1559 */
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  /** Kept so a replacement isn't estimated against the pending original */
+  gasLimit: string;
+  status: 'sent' | 'mined' | 'replaced';
+  sentAt: string;
+};
+
+/** A personal access token for headless clients; only the hash of the secret is stored */
+export type ApiToken = {
+  id: string;
+  userId: string;
+  /** The workspace the token acts in */
+  workspaceId: string | null;
+  name: string;
+  tokenHash: string;
+  /** The start of the token, kept so its owner can tell tokens apart */
+  prefix: string;
+  /** JSON array of scopes */
+  scopes: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+/** Every user has a personal workspace (personalUserId set); shared ones are created explicitly */
+export type Workspace = {
+  id: string;
+  name: string;
+  personalUserId: string | null;
+  createdBy: string;
+  createdAt: string;
+};
+
+export type WorkspaceRole = 'admin' | 'member' | 'viewer';
+
+export type WorkspaceMember = {
+  workspaceId: string;
+  userId: string;
+  walletAddress: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+};
+
+export type WorkspaceInvitation = {
+  id: string;
+  workspaceId: string;
+  walletAddress: string;
+  role: WorkspaceRole;
+  invitedBy: string;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  createdAt: string;
+  respondedAt: string | null;
+  expiresAt: string;
+};
+
+export type Team = {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: string;
+};
+
+export type TeamRole = 'admin' | 'member';
+
+export type TeamMember = {
+  teamId: string;
+  userId: string;
+  walletAddress: string;
+  role: TeamRole;
+  addedAt: string;
+};
+
+/** Roles that can be granted on a manifest; ownership stays with the uploader */
+export type GrantRole = 'reader' | 'writer';
+
+export type ManifestGrant = {
+  manifestId: string;
+  principalType: 'user' | 'team';
+  principalId: string;
+  role: GrantRole;
+  grantedBy: string;
+  createdAt: string;
+};
+
+/** What a user's stored bytes are spent on; each category is metered separately */
+export type UsageCategory = 'datasets' | 'checkpoints' | 'query_results';
+
+export type StorageUsageRow = {
+  userId: string;
+  category: UsageCategory;
+  bytes: number;
+  objects: number;
+  updatedAt: string;
 };
 
+/** A blob the caller meant to share was deleted before the new manifest could reference it */
+export class BlobMissingError extends Error {
+  constructor(public hash: string) {
+    super(`Blob ${hash} is no longer stored`);
+    this.name = 'BlobMissingError';
+  }
+}
+
 export class DatabaseService {
   private db!: Database.Database;
   private dbPath: string;
@@ -118,6 +516,30 @@ export class DatabaseService {
           FOREIGN KEY (userId) REFERENCES users (id)
         );
         
+        CREATE TABLE IF NOT EXISTS blobs (
+          hash TEXT PRIMARY KEY,
+          s3Key TEXT UNIQUE NOT NULL,
+          size INTEGER NOT NULL,
+          refCount INTEGER NOT NULL DEFAULT 0,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_manifests_s3Key ON manifests (s3Key);
+
+        CREATE TABLE IF NOT EXISTS manifest_entries (
+          id TEXT PRIMARY KEY,
+          manifestId TEXT NOT NULL,
+          path TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          contentType TEXT NOT NULL,
+          s3Key TEXT NOT NULL,
+          UNIQUE (manifestId, path),
+          FOREIGN KEY (manifestId) REFERENCES manifests (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_manifest_entries_s3Key ON manifest_entries (s3Key);
+
         CREATE TABLE IF NOT EXISTS training_jobs (
           id TEXT PRIMARY KEY,
           modelName TEXT NOT NULL,
@@ -146,102 +568,818 @@ export class DatabaseService {
           userId TEXT NOT NULL,
           FOREIGN KEY (userId) REFERENCES users (id)
         );
-      `);
-      
-      console.log('✅ Database tables initialized');
-    } catch (error) {
-      console.error('❌ Failed to initialize database:', error);
-      throw error;
-    }
-  }
-  
-  // User methods
-  async findOrCreateUser(walletAddress: string): Promise<User> {
-    const stmt = this.db.prepare('SELECT * FROM users WHERE walletAddress = ?');
-    let user = stmt.get(walletAddress) as User | undefined;
 
-    if (!user) {
-      const id = uuidv4();
-      const insertStmt = this.db.prepare(
-        'INSERT INTO users (id, walletAddress, createdAt) VALUES (?, ?, CURRENT_TIMESTAMP) RETURNING *'
-      );
-      user = insertStmt.get(id, walletAddress) as User;
-    }
+        CREATE TABLE IF NOT EXISTS upload_sessions (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          contentType TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          offset INTEGER DEFAULT 0,
+          tags TEXT DEFAULT '[]',
+          isMLData BOOLEAN DEFAULT 0,
+          metadata TEXT DEFAULT '{}',
+          tempPath TEXT NOT NULL,
+          encryption TEXT,
+          expandArchive BOOLEAN DEFAULT 0,
+          status TEXT CHECK(status IN ('active', 'finalizing', 'completed')) DEFAULT 'active',
+          manifestId TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          expiresAt DATETIME NOT NULL,
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
 
-    return user;
-  }
+        CREATE TABLE IF NOT EXISTS upload_intents (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          contentType TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          tags TEXT DEFAULT '[]',
+          isMLData BOOLEAN DEFAULT 0,
+          metadata TEXT DEFAULT '{}',
+          s3Key TEXT NOT NULL,
+          mode TEXT CHECK(mode IN ('single', 'multipart')) NOT NULL,
+          uploadId TEXT,
+          partSize INTEGER,
+          expectedHash TEXT,
+          status TEXT CHECK(status IN ('pending', 'completing', 'completed', 'aborted')) DEFAULT 'pending',
+          manifestId TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          expiresAt DATETIME NOT NULL,
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
 
-  // Manifest methods
-  async createManifest(manifest: Omit<Manifest, 'id' | 'uploadedAt'>): Promise<Manifest> {
-    const id = uuidv4();
-    const stmt = this.db.prepare(
-      'INSERT INTO manifests (id, filename, size, hash, contentType, tags, isMLData, metadata, s3Key, userId, uploadedAt) ' +
-      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP) RETURNING *'
-    );
-    
-    return stmt.get(
-      id,
-      manifest.filename,
-      manifest.size,
-      manifest.hash,
-      manifest.contentType,
-      manifest.tags,
-      manifest.isMLData ? 1 : 0,
-      manifest.metadata,
-      manifest.s3Key,
-      manifest.userId
-    ) as Manifest;
-  }
+        CREATE TABLE IF NOT EXISTS datasets (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT DEFAULT '',
+          promotedVersion INTEGER,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (userId, name),
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
 
-  async getManifestById(id: string): Promise<Manifest | null> {
-    const stmt = this.db.prepare('SELECT * FROM manifests WHERE id = ?');
-    return (stmt.get(id) as Manifest) || null;
-  }
+        CREATE TABLE IF NOT EXISTS dataset_versions (
+          id TEXT PRIMARY KEY,
+          datasetId TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          parentVersionId TEXT,
+          manifestId TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          changelog TEXT DEFAULT '',
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (datasetId, version),
+          FOREIGN KEY (datasetId) REFERENCES datasets (id),
+          FOREIGN KEY (parentVersionId) REFERENCES dataset_versions (id),
+          FOREIGN KEY (manifestId) REFERENCES manifests (id)
+        );
 
-  async listManifestsByUser(userId: string, limit = 10, offset = 0): Promise<Manifest[]> {
-    const stmt = this.db.prepare(
-      'SELECT * FROM manifests WHERE userId = ? ORDER BY uploadedAt DESC LIMIT ? OFFSET ?'
-    );
-    return stmt.all(userId, limit, offset) as Manifest[];
-  }
+        CREATE INDEX IF NOT EXISTS idx_dataset_versions_manifestId ON dataset_versions (manifestId);
 
-  // Training job methods
-  async createTrainingJob(job: Omit<TrainingJob, 'id' | 'startedAt' | 'completedAt'>): Promise<TrainingJob> {
-    const id = uuidv4();
-    const stmt = this.db.prepare(
-      'INSERT INTO training_jobs (id, modelName, status, progress, metrics, userId, startedAt) ' +
-      'VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP) RETURNING *'
-    );
-    
-    return stmt.get(
-      id,
-      job.modelName,
-      job.status,
-      job.progress,
-      job.metrics,
-      job.userId
-    ) as TrainingJob;
-  }
+        -- Published versions are part of training lineage and must never change
+        CREATE TRIGGER IF NOT EXISTS dataset_versions_immutable BEFORE UPDATE ON dataset_versions
+        BEGIN
+          SELECT RAISE(ABORT, 'dataset versions are immutable');
+        END;
 
-  async updateTrainingJob(
-    id: string, 
-    updates: Partial<Omit<TrainingJob, 'id' | 'userId'>>
-  ): Promise<TrainingJob | null> {
-    const fields = [];
-    const values = [];
-    
-    // Build the dynamic update query
-    for (const [key, value] of Object.entries(updates)) {
-      if (value !== undefined) {
-        fields.push(`${key} = ?`);
-        values.push(value);
-      }
-    }
-    
-    if (fields.length === 0) {
-      return this.getTrainingJobById(id);
-    }
-    
+        CREATE TABLE IF NOT EXISTS reconciliation_runs (
+          id TEXT PRIMARY KEY,
+          triggeredBy TEXT CHECK(triggeredBy IN ('manual', 'scheduled')) NOT NULL,
+          status TEXT CHECK(status IN ('running', 'completed', 'failed')) DEFAULT 'running',
+          options TEXT DEFAULT '{}',
+          summary TEXT DEFAULT '{}',
+          issues TEXT DEFAULT '[]',
+          error TEXT,
+          startedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completedAt DATETIME
+        );
+
+        CREATE TABLE IF NOT EXISTS storage_usage (
+          userId TEXT NOT NULL,
+          category TEXT CHECK(category IN ('datasets', 'checkpoints', 'query_results')) NOT NULL,
+          bytes INTEGER NOT NULL DEFAULT 0,
+          objects INTEGER NOT NULL DEFAULT 0,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (userId, category),
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS storage_quotas (
+          userId TEXT PRIMARY KEY,
+          quotaBytes INTEGER NOT NULL,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS workspaces (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          personalUserId TEXT UNIQUE,
+          createdBy TEXT NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (personalUserId) REFERENCES users (id),
+          FOREIGN KEY (createdBy) REFERENCES users (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS workspace_members (
+          workspaceId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          role TEXT CHECK(role IN ('admin', 'member', 'viewer')) NOT NULL,
+          joinedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (workspaceId, userId),
+          FOREIGN KEY (workspaceId) REFERENCES workspaces (id),
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_workspace_members_userId ON workspace_members (userId);
+
+        CREATE TABLE IF NOT EXISTS workspace_invitations (
+          id TEXT PRIMARY KEY,
+          workspaceId TEXT NOT NULL,
+          walletAddress TEXT NOT NULL COLLATE NOCASE,
+          role TEXT CHECK(role IN ('admin', 'member', 'viewer')) NOT NULL,
+          invitedBy TEXT NOT NULL,
+          status TEXT CHECK(status IN ('pending', 'accepted', 'declined', 'revoked')) DEFAULT 'pending',
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          respondedAt DATETIME,
+          expiresAt DATETIME NOT NULL,
+          FOREIGN KEY (workspaceId) REFERENCES workspaces (id),
+          FOREIGN KEY (invitedBy) REFERENCES users (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_workspace_invitations_walletAddress ON workspace_invitations (walletAddress);
+
+        CREATE TABLE IF NOT EXISTS teams (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          ownerId TEXT NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (ownerId) REFERENCES users (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS team_members (
+          teamId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          role TEXT CHECK(role IN ('admin', 'member')) NOT NULL DEFAULT 'member',
+          addedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (teamId, userId),
+          FOREIGN KEY (teamId) REFERENCES teams (id),
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_team_members_userId ON team_members (userId);
+
+        CREATE TABLE IF NOT EXISTS manifest_acl (
+          manifestId TEXT NOT NULL,
+          principalType TEXT CHECK(principalType IN ('user', 'team')) NOT NULL,
+          principalId TEXT NOT NULL,
+          role TEXT CHECK(role IN ('reader', 'writer')) NOT NULL,
+          grantedBy TEXT NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (manifestId, principalType, principalId),
+          FOREIGN KEY (manifestId) REFERENCES manifests (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_manifest_acl_principal ON manifest_acl (principalType, principalId);
+
+        CREATE TABLE IF NOT EXISTS share_links (
+          id TEXT PRIMARY KEY,
+          manifestId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          tokenHash TEXT UNIQUE NOT NULL,
+          expiresAt DATETIME NOT NULL,
+          maxDownloads INTEGER,
+          downloadCount INTEGER NOT NULL DEFAULT 0,
+          passwordHash TEXT,
+          revokedAt DATETIME,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (manifestId) REFERENCES manifests (id),
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_share_links_manifestId ON share_links (manifestId);
+
+        CREATE TABLE IF NOT EXISTS share_link_accesses (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          shareLinkId TEXT NOT NULL,
+          outcome TEXT CHECK(outcome IN ('granted', 'expired', 'revoked', 'exhausted', 'bad_password')) NOT NULL,
+          ipAddress TEXT,
+          userAgent TEXT,
+          accessedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (shareLinkId) REFERENCES share_links (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_share_link_accesses_shareLinkId ON share_link_accesses (shareLinkId);
+
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          workspaceId TEXT,
+          name TEXT NOT NULL,
+          tokenHash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          scopes TEXT NOT NULL,
+          expiresAt DATETIME NOT NULL,
+          lastUsedAt DATETIME,
+          lastUsedIp TEXT,
+          revokedAt DATETIME,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (userId) REFERENCES users (id),
+          FOREIGN KEY (workspaceId) REFERENCES workspaces (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_api_tokens_userId ON api_tokens (userId);
+
+        CREATE TABLE IF NOT EXISTS auth_nonces (
+          nonce TEXT PRIMARY KEY,
+          walletAddress TEXT COLLATE NOCASE,
+          expiresAt DATETIME NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS auth_sessions (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          workspaceId TEXT,
+          refreshTokenHash TEXT NOT NULL,
+          userAgent TEXT,
+          ipAddress TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          lastUsedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          expiresAt DATETIME NOT NULL,
+          revokedAt DATETIME,
+          FOREIGN KEY (userId) REFERENCES users (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_auth_sessions_userId ON auth_sessions (userId);
+
+        CREATE TABLE IF NOT EXISTS rate_limits (
+          key TEXT PRIMARY KEY,
+          hits INTEGER NOT NULL,
+          resetAt INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS anchor_batches (
+          id TEXT PRIMARY KEY,
+          root TEXT NOT NULL,
+          leafCount INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'submitted',
+          txHash TEXT,
+          blockNumber INTEGER,
+          error TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          anchoredAt DATETIME
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_anchor_batches_root ON anchor_batches (root);
+
+        -- Anchored rows outlive their manifest: the root on-chain can't be taken back
+        CREATE TABLE IF NOT EXISTS manifest_anchors (
+          manifestId TEXT PRIMARY KEY,
+          manifestHash TEXT NOT NULL,
+          leaf TEXT NOT NULL,
+          batchId TEXT,
+          proof TEXT,
+          requestedBy TEXT NOT NULL,
+          requestedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (batchId) REFERENCES anchor_batches (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_manifest_anchors_batchId ON manifest_anchors (batchId);
+
+        CREATE TABLE IF NOT EXISTS proof_jobs (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          userId TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          nonce INTEGER,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          nextAttemptAt DATETIME NOT NULL,
+          txHash TEXT,
+          blockNumber INTEGER,
+          lastError TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          submittedAt DATETIME,
+          confirmedAt DATETIME
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_proof_jobs_status ON proof_jobs (status, nextAttemptAt);
+
+        CREATE TABLE IF NOT EXISTS proof_job_transactions (
+          txHash TEXT PRIMARY KEY,
+          jobId TEXT NOT NULL,
+          nonce INTEGER NOT NULL,
+          maxFeePerGas TEXT,
+          maxPriorityFeePerGas TEXT,
+          gasPrice TEXT,
+          gasLimit TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'sent',
+          sentAt DATETIME NOT NULL,
+          FOREIGN KEY (jobId) REFERENCES proof_jobs (id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_proof_job_transactions_jobId ON proof_job_transactions (jobId);
+
+        CREATE TABLE IF NOT EXISTS registry_events (
+          txHash TEXT NOT NULL,
+          logIndex INTEGER NOT NULL,
+          blockNumber INTEGER NOT NULL,
+          blockHash TEXT NOT NULL,
+          event TEXT NOT NULL,
+          manifestId TEXT,
+          manifestIdHash TEXT,
+          hash TEXT,
+          root TEXT,
+          leafCount INTEGER,
+          registrant TEXT NOT NULL,
+          external INTEGER NOT NULL DEFAULT 0,
+          timestamp DATETIME NOT NULL,
+          indexedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (txHash, logIndex)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_registry_events_blockNumber ON registry_events (blockNumber);
+        CREATE INDEX IF NOT EXISTS idx_registry_events_manifestIdHash ON registry_events (manifestIdHash);
+        CREATE INDEX IF NOT EXISTS idx_registry_events_registrant ON registry_events (registrant, timestamp);
+
+        CREATE TABLE IF NOT EXISTS registry_checkpoints (
+          blockNumber INTEGER PRIMARY KEY,
+          blockHash TEXT NOT NULL
+        );
+
+        -- Like anchors, revocations outlive their manifest
+        CREATE TABLE IF NOT EXISTS manifest_revocations (
+          manifestId TEXT PRIMARY KEY,
+          reason TEXT NOT NULL,
+          supersededBy TEXT,
+          requestedBy TEXT NOT NULL,
+          jobId TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          txHash TEXT,
+          blockNumber INTEGER,
+          error TEXT,
+          requestedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          revokedAt DATETIME
+        );
+      `);
+
+      // Columns added after the original schema; CREATE TABLE IF NOT EXISTS won't add them to existing databases
+      this.addColumnIfMissing('upload_sessions', 'encryption', 'TEXT');
+      this.addColumnIfMissing('training_jobs', 'datasetVersions', "TEXT DEFAULT '[]'");
+      this.addColumnIfMissing('upload_sessions', 'expandArchive', 'BOOLEAN DEFAULT 0');
+      this.addColumnIfMissing('training_jobs', 'checkpointKey', 'TEXT');
+      this.addColumnIfMissing('training_jobs', 'checkpointSize', 'INTEGER DEFAULT 0');
+      this.addColumnIfMissing('manifests', 'lastAccessedAt', 'DATETIME');
+      this.addColumnIfMissing('anchor_batches', 'jobId', 'TEXT');
+      this.addColumnIfMissing('manifests', 'encryption', 'TEXT');
+      for (const table of ['manifests', 'training_jobs', 'query_results', 'upload_sessions', 'upload_intents']) {
+        this.addColumnIfMissing(table, 'workspaceId', 'TEXT');
+      }
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_manifests_workspaceId ON manifests (workspaceId);
+        CREATE INDEX IF NOT EXISTS idx_training_jobs_workspaceId ON training_jobs (workspaceId);
+        CREATE INDEX IF NOT EXISTS idx_query_results_workspaceId ON query_results (workspaceId);
+      `);
+
+      this.widenStatusCheck('upload_intents', "'pending', 'completed', 'aborted'", "'pending', 'completing', 'completed', 'aborted'");
+      this.widenStatusCheck('upload_sessions', "'active', 'completed'", "'active', 'finalizing', 'completed'");
+
+      this.backfillStorageUsage();
+      this.backfillWorkspaces();
+      this.moveEncryptionEnvelopes();
+      this.mergeWalletAddresses();
+      
+      console.log('✅ Database tables initialized');
+    } catch (error) {
+      console.error('❌ Failed to initialize database:', error);
+      throw error;
+    }
+  }
+  
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  
+  /**
+   * Seed usage counters for users that have none yet, i.e. data stored before usage was metered.
+   * Counters that already exist are kept; they are maintained incrementally from then on.
+   */
+  private backfillStorageUsage(): void {
+    this.db.exec(`
+      INSERT OR IGNORE INTO storage_usage (userId, category, bytes, objects)
+      SELECT m.userId, 'datasets',
+        SUM(m.size + COALESCE((SELECT SUM(e.size) FROM manifest_entries e WHERE e.manifestId = m.id), 0)),
+        COUNT(*)
+      FROM manifests m GROUP BY m.userId;
+
+      INSERT OR IGNORE INTO storage_usage (userId, category, bytes, objects)
+      SELECT userId, 'checkpoints', SUM(checkpointSize), COUNT(*)
+      FROM training_jobs WHERE checkpointKey IS NOT NULL GROUP BY userId;
+
+      INSERT OR IGNORE INTO storage_usage (userId, category, bytes, objects)
+      SELECT userId, 'query_results', SUM(COALESCE(length(CAST(result AS BLOB)), 0)), COUNT(*)
+      FROM query_results GROUP BY userId;
+    `);
+  }
+
+  /**
+   * Give every user without one a personal workspace, and move data created before
+   * workspaces existed into its owner's personal workspace
+   */
+  private backfillWorkspaces(): void {
+    this.db.exec(`
+      INSERT INTO workspaces (id, name, personalUserId, createdBy)
+      SELECT lower(hex(randomblob(16))), 'Personal', u.id, u.id FROM users u
+      WHERE NOT EXISTS (SELECT 1 FROM workspaces w WHERE w.personalUserId = u.id);
+
+      INSERT OR IGNORE INTO workspace_members (workspaceId, userId, role)
+      SELECT id, personalUserId, 'admin' FROM workspaces WHERE personalUserId IS NOT NULL;
+
+      UPDATE manifests SET workspaceId = (SELECT id FROM workspaces WHERE personalUserId = manifests.userId)
+      WHERE workspaceId IS NULL;
+
+      UPDATE training_jobs SET workspaceId = (SELECT id FROM workspaces WHERE personalUserId = training_jobs.userId)
+      WHERE workspaceId IS NULL;
+
+      UPDATE query_results SET workspaceId = (SELECT id FROM workspaces WHERE personalUserId = query_results.userId)
+      WHERE workspaceId IS NULL;
+    `);
+  }
+
+  /**
+   * Widen a status CHECK constraint for statuses added after release. SQLite can't alter a
+   * CHECK constraint, so older tables are rebuilt from their own definition.
+   */
+  private widenStatusCheck(table: string, from: string, to: string): void {
+    const { sql } = this.db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) as { sql: string };
+    if (!sql.includes(from)) return;
+
+    const columns = (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+      .map(column => column.name)
+      .join(', ');
+    this.db.transaction(() => {
+      this.db.exec(`ALTER TABLE ${table} RENAME TO ${table}_old`);
+      this.db.exec(sql.replace(from, to));
+      this.db.exec(`INSERT INTO ${table} (${columns}) SELECT ${columns} FROM ${table}_old`);
+      this.db.exec(`DROP TABLE ${table}_old`);
+    })();
+  }
+
+  /**
+   * Envelopes used to live under `encryption` in the manifest's metadata, where user metadata
+   * could pass for one. Only hub-encrypted objects are stored under encrypted/.
+   */
+  private moveEncryptionEnvelopes(): void {
+    this.db.exec(`
+      UPDATE manifests
+      SET encryption = json_extract(metadata, '$.encryption'), metadata = json_remove(metadata, '$.encryption')
+      WHERE encryption IS NULL AND s3Key LIKE 'encrypted/%' AND json_valid(metadata)
+        AND json_type(metadata, '$.encryption') = 'object';
+    `);
+  }
+
+  /**
+   * Users used to be looked up by the address exactly as sign-in reported it, so a wallet
+   * could end up with several users that differ only in case. Fold each such group into its
+   * oldest user, store every address checksummed, and keep addresses unique from then on.
+   */
+  private mergeWalletAddresses(): void {
+    const users = this.db.prepare('SELECT id, walletAddress FROM users ORDER BY createdAt, rowid')
+      .all() as Array<Pick<User, 'id' | 'walletAddress'>>;
+
+    const kept = new Map<string, Pick<User, 'id' | 'walletAddress'>>();
+    const merges: Array<{ from: Pick<User, 'id' | 'walletAddress'>; into: string }> = [];
+    for (const user of users) {
+      const keeper = kept.get(user.walletAddress.toLowerCase());
+      if (keeper) {
+        merges.push({ from: user, into: keeper.id });
+      } else {
+        kept.set(user.walletAddress.toLowerCase(), user);
+      }
+    }
+    const renames = [...kept.values()].filter(user => checksumAddress(user.walletAddress) !== user.walletAddress);
+
+    if (merges.length > 0 || renames.length > 0) {
+      const rename = this.db.prepare('UPDATE users SET walletAddress = ? WHERE id = ?');
+      this.db.transaction(() => {
+        for (const { from, into } of merges) {
+          this.mergeUser(from, into);
+        }
+        for (const user of renames) {
+          rename.run(checksumAddress(user.walletAddress), user.id);
+        }
+      })();
+      console.log(`✅ Merged ${merges.length} duplicate wallet user(s), checksummed ${renames.length} address(es)`);
+    }
+
+    this.db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_users_walletAddress_nocase ON users (walletAddress COLLATE NOCASE)');
+  }
+
+  /**
+   * Hand everything a user owns to another user and delete them. Their personal workspace
+   * becomes a shared workspace of the user they are merged into, so nothing is lost.
+   */
+  private mergeUser(from: Pick<User, 'id' | 'walletAddress'>, into: string): void {
+    const reassign: Array<[table: string, column: string]> = [
+      ['manifests', 'userId'],
+      ['training_jobs', 'userId'],
+      ['query_results', 'userId'],
+      ['upload_sessions', 'userId'],
+      ['upload_intents', 'userId'],
+      ['share_links', 'userId'],
+      ['api_tokens', 'userId'],
+      ['auth_sessions', 'userId'],
+      ['proof_jobs', 'userId'],
+      ['manifest_anchors', 'requestedBy'],
+      ['manifest_revocations', 'requestedBy'],
+      ['manifest_acl', 'grantedBy'],
+      ['workspace_invitations', 'invitedBy'],
+      ['workspaces', 'createdBy'],
+      ['teams', 'ownerId'],
+    ];
+    for (const [table, column] of reassign) {
+      this.db.prepare(`UPDATE ${table} SET ${column} = ? WHERE ${column} = ?`).run(into, from.id);
+    }
+
+    // Dataset names are unique per user; a clashing one keeps its id as a suffix
+    this.db.prepare(
+      'UPDATE datasets SET userId = ?, name = CASE ' +
+      "WHEN EXISTS (SELECT 1 FROM datasets d WHERE d.userId = ? AND d.name = datasets.name) THEN name || ' (' || substr(id, 1, 8) || ')' " +
+      'ELSE name END WHERE userId = ?'
+    ).run(into, into, from.id);
+
+    this.db.prepare(
+      'INSERT INTO storage_usage (userId, category, bytes, objects) ' +
+      'SELECT ?, category, bytes, objects FROM storage_usage WHERE userId = ? ' +
+      'ON CONFLICT(userId, category) DO UPDATE SET bytes = bytes + excluded.bytes, objects = objects + excluded.objects'
+    ).run(into, from.id);
+    this.db.prepare(
+      'INSERT OR IGNORE INTO storage_quotas (userId, quotaBytes) SELECT ?, quotaBytes FROM storage_quotas WHERE userId = ?'
+    ).run(into, from.id);
+
+    this.db.prepare(
+      "UPDATE workspaces SET personalUserId = NULL, name = name || ' (' || ? || ')' WHERE personalUserId = ?"
+    ).run(from.walletAddress, from.id);
+
+    // Memberships and grants keep the stronger role where both users had one
+    this.db.prepare(
+      'INSERT INTO workspace_members (workspaceId, userId, role, joinedAt) ' +
+      'SELECT workspaceId, ?, role, joinedAt FROM workspace_members WHERE userId = ? ' +
+      'ON CONFLICT(workspaceId, userId) DO UPDATE SET role = CASE ' +
+      "WHEN (CASE excluded.role WHEN 'admin' THEN 3 WHEN 'member' THEN 2 ELSE 1 END) > " +
+      "(CASE role WHEN 'admin' THEN 3 WHEN 'member' THEN 2 ELSE 1 END) THEN excluded.role ELSE role END"
+    ).run(into, from.id);
+    this.db.prepare(
+      'INSERT INTO team_members (teamId, userId, role, addedAt) ' +
+      'SELECT teamId, ?, role, addedAt FROM team_members WHERE userId = ? ' +
+      "ON CONFLICT(teamId, userId) DO UPDATE SET role = CASE WHEN excluded.role = 'admin' THEN 'admin' ELSE role END"
+    ).run(into, from.id);
+    this.db.prepare(
+      'INSERT INTO manifest_acl (manifestId, principalType, principalId, role, grantedBy, createdAt) ' +
+      "SELECT manifestId, 'user', ?, role, grantedBy, createdAt FROM manifest_acl WHERE principalType = 'user' AND principalId = ? " +
+      "ON CONFLICT(manifestId, principalType, principalId) DO UPDATE SET role = CASE WHEN excluded.role = 'writer' THEN 'writer' ELSE role END"
+    ).run(into, from.id);
+
+    this.db.prepare('DELETE FROM workspace_members WHERE userId = ?').run(from.id);
+    this.db.prepare('DELETE FROM team_members WHERE userId = ?').run(from.id);
+    this.db.prepare("DELETE FROM manifest_acl WHERE principalType = 'user' AND principalId = ?").run(from.id);
+    this.db.prepare('DELETE FROM storage_usage WHERE userId = ?').run(from.id);
+    this.db.prepare('DELETE FROM storage_quotas WHERE userId = ?').run(from.id);
+    this.db.prepare('DELETE FROM users WHERE id = ?').run(from.id);
+  }
+
+  /**
+   * Move a user's usage counter; callers run it inside the transaction that changes the data
+   */
+  private adjustUsage(userId: string, category: UsageCategory, bytes: number, objects: number): void {
+    if (bytes === 0 && objects === 0) return;
+    this.db.prepare(
+      'INSERT INTO storage_usage (userId, category, bytes, objects, updatedAt) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP) ' +
+      'ON CONFLICT(userId, category) DO UPDATE SET ' +
+      'bytes = MAX(bytes + excluded.bytes, 0), objects = MAX(objects + excluded.objects, 0), updatedAt = CURRENT_TIMESTAMP'
+    ).run(userId, category, bytes, objects);
+  }
+
+  // User methods
+  async findOrCreateUser(walletAddress: string): Promise<User> {
+    // Addresses are stored checksummed; callers may pass any case
+    walletAddress = checksumAddress(walletAddress);
+    const stmt = this.db.prepare('SELECT * FROM users WHERE walletAddress = ? COLLATE NOCASE');
+    let user = stmt.get(walletAddress) as User | undefined;
+
+    if (!user) {
+      const id = uuidv4();
+      const insertStmt = this.db.prepare(
+        'INSERT INTO users (id, walletAddress, createdAt) VALUES (?, ?, CURRENT_TIMESTAMP) RETURNING *'
+      );
+      user = this.db.transaction(() => {
+        const created = insertStmt.get(id, walletAddress) as User;
+        this.insertWorkspace({ id: uuidv4(), name: 'Personal', personalUserId: created.id, createdBy: created.id });
+        return created;
+      })();
+    }
+
+    return user;
+  }
+
+  // Manifest methods
+  async createManifest(manifest: Omit<Manifest, 'id' | 'uploadedAt'>): Promise<Manifest> {
+    return this.db.transaction(() => this.insertManifest(manifest))();
+  }
+
+  /**
+   * Insert a manifest and charge its bytes to the owner; `extraBytes` covers content
+   * stored alongside the manifest's own object (the entries of an expanded archive)
+   */
+  private insertManifest(manifest: Omit<Manifest, 'id' | 'uploadedAt'>, extraBytes = 0): Manifest {
+    const id = uuidv4();
+    const stmt = this.db.prepare(
+      'INSERT INTO manifests (id, filename, size, hash, contentType, tags, isMLData, metadata, s3Key, userId, workspaceId, encryption, uploadedAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP) RETURNING *'
+    );
+    this.adjustUsage(manifest.userId, 'datasets', manifest.size + extraBytes, 1);
+    
+    return stmt.get(
+      id,
+      manifest.filename,
+      manifest.size,
+      manifest.hash,
+      manifest.contentType,
+      manifest.tags,
+      manifest.isMLData ? 1 : 0,
+      manifest.metadata,
+      manifest.s3Key,
+      manifest.userId,
+      manifest.workspaceId,
+      manifest.encryption ?? null
+    ) as Manifest;
+  }
+
+  /**
+   * Take a reference on a content-addressed blob, inside the caller's transaction, and return
+   * the key its bytes live under. The row is created on first use by a caller that uploaded
+   * the bytes; a caller that only found the blob gets BlobMissingError if it has been
+   * released and deleted since.
+   */
+  private acquireBlob(blob: { hash: string; s3Key: string; size: number }, reused: boolean): string {
+    if (!reused) {
+      const stmt = this.db.prepare(
+        'INSERT INTO blobs (hash, s3Key, size, refCount, createdAt) VALUES (?, ?, ?, 1, CURRENT_TIMESTAMP) ' +
+        'ON CONFLICT(hash) DO UPDATE SET refCount = refCount + 1 RETURNING s3Key'
+      );
+      return (stmt.get(blob.hash, blob.s3Key, blob.size) as { s3Key: string }).s3Key;
+    }
+
+    const stmt = this.db.prepare('UPDATE blobs SET refCount = refCount + 1 WHERE hash = ? RETURNING s3Key');
+    const row = stmt.get(blob.hash) as { s3Key: string } | undefined;
+    if (!row) {
+      throw new BlobMissingError(blob.hash);
+    }
+    return row.s3Key;
+  }
+
+  /**
+   * Create a manifest that points at a content-addressed blob, taking a reference on it.
+   * `reused` means the caller found the blob already stored rather than uploading it.
+   */
+  async createManifestForBlob(manifest: Omit<Manifest, 'id' | 'uploadedAt'>, reused = false): Promise<Manifest> {
+    return this.db.transaction(() => {
+      const s3Key = this.acquireBlob(manifest, reused);
+      return this.insertManifest({ ...manifest, s3Key });
+    })();
+  }
+
+  /**
+   * Create a directory manifest for an expanded archive. The manifest's own object is the
+   * JSON index of the tree; each entry takes a reference on its content-addressed blob.
+   * `reusedHashes` are the blobs the caller found already stored rather than uploading.
+   */
+  async createDirectoryManifest(
+    manifest: Omit<Manifest, 'id' | 'uploadedAt'>,
+    entries: Array<Omit<ManifestEntry, 'id' | 'manifestId'>>,
+    reusedHashes: ReadonlySet<string> = new Set()
+  ): Promise<Manifest> {
+    const insertEntry = this.db.prepare(
+      'INSERT INTO manifest_entries (id, manifestId, path, size, hash, contentType, s3Key) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+
+    return this.db.transaction(() => {
+      const s3Key = this.acquireBlob(manifest, reusedHashes.has(manifest.hash));
+      const created = this.insertManifest({ ...manifest, s3Key }, entries.reduce((total, entry) => total + entry.size, 0));
+
+      for (const entry of entries) {
+        const entryKey = this.acquireBlob(entry, reusedHashes.has(entry.hash));
+        insertEntry.run(uuidv4(), created.id, entry.path, entry.size, entry.hash, entry.contentType, entryKey);
+      }
+
+      return created;
+    })();
+  }
+
+  /**
+   * Entries of an expanded archive under `prefix` (a directory path ending in '/', or '' for the root)
+   */
+  async listManifestEntries(manifestId: string, prefix = ''): Promise<ManifestEntry[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM manifest_entries WHERE manifestId = ? AND substr(path, 1, ?) = ? ORDER BY path'
+    );
+    return stmt.all(manifestId, prefix.length, prefix) as ManifestEntry[];
+  }
+
+  async getManifestEntry(manifestId: string, entryPath: string): Promise<ManifestEntry | null> {
+    const stmt = this.db.prepare('SELECT * FROM manifest_entries WHERE manifestId = ? AND path = ?');
+    return (stmt.get(manifestId, entryPath) as ManifestEntry) || null;
+  }
+
+  async getBlob(hash: string): Promise<StoredBlob | null> {
+    const stmt = this.db.prepare('SELECT * FROM blobs WHERE hash = ?');
+    return (stmt.get(hash) as StoredBlob) || null;
+  }
+
+  async getBlobByKey(s3Key: string): Promise<StoredBlob | null> {
+    const stmt = this.db.prepare('SELECT * FROM blobs WHERE s3Key = ?');
+    return (stmt.get(s3Key) as StoredBlob) || null;
+  }
+
+  async getManifestById(id: string): Promise<Manifest | null> {
+    const stmt = this.db.prepare('SELECT * FROM manifests WHERE id = ?');
+    return (stmt.get(id) as Manifest) || null;
+  }
+
+  /**
+   * Note that a manifest's content was read, for last-access retention rules
+   */
+  async touchManifest(id: string): Promise<void> {
+    this.db.prepare('UPDATE manifests SET lastAccessedAt = CURRENT_TIMESTAMP WHERE id = ?').run(id);
+  }
+
+  async listManifestsByUser(userId: string, limit = 10, offset = 0): Promise<Manifest[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM manifests WHERE userId = ? ORDER BY uploadedAt DESC LIMIT ? OFFSET ?'
+    );
+    return stmt.all(userId, limit, offset) as Manifest[];
+  }
+
+  async listManifestsByWorkspace(workspaceId: string, limit = 10, offset = 0): Promise<Manifest[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM manifests WHERE workspaceId = ? ORDER BY uploadedAt DESC LIMIT ? OFFSET ?'
+    );
+    return stmt.all(workspaceId, limit, offset) as Manifest[];
+  }
+
+  // Training job methods
+  async createTrainingJob(
+    job: Omit<TrainingJob, 'id' | 'startedAt' | 'completedAt' | 'datasetVersions' | 'checkpointKey' | 'checkpointSize'> & {
+      datasetVersions?: string;
+    }
+  ): Promise<TrainingJob> {
+    const id = uuidv4();
+    const stmt = this.db.prepare(
+      'INSERT INTO training_jobs (id, modelName, status, progress, metrics, userId, workspaceId, datasetVersions, startedAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP) RETURNING *'
+    );
+    
+    return stmt.get(
+      id,
+      job.modelName,
+      job.status,
+      job.progress,
+      job.metrics,
+      job.userId,
+      job.workspaceId,
+      job.datasetVersions ?? '[]'
+    ) as TrainingJob;
+  }
+
+  async updateTrainingJob(
+    id: string, 
+    updates: Partial<Omit<TrainingJob, 'id' | 'userId' | 'checkpointKey' | 'checkpointSize'>>
+  ): Promise<TrainingJob | null> {
+    const fields = [];
+    const values = [];
+    
+    // Build the dynamic update query
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        fields.push(`${key} = ?`);
+        values.push(value);
+      }
+    }
+    
+    if (fields.length === 0) {
+      return this.getTrainingJobById(id);
+    }
+    
     values.push(id);
     
     const query = `
@@ -251,142 +1389,1615 @@ export class DatabaseService {
       RETURNING *
     `;
     
-    const stmt = this.db.prepare(query);
-    const result = stmt.get(...values) as TrainingJob | undefined;
+    const stmt = this.db.prepare(query);
+    const result = stmt.get(...values) as TrainingJob | undefined;
+    
+    return result || null;
+  }
+
+  /**
+   * Record the checkpoint a job stored, charging its size to the job's owner
+   */
+  async recordTrainingCheckpoint(id: string, checkpointKey: string, checkpointSize: number): Promise<TrainingJob | null> {
+    const getJob = this.db.prepare('SELECT userId, checkpointKey, checkpointSize FROM training_jobs WHERE id = ?');
+    const setCheckpoint = this.db.prepare(
+      'UPDATE training_jobs SET checkpointKey = ?, checkpointSize = ? WHERE id = ? RETURNING *'
+    );
+
+    return this.db.transaction(() => {
+      const job = getJob.get(id) as Pick<TrainingJob, 'userId' | 'checkpointKey' | 'checkpointSize'> | undefined;
+      if (!job) return null;
+
+      this.adjustUsage(job.userId, 'checkpoints', checkpointSize - (job.checkpointSize || 0), job.checkpointKey ? 0 : 1);
+      return setCheckpoint.get(checkpointKey, checkpointSize, id) as TrainingJob;
+    })();
+  }
+
+  /**
+   * Forget a job's checkpoint once its object has been removed, releasing its usage
+   */
+  async clearTrainingCheckpoint(id: string): Promise<void> {
+    const getJob = this.db.prepare('SELECT userId, checkpointKey, checkpointSize FROM training_jobs WHERE id = ?');
+    const clearCheckpoint = this.db.prepare('UPDATE training_jobs SET checkpointKey = NULL, checkpointSize = 0 WHERE id = ?');
+
+    this.db.transaction(() => {
+      const job = getJob.get(id) as Pick<TrainingJob, 'userId' | 'checkpointKey' | 'checkpointSize'> | undefined;
+      if (!job?.checkpointKey) return;
+
+      this.adjustUsage(job.userId, 'checkpoints', -(job.checkpointSize || 0), -1);
+      clearCheckpoint.run(id);
+    })();
+  }
+
+  async getTrainingJobById(id: string): Promise<TrainingJob | null> {
+    const stmt = this.db.prepare('SELECT * FROM training_jobs WHERE id = ?');
+    return (stmt.get(id) as TrainingJob) || null;
+  }
+
+  async listTrainingJobsByWorkspace(workspaceId: string, limit = 10, offset = 0): Promise<TrainingJob[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM training_jobs WHERE workspaceId = ? ORDER BY startedAt DESC LIMIT ? OFFSET ?'
+    );
+    return stmt.all(workspaceId, limit, offset) as TrainingJob[];
+  }
+
+  async updateManifest(id: string, updates: Partial<Omit<Manifest, 'size' | 'userId'>>): Promise<Manifest | null> {
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'id') {
+        updateFields.push(`${key} = ?`);
+        values.push(value);
+      }
+    });
+    
+    if (updateFields.length === 0) return null;
+    
+    values.push(id);
+    const query = `UPDATE manifests SET ${updateFields.join(', ')} WHERE id = ? RETURNING *`;
+    
+    const stmt = this.db.prepare(query);
+    const result = stmt.get(...values) as Manifest | undefined;
+    
+    return result || null;
+  }
+
+  /**
+   * Delete a manifest and drop its references on the underlying objects (its own and,
+   * for expanded archives, each entry's). Returns the storage keys no longer referenced
+   * by anything, which can be removed from the bucket.
+   */
+  async deleteManifest(id: string): Promise<{ releasedKeys: string[] }> {
+    const getManifest = this.db.prepare('SELECT s3Key, size, userId FROM manifests WHERE id = ?');
+    const getEntries = this.db.prepare('SELECT s3Key, size FROM manifest_entries WHERE manifestId = ?');
+    const deleteEntries = this.db.prepare('DELETE FROM manifest_entries WHERE manifestId = ?');
+    const deleteManifest = this.db.prepare('DELETE FROM manifests WHERE id = ?');
+    const deleteGrants = this.db.prepare('DELETE FROM manifest_acl WHERE manifestId = ?');
+    const dropPendingAnchor = this.db.prepare('DELETE FROM manifest_anchors WHERE manifestId = ? AND batchId IS NULL');
+    // Links are revoked rather than deleted so their access log survives the manifest
+    const revokeShareLinks = this.db.prepare(
+      'UPDATE share_links SET revokedAt = CURRENT_TIMESTAMP WHERE manifestId = ? AND revokedAt IS NULL'
+    );
+    const releaseBlob = this.db.prepare('UPDATE blobs SET refCount = refCount - 1 WHERE s3Key = ? RETURNING refCount');
+    const deleteBlob = this.db.prepare('DELETE FROM blobs WHERE s3Key = ?');
+
+    const release = (s3Key: string): boolean => {
+      const blob = releaseBlob.get(s3Key) as { refCount: number } | undefined;
+      if (!blob) {
+        // Object predates content addressing and is owned by this manifest alone
+        return true;
+      }
+      if (blob.refCount > 0) {
+        return false;
+      }
+      deleteBlob.run(s3Key);
+      return true;
+    };
+
+    return this.db.transaction(() => {
+      const manifest = getManifest.get(id) as { s3Key: string; size: number; userId: string } | undefined;
+      if (!manifest) {
+        return { releasedKeys: [] };
+      }
+
+      const entries = getEntries.all(id) as Array<{ s3Key: string; size: number }>;
+      const entryKeys = entries.map(entry => entry.s3Key);
+      deleteEntries.run(id);
+      deleteManifest.run(id);
+      deleteGrants.run(id);
+      dropPendingAnchor.run(id);
+      revokeShareLinks.run(id);
+      this.adjustUsage(manifest.userId, 'datasets', -(manifest.size + entries.reduce((total, entry) => total + entry.size, 0)), -1);
+
+      const releasedKeys = new Set<string>();
+      for (const s3Key of [manifest.s3Key, ...entryKeys]) {
+        if (release(s3Key)) releasedKeys.add(s3Key);
+      }
+      return { releasedKeys: Array.from(releasedKeys) };
+    })();
+  }
+
+  // Query result methods
+  async createQueryResult(queryResult: QueryResult): Promise<QueryResult> {
+    const stmt = this.db.prepare(`
+      INSERT INTO query_results (
+        id, query, datasetIds, outputFormat, status, result, error, 
+        executionTime, rowCount, columns, createdAt, completedAt, userId, workspaceId
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *
+    `);
+    const result = queryResult.result ? JSON.stringify(queryResult.result) : null;
+    
+    return this.db.transaction(() => {
+      this.adjustUsage(queryResult.userId, 'query_results', result ? Buffer.byteLength(result) : 0, 1);
+      return stmt.get(
+        queryResult.id,
+        queryResult.query,
+        JSON.stringify(queryResult.datasetIds),
+        queryResult.outputFormat,
+        queryResult.status,
+        result,
+        queryResult.error,
+        queryResult.executionTime,
+        queryResult.rowCount,
+        queryResult.columns ? JSON.stringify(queryResult.columns) : null,
+        queryResult.createdAt,
+        queryResult.completedAt,
+        queryResult.userId,
+        queryResult.workspaceId ?? null
+      ) as QueryResult;
+    })();
+  }
+
+  async updateQueryResult(id: string, updates: Partial<QueryResult>): Promise<QueryResult | null> {
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'id') {
+        updateFields.push(`${key} = ?`);
+        if (key === 'datasetIds' || key === 'result' || key === 'columns') {
+          values.push(typeof value === 'string' ? value : JSON.stringify(value));
+        } else {
+          values.push(value);
+        }
+      }
+    });
+    
+    if (updateFields.length === 0) return null;
+    
+    values.push(id);
+    const query = `UPDATE query_results SET ${updateFields.join(', ')} WHERE id = ? RETURNING *`;
+    
+    const stmt = this.db.prepare(query);
+    const getResultSize = this.db.prepare(
+      'SELECT userId, COALESCE(length(CAST(result AS BLOB)), 0) AS size FROM query_results WHERE id = ?'
+    );
+
+    // Results can be rewritten after the fact, so charge the difference in stored size
+    const result = this.db.transaction(() => {
+      const before = getResultSize.get(id) as { userId: string; size: number } | undefined;
+      const updated = stmt.get(...values) as any;
+      if (before && updated) {
+        const after = getResultSize.get(id) as { size: number };
+        this.adjustUsage(before.userId, 'query_results', after.size - before.size, 0);
+      }
+      return updated;
+    })();
+    
+    if (result) {
+      // Parse JSON fields
+      result.datasetIds = JSON.parse(result.datasetIds);
+      if (result.result) result.result = JSON.parse(result.result);
+      if (result.columns) result.columns = JSON.parse(result.columns);
+    }
+    
+    return result || null;
+  }
+
+  async getQueryResult(id: string, workspaceId?: string): Promise<QueryResult | null> {
+    const stmt = this.db.prepare(
+      workspaceId 
+        ? 'SELECT * FROM query_results WHERE id = ? AND workspaceId = ?' 
+        : 'SELECT * FROM query_results WHERE id = ?'
+    );
+    
+    const result = stmt.get(id, ...(workspaceId ? [workspaceId] : [])) as any;
+    
+    if (result) {
+      // Parse JSON fields
+      result.datasetIds = JSON.parse(result.datasetIds);
+      if (result.result) result.result = JSON.parse(result.result);
+      if (result.columns) result.columns = JSON.parse(result.columns);
+    }
     
     return result || null;
   }
 
-  async getTrainingJobById(id: string): Promise<TrainingJob | null> {
-    const stmt = this.db.prepare('SELECT * FROM training_jobs WHERE id = ?');
-    return (stmt.get(id) as TrainingJob) || null;
+  async listQueryResults(workspaceId: string, limit = 10, offset = 0): Promise<QueryResult[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM query_results WHERE workspaceId = ? ORDER BY createdAt DESC LIMIT ? OFFSET ?'
+    );
+    const results = stmt.all(workspaceId, limit, offset) as any[];
+    
+    return results.map(result => {
+      // Parse JSON fields
+      result.datasetIds = JSON.parse(result.datasetIds);
+      if (result.result) result.result = JSON.parse(result.result);
+      if (result.columns) result.columns = JSON.parse(result.columns);
+      return result;
+    });
+  }
+
+  async deleteQueryResult(id: string): Promise<void> {
+    const getResultSize = this.db.prepare(
+      'SELECT userId, COALESCE(length(CAST(result AS BLOB)), 0) AS size FROM query_results WHERE id = ?'
+    );
+    const deleteResult = this.db.prepare('DELETE FROM query_results WHERE id = ?');
+
+    this.db.transaction(() => {
+      const existing = getResultSize.get(id) as { userId: string; size: number } | undefined;
+      if (!existing) return;
+
+      deleteResult.run(id);
+      this.adjustUsage(existing.userId, 'query_results', -existing.size, -1);
+    })();
+  }
+
+  /**
+   * Declared size of a user's uploads in flight: sessions and direct uploads that are
+   * neither finished, cancelled nor expired. They hold their bytes against the quota from
+   * creation until their manifest is recorded.
+   */
+  private reservedUploadBytes(userId: string): number {
+    const now = new Date().toISOString();
+    const row = this.db.prepare(
+      'SELECT ' +
+      "(SELECT COALESCE(SUM(size), 0) FROM upload_sessions WHERE userId = ? AND (status = 'finalizing' OR (status = 'active' AND expiresAt > ?))) + " +
+      "(SELECT COALESCE(SUM(size), 0) FROM upload_intents WHERE userId = ? AND (status = 'completing' OR (status = 'pending' AND expiresAt > ?))) AS bytes"
+    ).get(userId, now, userId, now) as { bytes: number };
+    return row.bytes;
+  }
+
+  private committedBytes(userId: string): number {
+    const stored = this.db.prepare('SELECT COALESCE(SUM(bytes), 0) AS bytes FROM storage_usage WHERE userId = ?')
+      .get(userId) as { bytes: number };
+    return stored.bytes + this.reservedUploadBytes(userId);
+  }
+
+  // Upload session methods
+  /**
+   * Create a session, reserving its size against `quotaBytes` in the same transaction;
+   * null if it does not fit
+   */
+  async createUploadSession(
+    session: Omit<UploadSession, 'id' | 'offset' | 'status' | 'manifestId' | 'createdAt' | 'updatedAt'> & { id?: string },
+    quotaBytes: number | null = null
+  ): Promise<UploadSession | null> {
+    const stmt = this.db.prepare(
+      'INSERT INTO upload_sessions (id, userId, filename, contentType, size, tags, isMLData, metadata, tempPath, encryption, expandArchive, workspaceId, expiresAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *'
+    );
+
+    return this.db.transaction(() => {
+      if (quotaBytes !== null && this.committedBytes(session.userId) + session.size > quotaBytes) {
+        return null;
+      }
+      return stmt.get(
+        session.id || uuidv4(),
+        session.userId,
+        session.filename,
+        session.contentType,
+        session.size,
+        session.tags,
+        session.isMLData ? 1 : 0,
+        session.metadata,
+        session.tempPath,
+        session.encryption,
+        session.expandArchive ? 1 : 0,
+        session.workspaceId,
+        session.expiresAt
+      ) as UploadSession;
+    })();
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | null> {
+    const stmt = this.db.prepare('SELECT * FROM upload_sessions WHERE id = ?');
+    return (stmt.get(id) as UploadSession) || null;
+  }
+
+  async updateUploadSession(
+    id: string,
+    updates: Partial<Pick<UploadSession, 'offset' | 'status' | 'manifestId' | 'expiresAt'>>
+  ): Promise<UploadSession | null> {
+    const updateFields: string[] = [];
+    const values: any[] = [];
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updateFields.push(`${key} = ?`);
+        values.push(value);
+      }
+    });
+
+    if (updateFields.length === 0) return this.getUploadSession(id);
+
+    values.push(id);
+    const query = `UPDATE upload_sessions SET ${updateFields.join(', ')}, updatedAt = CURRENT_TIMESTAMP WHERE id = ? RETURNING *`;
+
+    const stmt = this.db.prepare(query);
+    return (stmt.get(...values) as UploadSession) || null;
+  }
+
+  async listExpiredUploadSessions(now: string): Promise<UploadSession[]> {
+    const stmt = this.db.prepare(
+      "SELECT * FROM upload_sessions WHERE status = 'active' AND expiresAt < ?"
+    );
+    return stmt.all(now) as UploadSession[];
+  }
+
+  /**
+   * Delete a session unless a request is finalizing it; false if one is
+   */
+  async deleteUploadSession(id: string): Promise<boolean> {
+    const stmt = this.db.prepare("DELETE FROM upload_sessions WHERE id = ? AND status != 'finalizing'");
+    if (stmt.run(id).changes === 1) return true;
+    return !(await this.getUploadSession(id));
+  }
+
+  /**
+   * Move an active session to 'finalizing'; false if another request got there first
+   */
+  async claimUploadSession(id: string): Promise<boolean> {
+    const stmt = this.db.prepare(
+      "UPDATE upload_sessions SET status = 'finalizing', updatedAt = CURRENT_TIMESTAMP WHERE id = ? AND status = 'active'"
+    );
+    return stmt.run(id).changes === 1;
+  }
+
+  // Upload intent methods
+  /**
+   * Create an intent, reserving its size against `quotaBytes` in the same transaction;
+   * null if it does not fit
+   */
+  async createUploadIntent(
+    intent: Omit<UploadIntent, 'status' | 'manifestId' | 'createdAt' | 'updatedAt'>,
+    quotaBytes: number | null = null
+  ): Promise<UploadIntent | null> {
+    const stmt = this.db.prepare(
+      'INSERT INTO upload_intents (id, userId, filename, contentType, size, tags, isMLData, metadata, s3Key, mode, uploadId, partSize, expectedHash, workspaceId, expiresAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *'
+    );
+
+    return this.db.transaction(() => {
+      if (quotaBytes !== null && this.committedBytes(intent.userId) + intent.size > quotaBytes) {
+        return null;
+      }
+      return stmt.get(
+        intent.id,
+        intent.userId,
+        intent.filename,
+        intent.contentType,
+        intent.size,
+        intent.tags,
+        intent.isMLData ? 1 : 0,
+        intent.metadata,
+        intent.s3Key,
+        intent.mode,
+        intent.uploadId,
+        intent.partSize,
+        intent.expectedHash,
+        intent.workspaceId,
+        intent.expiresAt
+      ) as UploadIntent;
+    })();
+  }
+
+  async getUploadIntent(id: string): Promise<UploadIntent | null> {
+    const stmt = this.db.prepare('SELECT * FROM upload_intents WHERE id = ?');
+    return (stmt.get(id) as UploadIntent) || null;
+  }
+
+  async updateUploadIntent(
+    id: string,
+    updates: Pick<UploadIntent, 'status'> & Partial<Pick<UploadIntent, 'manifestId'>>
+  ): Promise<UploadIntent | null> {
+    const stmt = this.db.prepare(
+      'UPDATE upload_intents SET status = ?, manifestId = COALESCE(?, manifestId), updatedAt = CURRENT_TIMESTAMP WHERE id = ? RETURNING *'
+    );
+    return (stmt.get(updates.status, updates.manifestId ?? null, id) as UploadIntent) || null;
+  }
+
+  /**
+   * Move a pending intent to `status`; false if it is no longer pending, i.e. another
+   * request completed or cancelled it first
+   */
+  async claimUploadIntent(id: string, status: 'completing' | 'aborted'): Promise<boolean> {
+    const stmt = this.db.prepare(
+      "UPDATE upload_intents SET status = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ? AND status = 'pending'"
+    );
+    return stmt.run(status, id).changes === 1;
+  }
+
+  async listExpiredUploadIntents(now: string): Promise<UploadIntent[]> {
+    const stmt = this.db.prepare(
+      "SELECT * FROM upload_intents WHERE status = 'pending' AND expiresAt < ?"
+    );
+    return stmt.all(now) as UploadIntent[];
+  }
+
+  // Dataset methods
+  async getDatasetByName(userId: string, name: string): Promise<Dataset | null> {
+    const stmt = this.db.prepare('SELECT * FROM datasets WHERE userId = ? AND name = ?');
+    return (stmt.get(userId, name) as Dataset) || null;
+  }
+
+  async listDatasetsByUser(
+    userId: string,
+    limit = 10,
+    offset = 0
+  ): Promise<Array<Dataset & { latestVersion: number | null; versionCount: number }>> {
+    const stmt = this.db.prepare(`
+      SELECT d.*, MAX(v.version) AS latestVersion, COUNT(v.id) AS versionCount
+      FROM datasets d LEFT JOIN dataset_versions v ON v.datasetId = d.id
+      WHERE d.userId = ?
+      GROUP BY d.id
+      ORDER BY d.updatedAt DESC LIMIT ? OFFSET ?
+    `);
+    return stmt.all(userId, limit, offset) as Array<Dataset & { latestVersion: number | null; versionCount: number }>;
+  }
+
+  /**
+   * Append a version to a dataset, creating the dataset on first use. The version number
+   * is allocated inside the transaction; without an explicit parent the new version
+   * descends from the current latest one.
+   */
+  async createDatasetVersion(version: {
+    userId: string;
+    name: string;
+    description?: string;
+    manifestId: string;
+    hash: string;
+    size: number;
+    changelog: string;
+    parentVersionId?: string;
+  }): Promise<DatasetVersion> {
+    const upsertDataset = this.db.prepare(
+      'INSERT INTO datasets (id, userId, name, description, createdAt, updatedAt) ' +
+      'VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) ' +
+      'ON CONFLICT(userId, name) DO UPDATE SET updatedAt = CURRENT_TIMESTAMP, ' +
+      "description = COALESCE(NULLIF(excluded.description, ''), datasets.description) RETURNING *"
+    );
+    const getLatest = this.db.prepare(
+      'SELECT id, version FROM dataset_versions WHERE datasetId = ? ORDER BY version DESC LIMIT 1'
+    );
+    const insertVersion = this.db.prepare(
+      'INSERT INTO dataset_versions (id, datasetId, version, parentVersionId, manifestId, hash, size, changelog, createdAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP) RETURNING *'
+    );
+
+    return this.db.transaction(() => {
+      const dataset = upsertDataset.get(uuidv4(), version.userId, version.name, version.description || '') as Dataset;
+      const latest = getLatest.get(dataset.id) as { id: string; version: number } | undefined;
+
+      return insertVersion.get(
+        uuidv4(),
+        dataset.id,
+        (latest?.version ?? 0) + 1,
+        version.parentVersionId ?? latest?.id ?? null,
+        version.manifestId,
+        version.hash,
+        version.size,
+        version.changelog
+      ) as DatasetVersion;
+    })();
+  }
+
+  async listDatasetVersions(datasetId: string): Promise<DatasetVersion[]> {
+    const stmt = this.db.prepare('SELECT * FROM dataset_versions WHERE datasetId = ? ORDER BY version DESC');
+    return stmt.all(datasetId) as DatasetVersion[];
+  }
+
+  async getDatasetVersion(datasetId: string, version: number): Promise<DatasetVersion | null> {
+    const stmt = this.db.prepare('SELECT * FROM dataset_versions WHERE datasetId = ? AND version = ?');
+    return (stmt.get(datasetId, version) as DatasetVersion) || null;
+  }
+
+  async getDatasetVersionById(id: string): Promise<DatasetVersion | null> {
+    const stmt = this.db.prepare('SELECT * FROM dataset_versions WHERE id = ?');
+    return (stmt.get(id) as DatasetVersion) || null;
+  }
+
+  async getLatestDatasetVersion(datasetId: string): Promise<DatasetVersion | null> {
+    const stmt = this.db.prepare('SELECT * FROM dataset_versions WHERE datasetId = ? ORDER BY version DESC LIMIT 1');
+    return (stmt.get(datasetId) as DatasetVersion) || null;
+  }
+
+  async setPromotedDatasetVersion(datasetId: string, version: number): Promise<Dataset | null> {
+    const stmt = this.db.prepare(
+      'UPDATE datasets SET promotedVersion = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ? RETURNING *'
+    );
+    return (stmt.get(version, datasetId) as Dataset) || null;
+  }
+
+  async countDatasetVersionsForManifest(manifestId: string): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) AS count FROM dataset_versions WHERE manifestId = ?');
+    return (stmt.get(manifestId) as { count: number }).count;
+  }
+
+  // Reconciliation methods
+  /**
+   * Every manifest's storage reference, across all users
+   */
+  async listManifestObjects(): Promise<Array<Pick<Manifest, 'id' | 'userId' | 's3Key' | 'size' | 'hash' | 'encryption'>>> {
+    const stmt = this.db.prepare('SELECT id, userId, s3Key, size, hash, encryption FROM manifests');
+    return stmt.all() as Array<Pick<Manifest, 'id' | 'userId' | 's3Key' | 'size' | 'hash' | 'encryption'>>;
+  }
+
+  /**
+   * Blobs whose stored reference count disagrees with the manifests pointing at them
+   */
+  async listBlobRefCountDrift(): Promise<Array<StoredBlob & { actualRefCount: number }>> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM (
+        SELECT b.*,
+          (SELECT COUNT(*) FROM manifests m WHERE m.s3Key = b.s3Key) +
+          (SELECT COUNT(*) FROM manifest_entries e WHERE e.s3Key = b.s3Key) AS actualRefCount
+        FROM blobs b
+      ) WHERE refCount != actualRefCount
+    `);
+    return stmt.all() as Array<StoredBlob & { actualRefCount: number }>;
+  }
+
+  /**
+   * Every expanded-archive entry's storage reference, across all users
+   */
+  async listManifestEntryObjects(): Promise<Array<Pick<ManifestEntry, 'manifestId' | 'path' | 's3Key' | 'size' | 'hash'>>> {
+    const stmt = this.db.prepare('SELECT manifestId, path, s3Key, size, hash FROM manifest_entries');
+    return stmt.all() as Array<Pick<ManifestEntry, 'manifestId' | 'path' | 's3Key' | 'size' | 'hash'>>;
+  }
+
+  /**
+   * Whether a dataset version publishes the manifest, so it must not be dropped
+   */
+  async isManifestPinned(manifestId: string): Promise<boolean> {
+    const stmt = this.db.prepare('SELECT 1 FROM dataset_versions WHERE manifestId = ? LIMIT 1');
+    return stmt.get(manifestId) !== undefined;
+  }
+
+  async listBlobKeys(): Promise<string[]> {
+    const stmt = this.db.prepare('SELECT s3Key FROM blobs');
+    return (stmt.all() as Array<{ s3Key: string }>).map(row => row.s3Key);
+  }
+
+  /**
+   * Stored objects that belong to something other than a manifest: training checkpoints,
+   * and direct uploads that have not been completed or aborted yet
+   */
+  async listReservedObjectKeys(): Promise<string[]> {
+    const stmt = this.db.prepare(`
+      SELECT checkpointKey AS s3Key FROM training_jobs WHERE checkpointKey IS NOT NULL
+      UNION
+      SELECT s3Key FROM upload_intents WHERE status NOT IN ('completed', 'aborted')
+    `);
+    return (stmt.all() as Array<{ s3Key: string }>).map(row => row.s3Key);
+  }
+
+  /**
+   * When the oldest active upload session was opened, in milliseconds since the epoch;
+   * null if there is none
+   */
+  async getOldestActiveUploadSessionStart(): Promise<number | null> {
+    const stmt = this.db.prepare(
+      "SELECT CAST(strftime('%s', MIN(createdAt)) AS INTEGER) * 1000 AS startedAt FROM upload_sessions WHERE status = 'active'"
+    );
+    return (stmt.get() as { startedAt: number | null }).startedAt;
+  }
+
+  /**
+   * Reset a blob's reference count; blobs that nothing references are removed
+   */
+  async setBlobRefCount(hash: string, refCount: number): Promise<void> {
+    if (refCount > 0) {
+      this.db.prepare('UPDATE blobs SET refCount = ? WHERE hash = ?').run(refCount, hash);
+    } else {
+      this.db.prepare('DELETE FROM blobs WHERE hash = ?').run(hash);
+    }
+  }
+
+  async createReconciliationRun(triggeredBy: ReconciliationRun['triggeredBy'], options: string): Promise<ReconciliationRun> {
+    const stmt = this.db.prepare(
+      'INSERT INTO reconciliation_runs (id, triggeredBy, options, startedAt) VALUES (?, ?, ?, CURRENT_TIMESTAMP) RETURNING *'
+    );
+    return stmt.get(uuidv4(), triggeredBy, options) as ReconciliationRun;
+  }
+
+  async completeReconciliationRun(
+    id: string,
+    updates: Pick<ReconciliationRun, 'status' | 'summary' | 'issues' | 'error'>
+  ): Promise<ReconciliationRun | null> {
+    const stmt = this.db.prepare(
+      'UPDATE reconciliation_runs SET status = ?, summary = ?, issues = ?, error = ?, completedAt = CURRENT_TIMESTAMP ' +
+      'WHERE id = ? RETURNING *'
+    );
+    return (stmt.get(updates.status, updates.summary, updates.issues, updates.error, id) as ReconciliationRun) || null;
+  }
+
+  async getReconciliationRun(id: string): Promise<ReconciliationRun | null> {
+    const stmt = this.db.prepare('SELECT * FROM reconciliation_runs WHERE id = ?');
+    return (stmt.get(id) as ReconciliationRun) || null;
+  }
+
+  async listReconciliationRuns(limit = 10, offset = 0): Promise<Omit<ReconciliationRun, 'issues'>[]> {
+    const stmt = this.db.prepare(
+      'SELECT id, triggeredBy, status, options, summary, error, startedAt, completedAt FROM reconciliation_runs ' +
+      'ORDER BY startedAt DESC LIMIT ? OFFSET ?'
+    );
+    return stmt.all(limit, offset) as Omit<ReconciliationRun, 'issues'>[];
+  }
+
+  /**
+   * Runs left in 'running' by a crash or restart
+   */
+  async failInterruptedReconciliationRuns(): Promise<void> {
+    this.db.prepare(
+      "UPDATE reconciliation_runs SET status = 'failed', error = 'Interrupted', completedAt = CURRENT_TIMESTAMP WHERE status = 'running'"
+    ).run();
+  }
+
+  // Retention methods
+  /**
+   * Every manifest with what retention rules match on; `pinned` marks manifests published
+   * as a dataset version, which are immutable and never expired
+   */
+  async listManifestsForRetention(): Promise<Array<
+    Pick<Manifest, 'id' | 'userId' | 'filename' | 's3Key' | 'size' | 'tags' | 'uploadedAt'> & {
+      lastAccessedAt: string | null;
+      pinned: number;
+    }
+  >> {
+    const stmt = this.db.prepare(
+      'SELECT m.id, m.userId, m.filename, m.s3Key, m.size, m.tags, m.uploadedAt, m.lastAccessedAt, ' +
+      'EXISTS (SELECT 1 FROM dataset_versions v WHERE v.manifestId = m.id) AS pinned ' +
+      'FROM manifests m ORDER BY m.uploadedAt'
+    );
+    return stmt.all() as any[];
+  }
+
+  async listTrainingCheckpoints(): Promise<Array<
+    Pick<TrainingJob, 'id' | 'userId' | 'modelName' | 'status' | 'startedAt' | 'completedAt'> & {
+      checkpointKey: string;
+      checkpointSize: number;
+    }
+  >> {
+    const stmt = this.db.prepare(
+      'SELECT id, userId, modelName, status, startedAt, completedAt, checkpointKey, checkpointSize ' +
+      'FROM training_jobs WHERE checkpointKey IS NOT NULL ORDER BY COALESCE(completedAt, startedAt) DESC'
+    );
+    return stmt.all() as any[];
+  }
+
+  async listQueryResultsForRetention(): Promise<Array<{ id: string; userId: string; createdAt: string; size: number }>> {
+    const stmt = this.db.prepare(
+      'SELECT id, userId, createdAt, COALESCE(length(CAST(result AS BLOB)), 0) AS size FROM query_results ' +
+      "WHERE status IN ('completed', 'failed') ORDER BY createdAt"
+    );
+    return stmt.all() as Array<{ id: string; userId: string; createdAt: string; size: number }>;
+  }
+
+  // Workspace methods
+  async createWorkspace(workspace: Pick<Workspace, 'id' | 'name' | 'createdBy'>): Promise<Workspace> {
+    return this.db.transaction(() => this.insertWorkspace({ ...workspace, personalUserId: null }))();
+  }
+
+  /**
+   * Insert a workspace with its creator as the first admin; callers run it in a transaction
+   */
+  private insertWorkspace(workspace: Omit<Workspace, 'createdAt'>): Workspace {
+    const created = this.db.prepare(
+      'INSERT INTO workspaces (id, name, personalUserId, createdBy) VALUES (?, ?, ?, ?) RETURNING *'
+    ).get(workspace.id, workspace.name, workspace.personalUserId, workspace.createdBy) as Workspace;
+    this.db.prepare(
+      "INSERT INTO workspace_members (workspaceId, userId, role) VALUES (?, ?, 'admin')"
+    ).run(created.id, workspace.createdBy);
+    return created;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | null> {
+    const stmt = this.db.prepare('SELECT * FROM workspaces WHERE id = ?');
+    return (stmt.get(id) as Workspace) || null;
+  }
+
+  async getPersonalWorkspace(userId: string): Promise<Workspace | null> {
+    const stmt = this.db.prepare('SELECT * FROM workspaces WHERE personalUserId = ?');
+    return (stmt.get(userId) as Workspace) || null;
+  }
+
+  async listWorkspacesForUser(userId: string): Promise<Array<Workspace & { role: WorkspaceRole }>> {
+    const stmt = this.db.prepare(
+      'SELECT w.*, m.role FROM workspaces w JOIN workspace_members m ON m.workspaceId = w.id ' +
+      'WHERE m.userId = ? ORDER BY w.personalUserId IS NULL, w.name'
+    );
+    return stmt.all(userId) as Array<Workspace & { role: WorkspaceRole }>;
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | null> {
+    const stmt = this.db.prepare(
+      'SELECT m.*, u.walletAddress FROM workspace_members m JOIN users u ON u.id = m.userId ' +
+      'WHERE m.workspaceId = ? AND m.userId = ?'
+    );
+    return (stmt.get(workspaceId, userId) as WorkspaceMember) || null;
+  }
+
+  async listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const stmt = this.db.prepare(
+      'SELECT m.*, u.walletAddress FROM workspace_members m JOIN users u ON u.id = m.userId ' +
+      'WHERE m.workspaceId = ? ORDER BY m.joinedAt'
+    );
+    return stmt.all(workspaceId) as WorkspaceMember[];
+  }
+
+  async setWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> {
+    const stmt = this.db.prepare('UPDATE workspace_members SET role = ? WHERE workspaceId = ? AND userId = ?');
+    return stmt.run(role, workspaceId, userId).changes > 0;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM workspace_members WHERE workspaceId = ? AND userId = ?');
+    return stmt.run(workspaceId, userId).changes > 0;
+  }
+
+  async countWorkspaceAdmins(workspaceId: string): Promise<number> {
+    const stmt = this.db.prepare(
+      "SELECT COUNT(*) AS count FROM workspace_members WHERE workspaceId = ? AND role = 'admin'"
+    );
+    return (stmt.get(workspaceId) as { count: number }).count;
+  }
+
+  async createWorkspaceInvitation(
+    invitation: Pick<WorkspaceInvitation, 'id' | 'workspaceId' | 'walletAddress' | 'role' | 'invitedBy' | 'expiresAt'>
+  ): Promise<WorkspaceInvitation> {
+    const stmt = this.db.prepare(
+      'INSERT INTO workspace_invitations (id, workspaceId, walletAddress, role, invitedBy, expiresAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?) RETURNING *'
+    );
+    return stmt.get(
+      invitation.id,
+      invitation.workspaceId,
+      invitation.walletAddress,
+      invitation.role,
+      invitation.invitedBy,
+      invitation.expiresAt
+    ) as WorkspaceInvitation;
+  }
+
+  async getWorkspaceInvitation(id: string): Promise<WorkspaceInvitation | null> {
+    const stmt = this.db.prepare('SELECT * FROM workspace_invitations WHERE id = ?');
+    return (stmt.get(id) as WorkspaceInvitation) || null;
+  }
+
+  async listWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM workspace_invitations WHERE workspaceId = ? ORDER BY createdAt DESC'
+    );
+    return stmt.all(workspaceId) as WorkspaceInvitation[];
+  }
+
+  async listPendingInvitationsForWallet(
+    walletAddress: string,
+    now: string
+  ): Promise<Array<WorkspaceInvitation & { workspaceName: string }>> {
+    const stmt = this.db.prepare(
+      'SELECT i.*, w.name AS workspaceName FROM workspace_invitations i JOIN workspaces w ON w.id = i.workspaceId ' +
+      "WHERE i.walletAddress = ? AND i.status = 'pending' AND i.expiresAt > ? ORDER BY i.createdAt DESC"
+    );
+    return stmt.all(walletAddress, now) as Array<WorkspaceInvitation & { workspaceName: string }>;
+  }
+
+  async setWorkspaceInvitationStatus(
+    id: string,
+    status: Exclude<WorkspaceInvitation['status'], 'pending'>
+  ): Promise<WorkspaceInvitation | null> {
+    const stmt = this.db.prepare(
+      'UPDATE workspace_invitations SET status = ?, respondedAt = CURRENT_TIMESTAMP WHERE id = ? RETURNING *'
+    );
+    return (stmt.get(status, id) as WorkspaceInvitation) || null;
+  }
+
+  /**
+   * Close a pending invitation and add the user with its role, in one step. Someone who
+   * joined in the meantime keeps their role if it is stronger, so accepting never demotes.
+   */
+  async acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<void> {
+    const close = this.db.prepare(
+      "UPDATE workspace_invitations SET status = 'accepted', respondedAt = CURRENT_TIMESTAMP WHERE id = ? AND status = 'pending'"
+    );
+    const addMember = this.db.prepare(
+      'INSERT INTO workspace_members (workspaceId, userId, role) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(workspaceId, userId) DO UPDATE SET role = CASE ' +
+      "WHEN (CASE excluded.role WHEN 'admin' THEN 3 WHEN 'member' THEN 2 ELSE 1 END) > " +
+      "(CASE role WHEN 'admin' THEN 3 WHEN 'member' THEN 2 ELSE 1 END) THEN excluded.role ELSE role END"
+    );
+
+    this.db.transaction(() => {
+      if (close.run(invitation.id).changes > 0) {
+        addMember.run(invitation.workspaceId, userId, invitation.role);
+      }
+    })();
+  }
+
+  // Team methods
+  async createTeam(team: Omit<Team, 'createdAt'>): Promise<Team> {
+    const insertTeam = this.db.prepare('INSERT INTO teams (id, name, ownerId) VALUES (?, ?, ?) RETURNING *');
+    const insertOwner = this.db.prepare("INSERT INTO team_members (teamId, userId, role) VALUES (?, ?, 'admin')");
+
+    return this.db.transaction(() => {
+      const created = insertTeam.get(team.id, team.name, team.ownerId) as Team;
+      insertOwner.run(team.id, team.ownerId);
+      return created;
+    })();
+  }
+
+  async getTeam(id: string): Promise<Team | null> {
+    const stmt = this.db.prepare('SELECT * FROM teams WHERE id = ?');
+    return (stmt.get(id) as Team) || null;
+  }
+
+  async listTeamsForUser(userId: string): Promise<Array<Team & { role: TeamRole }>> {
+    const stmt = this.db.prepare(
+      'SELECT t.*, m.role FROM teams t JOIN team_members m ON m.teamId = t.id WHERE m.userId = ? ORDER BY t.name'
+    );
+    return stmt.all(userId) as Array<Team & { role: TeamRole }>;
+  }
+
+  async deleteTeam(id: string): Promise<void> {
+    const deleteGrants = this.db.prepare("DELETE FROM manifest_acl WHERE principalType = 'team' AND principalId = ?");
+    const deleteMembers = this.db.prepare('DELETE FROM team_members WHERE teamId = ?');
+    const deleteTeam = this.db.prepare('DELETE FROM teams WHERE id = ?');
+
+    this.db.transaction(() => {
+      deleteGrants.run(id);
+      deleteMembers.run(id);
+      deleteTeam.run(id);
+    })();
+  }
+
+  async getTeamMember(teamId: string, userId: string): Promise<TeamMember | null> {
+    const stmt = this.db.prepare(
+      'SELECT m.*, u.walletAddress FROM team_members m JOIN users u ON u.id = m.userId WHERE m.teamId = ? AND m.userId = ?'
+    );
+    return (stmt.get(teamId, userId) as TeamMember) || null;
+  }
+
+  async listTeamMembers(teamId: string): Promise<TeamMember[]> {
+    const stmt = this.db.prepare(
+      'SELECT m.*, u.walletAddress FROM team_members m JOIN users u ON u.id = m.userId WHERE m.teamId = ? ORDER BY m.addedAt'
+    );
+    return stmt.all(teamId) as TeamMember[];
+  }
+
+  async upsertTeamMember(teamId: string, userId: string, role: TeamRole): Promise<void> {
+    this.db.prepare(
+      'INSERT INTO team_members (teamId, userId, role) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(teamId, userId) DO UPDATE SET role = excluded.role'
+    ).run(teamId, userId, role);
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM team_members WHERE teamId = ? AND userId = ?');
+    return stmt.run(teamId, userId).changes > 0;
+  }
+
+  // Access control methods
+  async upsertManifestGrant(grant: Omit<ManifestGrant, 'createdAt'>): Promise<ManifestGrant> {
+    const stmt = this.db.prepare(
+      'INSERT INTO manifest_acl (manifestId, principalType, principalId, role, grantedBy) VALUES (?, ?, ?, ?, ?) ' +
+      'ON CONFLICT(manifestId, principalType, principalId) DO UPDATE SET role = excluded.role, grantedBy = excluded.grantedBy ' +
+      'RETURNING *'
+    );
+    return stmt.get(grant.manifestId, grant.principalType, grant.principalId, grant.role, grant.grantedBy) as ManifestGrant;
+  }
+
+  async deleteManifestGrant(manifestId: string, principalType: ManifestGrant['principalType'], principalId: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM manifest_acl WHERE manifestId = ? AND principalType = ? AND principalId = ?');
+    return stmt.run(manifestId, principalType, principalId).changes > 0;
+  }
+
+  /**
+   * A manifest's grants, with the wallet address or team name each one refers to
+   */
+  async listManifestGrants(manifestId: string): Promise<Array<ManifestGrant & { principalName: string | null }>> {
+    const stmt = this.db.prepare(`
+      SELECT a.*, CASE a.principalType
+        WHEN 'user' THEN (SELECT walletAddress FROM users WHERE id = a.principalId)
+        ELSE (SELECT name FROM teams WHERE id = a.principalId)
+      END AS principalName
+      FROM manifest_acl a WHERE a.manifestId = ? ORDER BY a.createdAt
+    `);
+    return stmt.all(manifestId) as Array<ManifestGrant & { principalName: string | null }>;
+  }
+
+  /**
+   * Roles a user holds on a manifest through direct grants or through their teams
+   */
+  async listGrantedRoles(manifestId: string, userId: string): Promise<GrantRole[]> {
+    const stmt = this.db.prepare(`
+      SELECT role FROM manifest_acl
+      WHERE manifestId = ? AND (
+        (principalType = 'user' AND principalId = ?) OR
+        (principalType = 'team' AND principalId IN (SELECT teamId FROM team_members WHERE userId = ?))
+      )
+    `);
+    return (stmt.all(manifestId, userId, userId) as Array<{ role: GrantRole }>).map(row => row.role);
+  }
+
+  /**
+   * Manifests from outside `workspaceId` shared with this user, directly or through a team.
+   * `role` is the strongest grant; MAX works because 'writer' sorts after 'reader'.
+   */
+  async listManifestsSharedWith(
+    userId: string,
+    workspaceId: string,
+    limit = 10,
+    offset = 0
+  ): Promise<Array<Manifest & { role: GrantRole }>> {
+    const stmt = this.db.prepare(`
+      SELECT m.*, MAX(a.role) AS role FROM manifests m
+      JOIN manifest_acl a ON a.manifestId = m.id
+      WHERE m.userId != ? AND m.workspaceId IS NOT ? AND (
+        (a.principalType = 'user' AND a.principalId = ?) OR
+        (a.principalType = 'team' AND a.principalId IN (SELECT teamId FROM team_members WHERE userId = ?))
+      )
+      GROUP BY m.id ORDER BY m.uploadedAt DESC LIMIT ? OFFSET ?
+    `);
+    return stmt.all(userId, workspaceId, userId, userId, limit, offset) as Array<Manifest & { role: GrantRole }>;
+  }
+
+  // Share link methods
+  async createShareLink(link: Omit<ShareLink, 'downloadCount' | 'revokedAt' | 'createdAt'>): Promise<ShareLink> {
+    const stmt = this.db.prepare(
+      'INSERT INTO share_links (id, manifestId, userId, tokenHash, expiresAt, maxDownloads, passwordHash) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *'
+    );
+    return stmt.get(
+      link.id,
+      link.manifestId,
+      link.userId,
+      link.tokenHash,
+      link.expiresAt,
+      link.maxDownloads,
+      link.passwordHash
+    ) as ShareLink;
   }
 
-  async listTrainingJobsByUser(userId: string, limit = 10, offset = 0): Promise<TrainingJob[]> {
+  async getShareLink(id: string): Promise<ShareLink | null> {
+    const stmt = this.db.prepare('SELECT * FROM share_links WHERE id = ?');
+    return (stmt.get(id) as ShareLink) || null;
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | null> {
+    const stmt = this.db.prepare('SELECT * FROM share_links WHERE tokenHash = ?');
+    return (stmt.get(tokenHash) as ShareLink) || null;
+  }
+
+  async listShareLinks(userId: string, manifestId?: string): Promise<ShareLink[]> {
+    if (manifestId) {
+      const stmt = this.db.prepare('SELECT * FROM share_links WHERE userId = ? AND manifestId = ? ORDER BY createdAt DESC');
+      return stmt.all(userId, manifestId) as ShareLink[];
+    }
+    const stmt = this.db.prepare('SELECT * FROM share_links WHERE userId = ? ORDER BY createdAt DESC');
+    return stmt.all(userId) as ShareLink[];
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink | null> {
     const stmt = this.db.prepare(
-      'SELECT * FROM training_jobs WHERE userId = ? ORDER BY startedAt DESC LIMIT ? OFFSET ?'
+      'UPDATE share_links SET revokedAt = COALESCE(revokedAt, CURRENT_TIMESTAMP) WHERE id = ? RETURNING *'
     );
-    return stmt.all(userId, limit, offset) as TrainingJob[];
+    return (stmt.get(id) as ShareLink) || null;
   }
 
-  async updateManifest(id: string, updates: Partial<Manifest>): Promise<Manifest | null> {
-    const updateFields: string[] = [];
-    const values: any[] = [];
-    
-    Object.entries(updates).forEach(([key, value]) => {
-      if (value !== undefined && key !== 'id') {
-        updateFields.push(`${key} = ?`);
-        values.push(value);
+  /**
+   * Count a download against the link, atomically with the checks that it is still live and
+   * under its cap, so concurrent requests can't overshoot maxDownloads. False if it wasn't.
+   */
+  async claimShareLinkDownload(id: string, now: string): Promise<boolean> {
+    const stmt = this.db.prepare(
+      'UPDATE share_links SET downloadCount = downloadCount + 1 ' +
+      'WHERE id = ? AND revokedAt IS NULL AND expiresAt > ? AND (maxDownloads IS NULL OR downloadCount < maxDownloads)'
+    );
+    return stmt.run(id, now).changes > 0;
+  }
+
+  async recordShareLinkAccess(
+    access: Pick<ShareLinkAccess, 'shareLinkId' | 'outcome' | 'ipAddress' | 'userAgent'>
+  ): Promise<void> {
+    const stmt = this.db.prepare(
+      'INSERT INTO share_link_accesses (shareLinkId, outcome, ipAddress, userAgent) VALUES (?, ?, ?, ?)'
+    );
+    stmt.run(access.shareLinkId, access.outcome, access.ipAddress, access.userAgent);
+  }
+
+  async listShareLinkAccesses(shareLinkId: string, limit = 100): Promise<ShareLinkAccess[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM share_link_accesses WHERE shareLinkId = ? ORDER BY id DESC LIMIT ?'
+    );
+    return stmt.all(shareLinkId, limit) as ShareLinkAccess[];
+  }
+
+  // Sign-in nonce methods
+  async createAuthNonce(nonce: Omit<AuthNonce, 'createdAt'>): Promise<AuthNonce> {
+    const stmt = this.db.prepare(
+      'INSERT INTO auth_nonces (nonce, walletAddress, expiresAt) VALUES (?, ?, ?) RETURNING *'
+    );
+    return stmt.get(nonce.nonce, nonce.walletAddress, nonce.expiresAt) as AuthNonce;
+  }
+
+  async getAuthNonce(nonce: string): Promise<AuthNonce | null> {
+    const stmt = this.db.prepare('SELECT * FROM auth_nonces WHERE nonce = ?');
+    return (stmt.get(nonce) as AuthNonce) || null;
+  }
+
+  /**
+   * Redeem a nonce if it is still live. Exactly one caller gets true for each nonce,
+   * however many servers race for it.
+   */
+  async consumeAuthNonce(nonce: string, now: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM auth_nonces WHERE nonce = ? AND expiresAt > ?');
+    return stmt.run(nonce, now).changes > 0;
+  }
+
+  async deleteExpiredAuthNonces(now: string): Promise<number> {
+    return this.db.prepare('DELETE FROM auth_nonces WHERE expiresAt <= ?').run(now).changes;
+  }
+
+  // Session methods
+  async createAuthSession(
+    session: Pick<AuthSession, 'id' | 'userId' | 'workspaceId' | 'refreshTokenHash' | 'userAgent' | 'ipAddress' | 'expiresAt'>
+  ): Promise<AuthSession> {
+    const stmt = this.db.prepare(
+      'INSERT INTO auth_sessions (id, userId, workspaceId, refreshTokenHash, userAgent, ipAddress, expiresAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *'
+    );
+    return stmt.get(
+      session.id,
+      session.userId,
+      session.workspaceId,
+      session.refreshTokenHash,
+      session.userAgent,
+      session.ipAddress,
+      session.expiresAt
+    ) as AuthSession;
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | null> {
+    const stmt = this.db.prepare('SELECT * FROM auth_sessions WHERE id = ?');
+    return (stmt.get(id) as AuthSession) || null;
+  }
+
+  async listAuthSessions(userId: string, now: string): Promise<AuthSession[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM auth_sessions WHERE userId = ? AND revokedAt IS NULL AND expiresAt > ? ORDER BY lastUsedAt DESC'
+    );
+    return stmt.all(userId, now) as AuthSession[];
+  }
+
+  /**
+   * Swap in a new refresh token, provided the session still holds `currentHash`, so that
+   * two refreshes with the same token can't both succeed. False if it didn't.
+   */
+  async rotateAuthSession(
+    id: string,
+    currentHash: string,
+    update: Pick<AuthSession, 'refreshTokenHash' | 'ipAddress' | 'expiresAt'>
+  ): Promise<boolean> {
+    const stmt = this.db.prepare(
+      'UPDATE auth_sessions SET refreshTokenHash = ?, ipAddress = ?, expiresAt = ?, lastUsedAt = CURRENT_TIMESTAMP ' +
+      'WHERE id = ? AND refreshTokenHash = ? AND revokedAt IS NULL'
+    );
+    return stmt.run(update.refreshTokenHash, update.ipAddress, update.expiresAt, id, currentHash).changes > 0;
+  }
+
+  async setAuthSessionWorkspace(id: string, workspaceId: string): Promise<void> {
+    this.db.prepare('UPDATE auth_sessions SET workspaceId = ? WHERE id = ?').run(workspaceId, id);
+  }
+
+  async revokeAuthSession(id: string): Promise<boolean> {
+    const stmt = this.db.prepare(
+      'UPDATE auth_sessions SET revokedAt = CURRENT_TIMESTAMP WHERE id = ? AND revokedAt IS NULL'
+    );
+    return stmt.run(id).changes > 0;
+  }
+
+  async revokeAuthSessionsForUser(userId: string): Promise<number> {
+    const stmt = this.db.prepare(
+      'UPDATE auth_sessions SET revokedAt = CURRENT_TIMESTAMP WHERE userId = ? AND revokedAt IS NULL'
+    );
+    return stmt.run(userId).changes;
+  }
+
+  // Rate limit methods
+  /**
+   * Count a hit against `key`, starting a new window of `windowMs` if the last one is over.
+   * Times are epoch milliseconds.
+   */
+  async incrementRateLimit(key: string, windowMs: number, now: number): Promise<{ hits: number; resetAt: number }> {
+    const stmt = this.db.prepare(
+      'INSERT INTO rate_limits (key, hits, resetAt) VALUES (?, 1, ?) ' +
+      'ON CONFLICT(key) DO UPDATE SET ' +
+      'hits = CASE WHEN resetAt <= ? THEN 1 ELSE hits + 1 END, ' +
+      'resetAt = CASE WHEN resetAt <= ? THEN excluded.resetAt ELSE resetAt END ' +
+      'RETURNING hits, resetAt'
+    );
+    return stmt.get(key, now + windowMs, now, now) as { hits: number; resetAt: number };
+  }
+
+  async getRateLimit(key: string, now: number): Promise<{ hits: number; resetAt: number } | null> {
+    const stmt = this.db.prepare('SELECT hits, resetAt FROM rate_limits WHERE key = ? AND resetAt > ?');
+    return (stmt.get(key, now) as { hits: number; resetAt: number }) || null;
+  }
+
+  async decrementRateLimit(key: string): Promise<void> {
+    this.db.prepare('UPDATE rate_limits SET hits = MAX(hits - 1, 0) WHERE key = ?').run(key);
+  }
+
+  async resetRateLimit(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM rate_limits WHERE key = ?').run(key);
+  }
+
+  async deleteExpiredRateLimits(now: number): Promise<number> {
+    return this.db.prepare('DELETE FROM rate_limits WHERE resetAt <= ?').run(now).changes;
+  }
+
+  // Anchoring methods
+  /**
+   * Queue a manifest for the next anchor batch. A manifest already queued or anchored keeps
+   * its existing record.
+   */
+  async queueManifestAnchor(
+    anchor: Pick<ManifestAnchor, 'manifestId' | 'manifestHash' | 'leaf' | 'requestedBy'>
+  ): Promise<ManifestAnchorDetails> {
+    this.db.prepare(
+      'INSERT INTO manifest_anchors (manifestId, manifestHash, leaf, requestedBy) VALUES (?, ?, ?, ?) ' +
+      'ON CONFLICT(manifestId) DO NOTHING'
+    ).run(anchor.manifestId, anchor.manifestHash, anchor.leaf, anchor.requestedBy);
+    return (await this.getManifestAnchor(anchor.manifestId))!;
+  }
+
+  async getManifestAnchor(manifestId: string): Promise<ManifestAnchorDetails | null> {
+    const stmt = this.db.prepare(`
+      SELECT a.*, b.root, b.jobId, b.status AS batchStatus, b.txHash, b.blockNumber, b.anchoredAt
+      FROM manifest_anchors a
+      LEFT JOIN anchor_batches b ON b.id = a.batchId
+      WHERE a.manifestId = ?
+    `);
+    return (stmt.get(manifestId) as ManifestAnchorDetails) || null;
+  }
+
+  async listPendingManifestAnchors(limit: number): Promise<ManifestAnchor[]> {
+    const stmt = this.db.prepare(
+      'SELECT * FROM manifest_anchors WHERE batchId IS NULL ORDER BY requestedAt, manifestId LIMIT ?'
+    );
+    return stmt.all(limit) as ManifestAnchor[];
+  }
+
+  /**
+   * Record a batch about to be anchored and give each of its manifests its proof
+   */
+  async createAnchorBatch(
+    batch: Pick<AnchorBatch, 'id' | 'root' | 'leafCount'>,
+    proofs: Array<{ manifestId: string; proof: string[] }>
+  ): Promise<AnchorBatch> {
+    const insertBatch = this.db.prepare(
+      'INSERT INTO anchor_batches (id, root, leafCount) VALUES (?, ?, ?) RETURNING *'
+    );
+    const assign = this.db.prepare(
+      'UPDATE manifest_anchors SET batchId = ?, proof = ? WHERE manifestId = ? AND batchId IS NULL'
+    );
+
+    return this.db.transaction(() => {
+      const created = insertBatch.get(batch.id, batch.root, batch.leafCount) as AnchorBatch;
+      for (const { manifestId, proof } of proofs) {
+        assign.run(batch.id, JSON.stringify(proof), manifestId);
       }
-    });
-    
-    if (updateFields.length === 0) return null;
-    
-    values.push(id);
-    const query = `UPDATE manifests SET ${updateFields.join(', ')} WHERE id = ? RETURNING *`;
-    
-    const stmt = this.db.prepare(query);
-    const result = stmt.get(...values) as Manifest | undefined;
-    
-    return result || null;
+      return created;
+    })();
   }
 
-  async deleteManifest(id: string): Promise<void> {
-    const stmt = this.db.prepare('DELETE FROM manifests WHERE id = ?');
-    stmt.run(id);
+  async setAnchorBatchJob(id: string, jobId: string): Promise<void> {
+    this.db.prepare('UPDATE anchor_batches SET jobId = ? WHERE id = ?').run(jobId, id);
   }
 
-  // Query result methods
-  async createQueryResult(queryResult: QueryResult): Promise<QueryResult> {
+  /**
+   * Users who asked for manifests in the batch to be anchored, with their manifests
+   */
+  async listAnchorBatchRequesters(batchId: string): Promise<Array<{ userId: string; manifestIds: string[] }>> {
+    const rows = this.db.prepare(
+      'SELECT requestedBy, manifestId FROM manifest_anchors WHERE batchId = ? ORDER BY requestedBy'
+    ).all(batchId) as Array<{ requestedBy: string; manifestId: string }>;
+
+    const byUser = new Map<string, string[]>();
+    for (const row of rows) {
+      byUser.set(row.requestedBy, [...(byUser.get(row.requestedBy) ?? []), row.manifestId]);
+    }
+    return [...byUser].map(([userId, manifestIds]) => ({ userId, manifestIds }));
+  }
+
+  async getAnchorBatch(id: string): Promise<AnchorBatch | null> {
+    const stmt = this.db.prepare('SELECT * FROM anchor_batches WHERE id = ?');
+    return (stmt.get(id) as AnchorBatch) || null;
+  }
+
+  async listAnchorBatchesByStatus(status: AnchorBatch['status']): Promise<AnchorBatch[]> {
+    const stmt = this.db.prepare('SELECT * FROM anchor_batches WHERE status = ? ORDER BY createdAt');
+    return stmt.all(status) as AnchorBatch[];
+  }
+
+  async completeAnchorBatch(
+    id: string,
+    result: Pick<AnchorBatch, 'txHash' | 'blockNumber' | 'anchoredAt'>
+  ): Promise<void> {
+    this.db.prepare(
+      "UPDATE anchor_batches SET status = 'anchored', txHash = ?, blockNumber = ?, anchoredAt = ?, error = NULL WHERE id = ?"
+    ).run(result.txHash, result.blockNumber, result.anchoredAt, id);
+  }
+
+  /**
+   * Mark a batch failed and put its manifests back in the queue
+   */
+  async failAnchorBatch(id: string, error: string): Promise<void> {
+    const fail = this.db.prepare("UPDATE anchor_batches SET status = 'failed', error = ? WHERE id = ?");
+    const release = this.db.prepare('UPDATE manifest_anchors SET batchId = NULL, proof = NULL WHERE batchId = ?');
+    this.db.transaction(() => {
+      fail.run(error, id);
+      release.run(id);
+    })();
+  }
+
+  // Manifest revocation methods
+  /**
+   * Record a revocation request; returns null if the manifest already has one pending or done.
+   * A failed request is replaced.
+   */
+  async queueManifestRevocation(
+    revocation: Pick<ManifestRevocation, 'manifestId' | 'reason' | 'supersededBy' | 'requestedBy'>
+  ): Promise<ManifestRevocation | null> {
     const stmt = this.db.prepare(`
-      INSERT INTO query_results (
-        id, query, datasetIds, outputFormat, status, result, error, 
-        executionTime, rowCount, columns, createdAt, completedAt, userId
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *
+      INSERT INTO manifest_revocations (manifestId, reason, supersededBy, requestedBy) VALUES (?, ?, ?, ?)
+      ON CONFLICT(manifestId) DO UPDATE SET
+        reason = excluded.reason, supersededBy = excluded.supersededBy, requestedBy = excluded.requestedBy,
+        jobId = NULL, status = 'pending', txHash = NULL, blockNumber = NULL, error = NULL,
+        requestedAt = CURRENT_TIMESTAMP, revokedAt = NULL
+      WHERE manifest_revocations.status = 'failed'
+      RETURNING *
     `);
-    
-    return stmt.get(
-      queryResult.id,
-      queryResult.query,
-      JSON.stringify(queryResult.datasetIds),
-      queryResult.outputFormat,
-      queryResult.status,
-      queryResult.result ? JSON.stringify(queryResult.result) : null,
-      queryResult.error,
-      queryResult.executionTime,
-      queryResult.rowCount,
-      queryResult.columns ? JSON.stringify(queryResult.columns) : null,
-      queryResult.createdAt,
-      queryResult.completedAt,
-      queryResult.userId
-    ) as QueryResult;
+    const queued = stmt.get(revocation.manifestId, revocation.reason, revocation.supersededBy, revocation.requestedBy);
+    return (queued as ManifestRevocation) || null;
   }
 
-  async updateQueryResult(id: string, updates: Partial<QueryResult>): Promise<QueryResult | null> {
-    const updateFields: string[] = [];
-    const values: any[] = [];
-    
-    Object.entries(updates).forEach(([key, value]) => {
-      if (value !== undefined && key !== 'id') {
-        updateFields.push(`${key} = ?`);
-        if (key === 'datasetIds' || key === 'result' || key === 'columns') {
-          values.push(typeof value === 'string' ? value : JSON.stringify(value));
-        } else {
-          values.push(value);
-        }
+  async setManifestRevocationJob(manifestId: string, jobId: string): Promise<void> {
+    this.db.prepare('UPDATE manifest_revocations SET jobId = ? WHERE manifestId = ?').run(jobId, manifestId);
+  }
+
+  async getManifestRevocation(manifestId: string): Promise<ManifestRevocation | null> {
+    const stmt = this.db.prepare('SELECT * FROM manifest_revocations WHERE manifestId = ?');
+    return (stmt.get(manifestId) as ManifestRevocation) || null;
+  }
+
+  async completeManifestRevocation(
+    manifestId: string,
+    result: Pick<ManifestRevocation, 'txHash' | 'blockNumber' | 'revokedAt'>
+  ): Promise<void> {
+    this.db.prepare(
+      "UPDATE manifest_revocations SET status = 'revoked', txHash = ?, blockNumber = ?, revokedAt = ?, error = NULL " +
+      'WHERE manifestId = ?'
+    ).run(result.txHash, result.blockNumber, result.revokedAt, manifestId);
+  }
+
+  async failManifestRevocation(manifestId: string, error: string): Promise<void> {
+    this.db.prepare("UPDATE manifest_revocations SET status = 'failed', error = ? WHERE manifestId = ?").run(error, manifestId);
+  }
+
+  // Registry event methods
+  /**
+   * Store events read up to a block, and the block as the new checkpoint
+   */
+  async recordRegistryEvents(
+    events: Omit<RegistryEvent, 'indexedAt'>[],
+    checkpoint: RegistryCheckpoint
+  ): Promise<void> {
+    const insertEvent = this.db.prepare(
+      'INSERT INTO registry_events (txHash, logIndex, blockNumber, blockHash, event, manifestId, manifestIdHash, hash, ' +
+      'root, leafCount, registrant, external, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ' +
+      'ON CONFLICT(txHash, logIndex) DO NOTHING'
+    );
+    const insertCheckpoint = this.db.prepare(
+      'INSERT INTO registry_checkpoints (blockNumber, blockHash) VALUES (?, ?) ' +
+      'ON CONFLICT(blockNumber) DO UPDATE SET blockHash = excluded.blockHash'
+    );
+    this.db.transaction(() => {
+      for (const e of events) {
+        insertEvent.run(
+          e.txHash, e.logIndex, e.blockNumber, e.blockHash, e.event, e.manifestId, e.manifestIdHash, e.hash,
+          e.root, e.leafCount, e.registrant, e.external, e.timestamp
+        );
       }
-    });
-    
-    if (updateFields.length === 0) return null;
-    
-    values.push(id);
-    const query = `UPDATE query_results SET ${updateFields.join(', ')} WHERE id = ? RETURNING *`;
-    
-    const stmt = this.db.prepare(query);
-    const result = stmt.get(...values) as any;
-    
-    if (result) {
-      // Parse JSON fields
-      result.datasetIds = JSON.parse(result.datasetIds);
-      if (result.result) result.result = JSON.parse(result.result);
-      if (result.columns) result.columns = JSON.parse(result.columns);
+      insertCheckpoint.run(checkpoint.blockNumber, checkpoint.blockHash);
+    })();
+  }
+
+  /**
+   * Checkpoints from the most recent down
+   */
+  async listRegistryCheckpoints(): Promise<RegistryCheckpoint[]> {
+    const stmt = this.db.prepare('SELECT * FROM registry_checkpoints ORDER BY blockNumber DESC');
+    return stmt.all() as RegistryCheckpoint[];
+  }
+
+  /**
+   * Forget events and checkpoints after a block, once a reorg has replaced them
+   */
+  async rewindRegistryIndex(blockNumber: number): Promise<void> {
+    const deleteEvents = this.db.prepare('DELETE FROM registry_events WHERE blockNumber > ?');
+    const deleteCheckpoints = this.db.prepare('DELETE FROM registry_checkpoints WHERE blockNumber > ?');
+    this.db.transaction(() => {
+      deleteEvents.run(blockNumber);
+      deleteCheckpoints.run(blockNumber);
+    })();
+  }
+
+  /**
+   * Drop checkpoints too old to be reorganised, keeping the newest of them to resume from
+   */
+  async pruneRegistryCheckpoints(finalizedBlock: number): Promise<void> {
+    this.db.prepare(
+      'DELETE FROM registry_checkpoints WHERE blockNumber < ' +
+      '(SELECT MAX(blockNumber) FROM registry_checkpoints WHERE blockNumber <= ?)'
+    ).run(finalizedBlock);
+  }
+
+  /**
+   * Indexed events, newest first. A manifest id matches its own registration and the root
+   * of the batch it was anchored in.
+   */
+  async listRegistryEvents(filter: RegistryEventFilter, limit = 50, offset = 0): Promise<RegistryEvent[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.event) {
+      conditions.push('e.event = ?');
+      params.push(filter.event);
     }
-    
-    return result || null;
+    if (filter.registrant) {
+      conditions.push('e.registrant = ? COLLATE NOCASE');
+      params.push(filter.registrant);
+    }
+    if (filter.manifest) {
+      conditions.push(
+        '(e.manifestIdHash = ? OR e.root IN (SELECT b.root FROM manifest_anchors a ' +
+        'JOIN anchor_batches b ON b.id = a.batchId WHERE a.manifestId = ?))'
+      );
+      params.push(filter.manifest.idHash, filter.manifest.id);
+    }
+    if (filter.external !== undefined) {
+      conditions.push('e.external = ?');
+      params.push(filter.external ? 1 : 0);
+    }
+    if (filter.since) {
+      conditions.push('e.timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until) {
+      conditions.push('e.timestamp < ?');
+      params.push(filter.until);
+    }
+
+    const stmt = this.db.prepare(
+      'SELECT e.* FROM registry_events e' +
+      (conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '') +
+      ' ORDER BY e.blockNumber DESC, e.logIndex DESC LIMIT ? OFFSET ?'
+    );
+    return stmt.all(...params, limit, offset) as RegistryEvent[];
   }
 
-  async getQueryResult(id: string, userId?: string): Promise<QueryResult | null> {
+  // Proof job methods
+  async createProofJob(job: Pick<ProofJob, 'id' | 'kind' | 'payload' | 'userId'>): Promise<ProofJob> {
     const stmt = this.db.prepare(
-      userId 
-        ? 'SELECT * FROM query_results WHERE id = ? AND userId = ?' 
-        : 'SELECT * FROM query_results WHERE id = ?'
+      'INSERT INTO proof_jobs (id, kind, payload, userId, nextAttemptAt) VALUES (?, ?, ?, ?, ?) RETURNING *'
     );
-    
-    const result = stmt.get(userId ? id : id, ...(userId ? [userId] : [])) as any;
-    
-    if (result) {
-      // Parse JSON fields
-      result.datasetIds = JSON.parse(result.datasetIds);
-      if (result.result) result.result = JSON.parse(result.result);
-      if (result.columns) result.columns = JSON.parse(result.columns);
-    }
-    
-    return result || null;
+    return stmt.get(job.id, job.kind, job.payload, job.userId, new Date().toISOString()) as ProofJob;
   }
 
-  async listQueryResults(userId: string, limit = 10, offset = 0): Promise<QueryResult[]> {
+  async getProofJob(id: string): Promise<ProofJob | null> {
+    const stmt = this.db.prepare('SELECT * FROM proof_jobs WHERE id = ?');
+    return (stmt.get(id) as ProofJob) || null;
+  }
+
+  async listDueProofJobs(now: string, limit: number): Promise<ProofJob[]> {
     const stmt = this.db.prepare(
-      'SELECT * FROM query_results WHERE userId = ? ORDER BY createdAt DESC LIMIT ? OFFSET ?'
+      "SELECT * FROM proof_jobs WHERE status = 'pending' AND nextAttemptAt <= ? ORDER BY createdAt LIMIT ?"
     );
-    const results = stmt.all(userId, limit, offset) as any[];
-    
-    return results.map(result => {
-      // Parse JSON fields
-      result.datasetIds = JSON.parse(result.datasetIds);
-      if (result.result) result.result = JSON.parse(result.result);
-      if (result.columns) result.columns = JSON.parse(result.columns);
-      return result;
-    });
+    return stmt.all(now, limit) as ProofJob[];
+  }
+
+  async listSubmittedProofJobs(): Promise<ProofJob[]> {
+    const stmt = this.db.prepare("SELECT * FROM proof_jobs WHERE status = 'submitted' ORDER BY nonce");
+    return stmt.all() as ProofJob[];
+  }
+
+  /**
+   * The highest nonce held by a transaction still waiting to be mined, or null
+   */
+  async getMaxSubmittedProofNonce(): Promise<number | null> {
+    const row = this.db.prepare("SELECT MAX(nonce) AS nonce FROM proof_jobs WHERE status = 'submitted'").get() as {
+      nonce: number | null;
+    };
+    return row.nonce;
+  }
+
+  async listProofJobTransactions(jobId: string): Promise<ProofJobTransaction[]> {
+    const stmt = this.db.prepare('SELECT * FROM proof_job_transactions WHERE jobId = ? ORDER BY sentAt, rowid');
+    return stmt.all(jobId) as ProofJobTransaction[];
+  }
+
+  /**
+   * Record a broadcast of the job's transaction, the first or a gas-bumped replacement
+   */
+  async recordProofJobTransaction(tx: Omit<ProofJobTransaction, 'status' | 'sentAt'>): Promise<void> {
+    const insert = this.db.prepare(
+      'INSERT INTO proof_job_transactions (txHash, jobId, nonce, maxFeePerGas, maxPriorityFeePerGas, gasPrice, gasLimit, sentAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const submit = this.db.prepare(
+      "UPDATE proof_jobs SET status = 'submitted', nonce = ?, txHash = ?, lastError = NULL, " +
+      'submittedAt = COALESCE(submittedAt, CURRENT_TIMESTAMP) WHERE id = ?'
+    );
+    this.db.transaction(() => {
+      insert.run(tx.txHash, tx.jobId, tx.nonce, tx.maxFeePerGas, tx.maxPriorityFeePerGas, tx.gasPrice, tx.gasLimit, new Date().toISOString());
+      submit.run(tx.nonce, tx.txHash, tx.jobId);
+    })();
+  }
+
+  /**
+   * Put the job back in the queue after a failed attempt to send it
+   */
+  async retryProofJob(id: string, error: string, nextAttemptAt: string): Promise<void> {
+    this.db.prepare(
+      "UPDATE proof_jobs SET status = 'pending', attempts = attempts + 1, lastError = ?, nextAttemptAt = ? WHERE id = ?"
+    ).run(error, nextAttemptAt, id);
+  }
+
+  async recordProofJobError(id: string, error: string): Promise<void> {
+    this.db.prepare('UPDATE proof_jobs SET lastError = ? WHERE id = ?').run(error, id);
+  }
+
+  async confirmProofJob(id: string, txHash: string | null, blockNumber: number | null): Promise<void> {
+    const confirm = this.db.prepare(
+      "UPDATE proof_jobs SET status = 'confirmed', txHash = COALESCE(?, txHash), blockNumber = ?, lastError = NULL, " +
+      'confirmedAt = CURRENT_TIMESTAMP WHERE id = ?'
+    );
+    // Every other broadcast with the job's nonce can no longer be mined
+    const settle = this.db.prepare(
+      "UPDATE proof_job_transactions SET status = CASE WHEN txHash = ? THEN 'mined' ELSE 'replaced' END WHERE jobId = ?"
+    );
+    this.db.transaction(() => {
+      confirm.run(txHash, blockNumber, id);
+      settle.run(txHash, id);
+    })();
+  }
+
+  /**
+   * End the job without a confirmed transaction: 'failed' when it can't succeed (minedTxHash
+   * names a transaction that reverted), 'replaced' when another transaction took its nonce
+   */
+  async endProofJob(
+    id: string,
+    status: 'failed' | 'replaced',
+    error: string,
+    minedTxHash: string | null = null
+  ): Promise<void> {
+    const end = this.db.prepare(
+      'UPDATE proof_jobs SET status = ?, lastError = ?, txHash = COALESCE(?, txHash) WHERE id = ?'
+    );
+    const settle = this.db.prepare(
+      "UPDATE proof_job_transactions SET status = CASE WHEN txHash = ? THEN 'mined' ELSE 'replaced' END WHERE jobId = ?"
+    );
+    this.db.transaction(() => {
+      end.run(status, error, minedTxHash, id);
+      settle.run(minedTxHash, id);
+    })();
+  }
+
+  // API token methods
+  async createApiToken(
+    token: Omit<ApiToken, 'lastUsedAt' | 'lastUsedIp' | 'revokedAt' | 'createdAt'>
+  ): Promise<ApiToken> {
+    const stmt = this.db.prepare(
+      'INSERT INTO api_tokens (id, userId, workspaceId, name, tokenHash, prefix, scopes, expiresAt) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *'
+    );
+    return stmt.get(
+      token.id,
+      token.userId,
+      token.workspaceId,
+      token.name,
+      token.tokenHash,
+      token.prefix,
+      token.scopes,
+      token.expiresAt
+    ) as ApiToken;
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | null> {
+    const stmt = this.db.prepare('SELECT * FROM api_tokens WHERE id = ?');
+    return (stmt.get(id) as ApiToken) || null;
+  }
+
+  /**
+   * A token with its owner's wallet address, for authenticating requests
+   */
+  async getApiTokenByHash(tokenHash: string): Promise<(ApiToken & { walletAddress: string }) | null> {
+    const stmt = this.db.prepare(
+      'SELECT t.*, u.walletAddress FROM api_tokens t JOIN users u ON u.id = t.userId WHERE t.tokenHash = ?'
+    );
+    return (stmt.get(tokenHash) as ApiToken & { walletAddress: string }) || null;
+  }
+
+  async listApiTokens(userId: string): Promise<ApiToken[]> {
+    const stmt = this.db.prepare('SELECT * FROM api_tokens WHERE userId = ? ORDER BY createdAt DESC');
+    return stmt.all(userId) as ApiToken[];
+  }
+
+  async revokeApiToken(id: string): Promise<ApiToken | null> {
+    const stmt = this.db.prepare(
+      'UPDATE api_tokens SET revokedAt = COALESCE(revokedAt, CURRENT_TIMESTAMP) WHERE id = ? RETURNING *'
+    );
+    return (stmt.get(id) as ApiToken) || null;
+  }
+
+  async touchApiToken(id: string, ipAddress: string | null): Promise<void> {
+    this.db.prepare(
+      'UPDATE api_tokens SET lastUsedAt = CURRENT_TIMESTAMP, lastUsedIp = ? WHERE id = ?'
+    ).run(ipAddress, id);
+  }
+
+  // Usage and quota methods
+  async getStorageUsage(userId: string): Promise<StorageUsageRow[]> {
+    const stmt = this.db.prepare('SELECT * FROM storage_usage WHERE userId = ?');
+    return stmt.all(userId) as StorageUsageRow[];
+  }
+
+  async getReservedUploadBytes(userId: string): Promise<number> {
+    return this.reservedUploadBytes(userId);
+  }
+
+  async getStorageQuota(userId: string): Promise<number | null> {
+    const stmt = this.db.prepare('SELECT quotaBytes FROM storage_quotas WHERE userId = ?');
+    const row = stmt.get(userId) as { quotaBytes: number } | undefined;
+    return row ? row.quotaBytes : null;
+  }
+
+  /**
+   * Override a user's quota; `null` puts them back on the default
+   */
+  async setStorageQuota(userId: string, quotaBytes: number | null): Promise<void> {
+    if (quotaBytes === null) {
+      this.db.prepare('DELETE FROM storage_quotas WHERE userId = ?').run(userId);
+      return;
+    }
+    this.db.prepare(
+      'INSERT INTO storage_quotas (userId, quotaBytes, updatedAt) VALUES (?, ?, CURRENT_TIMESTAMP) ' +
+      'ON CONFLICT(userId) DO UPDATE SET quotaBytes = excluded.quotaBytes, updatedAt = CURRENT_TIMESTAMP'
+    ).run(userId, quotaBytes);
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | null> {
+    const stmt = this.db.prepare('SELECT * FROM users WHERE walletAddress = ? COLLATE NOCASE');
+    return (stmt.get(walletAddress) as User) || null;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const stmt = this.db.prepare('SELECT * FROM users WHERE id = ?');
+    return (stmt.get(id) as User) || null;
   }
 
   // Utility methods
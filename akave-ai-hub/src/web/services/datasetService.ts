@@ -0,0 +1,298 @@
+import { DatabaseService, Dataset, DatasetVersion } from './databaseService';
+import { AuthorizationService } from './authorizationService';
+
+// Names appear in `name@version` references and URLs, so '@' and '/' are not allowed
+const DATASET_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+export class DatasetNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetNotFoundError';
+  }
+}
+
+export class DatasetVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetVersionError';
+  }
+}
+
+/** A dataset reference as accepted by training jobs, pinned to the manifest it resolved to */
+export interface ResolvedDataset {
+  reference: string;
+  manifestId: string;
+  hash: string;
+  dataset?: string;
+  version?: number;
+  versionId?: string;
+}
+
+export interface DatasetVersionDiff {
+  dataset: string;
+  from: number;
+  to: number;
+  contentChanged: boolean;
+  hash: { from: string; to: string };
+  size: { from: number; to: number; delta: number };
+  filename?: { from: string; to: string };
+  contentType?: { from: string; to: string };
+  tags: { added: string[]; removed: string[] };
+  metadata: { added: string[]; removed: string[]; changed: string[] };
+  /** Whether `from` is an ancestor of `to`; when it is, the changelog covers the versions in between */
+  linear: boolean;
+  changelog: Array<{ version: number; changelog: string; createdAt: string }>;
+}
+
+export const isValidDatasetName = (name: unknown): name is string =>
+  typeof name === 'string' && DATASET_NAME_PATTERN.test(name);
+
+/**
+ * Split `name@version`. A bare name (or `name@latest`) leaves the version open;
+ * it then resolves to the promoted version, or the newest one if none is promoted.
+ */
+export const parseDatasetReference = (reference: string): { name: string; version: number | 'latest' | 'promoted' } | null => {
+  const at = reference.lastIndexOf('@');
+  const name = at === -1 ? reference : reference.slice(0, at);
+  const tag = at === -1 ? '' : reference.slice(at + 1);
+
+  if (!isValidDatasetName(name)) return null;
+  if (tag === '') return { name, version: 'promoted' };
+  if (tag === 'latest') return { name, version: 'latest' };
+  if (/^v?\d+$/.test(tag)) return { name, version: parseInt(tag.replace(/^v/, ''), 10) };
+  return null;
+};
+
+const parseTags = (tags: string): string[] => {
+  try {
+    const parsed = JSON.parse(tags || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+};
+
+const parseMetadata = (metadata: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(metadata || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Named datasets made of immutable, numbered versions. Each version pins one manifest
+ * and points at the version it was derived from, so lineage can be walked back.
+ */
+export class DatasetService {
+  private authorizationService: AuthorizationService;
+
+  constructor(private dbService: DatabaseService) {
+    this.authorizationService = new AuthorizationService(dbService);
+  }
+
+  async listDatasets(userId: string, limit = 10, offset = 0) {
+    return this.dbService.listDatasetsByUser(userId, limit, offset);
+  }
+
+  async getDataset(userId: string, name: string): Promise<{ dataset: Dataset; versions: DatasetVersion[] }> {
+    const dataset = await this.requireDataset(userId, name);
+    const versions = await this.dbService.listDatasetVersions(dataset.id);
+    return { dataset, versions };
+  }
+
+  /**
+   * Publish a manifest as the next version of a dataset (created on first use)
+   */
+  async createVersion(
+    userId: string,
+    name: string,
+    input: { manifestId: string; changelog?: string; description?: string; parentVersion?: number }
+  ): Promise<DatasetVersion> {
+    if (!isValidDatasetName(name)) {
+      throw new DatasetVersionError('Dataset names may only contain letters, digits, ".", "_" and "-".');
+    }
+
+    const manifest = await this.authorizationService.authorizeManifest(userId, input.manifestId, 'writer');
+    if (!manifest) {
+      throw new DatasetNotFoundError(`File ${input.manifestId} not found or access denied.`);
+    }
+
+    const existing = await this.dbService.getDatasetByName(userId, name);
+    let parent: DatasetVersion | null = null;
+
+    if (input.parentVersion !== undefined) {
+      parent = existing ? await this.dbService.getDatasetVersion(existing.id, input.parentVersion) : null;
+      if (!parent) {
+        throw new DatasetNotFoundError(`Version ${input.parentVersion} of dataset ${name} does not exist.`);
+      }
+    } else if (existing) {
+      parent = await this.dbService.getLatestDatasetVersion(existing.id);
+    }
+
+    if (parent && parent.hash === manifest.hash) {
+      throw new DatasetVersionError(`Content is identical to ${name}@${parent.version}.`);
+    }
+
+    return this.dbService.createDatasetVersion({
+      userId,
+      name,
+      description: input.description,
+      manifestId: manifest.id,
+      hash: manifest.hash,
+      size: manifest.size,
+      changelog: input.changelog || '',
+      parentVersionId: parent?.id,
+    });
+  }
+
+  async getVersion(userId: string, name: string, version: number): Promise<DatasetVersion> {
+    const dataset = await this.requireDataset(userId, name);
+    return this.requireVersion(dataset, version);
+  }
+
+  /**
+   * The chain of versions a version was derived from, newest first
+   */
+  async getLineage(userId: string, name: string, version: number): Promise<DatasetVersion[]> {
+    const dataset = await this.requireDataset(userId, name);
+    return this.walkLineage(await this.requireVersion(dataset, version));
+  }
+
+  /**
+   * Mark a version as the one bare `name` references resolve to
+   */
+  async promoteVersion(userId: string, name: string, version: number): Promise<Dataset> {
+    const dataset = await this.requireDataset(userId, name);
+    await this.requireVersion(dataset, version);
+    return (await this.dbService.setPromotedDatasetVersion(dataset.id, version))!;
+  }
+
+  async diffVersions(userId: string, name: string, from: number, to: number): Promise<DatasetVersionDiff> {
+    const dataset = await this.requireDataset(userId, name);
+    const fromVersion = await this.requireVersion(dataset, from);
+    const toVersion = await this.requireVersion(dataset, to);
+
+    const fromManifest = await this.dbService.getManifestById(fromVersion.manifestId);
+    const toManifest = await this.dbService.getManifestById(toVersion.manifestId);
+    if (!fromManifest || !toManifest) {
+      throw new DatasetNotFoundError('A version references a file that no longer exists.');
+    }
+
+    const fromTags = parseTags(fromManifest.tags);
+    const toTags = parseTags(toManifest.tags);
+
+    const fromMetadata = parseMetadata(fromManifest.metadata);
+    const toMetadata = parseMetadata(toManifest.metadata);
+    const fromKeys = Object.keys(fromMetadata);
+    const toKeys = Object.keys(toMetadata);
+
+    // Walk back from `to`; if we reach `from`, everything in between is its changelog
+    const lineage = await this.walkLineage(toVersion);
+    const fromIndex = lineage.findIndex(entry => entry.id === fromVersion.id);
+    const between = fromIndex === -1 ? [toVersion] : lineage.slice(0, fromIndex);
+
+    return {
+      dataset: dataset.name,
+      from,
+      to,
+      contentChanged: fromVersion.hash !== toVersion.hash,
+      hash: { from: fromVersion.hash, to: toVersion.hash },
+      size: { from: fromVersion.size, to: toVersion.size, delta: toVersion.size - fromVersion.size },
+      filename: fromManifest.filename !== toManifest.filename
+        ? { from: fromManifest.filename, to: toManifest.filename }
+        : undefined,
+      contentType: fromManifest.contentType !== toManifest.contentType
+        ? { from: fromManifest.contentType, to: toManifest.contentType }
+        : undefined,
+      tags: {
+        added: toTags.filter(tag => !fromTags.includes(tag)),
+        removed: fromTags.filter(tag => !toTags.includes(tag)),
+      },
+      metadata: {
+        added: toKeys.filter(key => !(key in fromMetadata)),
+        removed: fromKeys.filter(key => !(key in toMetadata)),
+        changed: toKeys.filter(key => key in fromMetadata && JSON.stringify(fromMetadata[key]) !== JSON.stringify(toMetadata[key])),
+      },
+      linear: fromIndex !== -1,
+      changelog: between.map(entry => ({ version: entry.version, changelog: entry.changelog, createdAt: entry.createdAt })),
+    };
+  }
+
+  /**
+   * Resolve training/query dataset references. Each entry is either a manifest id or a
+   * `name@version` reference; the result pins every entry to a concrete manifest.
+   */
+  async resolveReferences(userId: string, references: string[]): Promise<ResolvedDataset[]> {
+    const resolved: ResolvedDataset[] = [];
+
+    for (const reference of references) {
+      const manifest = await this.dbService.getManifestById(reference);
+      if (manifest) {
+        if (!(await this.authorizationService.can(userId, manifest, 'reader'))) {
+          throw new DatasetNotFoundError(`Dataset ${reference} not found or access denied.`);
+        }
+        resolved.push({ reference, manifestId: manifest.id, hash: manifest.hash });
+        continue;
+      }
+
+      const parsed = parseDatasetReference(reference);
+      const dataset = parsed && await this.dbService.getDatasetByName(userId, parsed.name);
+      if (!parsed || !dataset) {
+        throw new DatasetNotFoundError(`Dataset ${reference} not found or access denied.`);
+      }
+
+      let version: DatasetVersion | null;
+      if (parsed.version === 'promoted' && dataset.promotedVersion !== null) {
+        version = await this.dbService.getDatasetVersion(dataset.id, dataset.promotedVersion);
+      } else if (parsed.version === 'promoted' || parsed.version === 'latest') {
+        version = await this.dbService.getLatestDatasetVersion(dataset.id);
+      } else {
+        version = await this.dbService.getDatasetVersion(dataset.id, parsed.version);
+      }
+
+      if (!version) {
+        throw new DatasetNotFoundError(`Dataset ${reference} not found or access denied.`);
+      }
+
+      resolved.push({
+        reference,
+        manifestId: version.manifestId,
+        hash: version.hash,
+        dataset: dataset.name,
+        version: version.version,
+        versionId: version.id,
+      });
+    }
+
+    return resolved;
+  }
+
+  private async walkLineage(version: DatasetVersion): Promise<DatasetVersion[]> {
+    const lineage = [version];
+    let current = version;
+    while (current.parentVersionId) {
+      const parent = await this.dbService.getDatasetVersionById(current.parentVersionId);
+      if (!parent) break;
+      lineage.push(parent);
+      current = parent;
+    }
+    return lineage;
+  }
+
+  private async requireDataset(userId: string, name: string): Promise<Dataset> {
+    const dataset = await this.dbService.getDatasetByName(userId, name);
+    if (!dataset) {
+      throw new DatasetNotFoundError(`Dataset ${name} not found.`);
+    }
+    return dataset;
+  }
+
+  private async requireVersion(dataset: Dataset, version: number): Promise<DatasetVersion> {
+    const found = await this.dbService.getDatasetVersion(dataset.id, version);
+    if (!found) {
+      throw new DatasetNotFoundError(`Version ${version} of dataset ${dataset.name} does not exist.`);
+    }
+    return found;
+  }
+}
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ethers } from 'ethers';
+
+const ALGORITHM = 'AES-256-GCM';
+const IV_LENGTH = 12;
+const WALLET_KEK_INFO = 'akave-ai-hub/wallet-kek/v1';
+
+export type KeySource = 'master' | 'wallet';
+
+/**
+ * Stored in a manifest's `encryption` column. The data key itself never leaves
+ * the server unwrapped; only the wrapped form and the parameters needed to unwrap it are kept.
+ */
+export interface EncryptionEnvelope {
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  keySource: KeySource;
+  keyId: string;
+  /** Data key encrypted with the key-encryption key: base64(iv | authTag | ciphertext) */
+  wrappedKey: string;
+  /** HKDF salt for wallet-derived key-encryption keys */
+  salt?: string;
+  iv: string;
+  authTag: string;
+  /** SHA-256 of the stored ciphertext, used to verify downloads before decrypting */
+  ciphertextHash: string;
+}
+
+export interface EncryptionRequest {
+  keySource: KeySource;
+  walletAddress?: string;
+  /** Signature of `walletKeyMessage(walletAddress)`, required for wallet-derived keys */
+  walletSignature?: string;
+}
+
+export interface DecryptionCredentials {
+  walletAddress?: string;
+  walletSignature?: string;
+}
+
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+/**
+ * The message a wallet signs to derive its key-encryption key. It is fixed per wallet so
+ * the same (deterministic) signature unlocks every dataset that wallet encrypted.
+ */
+export const walletKeyMessage = (walletAddress: string): string =>
+  `Akave AI Hub data encryption key\nWallet: ${walletAddress.toLowerCase()}`;
+
+/**
+ * Build an encryption request from API input (`encrypt: 'master' | 'wallet'`)
+ */
+export const toEncryptionRequest = (
+  mode: unknown,
+  walletAddress: string,
+  walletSignature?: string
+): EncryptionRequest | undefined => {
+  if (mode === undefined || mode === null || mode === false || mode === '' || mode === 'none' || mode === 'false') {
+    return undefined;
+  }
+  if (mode !== 'master' && mode !== 'wallet') {
+    throw new EncryptionKeyError('encrypt must be one of: master, wallet.');
+  }
+  return { keySource: mode, walletAddress, walletSignature };
+};
+
+const parseKey = (value: string): Buffer => {
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Encryption master keys must be 32 bytes (hex or base64 encoded)');
+  }
+  return key;
+};
+
+export const readEnvelope = (manifest: { encryption?: string | null }): EncryptionEnvelope | null => {
+  try {
+    return manifest.encryption ? JSON.parse(manifest.encryption) : null;
+  } catch {
+    return null;
+  }
+};
+
+export class EncryptionService {
+  private masterKeys: Map<string, Buffer> = new Map();
+  private activeMasterKeyId: string | null = null;
+
+  constructor() {
+    const masterKey = process.env.ENCRYPTION_MASTER_KEY;
+    if (masterKey) {
+      this.activeMasterKeyId = process.env.ENCRYPTION_MASTER_KEY_ID || 'master-v1';
+      this.masterKeys.set(this.activeMasterKeyId, parseKey(masterKey));
+    }
+
+    // Rotated-out keys stay available for unwrapping: "keyId:key,keyId:key"
+    for (const entry of (process.env.ENCRYPTION_RETIRED_KEYS || '').split(',').filter(Boolean)) {
+      const [keyId, key] = entry.split(':');
+      this.masterKeys.set(keyId.trim(), parseKey(key.trim()));
+    }
+  }
+
+  isMasterKeyConfigured(): boolean {
+    return this.activeMasterKeyId !== null;
+  }
+
+  /**
+   * Encrypt a file with a fresh data key, wrapping the data key for the requested key source
+   */
+  async encryptFile(inputPath: string, outputPath: string, request: EncryptionRequest): Promise<EncryptionEnvelope> {
+    const dataKey = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(IV_LENGTH);
+
+    const { kek, keyId, salt } = this.resolveKekForEncryption(request);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+    const ciphertextHash = crypto.createHash('sha256');
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        ciphertextHash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    await pipeline(fs.createReadStream(inputPath), cipher, hasher, fs.createWriteStream(outputPath));
+
+    return {
+      version: 1,
+      algorithm: ALGORITHM,
+      keySource: request.keySource,
+      keyId,
+      wrappedKey: this.wrapKey(dataKey, kek),
+      salt: salt?.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertextHash: ciphertextHash.digest('hex'),
+    };
+  }
+
+  /**
+   * Decrypt a downloaded ciphertext file. The output is removed if authentication fails.
+   */
+  async decryptFile(
+    inputPath: string,
+    outputPath: string,
+    envelope: EncryptionEnvelope,
+    credentials: DecryptionCredentials = {}
+  ): Promise<void> {
+    try {
+      await pipeline(fs.createReadStream(inputPath), this.createDecipher(envelope, credentials), fs.createWriteStream(outputPath));
+    } catch (error) {
+      await fs.promises.rm(outputPath, { force: true });
+      if (error instanceof EncryptionKeyError) throw error;
+      throw new Error('Decryption failed: ciphertext or authentication tag is invalid');
+    }
+  }
+
+  /**
+   * Decrypt a ciphertext stream on the fly. GCM only authenticates at the end of the
+   * stream, so consumers must treat an error event as "discard what was received".
+   */
+  decryptStream(source: Readable, envelope: EncryptionEnvelope, credentials: DecryptionCredentials = {}): Readable {
+    const decipher = this.createDecipher(envelope, credentials);
+    source.on('error', (error) => decipher.destroy(error));
+    return source.pipe(decipher);
+  }
+
+  private createDecipher(envelope: EncryptionEnvelope, credentials: DecryptionCredentials): crypto.DecipherGCM {
+    if (envelope.algorithm !== ALGORITHM) {
+      throw new EncryptionKeyError(`Unsupported encryption algorithm: ${envelope.algorithm}`);
+    }
+
+    const kek = this.resolveKekForDecryption(envelope, credentials);
+    const dataKey = this.unwrapKey(envelope.wrappedKey, kek);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.authTag, 'base64'));
+    return decipher;
+  }
+
+  private resolveKekForEncryption(request: EncryptionRequest): { kek: Buffer; keyId: string; salt?: Buffer } {
+    if (request.keySource === 'master') {
+      if (!this.activeMasterKeyId) {
+        throw new EncryptionKeyError('Server-side encryption is not configured (ENCRYPTION_MASTER_KEY is not set).');
+      }
+      return { kek: this.masterKeys.get(this.activeMasterKeyId)!, keyId: this.activeMasterKeyId };
+    }
+
+    const { walletAddress, walletSignature } = this.requireWalletCredentials(request);
+    const salt = crypto.randomBytes(16);
+    return {
+      kek: this.deriveWalletKek(walletSignature, salt),
+      keyId: `wallet:${walletAddress.toLowerCase()}`,
+      salt,
+    };
+  }
+
+  private resolveKekForDecryption(envelope: EncryptionEnvelope, credentials: DecryptionCredentials): Buffer {
+    if (envelope.keySource === 'master') {
+      const kek = this.masterKeys.get(envelope.keyId);
+      if (!kek) {
+        throw new EncryptionKeyError(`Master key ${envelope.keyId} is not available on this server.`);
+      }
+      return kek;
+    }
+
+    const { walletAddress, walletSignature } = this.requireWalletCredentials(credentials);
+    if (envelope.keyId !== `wallet:${walletAddress.toLowerCase()}`) {
+      throw new EncryptionKeyError('This dataset was encrypted with a different wallet key.');
+    }
+    return this.deriveWalletKek(walletSignature, Buffer.from(envelope.salt || '', 'base64'));
+  }
+
+  private requireWalletCredentials(credentials: DecryptionCredentials): { walletAddress: string; walletSignature: string } {
+    const { walletAddress, walletSignature } = credentials;
+    if (!walletAddress || !walletSignature) {
+      throw new EncryptionKeyError('A wallet encryption signature is required for wallet-encrypted datasets.');
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(walletKeyMessage(walletAddress), walletSignature);
+    } catch {
+      throw new EncryptionKeyError('Wallet encryption signature is malformed.');
+    }
+
+    if (signer.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new EncryptionKeyError('Wallet encryption signature does not match the wallet address.');
+    }
+
+    return { walletAddress, walletSignature };
+  }
+
+  private deriveWalletKek(walletSignature: string, salt: Buffer): Buffer {
+    const ikm = Buffer.from(ethers.getBytes(walletSignature));
+    return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, WALLET_KEK_INFO, 32));
+  }
+
+  private wrapKey(dataKey: Buffer, kek: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', kek, iv);
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private unwrapKey(wrappedKey: string, kek: Buffer): Buffer {
+    const raw = Buffer.from(wrappedKey, 'base64');
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', kek, raw.subarray(0, IV_LENGTH));
+      decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + 16));
+      return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + 16)), decipher.final()]);
+    } catch {
+      throw new EncryptionKeyError('Failed to unwrap the data key: wrong key or corrupted envelope.');
+    }
+  }
+}
+
+// Export a singleton instance
+export const encryptionService = new EncryptionService();
@@ -21,10 +21,10 @@ export async function initializeServices() {
     await dbService.initialize();
     console.log('✅ Database service initialized');
     
-    // Initialize Akave O3 storage service
-    console.log('☁️  Initializing Akave O3 storage...');
+    // Initialize object storage (Akave O3, or the local/in-memory backend when configured)
+    console.log(`☁️  Initializing ${akaveService.backendName} storage backend...`);
     await akaveService.initialize();
-    console.log('✅ Akave O3 storage initialized');
+    console.log(`✅ ${akaveService.backendName} storage backend initialized`);
     
     console.log('🎯 All core services initialized successfully');
     
@@ -0,0 +1,136 @@
+import { Manifest } from './databaseService';
+import { BlockchainService } from './blockchainService';
+import { AnchorService, AnchoringDisabledError } from './anchorService';
+import { RevocationService } from './revocationService';
+import { manifestHashToBytes32 } from '../../shared/merkle';
+import {
+  PROOF_BUNDLE_VERSION,
+  ProofBundle,
+  ProofBundleVerification,
+  UnsignedProofBundle,
+  VerifyProofBundleOptions,
+  proofBundleMessage,
+  verifyProofBundle,
+} from '../../shared/proofBundle';
+
+export class ProofBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProofBundleError';
+  }
+}
+
+/**
+ * Issues signed proof bundles for anchored manifests, and verifies bundles from anyone
+ * against the chain alone
+ */
+export class ProofBundleService {
+  constructor(
+    private blockchainService: BlockchainService,
+    private anchorService: AnchorService,
+    private revocationService: RevocationService
+  ) {}
+
+  /**
+   * Bundle the manifest's anchoring, signed with the registrar key. Only manifests anchored
+   * on-chain, unrevoked and still matching their anchored hash get one.
+   */
+  async createBundle(manifest: Manifest): Promise<ProofBundle> {
+    if (!this.blockchainService.isAvailable()) {
+      throw new AnchoringDisabledError();
+    }
+
+    const revocation = await this.revocationService.getRevocation(manifest.id);
+    if (revocation?.status === 'revoked') {
+      throw new ProofBundleError('Manifest is revoked.');
+    }
+
+    const unsigned: UnsignedProofBundle = {
+      version: PROOF_BUNDLE_VERSION,
+      manifest: {
+        id: manifest.id,
+        filename: manifest.filename,
+        size: manifest.size,
+        contentType: manifest.contentType,
+        sha256: manifest.hash,
+        uploadedAt: manifest.uploadedAt,
+      },
+      chain: {
+        chainId: await this.blockchainService.getChainId(),
+        contractAddress: await this.blockchainService.getContractAddress(),
+      },
+      anchor: await this.findAnchor(manifest),
+      issuer: this.blockchainService.getSenderAddress(),
+      issuedAt: new Date().toISOString(),
+    };
+
+    const signature = await this.blockchainService.signMessage(proofBundleMessage(unsigned));
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * Check a bundle, and the file if given, against the chain this hub is configured for.
+   * Nothing is read from the database; with blockchain features off, only the offline
+   * checks run and a bundle is never reported valid.
+   */
+  async verifyBundle(bundle: unknown, file?: { sha256: string; size: number }): Promise<ProofBundleVerification> {
+    const options: VerifyProofBundleOptions = { file };
+    if (this.blockchainService.isAvailable()) {
+      options.provider = this.blockchainService.getReadProvider();
+      options.registry = {
+        chainId: await this.blockchainService.getChainId(),
+        contractAddress: await this.blockchainService.getContractAddress(),
+      };
+    }
+    return verifyProofBundle(bundle, options);
+  }
+
+  private async findAnchor(manifest: Manifest): Promise<ProofBundle['anchor']> {
+    // Batched: the inclusion proof, and the transaction that anchored the root
+    const anchor = await this.anchorService.getAnchor(manifest.id);
+    if (anchor?.status === 'anchored' && anchor.root) {
+      if (!this.anchorService.verifyInclusion(manifest, anchor)) {
+        throw new ProofBundleError('Manifest no longer matches the hash that was anchored.');
+      }
+
+      let { txHash, blockNumber } = anchor;
+      if (!txHash) {
+        // Anchored by a run that didn't record the transaction; the indexer may have seen it
+        const [event] = await this.blockchainService.listIndexedEvents({ event: 'RootAnchored', manifestId: manifest.id }, 1, 0);
+        if (event?.root === anchor.root) {
+          ({ txHash, blockNumber } = event);
+        }
+      }
+
+      const onChain = await this.blockchainService.getRootAnchor(anchor.root);
+      if (!onChain) {
+        throw new ProofBundleError("The manifest's batch root is not on this chain.");
+      }
+      return {
+        type: 'merkle',
+        leaf: anchor.leaf,
+        root: anchor.root,
+        leafCount: onChain.leafCount,
+        proof: anchor.proof,
+        txHash,
+        blockNumber,
+        anchoredAt: anchor.anchoredAt,
+      };
+    }
+
+    // Registered individually, as found by the indexer
+    const hash = manifestHashToBytes32(manifest.hash);
+    const events = await this.blockchainService.listIndexedEvents({ event: 'ManifestRegistered', manifestId: manifest.id }, 10, 0);
+    const registration = events.find(event => event.hash === hash);
+    if (registration) {
+      return {
+        type: 'direct',
+        txHash: registration.txHash,
+        blockNumber: registration.blockNumber,
+        registeredAt: registration.timestamp,
+      };
+    }
+
+    throw new ProofBundleError('Manifest is not anchored on-chain yet.');
+  }
+}
@@ -0,0 +1,297 @@
+import { ethers } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, ProofJob, ProofJobTransaction } from './databaseService';
+import { BlockchainService } from './blockchainService';
+
+const POLL_SECONDS = parseInt(process.env.PROOF_QUEUE_POLL_SECONDS || '', 10) || 15;
+// Confirmations before a transaction counts, the block holding it being the first; use 1 on an automining Hardhat node
+const CONFIRMATIONS = parseInt(process.env.PROOF_CONFIRMATIONS || '', 10) || 2;
+const MAX_ATTEMPTS = parseInt(process.env.PROOF_MAX_ATTEMPTS || '', 10) || 5;
+const RETRY_BASE_SECONDS = parseInt(process.env.PROOF_RETRY_BASE_SECONDS || '', 10) || 30;
+// A transaction unmined for this long is sent again with fees raised by PROOF_GAS_BUMP_PERCENT
+const STUCK_SECONDS = parseInt(process.env.PROOF_STUCK_SECONDS || '', 10) || 180;
+// Nodes only accept a replacement paying at least 10% more
+const GAS_BUMP_PERCENT = Math.max(parseInt(process.env.PROOF_GAS_BUMP_PERCENT || '', 10) || 20, 10);
+// Fees are never bumped past this, if set
+const MAX_FEE_PER_GAS = process.env.PROOF_MAX_FEE_GWEI ? ethers.parseUnits(process.env.PROOF_MAX_FEE_GWEI, 'gwei') : null;
+
+/** The contract call a kind of job makes, and what happens once it settles */
+export interface ProofJobHandler<Payload = any> {
+  transaction(payload: Payload): { method: string; args: unknown[] };
+  /** True if the call's effect is already on-chain, e.g. made by an earlier, interrupted run */
+  isSettled?(payload: Payload): Promise<boolean>;
+  onConfirmed(job: ProofJob, payload: Payload): Promise<void>;
+  /** The job failed or its nonce was taken by another transaction */
+  onFailed(job: ProofJob, payload: Payload): Promise<void>;
+}
+
+export type ProofJobView = Omit<ProofJob, 'payload'> & {
+  payload: unknown;
+  transactions: ProofJobTransaction[];
+};
+
+type Fees = Pick<ProofJobTransaction, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>;
+
+/**
+ * Sends registry transactions from a persistent queue instead of inside HTTP requests.
+ * Jobs move pending → submitted → confirmed once their transaction is CONFIRMATIONS deep;
+ * sending errors are retried with backoff, stuck transactions are re-sent with the same
+ * nonce and higher fees, and a nonce taken by a transaction that isn't ours marks the job
+ * replaced. Nonces are assigned here so queued transactions never collide.
+ */
+export class ProofQueueService {
+  private handlers = new Map<string, ProofJobHandler>();
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  // The next nonce to use, once a send has established it
+  private nextNonce: number | null = null;
+
+  constructor(
+    private dbService: DatabaseService,
+    private blockchainService: BlockchainService
+  ) {}
+
+  registerHandler<Payload>(kind: string, handler: ProofJobHandler<Payload>): void {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Poll the queue every PROOF_QUEUE_POLL_SECONDS. Jobs left submitted by a restart are
+   * picked up where they were.
+   */
+  startSchedule(): void {
+    if (!this.blockchainService.isAvailable()) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), POLL_SECONDS * 1000);
+    this.timer.unref();
+    this.poll();
+
+    console.log(`⛓️ Proof queue polling every ${POLL_SECONDS} seconds`);
+  }
+
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async enqueue(kind: string, payload: unknown, userId: string | null = null): Promise<ProofJob> {
+    if (!this.handlers.has(kind)) {
+      throw new Error(`No handler for proof jobs of kind ${kind}`);
+    }
+    const job = await this.dbService.createProofJob({ id: uuidv4(), kind, payload: JSON.stringify(payload), userId });
+    console.log(`⛓️ Proof job ${job.id} (${kind}) queued`);
+
+    // Send right away rather than at the next poll
+    if (this.timer) {
+      setImmediate(() => this.poll());
+    }
+    return job;
+  }
+
+  async getJob(id: string): Promise<ProofJobView | null> {
+    const job = await this.dbService.getProofJob(id);
+    if (!job) {
+      return null;
+    }
+    return { ...job, payload: JSON.parse(job.payload), transactions: await this.dbService.listProofJobTransactions(id) };
+  }
+
+  /**
+   * One pass over the queue: settle or bump submitted jobs, then send due ones
+   */
+  async processQueue(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      for (const job of await this.dbService.listSubmittedProofJobs()) {
+        await this.track(job).catch(error => {
+          console.error(`❌ Could not check proof job ${job.id}:`, error);
+        });
+      }
+      for (const job of await this.dbService.listDueProofJobs(new Date().toISOString(), 10)) {
+        await this.send(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private poll(): void {
+    this.processQueue().catch(error => {
+      console.error('❌ Proof queue pass failed:', error);
+    });
+  }
+
+  private async send(job: ProofJob): Promise<void> {
+    const handler = this.handlers.get(job.kind);
+    if (!handler) {
+      await this.fail(job, `No handler for proof jobs of kind ${job.kind}`);
+      return;
+    }
+    const payload = JSON.parse(job.payload);
+
+    try {
+      if (handler.isSettled && await handler.isSettled(payload)) {
+        await this.dbService.confirmProofJob(job.id, null, null);
+        await handler.onConfirmed({ ...job, status: 'confirmed' }, payload);
+        return;
+      }
+
+      const nonce = await this.takeNonce();
+      const fees = await this.currentFees();
+      const { method, args } = handler.transaction(payload);
+      const tx = await this.blockchainService.sendContractTransaction(method, args, { nonce, ...this.toOverrides(fees) });
+
+      this.nextNonce = nonce + 1;
+      await this.dbService.recordProofJobTransaction({
+        txHash: tx.hash,
+        jobId: job.id,
+        nonce,
+        ...fees,
+        gasLimit: tx.gasLimit.toString(),
+      });
+      console.log(`⛓️ Proof job ${job.id} sent as ${tx.hash} (nonce ${nonce})`);
+    } catch (error: any) {
+      // The nonce may or may not have been used; ask the node again next time
+      this.nextNonce = null;
+
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        // The call reverts, and will keep reverting
+        await this.fail(job, error.shortMessage || error.message);
+      } else if (job.attempts + 1 >= MAX_ATTEMPTS) {
+        await this.fail(job, `Gave up after ${MAX_ATTEMPTS} attempts: ${error.shortMessage || error.message}`);
+      } else {
+        const delay = RETRY_BASE_SECONDS * 2 ** job.attempts * 1000;
+        console.warn(`⚠️ Proof job ${job.id} not sent; retrying in ${delay / 1000}s:`, error.shortMessage || error.message);
+        await this.dbService.retryProofJob(job.id, error.shortMessage || error.message, new Date(Date.now() + delay).toISOString());
+      }
+    }
+  }
+
+  /**
+   * Settle a submitted job once one of its broadcasts is mined deep enough; otherwise detect
+   * a nonce taken by someone else, or re-send a stuck transaction with higher fees
+   */
+  private async track(job: ProofJob): Promise<void> {
+    const handler = this.handlers.get(job.kind);
+    const payload = JSON.parse(job.payload);
+    const transactions = await this.dbService.listProofJobTransactions(job.id);
+
+    for (const tx of transactions) {
+      const receipt = await this.blockchainService.getTransactionReceipt(tx.txHash);
+      if (!receipt) {
+        continue;
+      }
+      if (receipt.status === 0) {
+        await this.dbService.endProofJob(job.id, 'failed', 'Transaction reverted', tx.txHash);
+        await handler?.onFailed({ ...job, status: 'failed', txHash: tx.txHash }, payload);
+        return;
+      }
+      if ((await receipt.confirmations()) < CONFIRMATIONS) {
+        return;
+      }
+      await this.dbService.confirmProofJob(job.id, tx.txHash, receipt.blockNumber);
+      console.log(`✅ Proof job ${job.id} confirmed in block ${receipt.blockNumber}`);
+      await handler?.onConfirmed({ ...job, status: 'confirmed', txHash: tx.txHash, blockNumber: receipt.blockNumber }, payload);
+      return;
+    }
+
+    // None of ours is mined, yet the nonce is spent
+    if (job.nonce !== null && (await this.blockchainService.getTransactionCount('latest')) > job.nonce) {
+      if (handler?.isSettled && await handler.isSettled(payload)) {
+        await this.dbService.confirmProofJob(job.id, null, null);
+        await handler.onConfirmed({ ...job, status: 'confirmed' }, payload);
+        return;
+      }
+      await this.dbService.endProofJob(job.id, 'replaced', `Nonce ${job.nonce} was used by another transaction`);
+      await handler?.onFailed({ ...job, status: 'replaced' }, payload);
+      return;
+    }
+
+    const latest = transactions[transactions.length - 1];
+    if (latest && handler && Date.now() - new Date(latest.sentAt).getTime() > STUCK_SECONDS * 1000) {
+      await this.bump(job, latest, handler, payload);
+    }
+  }
+
+  private async bump(job: ProofJob, latest: ProofJobTransaction, handler: ProofJobHandler, payload: unknown): Promise<void> {
+    const current = await this.currentFees();
+    const raise = (previous: string | null, now: string | null): string | null => {
+      if (previous === null) return now;
+      const bumped = (BigInt(previous) * BigInt(100 + GAS_BUMP_PERCENT)) / 100n;
+      return (now !== null && BigInt(now) > bumped ? BigInt(now) : bumped).toString();
+    };
+    const fees: Fees = {
+      maxFeePerGas: raise(latest.maxFeePerGas, current.maxFeePerGas),
+      maxPriorityFeePerGas: raise(latest.maxPriorityFeePerGas, current.maxPriorityFeePerGas),
+      gasPrice: raise(latest.gasPrice, current.gasPrice),
+    };
+
+    const ceiling = fees.maxFeePerGas ?? fees.gasPrice;
+    if (MAX_FEE_PER_GAS !== null && ceiling !== null && BigInt(ceiling) > MAX_FEE_PER_GAS) {
+      await this.dbService.recordProofJobError(job.id, 'Stuck, but bumping further would pass PROOF_MAX_FEE_GWEI');
+      return;
+    }
+
+    try {
+      const { method, args } = handler.transaction(payload);
+      const tx = await this.blockchainService.sendContractTransaction(method, args, {
+        nonce: latest.nonce,
+        gasLimit: BigInt(latest.gasLimit),
+        ...this.toOverrides(fees),
+      });
+      await this.dbService.recordProofJobTransaction({
+        txHash: tx.hash,
+        jobId: job.id,
+        nonce: latest.nonce,
+        ...fees,
+        gasLimit: latest.gasLimit,
+      });
+      console.log(`⛽ Proof job ${job.id} re-sent with higher fees as ${tx.hash}`);
+    } catch (error: any) {
+      // Most often the original was mined meanwhile; the next pass will see it
+      await this.dbService.recordProofJobError(job.id, `Gas bump failed: ${error.shortMessage || error.message}`);
+    }
+  }
+
+  private async takeNonce(): Promise<number> {
+    const [pending, held] = await Promise.all([
+      this.blockchainService.getTransactionCount('pending'),
+      this.dbService.getMaxSubmittedProofNonce(),
+    ]);
+    // A transaction the node dropped still holds its nonce until it is re-sent
+    return Math.max(pending, this.nextNonce ?? 0, held === null ? 0 : held + 1);
+  }
+
+  private async currentFees(): Promise<Fees> {
+    const feeData = await this.blockchainService.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: feeData.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas.toString(),
+        gasPrice: null,
+      };
+    }
+    return { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: (feeData.gasPrice ?? 0n).toString() };
+  }
+
+  private toOverrides(fees: Fees): ethers.Overrides {
+    return fees.gasPrice !== null
+      ? { gasPrice: BigInt(fees.gasPrice) }
+      : { maxFeePerGas: BigInt(fees.maxFeePerGas!), maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas!) };
+  }
+
+  private async fail(job: ProofJob, error: string): Promise<void> {
+    console.error(`❌ Proof job ${job.id} failed: ${error}`);
+    await this.dbService.endProofJob(job.id, 'failed', error);
+    const handler = this.handlers.get(job.kind);
+    await handler?.onFailed({ ...job, status: 'failed', lastError: error }, JSON.parse(job.payload));
+  }
+}
@@ -1,5 +1,7 @@
 import { DatabaseService } from './databaseService';
 import { AkaveService } from './akaveService';
+import { DecryptionCredentials } from './encryptionService';
+import { isDirectoryManifest } from './archiveService';
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
@@ -10,6 +12,8 @@ export interface QueryRequest {
   datasetIds: string[];
   outputFormat: 'json' | 'csv' | 'table';
   limit?: number;
+  /** Needed to decrypt wallet-encrypted datasets; never persisted */
+  credentials?: DecryptionCredentials;
 }
 
 export interface QueryResult {
@@ -26,6 +30,7 @@ export interface QueryResult {
   createdAt: string;
   completedAt?: string;
   userId: string;
+  workspaceId?: string | null;
 }
 
 export interface StructuredDataset {
@@ -86,20 +91,25 @@ export class QueryService {
   private async loadDatasetIntoDatabase(
     db: Database.Database, 
     datasetId: string, 
-    tableName: string
+    tableName: string,
+    credentials?: DecryptionCredentials
   ): Promise<{ rowCount: number; columns: string[] }> {
     // Get dataset manifest
     const manifest = await this.dbService.getManifestById(datasetId);
     if (!manifest) {
       throw new Error(`Dataset ${datasetId} not found`);
     }
+    if (isDirectoryManifest(manifest)) {
+      throw new Error(`Dataset ${datasetId} is an expanded archive; query one of its CSV files instead`);
+    }
+    await this.dbService.touchManifest(manifest.id);
 
     // Download dataset to temp location
     const tempDir = path.join(process.cwd(), 'temp', 'queries');
     await fs.promises.mkdir(tempDir, { recursive: true });
     const tempFilePath = path.join(tempDir, manifest.filename);
     
-    await this.akaveService.downloadFile(manifest.s3Key, tempFilePath);
+    await this.akaveService.downloadManifest(manifest, tempFilePath, { credentials });
 
     // Parse CSV and load into database
     const csvContent = await fs.promises.readFile(tempFilePath, 'utf-8');
@@ -144,7 +154,7 @@ export class QueryService {
   /**
    * Execute SQL query
    */
-  async executeQuery(userId: string, request: QueryRequest): Promise<QueryResult> {
+  async executeQuery(userId: string, workspaceId: string, request: QueryRequest): Promise<QueryResult> {
     const queryId = uuidv4();
     const startTime = Date.now();
 
@@ -157,7 +167,8 @@ export class QueryService {
         outputFormat: request.outputFormat,
         status: 'executing',
         createdAt: new Date().toISOString(),
-        userId
+        userId,
+        workspaceId
       };
 
       // Save initial query record to database
@@ -173,7 +184,7 @@ export class QueryService {
         const datasetId = request.datasetIds[i];
         const tableName = `dataset_${i + 1}`;
         
-        const { rowCount, columns } = await this.loadDatasetIntoDatabase(db, datasetId, tableName);
+        const { rowCount, columns } = await this.loadDatasetIntoDatabase(db, datasetId, tableName, request.credentials);
         tableInfos.push({ datasetId, tableName, rowCount, columns });
       }
 
@@ -253,7 +264,8 @@ export class QueryService {
         executionTime,
         createdAt: new Date().toISOString(),
         completedAt: new Date().toISOString(),
-        userId
+        userId,
+        workspaceId
       };
 
       await this.dbService.updateQueryResult(queryId, failedResult);
@@ -261,17 +273,17 @@ export class QueryService {
     }
   }
 
-  async getQueryResult(userId: string, id: string): Promise<QueryResult | null> {
-    return await this.dbService.getQueryResult(id, userId);
+  async getQueryResult(workspaceId: string, id: string): Promise<QueryResult | null> {
+    return await this.dbService.getQueryResult(id, workspaceId);
   }
 
-  async listQueryResults(userId: string, limit: number = 10, offset: number = 0): Promise<QueryResult[]> {
-    return await this.dbService.listQueryResults(userId, limit, offset);
+  async listQueryResults(workspaceId: string, limit: number = 10, offset: number = 0): Promise<QueryResult[]> {
+    return await this.dbService.listQueryResults(workspaceId, limit, offset);
   }
 
-  async getStructuredDatasets(userId: string): Promise<StructuredDataset[]> {
-    // Get datasets from database
-    const manifests = await this.dbService.listManifestsByUser(userId, 100, 0);
+  async getStructuredDatasets(workspaceId: string): Promise<StructuredDataset[]> {
+    // Get the workspace's datasets from database
+    const manifests = await this.dbService.listManifestsByWorkspace(workspaceId, 100, 0);
     
     return manifests.map(manifest => ({
       id: manifest.id,
@@ -0,0 +1,323 @@
+import { DatabaseService, ReconciliationRun } from './databaseService';
+import { AkaveService } from './akaveService';
+import { readEnvelope } from './encryptionService';
+import { StorageObjectInfo } from './storage';
+
+// Objects younger than this may belong to an upload whose manifest is not written yet
+const ORPHAN_GRACE_MS = Number(process.env.RECONCILIATION_ORPHAN_GRACE_MINUTES ?? 60) * 60 * 1000;
+
+export type ReconciliationIssueType =
+  | 'orphan_object'
+  | 'missing_object'
+  | 'size_mismatch'
+  | 'hash_mismatch'
+  | 'refcount_mismatch';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  s3Key: string;
+  manifestId?: string;
+  /** Set when the object belongs to an entry of an expanded archive */
+  entryPath?: string;
+  blobHash?: string;
+  expected?: string | number;
+  actual?: string | number;
+  repaired?: boolean;
+  repairError?: string;
+}
+
+export interface ReconciliationOptions {
+  /** Re-hash every referenced object; reads the whole bucket */
+  deep?: boolean;
+  /** Delete orphan objects, drop manifests whose object is gone and fix blob reference counts */
+  repair?: boolean;
+  /** Limit the bucket listing (and orphan detection) to keys under this prefix */
+  prefix?: string;
+}
+
+export interface ReconciliationSummary {
+  backend: string;
+  objectsScanned: number;
+  manifestsScanned: number;
+  issues: Record<ReconciliationIssueType, number>;
+  repaired: number;
+}
+
+export class ReconciliationInProgressError extends Error {
+  constructor() {
+    super('A reconciliation run is already in progress.');
+    this.name = 'ReconciliationInProgressError';
+  }
+}
+
+/**
+ * Detects drift between the manifests table and the objects actually in the bucket:
+ * objects nothing references, manifests whose object is gone, and objects whose size
+ * or content no longer match what the manifest recorded.
+ */
+export class ReconciliationService {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private dbService: DatabaseService,
+    private akaveService: AkaveService
+  ) {}
+
+  /**
+   * Start the periodic job (RECONCILIATION_INTERVAL_MINUTES, 0 disables it).
+   * Scheduled runs only report unless RECONCILIATION_AUTO_REPAIR is 'true'.
+   */
+  async startSchedule(): Promise<void> {
+    await this.dbService.failInterruptedReconciliationRuns();
+
+    const intervalMinutes = parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES ?? '1440', 10);
+    if (!intervalMinutes || intervalMinutes <= 0) {
+      console.log('🧮 Scheduled bucket reconciliation is disabled');
+      return;
+    }
+
+    const options: ReconciliationOptions = {
+      deep: process.env.RECONCILIATION_DEEP === 'true',
+      repair: process.env.RECONCILIATION_AUTO_REPAIR === 'true',
+    };
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.run(options, 'scheduled').catch(error => {
+        console.error('❌ Scheduled reconciliation failed:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`🧮 Bucket reconciliation scheduled every ${intervalMinutes} minutes`);
+  }
+
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start a run in the background and return its record immediately
+   */
+  async start(options: ReconciliationOptions, triggeredBy: ReconciliationRun['triggeredBy'] = 'manual'): Promise<ReconciliationRun> {
+    if (this.running) {
+      throw new ReconciliationInProgressError();
+    }
+
+    this.running = true;
+    const run = await this.dbService.createReconciliationRun(triggeredBy, JSON.stringify(options));
+
+    this.execute(run.id, options).catch(error => {
+      console.error(`❌ Reconciliation run ${run.id} failed:`, error);
+    });
+
+    return run;
+  }
+
+  /**
+   * Run to completion and return the finished record
+   */
+  async run(options: ReconciliationOptions, triggeredBy: ReconciliationRun['triggeredBy'] = 'manual'): Promise<ReconciliationRun> {
+    if (this.running) {
+      throw new ReconciliationInProgressError();
+    }
+
+    this.running = true;
+    const run = await this.dbService.createReconciliationRun(triggeredBy, JSON.stringify(options));
+    return this.execute(run.id, options);
+  }
+
+  private async execute(runId: string, options: ReconciliationOptions): Promise<ReconciliationRun> {
+    console.log(`🧮 Reconciliation run ${runId} started (deep: ${!!options.deep}, repair: ${!!options.repair})`);
+
+    try {
+      const { summary, issues } = await this.reconcile(options);
+      console.log(`✅ Reconciliation run ${runId} finished with ${issues.length} issue(s)`);
+
+      return (await this.dbService.completeReconciliationRun(runId, {
+        status: 'completed',
+        summary: JSON.stringify(summary),
+        issues: JSON.stringify(issues),
+        error: null,
+      }))!;
+    } catch (error: any) {
+      return (await this.dbService.completeReconciliationRun(runId, {
+        status: 'failed',
+        summary: '{}',
+        issues: '[]',
+        error: error?.message || 'Unknown error',
+      }))!;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcile(options: ReconciliationOptions): Promise<{ summary: ReconciliationSummary; issues: ReconciliationIssue[] }> {
+    // Read the database before listing the bucket: a manifest committed in between would
+    // otherwise look like it has no object
+    const manifests = await this.dbService.listManifestObjects();
+    const entries = await this.dbService.listManifestEntryObjects();
+    const blobKeys = await this.dbService.listBlobKeys();
+    const reservedKeys = await this.dbService.listReservedObjectKeys();
+    const objects = await this.akaveService.listObjects(options.prefix);
+
+    const objectsByKey = new Map<string, StorageObjectInfo>(objects.map(object => [object.key, object]));
+    const referencedKeys = new Set<string>([...blobKeys, ...reservedKeys, ...manifests.map(manifest => manifest.s3Key)]);
+    const issues: ReconciliationIssue[] = [];
+
+    // 1. Objects in the bucket that nothing points at. An upload session being finalized
+    // stores objects before its manifest exists, so nothing newer than the oldest live one counts
+    const oldestSessionStart = await this.dbService.getOldestActiveUploadSessionStart();
+    const orphanCutoff = Math.min(Date.now() - ORPHAN_GRACE_MS, oldestSessionStart ?? Infinity);
+    for (const object of objects) {
+      if (!referencedKeys.has(object.key) && object.lastModified.getTime() < orphanCutoff) {
+        issues.push({ type: 'orphan_object', s3Key: object.key, actual: object.size });
+      }
+    }
+
+    // 2. Manifests (and expanded-archive entries) whose object is missing or differs from what was recorded
+    const inScope = (key: string) => !options.prefix || key.startsWith(options.prefix);
+    const references = [
+      ...manifests.map(manifest => ({
+        manifestId: manifest.id,
+        entryPath: undefined as string | undefined,
+        s3Key: manifest.s3Key,
+        size: manifest.size,
+        // Encrypted objects are verified against the ciphertext hash
+        hash: readEnvelope(manifest)?.ciphertextHash ?? manifest.hash,
+      })),
+      ...entries.map(entry => ({
+        manifestId: entry.manifestId,
+        entryPath: entry.path as string | undefined,
+        s3Key: entry.s3Key,
+        size: entry.size,
+        hash: entry.hash,
+      })),
+    ];
+    const checkedKeys = new Set<string>();
+    for (const reference of references) {
+      if (!inScope(reference.s3Key)) continue;
+      const { manifestId, entryPath, s3Key } = reference;
+
+      const object = objectsByKey.get(s3Key);
+      if (!object) {
+        issues.push({ type: 'missing_object', s3Key, manifestId, entryPath });
+        continue;
+      }
+
+      // AES-GCM ciphertext is the same length as the plaintext, so sizes compare directly
+      if (object.size !== reference.size) {
+        issues.push({ type: 'size_mismatch', s3Key, manifestId, entryPath, expected: reference.size, actual: object.size });
+        continue;
+      }
+
+      // Deduplicated blobs are shared by several manifests; hash each object once
+      if (options.deep && !checkedKeys.has(s3Key)) {
+        checkedKeys.add(s3Key);
+        const expectedHash = reference.hash.toLowerCase();
+        const actualHash = await this.akaveService.hashObject(s3Key);
+        if (actualHash !== expectedHash) {
+          issues.push({ type: 'hash_mismatch', s3Key, manifestId, entryPath, expected: expectedHash, actual: actualHash });
+        }
+      }
+    }
+
+    // 3. Blob reference counts that disagree with the manifests sharing them
+    for (const blob of await this.dbService.listBlobRefCountDrift()) {
+      issues.push({
+        type: 'refcount_mismatch',
+        s3Key: blob.s3Key,
+        blobHash: blob.hash,
+        expected: blob.actualRefCount,
+        actual: blob.refCount,
+      });
+    }
+
+    if (options.repair) {
+      await this.repair(issues);
+    }
+
+    const counts: Record<ReconciliationIssueType, number> = {
+      orphan_object: 0,
+      missing_object: 0,
+      size_mismatch: 0,
+      hash_mismatch: 0,
+      refcount_mismatch: 0,
+    };
+    issues.forEach(issue => counts[issue.type]++);
+
+    return {
+      summary: {
+        backend: this.akaveService.backendName,
+        objectsScanned: objects.length,
+        manifestsScanned: manifests.length,
+        issues: counts,
+        repaired: issues.filter(issue => issue.repaired).length,
+      },
+      issues,
+    };
+  }
+
+  /**
+   * Fix what can be fixed without guessing. Size and hash mismatches are only reported:
+   * the stored bytes are all we have, so an operator has to decide what to keep.
+   */
+  private async repair(issues: ReconciliationIssue[]): Promise<void> {
+    const attempt = async (issue: ReconciliationIssue, fix: () => Promise<void>) => {
+      try {
+        await fix();
+        issue.repaired = true;
+      } catch (error: any) {
+        issue.repaired = false;
+        issue.repairError = error?.message || 'Unknown error';
+      }
+    };
+
+    for (const issue of issues) {
+      if (issue.type === 'orphan_object') {
+        await attempt(issue, () => this.akaveService.deleteFile(issue.s3Key));
+      } else if (issue.type === 'missing_object' && !issue.entryPath) {
+        // A missing archive entry is only reported: dropping the whole tree would lose the rest
+        await attempt(issue, async () => {
+          if (await this.dbService.isManifestPinned(issue.manifestId!)) {
+            throw new Error('Manifest is published as a dataset version; not dropping it.');
+          }
+          // The listing is a snapshot; check the object is still missing before giving up on it
+          if (await this.akaveService.getObjectInfo(issue.s3Key)) {
+            throw new Error('Object is present now; not dropping the manifest.');
+          }
+          const { releasedKeys } = await this.dbService.deleteManifest(issue.manifestId!);
+          for (const releasedKey of releasedKeys) {
+            // The manifest's own object is already gone; other released keys are archive entries
+            if (releasedKey !== issue.s3Key) {
+              await this.akaveService.deleteFile(releasedKey);
+            }
+          }
+        });
+      }
+    }
+
+    // Dropping manifests above moves reference counts, so recount before correcting them
+    const drift = new Map((await this.dbService.listBlobRefCountDrift()).map(blob => [blob.hash, blob.actualRefCount]));
+    for (const issue of issues) {
+      if (issue.type !== 'refcount_mismatch') continue;
+
+      const actualRefCount = drift.get(issue.blobHash!);
+      await attempt(issue, async () => {
+        if (actualRefCount === undefined) return;
+        await this.dbService.setBlobRefCount(issue.blobHash!, actualRefCount);
+        if (actualRefCount === 0) {
+          await this.akaveService.deleteFile(issue.s3Key);
+        }
+      });
+    }
+  }
+}
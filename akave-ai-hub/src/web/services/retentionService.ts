@@ -0,0 +1,439 @@
+import path from 'path';
+import fs from 'fs';
+import { DatabaseService } from './databaseService';
+import { AkaveService } from './akaveService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local scratch space (query downloads and the like) covered by `temp_files` rules
+const TEMP_DIR = path.join(process.cwd(), 'temp');
+
+export type RetentionTarget = 'uploads' | 'checkpoints' | 'query_results' | 'temp_files';
+
+/**
+ * One declarative rule. Every condition given must hold for an item to expire:
+ * `prefix` and `tag` narrow what the rule applies to, `maxAgeDays`, `maxIdleDays`
+ * and `keepLast` decide when it has been kept long enough.
+ */
+export interface RetentionRule {
+  name: string;
+  target: RetentionTarget;
+  /** Filename prefix (uploads), storage key prefix (checkpoints) or path under temp/ (temp_files) */
+  prefix?: string;
+  /** Only uploads carrying this tag */
+  tag?: string;
+  /** Expire once created/uploaded more than this many days ago */
+  maxAgeDays?: number;
+  /** Uploads and temp files only: expire once not read (downloaded, trained on, queried) for this many days */
+  maxIdleDays?: number;
+  /** Checkpoints only: keep the newest N per model and user */
+  keepLast?: number;
+}
+
+export interface RetentionCandidate {
+  target: RetentionTarget;
+  id: string;
+  rule: string;
+  reason: string;
+  userId?: string;
+  s3Key?: string;
+  size: number;
+  /** Matched, but protected from deletion */
+  skipped?: string;
+  deleted?: boolean;
+  error?: string;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: string;
+  completedAt: string;
+  rules: string[];
+  candidates: RetentionCandidate[];
+  summary: {
+    matched: number;
+    skipped: number;
+    deleted: number;
+    failed: number;
+    reclaimableBytes: number;
+  };
+}
+
+export class RetentionRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetentionRuleError';
+  }
+}
+
+export class RetentionInProgressError extends Error {
+  constructor() {
+    super('A retention sweep is already in progress.');
+    this.name = 'RetentionInProgressError';
+  }
+}
+
+const TARGETS: RetentionTarget[] = ['uploads', 'checkpoints', 'query_results', 'temp_files'];
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Check a parsed rules file, rejecting rules that could never expire anything or
+ * would expire everything they select
+ */
+export const validateRetentionRules = (rules: unknown): RetentionRule[] => {
+  if (!Array.isArray(rules)) {
+    throw new RetentionRuleError('Retention rules must be a JSON array.');
+  }
+
+  const names = new Set<string>();
+  return rules.map((rule, index) => {
+    const label = rule?.name ? `Retention rule "${rule.name}"` : `Retention rule #${index + 1}`;
+
+    if (!rule || typeof rule.name !== 'string' || !rule.name) {
+      throw new RetentionRuleError(`${label} needs a name.`);
+    }
+    if (names.has(rule.name)) {
+      throw new RetentionRuleError(`${label} is defined more than once.`);
+    }
+    names.add(rule.name);
+
+    if (!TARGETS.includes(rule.target)) {
+      throw new RetentionRuleError(`${label} has an unknown target; expected one of ${TARGETS.join(', ')}.`);
+    }
+    for (const field of ['maxAgeDays', 'maxIdleDays', 'keepLast'] as const) {
+      if (rule[field] !== undefined && !isNonNegative(rule[field])) {
+        throw new RetentionRuleError(`${label}: ${field} must be a non-negative number.`);
+      }
+    }
+    if (rule.keepLast !== undefined && (rule.target !== 'checkpoints' || !Number.isInteger(rule.keepLast))) {
+      throw new RetentionRuleError(`${label}: keepLast is a whole number and only applies to checkpoints.`);
+    }
+    if (rule.maxIdleDays !== undefined && rule.target !== 'uploads' && rule.target !== 'temp_files') {
+      throw new RetentionRuleError(`${label}: maxIdleDays only applies to uploads and temp_files.`);
+    }
+    if (rule.tag !== undefined && (rule.target !== 'uploads' || typeof rule.tag !== 'string')) {
+      throw new RetentionRuleError(`${label}: tag only applies to uploads.`);
+    }
+    if (rule.prefix !== undefined && (typeof rule.prefix !== 'string' || rule.target === 'query_results')) {
+      throw new RetentionRuleError(`${label}: prefix is a string and does not apply to query_results.`);
+    }
+    if (rule.maxAgeDays === undefined && rule.maxIdleDays === undefined && rule.keepLast === undefined) {
+      throw new RetentionRuleError(`${label} needs at least one of maxAgeDays, maxIdleDays or keepLast.`);
+    }
+
+    return {
+      name: rule.name,
+      target: rule.target,
+      prefix: rule.prefix,
+      tag: rule.tag,
+      maxAgeDays: rule.maxAgeDays,
+      maxIdleDays: rule.maxIdleDays,
+      keepLast: rule.keepLast,
+    };
+  });
+};
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone designator
+const parseTimestamp = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const parseTags = (tags: string): string[] => {
+  try {
+    const parsed = JSON.parse(tags || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+};
+
+/**
+ * Applies retention rules (loaded from RETENTION_RULES_FILE) to uploads, training checkpoints,
+ * query results and local temp files. Sweeps can be run as a dry run to see what would go;
+ * scheduled sweeps only delete when RETENTION_ENFORCE is 'true'.
+ */
+export class RetentionService {
+  private rules: RetentionRule[] = [];
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private lastReport: RetentionReport | null = null;
+
+  constructor(
+    private dbService: DatabaseService,
+    private akaveService: AkaveService
+  ) {}
+
+  /**
+   * Load the rules and start the periodic sweep (RETENTION_INTERVAL_MINUTES, 0 disables it)
+   */
+  async startSchedule(): Promise<void> {
+    await this.loadRules();
+
+    const intervalMinutes = parseInt(process.env.RETENTION_INTERVAL_MINUTES ?? '1440', 10);
+    if (!intervalMinutes || intervalMinutes <= 0) {
+      console.log('🧹 Scheduled retention sweeps are disabled');
+      return;
+    }
+
+    const dryRun = process.env.RETENTION_ENFORCE !== 'true';
+    this.timer = setInterval(() => {
+      // Rules can be added later through a reload, so an empty rule set just idles
+      if (this.running || this.rules.length === 0) return;
+      this.sweep({ dryRun }).catch(error => {
+        console.error('❌ Scheduled retention sweep failed:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`🧹 Retention sweep scheduled every ${intervalMinutes} minutes (${dryRun ? 'dry run' : 'enforcing'})`);
+  }
+
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async loadRules(): Promise<RetentionRule[]> {
+    const rulesFile = process.env.RETENTION_RULES_FILE;
+    if (!rulesFile) {
+      this.rules = [];
+      return this.rules;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.promises.readFile(rulesFile, 'utf-8'));
+    } catch (error: any) {
+      throw new RetentionRuleError(`Could not read retention rules from ${rulesFile}: ${error.message}`);
+    }
+
+    this.rules = validateRetentionRules(parsed);
+    console.log(`🧹 Loaded ${this.rules.length} retention rule(s) from ${rulesFile}`);
+    return this.rules;
+  }
+
+  getRules(): RetentionRule[] {
+    return this.rules;
+  }
+
+  getLastReport(): RetentionReport | null {
+    return this.lastReport;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Evaluate the rules and, unless this is a dry run, delete what they match.
+   * `rules` overrides the loaded rules, which lets operators preview a change.
+   */
+  async sweep(options: { dryRun: boolean; rules?: RetentionRule[] }): Promise<RetentionReport> {
+    if (this.running) {
+      throw new RetentionInProgressError();
+    }
+
+    this.running = true;
+    const startedAt = new Date().toISOString();
+    const rules = options.rules ?? this.rules;
+
+    try {
+      const candidates = await this.evaluate(rules, Date.now());
+      if (!options.dryRun) {
+        await this.enforce(candidates);
+      }
+
+      const report: RetentionReport = {
+        dryRun: options.dryRun,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        rules: rules.map(rule => rule.name),
+        candidates,
+        summary: {
+          matched: candidates.length,
+          skipped: candidates.filter(candidate => candidate.skipped).length,
+          deleted: candidates.filter(candidate => candidate.deleted).length,
+          failed: candidates.filter(candidate => candidate.error).length,
+          reclaimableBytes: candidates
+            .filter(candidate => !candidate.skipped)
+            .reduce((total, candidate) => total + candidate.size, 0),
+        },
+      };
+
+      if (!options.rules) {
+        this.lastReport = report;
+      }
+      console.log(
+        `🧹 Retention ${options.dryRun ? 'dry run' : 'sweep'}: ${report.summary.matched} matched, ` +
+        `${report.summary.deleted} deleted, ${report.summary.skipped} skipped`
+      );
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async evaluate(rules: RetentionRule[], now: number): Promise<RetentionCandidate[]> {
+    const candidates = new Map<string, RetentionCandidate>();
+    const add = (candidate: RetentionCandidate) => {
+      // The first rule to match an item is the one reported
+      const key = `${candidate.target}:${candidate.id}`;
+      if (!candidates.has(key)) candidates.set(key, candidate);
+    };
+
+    const olderThan = (time: number | null, days?: number) =>
+      days === undefined || (time !== null && now - time > days * DAY_MS);
+    const describe = (rule: RetentionRule) => [
+      rule.maxAgeDays !== undefined ? `older than ${rule.maxAgeDays}d` : null,
+      rule.maxIdleDays !== undefined ? `idle for ${rule.maxIdleDays}d` : null,
+      rule.keepLast !== undefined ? `beyond the newest ${rule.keepLast}` : null,
+    ].filter(Boolean).join(', ');
+
+    for (const rule of rules) {
+      if (rule.target === 'uploads') {
+        for (const manifest of await this.dbService.listManifestsForRetention()) {
+          // Uploads are stored under content-addressed keys, so match the name the user gave them
+          if (rule.prefix && !manifest.filename.startsWith(rule.prefix)) continue;
+          if (rule.tag && !parseTags(manifest.tags).includes(rule.tag)) continue;
+
+          const uploadedAt = parseTimestamp(manifest.uploadedAt);
+          const lastAccess = parseTimestamp(manifest.lastAccessedAt) ?? uploadedAt;
+          if (!olderThan(uploadedAt, rule.maxAgeDays) || !olderThan(lastAccess, rule.maxIdleDays)) continue;
+
+          add({
+            target: 'uploads',
+            id: manifest.id,
+            rule: rule.name,
+            reason: describe(rule),
+            userId: manifest.userId,
+            s3Key: manifest.s3Key,
+            size: manifest.size,
+            skipped: manifest.pinned ? 'published as a dataset version' : undefined,
+          });
+        }
+      } else if (rule.target === 'checkpoints') {
+        // Listed newest first, so the first `keepLast` seen per model are the ones kept
+        const seenPerModel = new Map<string, number>();
+        for (const job of await this.dbService.listTrainingCheckpoints()) {
+          if (rule.prefix && !job.checkpointKey.startsWith(rule.prefix)) continue;
+
+          const model = `${job.userId}:${job.modelName}`;
+          const newerCount = seenPerModel.get(model) ?? 0;
+          seenPerModel.set(model, newerCount + 1);
+
+          if (rule.keepLast !== undefined && newerCount < rule.keepLast) continue;
+          if (!olderThan(parseTimestamp(job.completedAt ?? job.startedAt), rule.maxAgeDays)) continue;
+
+          add({
+            target: 'checkpoints',
+            id: job.id,
+            rule: rule.name,
+            reason: describe(rule),
+            userId: job.userId,
+            s3Key: job.checkpointKey,
+            size: job.checkpointSize,
+          });
+        }
+      } else if (rule.target === 'query_results') {
+        for (const result of await this.dbService.listQueryResultsForRetention()) {
+          if (!olderThan(parseTimestamp(result.createdAt), rule.maxAgeDays)) continue;
+
+          add({
+            target: 'query_results',
+            id: result.id,
+            rule: rule.name,
+            reason: describe(rule),
+            userId: result.userId,
+            size: result.size,
+          });
+        }
+      } else {
+        for (const file of await this.listTempFiles()) {
+          if (rule.prefix && !file.path.startsWith(rule.prefix)) continue;
+          // atime is often not maintained (noatime mounts), so a write counts as access too
+          const lastAccess = Math.max(file.atimeMs, file.mtimeMs);
+          if (!olderThan(file.mtimeMs, rule.maxAgeDays) || !olderThan(lastAccess, rule.maxIdleDays)) continue;
+
+          add({
+            target: 'temp_files',
+            id: file.path,
+            rule: rule.name,
+            reason: describe(rule),
+            size: file.size,
+          });
+        }
+      }
+    }
+
+    return Array.from(candidates.values());
+  }
+
+  private async enforce(candidates: RetentionCandidate[]): Promise<void> {
+    for (const candidate of candidates) {
+      if (candidate.skipped) continue;
+
+      try {
+        if (candidate.target === 'uploads') {
+          // Re-check right before deleting; the manifest may have been published since evaluation
+          if (await this.dbService.countDatasetVersionsForManifest(candidate.id) > 0) {
+            candidate.skipped = 'published as a dataset version';
+            continue;
+          }
+          const { releasedKeys } = await this.dbService.deleteManifest(candidate.id);
+          for (const releasedKey of releasedKeys) {
+            await this.akaveService.deleteFile(releasedKey);
+          }
+        } else if (candidate.target === 'checkpoints') {
+          await this.akaveService.deleteFile(candidate.s3Key!);
+          await this.dbService.clearTrainingCheckpoint(candidate.id);
+        } else if (candidate.target === 'query_results') {
+          await this.dbService.deleteQueryResult(candidate.id);
+        } else {
+          await fs.promises.rm(path.join(TEMP_DIR, candidate.id), { force: true });
+        }
+        candidate.deleted = true;
+      } catch (error: any) {
+        candidate.deleted = false;
+        candidate.error = error?.message || 'Unknown error';
+      }
+    }
+  }
+
+  private async listTempFiles(): Promise<Array<{ path: string; size: number; atimeMs: number; mtimeMs: number }>> {
+    const files: Array<{ path: string; size: number; atimeMs: number; mtimeMs: number }> = [];
+
+    const walk = async (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const stat = await fs.promises.stat(fullPath);
+          files.push({
+            path: path.relative(TEMP_DIR, fullPath).split(path.sep).join('/'),
+            size: stat.size,
+            atimeMs: stat.atimeMs,
+            mtimeMs: stat.mtimeMs,
+          });
+        }
+      }
+    };
+
+    await walk(TEMP_DIR);
+    return files;
+  }
+}
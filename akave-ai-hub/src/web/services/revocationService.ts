@@ -0,0 +1,151 @@
+import { DatabaseService, ManifestRevocation, ProofJob } from './databaseService';
+import { BlockchainService } from './blockchainService';
+import { ProofQueueService } from './proofQueueService';
+import { WebSocketService } from './websocketService';
+import { AnchoringDisabledError } from './anchorService';
+
+export class RevocationConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RevocationConflictError';
+  }
+}
+
+/** A manifest's revocation as shown to clients */
+export interface ManifestRevocationView {
+  manifestId: string;
+  /** pending: the revocation is queued or being sent; revoked: it is on-chain */
+  status: 'pending' | 'revoked';
+  reason: string;
+  supersededBy: string | null;
+  jobId: string | null;
+  txHash: string | null;
+  revokedAt: string | null;
+}
+
+interface RevokeManifestPayload {
+  manifestId: string;
+  reason: string;
+  supersededBy: string | null;
+}
+
+/**
+ * Revokes manifests on the ManifestRegistry, optionally linking each to the manifest that
+ * supersedes it. Revocations are sent through the proof queue; the contract is the record
+ * of what is revoked, and the local rows track requests until they land.
+ */
+export class RevocationService {
+  constructor(
+    private dbService: DatabaseService,
+    private blockchainService: BlockchainService,
+    private proofQueue: ProofQueueService,
+    private wsService: WebSocketService
+  ) {
+    this.proofQueue.registerHandler<RevokeManifestPayload>('revoke_manifest', {
+      transaction: ({ manifestId, reason, supersededBy }) =>
+        supersededBy
+          ? { method: 'supersedeManifest', args: [manifestId, supersededBy, reason] }
+          : { method: 'revokeManifest', args: [manifestId, reason] },
+      isSettled: async ({ manifestId }) => (await this.blockchainService.getRevocation(manifestId)) !== null,
+      onConfirmed: (job, payload) => this.completeRevocation(job, payload),
+      onFailed: async (job, { manifestId }) => {
+        console.error(`❌ Revoking manifest ${manifestId} failed`);
+        await this.dbService.failManifestRevocation(manifestId, job.lastError || `Proof job ${job.status}`);
+      },
+    });
+  }
+
+  /**
+   * Queue the manifest's revocation. A manifest already revoked, or with a revocation on its
+   * way, can't be revoked again.
+   */
+  async revoke(
+    manifestId: string,
+    userId: string,
+    { reason, supersededBy = null }: { reason: string; supersededBy?: string | null }
+  ): Promise<ManifestRevocationView> {
+    if (!this.blockchainService.isAvailable()) {
+      throw new AnchoringDisabledError();
+    }
+    if (supersededBy === manifestId) {
+      throw new RevocationConflictError('A manifest cannot supersede itself.');
+    }
+    if (await this.blockchainService.getRevocation(manifestId)) {
+      throw new RevocationConflictError('Manifest is already revoked.');
+    }
+    if (supersededBy && (await this.getRevocation(supersededBy))) {
+      throw new RevocationConflictError('The superseding manifest is revoked.');
+    }
+
+    const revocation = await this.dbService.queueManifestRevocation({ manifestId, reason, supersededBy, requestedBy: userId });
+    if (!revocation) {
+      throw new RevocationConflictError('Manifest is already being revoked.');
+    }
+
+    const payload: RevokeManifestPayload = { manifestId, reason, supersededBy };
+    const job = await this.proofQueue.enqueue('revoke_manifest', payload, userId);
+    await this.dbService.setManifestRevocationJob(manifestId, job.id);
+    console.log(`🚫 Revocation of manifest ${manifestId} queued`);
+
+    return this.toView({ ...revocation, jobId: job.id });
+  }
+
+  /**
+   * The manifest's revocation, read from the contract when it can be and otherwise from
+   * the local record; null if it isn't revoked or being revoked
+   */
+  async getRevocation(manifestId: string): Promise<ManifestRevocationView | null> {
+    const local = await this.dbService.getManifestRevocation(manifestId);
+
+    if (this.blockchainService.isAvailable()) {
+      try {
+        const onChain = await this.blockchainService.getRevocation(manifestId);
+        if (onChain) {
+          return {
+            manifestId,
+            status: 'revoked',
+            reason: onChain.reason,
+            supersededBy: onChain.supersededBy,
+            jobId: local?.jobId ?? null,
+            txHash: local?.status === 'revoked' ? local.txHash : null,
+            revokedAt: onChain.revokedAt,
+          };
+        }
+        return local?.status === 'pending' ? this.toView(local) : null;
+      } catch (error) {
+        console.error(`❌ Could not read the revocation of manifest ${manifestId} from chain:`, error);
+      }
+    }
+
+    return local && local.status !== 'failed' ? this.toView(local) : null;
+  }
+
+  private async completeRevocation(job: ProofJob, { manifestId, supersededBy }: RevokeManifestPayload): Promise<void> {
+    const onChain = await this.blockchainService.getRevocation(manifestId);
+    const revokedAt = onChain?.revokedAt ?? new Date().toISOString();
+    await this.dbService.completeManifestRevocation(manifestId, { txHash: job.txHash, blockNumber: job.blockNumber, revokedAt });
+    console.log(`🚫 Manifest ${manifestId} revoked${supersededBy ? `, superseded by ${supersededBy}` : ''}`);
+
+    if (job.userId) {
+      this.wsService.broadcastToUser(job.userId, 'manifest_revoked', {
+        manifestId,
+        supersededBy,
+        txHash: job.txHash,
+        blockNumber: job.blockNumber,
+        revokedAt,
+      });
+    }
+  }
+
+  private toView(revocation: ManifestRevocation): ManifestRevocationView {
+    return {
+      manifestId: revocation.manifestId,
+      status: revocation.status === 'revoked' ? 'revoked' : 'pending',
+      reason: revocation.reason,
+      supersededBy: revocation.supersededBy,
+      jobId: revocation.jobId,
+      txHash: revocation.txHash,
+      revokedAt: revocation.revokedAt,
+    };
+  }
+}
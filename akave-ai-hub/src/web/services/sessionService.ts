@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSession, DatabaseService } from './databaseService';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '', 10) || 30;
+
+/** The refresh token was unknown, expired, revoked or already used */
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export interface SessionContext {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/** A session as shown to its owner */
+export type AuthSessionView = Omit<AuthSession, 'refreshTokenHash'> & { current: boolean };
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Signed-in devices. Each sign-in opens a session with a refresh token that is exchanged
+ * for short-lived access tokens; every exchange rotates it, and presenting a token that
+ * was already rotated away signs the session out, since only a copied token can do that.
+ */
+export class SessionService {
+  constructor(private dbService: DatabaseService) {}
+
+  async startSession(
+    userId: string,
+    workspaceId: string,
+    context: SessionContext
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const id = uuidv4();
+    const refreshToken = this.newRefreshToken(id);
+    const session = await this.dbService.createAuthSession({
+      id,
+      userId,
+      workspaceId,
+      refreshTokenHash: hashToken(refreshToken),
+      ...context,
+      expiresAt: this.nextExpiry(),
+    });
+    console.log(`🔐 Session ${id} started`);
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for its successor. Throws a SessionError if it can't be used.
+   */
+  async refresh(refreshToken: unknown, ipAddress: string | null): Promise<{ session: AuthSession; refreshToken: string }> {
+    const sessionId = typeof refreshToken === 'string' ? refreshToken.split('.')[0] : '';
+    const session = sessionId ? await this.dbService.getAuthSession(sessionId) : null;
+    if (!session) {
+      throw new SessionError('Invalid refresh token.');
+    }
+    if (!this.isLive(session)) {
+      throw new SessionError('Session expired or signed out.');
+    }
+
+    const presentedHash = hashToken(refreshToken as string);
+    if (presentedHash !== session.refreshTokenHash) {
+      await this.dbService.revokeAuthSession(session.id);
+      console.warn(`⚠️ Rotated refresh token reused; session ${session.id} revoked`);
+      throw new SessionError('Refresh token was already used; the session has been signed out.');
+    }
+
+    const next = this.newRefreshToken(session.id);
+    const update = { refreshTokenHash: hashToken(next), ipAddress, expiresAt: this.nextExpiry() };
+    if (!(await this.dbService.rotateAuthSession(session.id, presentedHash, update))) {
+      // Another request rotated it first
+      throw new SessionError('Refresh token was already used.');
+    }
+    return { session: { ...session, ...update }, refreshToken: next };
+  }
+
+  /**
+   * Whether access tokens issued for the session are still honoured
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await this.dbService.getAuthSession(sessionId);
+    return !!session && this.isLive(session);
+  }
+
+  async listSessions(userId: string, currentSessionId?: string): Promise<AuthSessionView[]> {
+    const sessions = await this.dbService.listAuthSessions(userId, new Date().toISOString());
+    return sessions.map(({ refreshTokenHash, ...session }) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Sign out one of the user's sessions; false if it isn't theirs or is already over
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.dbService.getAuthSession(sessionId);
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+    return this.dbService.revokeAuthSession(sessionId);
+  }
+
+  async revokeAllSessions(userId: string): Promise<number> {
+    return this.dbService.revokeAuthSessionsForUser(userId);
+  }
+
+  /**
+   * Remember the workspace switched to, so refreshed access tokens stay in it
+   */
+  async setWorkspace(sessionId: string, workspaceId: string): Promise<void> {
+    await this.dbService.setAuthSessionWorkspace(sessionId, workspaceId);
+  }
+
+  private isLive(session: AuthSession): boolean {
+    return !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+  }
+
+  private newRefreshToken(sessionId: string): string {
+    return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private nextExpiry(): string {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 3600 * 1000).toISOString();
+  }
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, ShareLink, ShareLinkOutcome } from './databaseService';
+import { AkaveService } from './akaveService';
+import { readEnvelope } from './encryptionService';
+import { isDirectoryManifest } from './archiveService';
+import { AuthorizationService } from './authorizationService';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const DEFAULT_TTL_HOURS = parseInt(process.env.SHARE_LINK_DEFAULT_TTL_HOURS || '', 10) || 7 * 24;
+const MAX_TTL_HOURS = parseInt(process.env.SHARE_LINK_MAX_TTL_HOURS || '', 10) || 30 * 24;
+// Each access gets its own short-lived presigned URL; the share link is what stays valid
+const DOWNLOAD_URL_TTL_SECONDS = parseInt(process.env.SHARE_LINK_URL_TTL_SECONDS || '', 10) || 300;
+const SHARE_PUBLIC_URL =
+  process.env.SHARE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}/api/shares/public`;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+/** The link exists but can no longer be used */
+export class ShareLinkUnavailableError extends Error {
+  constructor(public reason: Exclude<ShareLinkOutcome, 'granted' | 'bad_password'>) {
+    super(`Share link is ${reason === 'exhausted' ? 'out of downloads' : reason}.`);
+    this.name = 'ShareLinkUnavailableError';
+  }
+}
+
+export class SharePasswordError extends Error {
+  constructor(public passwordRequired: boolean) {
+    super(passwordRequired ? 'This share link requires a password.' : 'Incorrect share link password.');
+    this.name = 'SharePasswordError';
+  }
+}
+
+export interface ShareLinkOptions {
+  expiresInHours?: number;
+  maxDownloads?: number | null;
+  password?: string;
+}
+
+/** A share link as shown to its owner; the token and password hash never leave the server */
+export type ShareLinkView = Omit<ShareLink, 'tokenHash' | 'passwordHash'> & {
+  hasPassword: boolean;
+  status: 'active' | 'expired' | 'revoked' | 'exhausted';
+};
+
+export interface ShareAccessContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const derived = await scrypt(password, salt, 32);
+  return `scrypt$${salt.toString('hex')}$${derived.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, expected] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const derived = await scrypt(password, Buffer.from(salt, 'hex'), 32);
+  const expectedBytes = Buffer.from(expected, 'hex');
+  return expectedBytes.length === derived.length && crypto.timingSafeEqual(derived, expectedBytes);
+};
+
+/**
+ * Public download links for a user's files. A link carries an expiry, an optional download
+ * cap and password, and can be revoked; every use is recorded in its access log and gets
+ * a fresh presigned URL rather than one that outlives the link.
+ */
+export class ShareService {
+  private authorizationService: AuthorizationService;
+
+  constructor(
+    private dbService: DatabaseService,
+    private akaveService: AkaveService
+  ) {
+    this.authorizationService = new AuthorizationService(dbService);
+  }
+
+  /**
+   * Create a link for one of the user's manifests. The token is returned only here;
+   * null if the manifest doesn't exist or belongs to someone else.
+   */
+  async createLink(
+    userId: string,
+    manifestId: string,
+    options: ShareLinkOptions = {}
+  ): Promise<{ link: ShareLinkView; token: string; url: string } | null> {
+    const manifest = await this.authorizationService.authorizeManifest(userId, manifestId, 'owner');
+    if (!manifest) {
+      return null;
+    }
+    if (readEnvelope(manifest)) {
+      throw new ShareLinkError('Encrypted files cannot be shared through a public link.');
+    }
+    if (isDirectoryManifest(manifest)) {
+      throw new ShareLinkError('Expanded archives cannot be shared as a single download.');
+    }
+
+    const expiresInHours = options.expiresInHours ?? DEFAULT_TTL_HOURS;
+    if (!Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_TTL_HOURS) {
+      throw new ShareLinkError(`expiresInHours must be between 0 and ${MAX_TTL_HOURS}.`);
+    }
+    const maxDownloads = options.maxDownloads ?? null;
+    if (maxDownloads !== null && (!Number.isSafeInteger(maxDownloads) || maxDownloads <= 0)) {
+      throw new ShareLinkError('maxDownloads must be a positive integer.');
+    }
+    if (options.password !== undefined && (typeof options.password !== 'string' || options.password.length < 4)) {
+      throw new ShareLinkError('password must be at least 4 characters.');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const link = await this.dbService.createShareLink({
+      id: uuidv4(),
+      manifestId,
+      userId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInHours * 3600 * 1000).toISOString(),
+      maxDownloads,
+      passwordHash: options.password ? await hashPassword(options.password) : null,
+    });
+
+    console.log(`🔗 Share link ${link.id} created for manifest ${manifestId}`);
+    return { link: this.toView(link), token, url: `${SHARE_PUBLIC_URL}/${token}` };
+  }
+
+  async listLinks(userId: string, manifestId?: string): Promise<ShareLinkView[]> {
+    const links = await this.dbService.listShareLinks(userId, manifestId);
+    return links.map(link => this.toView(link));
+  }
+
+  /**
+   * A link owned by the user, or null
+   */
+  async getLink(userId: string, id: string): Promise<ShareLinkView | null> {
+    const link = await this.dbService.getShareLink(id);
+    return link && link.userId === userId ? this.toView(link) : null;
+  }
+
+  async revokeLink(userId: string, id: string): Promise<ShareLinkView | null> {
+    const link = await this.dbService.getShareLink(id);
+    if (!link || link.userId !== userId) {
+      return null;
+    }
+    const revoked = await this.dbService.revokeShareLink(id);
+    console.log(`🔒 Share link ${id} revoked`);
+    return revoked ? this.toView(revoked) : null;
+  }
+
+  async getAccessLog(userId: string, id: string) {
+    const link = await this.getLink(userId, id);
+    return link ? this.dbService.listShareLinkAccesses(id) : null;
+  }
+
+  /**
+   * Redeem a token for a presigned download URL, counting and logging the access.
+   * Null if no link has this token; refusals throw and are logged too.
+   */
+  async resolve(
+    token: string,
+    password: string | undefined,
+    context: ShareAccessContext
+  ): Promise<{ url: string; filename: string; expiresIn: number } | null> {
+    const link = await this.dbService.getShareLinkByTokenHash(hashToken(token));
+    if (!link) {
+      return null;
+    }
+
+    const audit = (outcome: ShareLinkOutcome) =>
+      this.dbService.recordShareLinkAccess({ shareLinkId: link.id, outcome, ...context });
+
+    const status = this.statusOf(link);
+    if (status !== 'active') {
+      await audit(status);
+      throw new ShareLinkUnavailableError(status);
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        throw new SharePasswordError(true);
+      }
+      if (!(await verifyPassword(password, link.passwordHash))) {
+        await audit('bad_password');
+        throw new SharePasswordError(false);
+      }
+    }
+
+    const manifest = await this.dbService.getManifestById(link.manifestId);
+    if (!manifest) {
+      await audit('revoked');
+      throw new ShareLinkUnavailableError('revoked');
+    }
+
+    if (!(await this.dbService.claimShareLinkDownload(link.id, new Date().toISOString()))) {
+      // Lost a race with another download for the last slot, or expired in between
+      const current = await this.dbService.getShareLink(link.id);
+      const reason = current ? this.statusOf(current) : 'revoked';
+      const outcome = reason === 'active' ? 'exhausted' : reason;
+      await audit(outcome);
+      throw new ShareLinkUnavailableError(outcome);
+    }
+
+    const url = await this.akaveService.getPresignedUrl(manifest.s3Key, DOWNLOAD_URL_TTL_SECONDS);
+    await audit('granted');
+    await this.dbService.touchManifest(manifest.id);
+
+    return { url, filename: manifest.filename, expiresIn: DOWNLOAD_URL_TTL_SECONDS };
+  }
+
+  private statusOf(link: ShareLink): ShareLinkView['status'] {
+    if (link.revokedAt) return 'revoked';
+    if (new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+    if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) return 'exhausted';
+    return 'active';
+  }
+
+  private toView(link: ShareLink): ShareLinkView {
+    const { tokenHash, passwordHash, ...rest } = link;
+    return { ...rest, hasPassword: passwordHash !== null, status: this.statusOf(link) };
+  }
+}
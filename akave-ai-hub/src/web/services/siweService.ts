@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import {
+  SiweError,
+  SiweMessage,
+  SiweSignatureType,
+  SIWE_SIGNATURE_TYPES,
+  parseSiweMessage,
+  siweTypedData,
+  validateSiweMessage,
+} from '../../shared/siwe';
+import { DatabaseService } from './databaseService';
+
+const parseList = (value: string | undefined, fallback: string): string[] =>
+  (value || fallback).split(',').map(item => item.trim()).filter(Boolean);
+
+// Hosts the frontend is served from; messages signed for any other domain are refused
+const SIWE_DOMAINS = parseList(process.env.SIWE_DOMAINS, 'localhost:5173,localhost:3000');
+// Sepolia and the local Hardhat network by default
+const SIWE_CHAIN_IDS = parseList(process.env.SIWE_CHAIN_IDS, '11155111,31337').map(Number);
+const NONCE_TTL_SECONDS = parseInt(process.env.SIWE_NONCE_TTL_SECONDS || '', 10) || 300;
+// chainId=url pairs of the nodes smart-contract wallets are checked against,
+// e.g. 31337=http://127.0.0.1:8545 for a local Hardhat node
+const SIWE_RPC_URLS = new Map(
+  parseList(process.env.SIWE_RPC_URLS, '').map(entry => {
+    const [chainId, ...url] = entry.split('=');
+    return [Number(chainId), url.join('=')] as const;
+  })
+);
+
+// EIP-1271: isValidSignature returns this selector when the contract accepts the signature
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+const EIP1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'];
+
+/**
+ * Sign-In with Ethereum for the hub. Nonces are issued here and can be redeemed once,
+ * before they expire, by a message signed for one of SIWE_DOMAINS on one of SIWE_CHAIN_IDS.
+ * They live in the database, so they survive restarts and work across server instances.
+ *
+ * The message may be signed as text or as EIP-712 typed data. Signatures that don't recover
+ * to the address are checked with EIP-1271, so contract wallets such as a Safe can sign in
+ * on chains listed in SIWE_RPC_URLS.
+ */
+export class SiweService {
+  private providers = new Map<number, ethers.JsonRpcProvider>();
+
+  constructor(private dbService: DatabaseService) {}
+
+  /**
+   * Issue a nonce for the client to put in its message, optionally bound to a wallet
+   */
+  async createNonce(walletAddress?: string): Promise<{
+    nonce: string;
+    expiresAt: string;
+    domains: string[];
+    chainIds: number[];
+    signatureTypes: SiweSignatureType[];
+  }> {
+    await this.dbService.deleteExpiredAuthNonces(new Date().toISOString());
+
+    const issued = await this.dbService.createAuthNonce({
+      nonce: crypto.randomBytes(16).toString('hex'),
+      walletAddress: walletAddress ?? null,
+      expiresAt: new Date(Date.now() + NONCE_TTL_SECONDS * 1000).toISOString(),
+    });
+
+    return {
+      nonce: issued.nonce,
+      expiresAt: issued.expiresAt,
+      domains: SIWE_DOMAINS,
+      chainIds: SIWE_CHAIN_IDS,
+      signatureTypes: SIWE_SIGNATURE_TYPES,
+    };
+  }
+
+  /**
+   * Verify a signed message and consume its nonce. Returns the message's fields, whose
+   * address is the signer; throws a SiweError otherwise.
+   */
+  async verify(message: unknown, signature: unknown, signatureType: unknown = 'eip191'): Promise<SiweMessage> {
+    if (typeof message !== 'string' || typeof signature !== 'string' || !ethers.isHexString(signature)) {
+      throw new SiweError('message and a hex signature are required.');
+    }
+    if (!SIWE_SIGNATURE_TYPES.includes(signatureType as SiweSignatureType)) {
+      throw new SiweError(`signatureType must be one of: ${SIWE_SIGNATURE_TYPES.join(', ')}.`);
+    }
+
+    const fields = parseSiweMessage(message);
+    if (ethers.getAddress(fields.address) !== fields.address) {
+      throw new SiweError('The address must be EIP-55 checksummed.');
+    }
+    validateSiweMessage(fields, { domains: SIWE_DOMAINS, chainIds: SIWE_CHAIN_IDS, requireExpiration: true });
+
+    const issued = await this.dbService.getAuthNonce(fields.nonce);
+    if (!issued || new Date(issued.expiresAt).getTime() <= Date.now()) {
+      throw new SiweError('Challenge not found or expired.');
+    }
+    if (issued.walletAddress && issued.walletAddress.toLowerCase() !== fields.address.toLowerCase()) {
+      throw new SiweError('The challenge was issued to a different wallet.');
+    }
+
+    const digest = this.digestOf(message, fields, signatureType as SiweSignatureType);
+    const signed =
+      this.recoversTo(digest, signature, fields.address) ||
+      (await this.isValidContractSignature(fields, digest, signature));
+    if (!signed) {
+      throw new SiweError('Signature verification failed.');
+    }
+
+    // Each nonce signs in once, even when the same message reaches two servers
+    if (!(await this.dbService.consumeAuthNonce(fields.nonce, new Date().toISOString()))) {
+      throw new SiweError('Challenge not found or expired.');
+    }
+    return fields;
+  }
+
+  private digestOf(message: string, fields: SiweMessage, signatureType: SiweSignatureType): string {
+    if (signatureType === 'eip191') {
+      return ethers.hashMessage(message);
+    }
+    const { domain, types, value } = siweTypedData(fields);
+    return ethers.TypedDataEncoder.hash(domain, types, value);
+  }
+
+  private recoversTo(digest: string, signature: string, address: string): boolean {
+    try {
+      return ethers.recoverAddress(digest, signature) === address;
+    } catch {
+      // Not a 65-byte ECDSA signature; contract wallets may use any format
+      return false;
+    }
+  }
+
+  /**
+   * Ask the address, if it is a contract on the message's chain, whether it accepts the
+   * signature over the digest. False when no node is configured for that chain.
+   */
+  private async isValidContractSignature(fields: SiweMessage, digest: string, signature: string): Promise<boolean> {
+    const provider = this.providerFor(fields.chainId);
+    if (!provider) {
+      return false;
+    }
+
+    try {
+      if ((await provider.getCode(fields.address)) === '0x') {
+        return false;
+      }
+      const wallet = new ethers.Contract(fields.address, EIP1271_ABI, provider);
+      const result: string = await wallet.isValidSignature(digest, signature);
+      return result.toLowerCase() === EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      // A revert or a malformed return value is a refusal; anything else means the node failed
+      if (ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private providerFor(chainId: number): ethers.JsonRpcProvider | null {
+    const url = SIWE_RPC_URLS.get(chainId);
+    if (!url) {
+      return null;
+    }
+    let provider = this.providers.get(chainId);
+    if (!provider) {
+      provider = new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true });
+      this.providers.set(chainId, provider);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,379 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  CreateBucketCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import fs from 'fs';
+import { Readable } from 'stream';
+import {
+  StorageBackend,
+  StorageError,
+  StorageObjectInfo,
+  ByteRange,
+  PutOptions,
+  PutSource,
+  PresignOptions,
+  CompletedUploadPart,
+} from './storageBackend';
+
+// S3-compatible stores reject parts smaller than 5MB (except the last one)
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+type MultipartSettings = Required<Pick<PutOptions, 'partSize' | 'concurrency' | 'maxRetries'>>;
+
+export interface AkaveStorageConfig {
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint: string;
+  bucketName: string;
+  region: string;
+}
+
+/**
+ * Akave O3 storage through its S3-compatible API
+ */
+export class AkaveStorageBackend implements StorageBackend {
+  readonly name = 'akave';
+  private s3Client: S3Client;
+  private bucketName: string;
+  private multipartDefaults: MultipartSettings;
+
+  constructor(config: AkaveStorageConfig) {
+    this.bucketName = config.bucketName;
+
+    this.s3Client = new S3Client({
+      region: config.region,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+      endpoint: config.endpoint,
+      forcePathStyle: true, // Required for S3-compatible services
+    });
+
+    this.multipartDefaults = {
+      partSize: Math.max(parseInt(process.env.AKAVE_MULTIPART_PART_SIZE || '', 10) || 16 * 1024 * 1024, MIN_PART_SIZE),
+      concurrency: parseInt(process.env.AKAVE_MULTIPART_CONCURRENCY || '', 10) || 4,
+      // 0 is a valid setting here: fail a part on its first error
+      maxRetries: (() => {
+        const retries = parseInt(process.env.AKAVE_MULTIPART_MAX_RETRIES ?? '', 10);
+        return Number.isNaN(retries) || retries < 0 ? 3 : retries;
+      })(),
+    };
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      // Check if the bucket exists
+      await this.s3Client.send(new HeadBucketCommand({ Bucket: this.bucketName }));
+      console.log(`Successfully connected to bucket: ${this.bucketName}`);
+    } catch (error: any) {
+      // If the bucket does not exist, create it
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        console.log(`Bucket '${this.bucketName}' not found. Creating it...`);
+        try {
+          await this.s3Client.send(new CreateBucketCommand({ Bucket: this.bucketName }));
+          console.log(`Bucket '${this.bucketName}' created successfully.`);
+        } catch (createError) {
+          console.error(`Failed to create bucket '${this.bucketName}':`, createError);
+          throw createError;
+        }
+      } else {
+        console.error('Failed to connect to Akave O3 storage:', error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Upload without buffering files in memory.
+   * Files larger than one part are sent as a multipart upload.
+   */
+  async put(key: string, source: PutSource, options: PutOptions = {}): Promise<void> {
+    const contentType = options.contentType || 'application/octet-stream';
+    const settings: MultipartSettings = {
+      partSize: Math.max(options.partSize ?? this.multipartDefaults.partSize, MIN_PART_SIZE),
+      concurrency: options.concurrency ?? this.multipartDefaults.concurrency,
+      maxRetries: options.maxRetries ?? this.multipartDefaults.maxRetries,
+    };
+
+    if (Buffer.isBuffer(source)) {
+      await this.withRetry(
+        () => this.s3Client.send(new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: source,
+          ContentType: contentType,
+        })),
+        settings.maxRetries
+      );
+      return;
+    }
+
+    const { size } = await fs.promises.stat(source.filePath);
+
+    if (size <= settings.partSize) {
+      await this.withRetry(
+        () => this.s3Client.send(new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: fs.createReadStream(source.filePath),
+          ContentLength: size,
+          ContentType: contentType,
+        })),
+        settings.maxRetries
+      );
+    } else {
+      await this.multipartUpload(source.filePath, size, key, contentType, settings);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const body = await this.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.s3Client.send(new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end ?? ''}` : undefined,
+      }));
+
+      if (!response.Body) {
+        throw new Error('No file content received');
+      }
+
+      return response.Body as Readable;
+    } catch (error: any) {
+      throw this.translateError(error, key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  async list(prefix?: string): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.s3Client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+          etag: object.ETag,
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async presign(key: string, options: PresignOptions = {}): Promise<string> {
+    const command = options.method === 'PUT'
+      ? new PutObjectCommand({ Bucket: this.bucketName, Key: key, ContentType: options.contentType })
+      : new GetObjectCommand({ Bucket: this.bucketName, Key: key });
+
+    return getSignedUrl(this.s3Client, command, { expiresIn: options.expiresIn ?? 3600 });
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const response = await this.s3Client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+        contentType: response.ContentType,
+        etag: response.ETag,
+      };
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createMultipartUpload(key: string, contentType = 'application/octet-stream'): Promise<string> {
+    const { UploadId } = await this.s3Client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType,
+    }));
+
+    if (!UploadId) {
+      throw new Error('Multipart upload was not initiated');
+    }
+    return UploadId;
+  }
+
+  async presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn = 3600): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    return getSignedUrl(this.s3Client, command, { expiresIn });
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: CompletedUploadPart[]): Promise<void> {
+    await this.s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.s3Client.send(new AbortMultipartUploadCommand({ Bucket: this.bucketName, Key: key, UploadId: uploadId }));
+  }
+
+  /**
+   * Stream a file to the bucket in parts, uploading up to `concurrency` parts at once.
+   * The upload is aborted if any part exhausts its retries so no orphaned parts are left behind.
+   */
+  private async multipartUpload(
+    filePath: string,
+    size: number,
+    key: string,
+    contentType: string,
+    settings: MultipartSettings
+  ): Promise<void> {
+    const { UploadId } = await this.s3Client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType,
+    }));
+
+    if (!UploadId) {
+      throw new Error('Multipart upload was not initiated');
+    }
+
+    const partCount = Math.ceil(size / settings.partSize);
+    const completedParts: CompletedPart[] = new Array(partCount);
+    let nextPart = 0;
+
+    const uploadPart = async (index: number): Promise<void> => {
+      const start = index * settings.partSize;
+      const end = Math.min(start + settings.partSize, size);
+
+      const { ETag } = await this.withRetry(
+        () => this.s3Client.send(new UploadPartCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId,
+          PartNumber: index + 1,
+          // A fresh stream per attempt, since a failed attempt may have consumed it
+          Body: fs.createReadStream(filePath, { start, end: end - 1 }),
+          ContentLength: end - start,
+        })),
+        settings.maxRetries
+      );
+
+      completedParts[index] = { ETag, PartNumber: index + 1 };
+    };
+
+    const worker = async (): Promise<void> => {
+      try {
+        while (nextPart < partCount) {
+          await uploadPart(nextPart++);
+        }
+      } catch (error) {
+        // Stop the other workers from picking up new parts
+        nextPart = partCount;
+        throw error;
+      }
+    };
+
+    try {
+      // Wait for every worker, so no part is still in flight when the upload is aborted
+      const workers = Array.from({ length: Math.min(settings.concurrency, partCount) }, () => worker());
+      const failed = (await Promise.allSettled(workers)).find(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+      if (failed) {
+        throw failed.reason;
+      }
+
+      await this.s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId,
+        MultipartUpload: { Parts: completedParts },
+      }));
+    } catch (error) {
+      try {
+        await this.s3Client.send(new AbortMultipartUploadCommand({ Bucket: this.bucketName, Key: key, UploadId }));
+      } catch (abortError) {
+        console.error(`Failed to abort multipart upload ${UploadId} for ${key}:`, abortError);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retry an operation with exponential backoff
+   */
+  private async withRetry<T>(operation: () => Promise<T>, maxRetries: number): Promise<T> {
+    let attempt = 0;
+    for (;;) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+        const delay = 500 * 2 ** attempt;
+        attempt++;
+        console.warn(`Akave O3 request failed, retrying in ${delay}ms (attempt ${attempt}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private translateError(error: any, key: string): Error {
+    const status = error.$metadata?.httpStatusCode;
+    if (error.name === 'NoSuchKey' || status === 404) {
+      return new StorageError('NotFound', `Object ${key} not found`);
+    }
+    if (status === 416) {
+      return new StorageError('InvalidRange', `Requested range is not satisfiable for ${key}`);
+    }
+    return error;
+  }
+}
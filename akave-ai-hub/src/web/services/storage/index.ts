@@ -0,0 +1,49 @@
+import { StorageBackend } from './storageBackend';
+import { AkaveStorageBackend } from './akaveStorageBackend';
+import { LocalStorageBackend } from './localStorageBackend';
+import { MemoryStorageBackend } from './memoryStorageBackend';
+
+export * from './storageBackend';
+export { AkaveStorageBackend } from './akaveStorageBackend';
+export { LocalStorageBackend } from './localStorageBackend';
+export { MemoryStorageBackend } from './memoryStorageBackend';
+
+export type StorageBackendKind = 'akave' | 'local' | 'memory';
+
+/**
+ * Pick the storage backend from STORAGE_BACKEND. When it is unset the Akave O3 backend is
+ * used if its credentials are configured, otherwise the hub falls back to local disk.
+ */
+export function createStorageBackend(kind = process.env.STORAGE_BACKEND as StorageBackendKind | undefined): StorageBackend {
+  const accessKeyId = process.env.AKAVE_ACCESS_KEY;
+  const secretAccessKey = process.env.AKAVE_SECRET_KEY;
+  const endpoint = process.env.AKAVE_ENDPOINT;
+  const hasAkaveCredentials = !!(accessKeyId && secretAccessKey && endpoint);
+
+  if (!kind) {
+    if (!hasAkaveCredentials) {
+      console.log('⚠️  Akave O3 credentials are not configured. Falling back to local storage; set STORAGE_BACKEND to choose explicitly.');
+    }
+    kind = hasAkaveCredentials ? 'akave' : 'local';
+  }
+
+  switch (kind) {
+    case 'akave':
+      if (!hasAkaveCredentials) {
+        throw new Error('Akave O3 storage credentials are not configured in .env file');
+      }
+      return new AkaveStorageBackend({
+        accessKeyId: accessKeyId!,
+        secretAccessKey: secretAccessKey!,
+        endpoint: endpoint!,
+        bucketName: process.env.AKAVE_BUCKET || 'akave-ai-hub',
+        region: process.env.AKAVE_REGION || 'us-east-1',
+      });
+    case 'local':
+      return new LocalStorageBackend(process.env.STORAGE_LOCAL_DIR || './data/storage');
+    case 'memory':
+      return new MemoryStorageBackend();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${kind}". Expected one of: akave, local, memory`);
+  }
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import {
+  StorageBackend,
+  StorageError,
+  StorageObjectInfo,
+  ByteRange,
+  PutOptions,
+  PutSource,
+  PresignOptions,
+} from './storageBackend';
+import { createSignedStorageUrl } from './signedUrl';
+
+interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  lastModified: Date;
+}
+
+/**
+ * Keeps objects in process memory. Nothing survives a restart; intended for tests
+ * and throwaway local runs.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  private objects: Map<string, StoredObject> = new Map();
+
+  async initialize(): Promise<void> {
+    console.log('Using in-memory object storage (data is lost on restart)');
+  }
+
+  async put(key: string, source: PutSource, options: PutOptions = {}): Promise<void> {
+    const body = Buffer.isBuffer(source) ? Buffer.from(source) : await fs.promises.readFile(source.filePath);
+    this.objects.set(key, {
+      body,
+      contentType: options.contentType || 'application/octet-stream',
+      lastModified: new Date(),
+    });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return Buffer.from(this.require(key).body);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const { body } = this.require(key);
+
+    if (!range) {
+      return Readable.from([body]);
+    }
+
+    if (range.start >= body.length) {
+      throw new StorageError('InvalidRange', `Requested range is not satisfiable for ${key}`);
+    }
+
+    const end = range.end === undefined ? body.length : Math.min(range.end + 1, body.length);
+    return Readable.from([body.subarray(range.start, end)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async list(prefix = ''): Promise<StorageObjectInfo[]> {
+    return Array.from(this.objects.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, object]) => ({ key, size: object.body.length, lastModified: object.lastModified }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async presign(key: string, options: PresignOptions = {}): Promise<string> {
+    return createSignedStorageUrl(key, options.method || 'GET', options.expiresIn ?? 3600);
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return { key, size: object.body.length, lastModified: object.lastModified, contentType: object.contentType };
+  }
+
+  private require(key: string): StoredObject {
+    const object = this.objects.get(key);
+    if (!object) {
+      throw new StorageError('NotFound', `Object ${key} not found`);
+    }
+    return object;
+  }
+}
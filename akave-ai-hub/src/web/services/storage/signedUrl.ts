@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+
+/**
+ * HMAC-signed URLs that stand in for S3 presigned URLs when objects live in the
+ * local-filesystem or in-memory backend. They are served by routes/storage.ts.
+ */
+const signingSecret = (): string =>
+  process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'akave-local-storage';
+
+const publicBaseUrl = (): string =>
+  process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}/api/storage`;
+
+const sign = (key: string, method: string, expires: number): string =>
+  crypto.createHmac('sha256', signingSecret()).update(`${method}\n${key}\n${expires}`).digest('hex');
+
+export const createSignedStorageUrl = (key: string, method: 'GET' | 'PUT', expiresIn: number): string => {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  const params = new URLSearchParams({ method, expires: String(expires), signature: sign(key, method, expires) });
+  return `${publicBaseUrl()}/objects/${encodedKey}?${params.toString()}`;
+};
+
+export const verifyStorageSignature = (key: string, method: string, expires: number, signature: string): boolean => {
+  if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, method, expires), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+};
@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+  etag?: string;
+}
+
+export interface ByteRange {
+  start: number;
+  /** Inclusive; omit to read to the end of the object */
+  end?: number;
+}
+
+export interface PutOptions {
+  contentType?: string;
+  /** Multipart tuning, only meaningful for remote backends */
+  partSize?: number;
+  concurrency?: number;
+  maxRetries?: number;
+}
+
+export interface PresignOptions {
+  expiresIn?: number;
+  method?: 'GET' | 'PUT';
+  contentType?: string;
+}
+
+export interface CompletedUploadPart {
+  partNumber: number;
+  etag: string;
+}
+
+/** Either bytes already in memory or a file on local disk, which backends may stream */
+export type PutSource = Buffer | { filePath: string };
+
+export class StorageError extends Error {
+  constructor(public code: 'NotFound' | 'InvalidRange', message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Object storage used by AkaveService. The Akave O3 (S3-compatible) backend is used in
+ * production; the local-filesystem and in-memory backends let the hub run offline.
+ */
+export interface StorageBackend {
+  readonly name: string;
+
+  initialize(): Promise<void>;
+  put(key: string, source: PutSource, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): Promise<StorageObjectInfo[]>;
+  presign(key: string, options?: PresignOptions): Promise<string>;
+  head(key: string): Promise<StorageObjectInfo | null>;
+
+  /**
+   * Presigned multipart uploads, for clients sending large objects straight to the bucket.
+   * Backends without them only offer single presigned PUTs.
+   */
+  createMultipartUpload?(key: string, contentType?: string): Promise<string>;
+  presignUploadPart?(key: string, uploadId: string, partNumber: number, expiresIn?: number): Promise<string>;
+  completeMultipartUpload?(key: string, uploadId: string, parts: CompletedUploadPart[]): Promise<void>;
+  abortMultipartUpload?(key: string, uploadId: string): Promise<void>;
+}
@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, Team, TeamMember, TeamRole } from './databaseService';
+
+const WALLET_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export class TeamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TeamError';
+  }
+}
+
+/** The user is in the team but not allowed to make this change */
+export class TeamPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TeamPermissionError';
+  }
+}
+
+/**
+ * Teams group wallets so a file can be granted to all of them at once. The creator owns
+ * the team; admins manage its members. Membership changes apply to existing grants
+ * immediately, since grants name the team rather than its members.
+ */
+export class TeamService {
+  constructor(private dbService: DatabaseService) {}
+
+  async createTeam(userId: string, name: unknown): Promise<Team> {
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      throw new TeamError('name is required and must be at most 100 characters.');
+    }
+    return this.dbService.createTeam({ id: uuidv4(), name: name.trim(), ownerId: userId });
+  }
+
+  async listTeams(userId: string) {
+    return this.dbService.listTeamsForUser(userId);
+  }
+
+  /**
+   * A team and its members, visible to members only; null otherwise
+   */
+  async getTeam(userId: string, teamId: string): Promise<(Team & { members: TeamMember[] }) | null> {
+    const team = await this.dbService.getTeam(teamId);
+    if (!team || !(await this.dbService.getTeamMember(teamId, userId))) {
+      return null;
+    }
+    return { ...team, members: await this.dbService.listTeamMembers(teamId) };
+  }
+
+  async addMember(userId: string, teamId: string, walletAddress: unknown, role: TeamRole = 'member'): Promise<TeamMember | null> {
+    const team = await this.requireAdmin(userId, teamId);
+    if (!team) return null;
+
+    if (typeof walletAddress !== 'string' || !WALLET_ADDRESS_PATTERN.test(walletAddress)) {
+      throw new TeamError('walletAddress must be a 0x-prefixed Ethereum address.');
+    }
+    if (role !== 'admin' && role !== 'member') {
+      throw new TeamError('role must be one of: admin, member.');
+    }
+
+    // Users are keyed by the checksummed address sign-in records, whatever case the caller used
+    const address = ethers.getAddress(walletAddress.toLowerCase());
+    const member = await this.dbService.getUserByWalletAddress(address)
+      ?? await this.dbService.findOrCreateUser(address);
+    if (member.id === team.ownerId && role !== 'admin') {
+      throw new TeamPermissionError('The team owner is always an admin.');
+    }
+
+    await this.dbService.upsertTeamMember(teamId, member.id, role);
+    return this.dbService.getTeamMember(teamId, member.id);
+  }
+
+  /**
+   * Remove a member. Admins can remove anyone but the owner; members can remove themselves.
+   */
+  async removeMember(userId: string, teamId: string, walletAddress: string): Promise<boolean | null> {
+    const team = await this.dbService.getTeam(teamId);
+    const actor = team && await this.dbService.getTeamMember(teamId, userId);
+    if (!team || !actor) return null;
+
+    const member = await this.dbService.getUserByWalletAddress(walletAddress);
+    if (!member) return false;
+
+    if (member.id === team.ownerId) {
+      throw new TeamPermissionError('The team owner cannot be removed; delete the team instead.');
+    }
+    if (member.id !== userId && actor.role !== 'admin') {
+      throw new TeamPermissionError('Only team admins can remove other members.');
+    }
+    return this.dbService.removeTeamMember(teamId, member.id);
+  }
+
+  /**
+   * Delete a team and every grant made to it; owner only
+   */
+  async deleteTeam(userId: string, teamId: string): Promise<boolean> {
+    const team = await this.dbService.getTeam(teamId);
+    if (!team || !(await this.dbService.getTeamMember(teamId, userId))) {
+      return false;
+    }
+    if (team.ownerId !== userId) {
+      throw new TeamPermissionError('Only the team owner can delete the team.');
+    }
+    await this.dbService.deleteTeam(teamId);
+    return true;
+  }
+
+  private async requireAdmin(userId: string, teamId: string): Promise<Team | null> {
+    const team = await this.dbService.getTeam(teamId);
+    const actor = team && await this.dbService.getTeamMember(teamId, userId);
+    if (!team || !actor) return null;
+    if (actor.role !== 'admin') {
+      throw new TeamPermissionError('Only team admins can manage members.');
+    }
+    return team;
+  }
+}
@@ -4,14 +4,20 @@ import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { DatabaseService } from './databaseService';
 import { AkaveService } from './akaveService';
+import { DecryptionCredentials } from './encryptionService';
+import { DatasetService, ResolvedDataset } from './datasetService';
+import { isDirectoryManifest } from './archiveService';
 import { WebSocketService } from './websocketService';
 
 export interface TrainingConfig {
   modelName: string;
+  /** Manifest ids or `name@version` dataset references, pinned to concrete versions at job start */
   datasetIds: string[];
   hyperparameters: Record<string, any>;
   framework: 'pytorch' | 'tensorflow' | 'sklearn';
   customScript?: string;
+  /** Needed to decrypt wallet-encrypted datasets; kept in memory only */
+  credentials?: DecryptionCredentials;
 }
 
 export interface TrainingJob {
@@ -24,6 +30,7 @@ export interface TrainingJob {
   metrics: string;
   userId: string;
   config: string;
+  datasetVersions: string;
   logs: string[];
   checkpointPath?: string;
 }
@@ -41,27 +48,36 @@ export class TrainingService {
   private activeJobs: Map<string, ChildProcess> = new Map();
   private jobLogs: Map<string, string[]> = new Map();
   private jobConfigs: Map<string, TrainingConfig> = new Map();
+  private datasetService: DatasetService;
 
   constructor(
     private dbService: DatabaseService,
     private akaveService: AkaveService,
     private wsService: WebSocketService
-  ) {}
+  ) {
+    this.datasetService = new DatasetService(dbService);
+  }
 
   /**
    * Start a new training job
    */
   async startTrainingJob(
     userId: string,
+    workspaceId: string,
     config: TrainingConfig
   ): Promise<TrainingJob> {
+    // Pin every dataset reference to a concrete version so the job records exactly what it trained on
+    const datasets = await this.datasetService.resolveReferences(userId, config.datasetIds);
+
     // Create training job record
     const job = await this.dbService.createTrainingJob({
       modelName: config.modelName,
       status: 'pending',
       progress: 0,
       metrics: JSON.stringify({}),
-      userId
+      userId,
+      workspaceId,
+      datasetVersions: JSON.stringify(datasets)
     });
 
     // Store the config and logs in memory for this job
@@ -69,15 +85,16 @@ export class TrainingService {
     this.jobLogs.set(job.id, []);
 
     // Start the training process asynchronously
-    this.executeTrainingJob(job.id, config).catch(error => {
+    this.executeTrainingJob(job.id, config, datasets).catch(error => {
       console.error(`Training job ${job.id} failed:`, error);
       this.updateJobStatus(job.id, 'failed', 0, { error: error.message });
     });
 
     // Return extended job object
+    const { credentials, ...publicConfig } = config;
     return {
       ...job,
-      config: JSON.stringify(config),
+      config: JSON.stringify(publicConfig),
       logs: []
     };
   }
@@ -85,7 +102,7 @@ export class TrainingService {
   /**
    * Execute a training job
    */
-  private async executeTrainingJob(jobId: string, config: TrainingConfig): Promise<void> {
+  private async executeTrainingJob(jobId: string, config: TrainingConfig, datasets: ResolvedDataset[]): Promise<void> {
     try {
       // Update job status to training
       await this.updateJobStatus(jobId, 'training', 0);
@@ -95,7 +112,11 @@ export class TrainingService {
       await fs.promises.mkdir(trainingDir, { recursive: true });
 
       // Download datasets
-      const datasetPaths = await this.downloadDatasets(config.datasetIds, trainingDir);
+      const datasetPaths = await this.downloadDatasets(
+        datasets.map(dataset => dataset.manifestId),
+        trainingDir,
+        config.credentials
+      );
 
       // Generate training script
       const scriptPath = await this.generateTrainingScript(config, datasetPaths, trainingDir);
@@ -112,7 +133,11 @@ export class TrainingService {
   /**
    * Download datasets for training
    */
-  private async downloadDatasets(datasetIds: string[], trainingDir: string): Promise<string[]> {
+  private async downloadDatasets(
+    datasetIds: string[],
+    trainingDir: string,
+    credentials?: DecryptionCredentials
+  ): Promise<string[]> {
     const datasetPaths: string[] = [];
 
     for (const datasetId of datasetIds) {
@@ -120,18 +145,43 @@ export class TrainingService {
       if (!manifest) {
         throw new Error(`Dataset ${datasetId} not found`);
       }
+      await this.dbService.touchManifest(manifest.id);
 
       const datasetPath = path.join(trainingDir, 'data', manifest.filename);
+
+      // Expanded archives are mounted as a directory holding the original file tree
+      if (isDirectoryManifest(manifest)) {
+        await this.mountDirectory(manifest.id, datasetPath);
+        datasetPaths.push(datasetPath);
+        continue;
+      }
+
       await fs.promises.mkdir(path.dirname(datasetPath), { recursive: true });
 
-      // Download from Akave O3
-      await this.akaveService.downloadFile(manifest.s3Key, datasetPath);
+      // Download from Akave O3 (decrypting if needed), verifying the bytes against the hash recorded at upload
+      await this.akaveService.downloadManifest(manifest, datasetPath, { resume: true, credentials });
       datasetPaths.push(datasetPath);
     }
 
     return datasetPaths;
   }
 
+  /**
+   * Download every entry of an expanded archive under `targetDir`, verifying each file's hash
+   */
+  private async mountDirectory(manifestId: string, targetDir: string): Promise<void> {
+    const root = path.resolve(targetDir);
+
+    for (const entry of await this.dbService.listManifestEntries(manifestId)) {
+      const entryPath = path.resolve(root, entry.path);
+      if (!entryPath.startsWith(root + path.sep)) {
+        throw new Error(`Refusing to write archive entry outside the dataset directory: ${entry.path}`);
+      }
+
+      await this.akaveService.downloadFile(entry.s3Key, entryPath, { expectedHash: entry.hash, resume: true });
+    }
+  }
+
   /**
    * Generate training script based on configuration
    */
@@ -495,7 +545,11 @@ if __name__ == '__main__':
       if (fs.existsSync(checkpointPath)) {
         const checkpointKey = `models/${jobId}/checkpoint`;
         await this.akaveService.uploadFileFromPath(checkpointPath, checkpointKey, 'application/octet-stream');
-        
+
+        // Checkpoints count towards the owner's storage usage
+        const { size } = await fs.promises.stat(checkpointPath);
+        await this.dbService.recordTrainingCheckpoint(jobId, checkpointKey, size);
+
         // Update job with checkpoint path - store in metrics for now
         await this.dbService.updateTrainingJob(jobId, {
           status: 'completed',
@@ -0,0 +1,755 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import mime from 'mime-types';
+import { DatabaseService, Manifest, UploadSession, UploadIntent, BlobMissingError } from './databaseService';
+import { AkaveService, IntegrityError } from './akaveService';
+import { CompletedUploadPart } from './storage';
+import { encryptionService, EncryptionRequest, DecryptionCredentials, EncryptionKeyError } from './encryptionService';
+import { ArchiveError, DIRECTORY_CONTENT_TYPE, detectArchiveFormat, extractArchive } from './archiveService';
+import { UsageService } from './usageService';
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+const SESSION_TTL_MS = (parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '', 10) || 24) * 60 * 60 * 1000;
+
+// Presigned URLs for direct uploads are valid as long as the intent itself
+const DIRECT_UPLOAD_TTL_SECONDS = (parseInt(process.env.DIRECT_UPLOAD_TTL_MINUTES || '', 10) || 60) * 60;
+// Objects larger than one part go up as a presigned multipart upload where the backend supports it
+const DIRECT_UPLOAD_PART_SIZE = Math.max(
+  parseInt(process.env.DIRECT_UPLOAD_PART_SIZE || '', 10) || 64 * 1024 * 1024,
+  5 * 1024 * 1024
+);
+const MAX_UPLOAD_PARTS = 10000;
+
+export interface FileDescriptor {
+  filename: string;
+  contentType: string;
+  size: number;
+  tags?: string[] | string;
+  isMLData?: boolean;
+  metadata?: Record<string, any> | string;
+  /** Encrypt the content before it leaves the server */
+  encryption?: EncryptionRequest;
+  /** Expand a ZIP/TAR archive into a directory manifest with one entry per file */
+  expandArchive?: boolean;
+  /** Workspace the manifest is filed under */
+  workspaceId?: string;
+  /** Bytes already reserved against the quota for this upload by its session */
+  reservedBytes?: number;
+}
+
+export class UploadOffsetMismatchError extends Error {
+  constructor(public expectedOffset: number, public receivedOffset: number) {
+    super(`Upload-Offset mismatch: expected ${expectedOffset}, received ${receivedOffset}`);
+    this.name = 'UploadOffsetMismatchError';
+  }
+}
+
+export class UploadLockedError extends Error {
+  constructor() {
+    super('Another chunk is being written to this upload.');
+    this.name = 'UploadLockedError';
+  }
+}
+
+export class UploadFinalizingError extends Error {
+  constructor() {
+    super('Upload is already being finalized.');
+    this.name = 'UploadFinalizingError';
+  }
+}
+
+export class InvalidMetadataError extends Error {
+  constructor() {
+    super('metadata must be a JSON object.');
+    this.name = 'InvalidMetadataError';
+  }
+}
+
+export class DirectUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectUploadError';
+  }
+}
+
+/** Where and how the client should send the bytes of a direct upload */
+export interface DirectUploadTarget {
+  intent: UploadIntent;
+  /** Headers the PUT requests must carry, since they are covered by the signature */
+  headers: Record<string, string>;
+  url?: string;
+  parts?: Array<{ partNumber: number; url: string; size: number }>;
+}
+
+// Helper function to compute file hash
+export const computeFileHash = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    const stream = fs.createReadStream(filePath);
+    stream.on('data', (data) => hash.update(data));
+    stream.on('end', () => resolve(hash.digest('hex')));
+    stream.on('error', (err) => reject(err));
+  });
+};
+
+// Content-addressed object key, sharded by hash prefix to keep listings manageable
+export const blobKey = (hash: string): string => `blobs/sha256/${hash.slice(0, 2)}/${hash}`;
+
+// Tags and metadata arrive either as JSON strings (multipart forms) or as parsed values (JSON bodies)
+const toJson = (value: unknown, fallback: string): string => {
+  if (value === undefined || value === null || value === '') return fallback;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Metadata is stored as given, so check it is an object that clients and the hub can parse
+const toMetadata = (value: unknown): string => {
+  const json = toJson(value, '{}');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new InvalidMetadataError();
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new InvalidMetadataError();
+  }
+  return json;
+};
+
+export class UploadService {
+  private sessionDir = path.join(UPLOAD_DIR, 'sessions');
+  private usageService: UsageService;
+  // Sessions with a chunk being written; a second writer would append at a stale offset
+  private appending = new Set<string>();
+  // Direct uploads being completed by this process, for concurrent requests to wait on
+  private completing = new Map<string, Promise<Manifest | null>>();
+
+  constructor(
+    private dbService: DatabaseService,
+    private akaveService: AkaveService
+  ) {
+    this.usageService = new UsageService(dbService);
+  }
+
+  /**
+   * Hash a file staged on local disk, push it to Akave O3 and record its manifest.
+   * Objects are content-addressed, so identical bytes are stored once and shared.
+   */
+  async ingestFile(userId: string, localPath: string, file: FileDescriptor) {
+    // Reject malformed metadata before any bytes are hashed or stored
+    file = { ...file, metadata: toMetadata(file.metadata) };
+
+    if (file.expandArchive) {
+      return this.ingestArchive(userId, localPath, file);
+    }
+
+    // The quota middleware only saw the declared size; check again now the bytes are here
+    await this.usageService.assertWithinQuota(userId, file.size, file.reservedBytes);
+
+    // 1. Compute file hash
+    const hash = await computeFileHash(localPath);
+
+    if (file.encryption) {
+      return this.ingestEncryptedFile(userId, localPath, hash, file, file.encryption);
+    }
+
+    const manifest = {
+      filename: file.filename,
+      size: file.size,
+      hash,
+      contentType: file.contentType,
+      tags: toJson(file.tags, '[]'),
+      isMLData: !!file.isMLData,
+      metadata: file.metadata as string,
+      userId,
+      workspaceId: file.workspaceId ?? null,
+    };
+
+    // 2. Share the stored copy if the same content is already known
+    const existingBlob = await this.dbService.getBlob(hash);
+    if (existingBlob) {
+      try {
+        return await this.dbService.createManifestForBlob({ ...manifest, s3Key: existingBlob.s3Key }, true);
+      } catch (error) {
+        // Deleted since it was looked up; store it again below
+        if (!(error instanceof BlobMissingError)) throw error;
+      }
+    }
+
+    // 3. Upload to Akave O3 and create the manifest, referencing the new blob
+    const fileKey = blobKey(hash);
+    await this.akaveService.uploadFileFromPath(localPath, fileKey, file.contentType);
+    return this.dbService.createManifestForBlob({ ...manifest, s3Key: fileKey });
+  }
+
+  /**
+   * Encrypted objects use a per-manifest data key, so their ciphertext is never shared
+   * between manifests and they bypass content-addressed deduplication.
+   */
+  private async ingestEncryptedFile(
+    userId: string,
+    localPath: string,
+    hash: string,
+    file: FileDescriptor,
+    encryption: EncryptionRequest
+  ) {
+    const ciphertextPath = `${localPath}.enc`;
+    try {
+      const envelope = await encryptionService.encryptFile(localPath, ciphertextPath, encryption);
+
+      const fileKey = `encrypted/${userId}/${uuidv4()}`;
+      await this.akaveService.uploadFileFromPath(ciphertextPath, fileKey, 'application/octet-stream');
+
+      return await this.dbService.createManifest({
+        filename: file.filename,
+        size: file.size,
+        hash,
+        contentType: file.contentType,
+        tags: toJson(file.tags, '[]'),
+        isMLData: !!file.isMLData,
+        metadata: file.metadata as string,
+        userId,
+        workspaceId: file.workspaceId ?? null,
+        s3Key: fileKey,
+        encryption: JSON.stringify(envelope),
+      });
+    } finally {
+      await fs.promises.rm(ciphertextPath, { force: true });
+    }
+  }
+
+  /**
+   * Expand an archive into a directory manifest. Every file becomes an entry backed by its
+   * own content-addressed blob; the manifest's object is a JSON index of the tree, so the
+   * manifest hash identifies the exact set of files and their contents.
+   */
+  private async ingestArchive(userId: string, localPath: string, file: FileDescriptor) {
+    if (file.encryption) {
+      throw new ArchiveError('Archive expansion cannot be combined with encryption.');
+    }
+
+    const format = await detectArchiveFormat(localPath);
+    if (!format) {
+      throw new ArchiveError('File is not a supported archive (zip, tar or tar.gz).');
+    }
+
+    const workDir = path.join(UPLOAD_DIR, 'archives', uuidv4());
+    try {
+      const extracted = await extractArchive(localPath, format, workDir);
+      if (extracted.length === 0) {
+        throw new ArchiveError('Archive contains no files.');
+      }
+
+      // An expanded archive is charged for its contents, which can be far larger than the upload
+      await this.usageService.assertWithinQuota(
+        userId,
+        extracted.reduce((total, entry) => total + entry.size, 0),
+        file.reservedBytes
+      );
+
+      // Entries already uploaded stay in the bucket if a later one fails; reconciliation removes them
+      const entries = [];
+      const sources = new Map<string, { localPath: string; contentType: string }>();
+      const reusedHashes = new Set<string>();
+      for (const entry of extracted) {
+        const hash = await computeFileHash(entry.localPath);
+        const contentType = mime.lookup(entry.path) || 'application/octet-stream';
+        const existingBlob = await this.dbService.getBlob(hash);
+        const s3Key = existingBlob ? existingBlob.s3Key : blobKey(hash);
+        if (existingBlob) {
+          reusedHashes.add(hash);
+        } else if (!sources.has(hash)) {
+          await this.akaveService.uploadFileFromPath(entry.localPath, s3Key, contentType);
+        }
+        sources.set(hash, { localPath: entry.localPath, contentType });
+        entries.push({ path: entry.path, size: entry.size, hash, contentType, s3Key });
+      }
+
+      const index = Buffer.from(JSON.stringify({
+        version: 1,
+        entries: entries.map(({ path: entryPath, size, hash }) => ({ path: entryPath, size, hash })),
+      }));
+      const indexHash = crypto.createHash('sha256').update(index).digest('hex');
+      const indexPath = path.join(workDir, 'index.json');
+      await fs.promises.writeFile(indexPath, index);
+      const existingIndex = await this.dbService.getBlob(indexHash);
+      const indexKey = existingIndex ? existingIndex.s3Key : blobKey(indexHash);
+      if (existingIndex) {
+        reusedHashes.add(indexHash);
+      } else {
+        await this.akaveService.uploadFileFromPath(indexPath, indexKey, DIRECTORY_CONTENT_TYPE);
+      }
+      sources.set(indexHash, { localPath: indexPath, contentType: DIRECTORY_CONTENT_TYPE });
+
+      const metadata = JSON.parse(file.metadata as string);
+      const manifest = {
+        filename: file.filename,
+        size: index.length,
+        hash: indexHash,
+        contentType: DIRECTORY_CONTENT_TYPE,
+        tags: toJson(file.tags, '[]'),
+        isMLData: !!file.isMLData,
+        metadata: JSON.stringify({
+          ...metadata,
+          directory: {
+            format,
+            entryCount: entries.length,
+            expandedSize: entries.reduce((total, entry) => total + entry.size, 0),
+            archiveSize: file.size,
+          },
+        }),
+        userId,
+        workspaceId: file.workspaceId ?? null,
+        s3Key: indexKey,
+      };
+
+      // A blob found above may be deleted before the manifest references it; store it again and retry
+      for (;;) {
+        try {
+          return await this.dbService.createDirectoryManifest(manifest, entries, reusedHashes);
+        } catch (error) {
+          if (!(error instanceof BlobMissingError) || !reusedHashes.has(error.hash)) throw error;
+
+          const source = sources.get(error.hash)!;
+          const s3Key = blobKey(error.hash);
+          await this.akaveService.uploadFileFromPath(source.localPath, s3Key, source.contentType);
+          reusedHashes.delete(error.hash);
+          for (const target of [manifest, ...entries]) {
+            if (target.hash === error.hash) target.s3Key = s3Key;
+          }
+        }
+      }
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Open a resumable upload session backed by an empty staging file
+   */
+  async createSession(userId: string, file: FileDescriptor): Promise<UploadSession> {
+    if (file.encryption?.keySource === 'master' && !encryptionService.isMasterKeyConfigured()) {
+      throw new EncryptionKeyError('Server-side encryption is not configured (ENCRYPTION_MASTER_KEY is not set).');
+    }
+    if (file.encryption && file.expandArchive) {
+      throw new ArchiveError('Archive expansion cannot be combined with encryption.');
+    }
+    await this.usageService.assertWithinQuota(userId, file.size);
+
+    await this.cleanupExpiredSessions();
+    await fs.promises.mkdir(this.sessionDir, { recursive: true });
+
+    const id = uuidv4();
+    const tempPath = path.join(this.sessionDir, id);
+    await fs.promises.writeFile(tempPath, '');
+
+    // Checked again as the session is recorded, so parallel requests can't share the same free bytes
+    const session = await this.dbService.createUploadSession({
+      id,
+      userId,
+      filename: file.filename,
+      contentType: file.contentType || 'application/octet-stream',
+      size: file.size,
+      tags: toJson(file.tags, '[]'),
+      isMLData: !!file.isMLData,
+      metadata: toMetadata(file.metadata),
+      tempPath,
+      encryption: file.encryption?.keySource ?? null,
+      expandArchive: !!file.expandArchive,
+      workspaceId: file.workspaceId ?? null,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    }, await this.usageService.getQuota(userId));
+
+    if (!session) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw await this.usageService.quotaExceeded(userId, file.size);
+    }
+    return session;
+  }
+
+  async getSession(id: string): Promise<UploadSession | null> {
+    return this.dbService.getUploadSession(id);
+  }
+
+  /**
+   * Append a chunk at `offset`. Whatever arrives before a dropped connection is kept,
+   * so the client can ask for the current offset and continue from there.
+   */
+  async appendChunk(session: UploadSession, offset: number, body: Readable): Promise<UploadSession> {
+    if (this.appending.has(session.id)) {
+      throw new UploadLockedError();
+    }
+
+    this.appending.add(session.id);
+    try {
+      // Read the offset again under the lock; the caller's copy may predate another chunk
+      const current = await this.dbService.getUploadSession(session.id);
+      if (!current) {
+        throw new UploadOffsetMismatchError(session.offset, offset);
+      }
+      return await this.writeChunk(current, offset, body);
+    } finally {
+      this.appending.delete(session.id);
+    }
+  }
+
+  private async writeChunk(session: UploadSession, offset: number, body: Readable): Promise<UploadSession> {
+    if (offset !== session.offset) {
+      throw new UploadOffsetMismatchError(session.offset, offset);
+    }
+
+    const remaining = session.size - session.offset;
+    let received = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > remaining) {
+          callback(new Error('Chunk exceeds the declared upload length'));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    let streamError: unknown = null;
+    try {
+      await pipeline(body, limiter, fs.createWriteStream(session.tempPath, { flags: 'a' }));
+    } catch (error) {
+      streamError = error;
+    }
+
+    // Trust the staging file over the byte counter: it reflects what was actually flushed
+    const { size: written } = await fs.promises.stat(session.tempPath);
+    if (written > session.size) {
+      await fs.promises.truncate(session.tempPath, session.size);
+    }
+
+    const updated = await this.dbService.updateUploadSession(session.id, {
+      offset: Math.min(written, session.size),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    });
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    return updated!;
+  }
+
+  /**
+   * Turn a fully received session into a manifest. Wallet-encrypted sessions need the
+   * wallet's encryption signature here, since it is never stored with the session.
+   * Only one request finalizes a session; a concurrent one gets UploadFinalizingError.
+   */
+  async finalizeSession(session: UploadSession, credentials: DecryptionCredentials = {}) {
+    if (session.status === 'completed' && session.manifestId) {
+      return this.dbService.getManifestById(session.manifestId);
+    }
+
+    if (session.offset !== session.size) {
+      throw new Error(`Upload incomplete: received ${session.offset} of ${session.size} bytes`);
+    }
+
+    if (!(await this.dbService.claimUploadSession(session.id))) {
+      const current = await this.dbService.getUploadSession(session.id);
+      if (current?.status === 'completed' && current.manifestId) {
+        return this.dbService.getManifestById(current.manifestId);
+      }
+      throw new UploadFinalizingError();
+    }
+
+    let manifest;
+    try {
+      manifest = await this.ingestFile(session.userId, session.tempPath, {
+        filename: session.filename,
+        contentType: session.contentType,
+        size: session.size,
+        tags: session.tags,
+        isMLData: !!session.isMLData,
+        metadata: session.metadata,
+        encryption: session.encryption ? { keySource: session.encryption, ...credentials } : undefined,
+        expandArchive: !!session.expandArchive,
+        workspaceId: session.workspaceId ?? undefined,
+        reservedBytes: session.size,
+      });
+    } catch (error) {
+      // Release the claim so the client can retry or cancel
+      await this.dbService.updateUploadSession(session.id, { status: 'active' });
+      throw error;
+    }
+
+    await this.dbService.updateUploadSession(session.id, { status: 'completed', manifestId: manifest.id });
+    await fs.promises.rm(session.tempPath, { force: true });
+
+    return manifest;
+  }
+
+  /**
+   * Drop the session and its staging file. A session being finalized is left alone, since
+   * its staging file is being read; UploadFinalizingError says so.
+   */
+  async cancelSession(session: UploadSession): Promise<void> {
+    if (!(await this.dbService.deleteUploadSession(session.id))) {
+      throw new UploadFinalizingError();
+    }
+    await fs.promises.rm(session.tempPath, { force: true });
+  }
+
+  /**
+   * Drop sessions that have not received data within the TTL
+   */
+  async cleanupExpiredSessions(): Promise<void> {
+    const expired = await this.dbService.listExpiredUploadSessions(new Date().toISOString());
+    for (const session of expired) {
+      try {
+        await this.cancelSession(session);
+      } catch (error) {
+        // Claimed since it was listed; the finalizing request completes or releases it
+        if (error instanceof UploadFinalizingError) continue;
+        console.error(`Failed to clean up upload session ${session.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Register a direct upload and presign where the client should PUT the bytes. Nothing
+   * passes through the hub; completeDirectUpload verifies the object once it is in the bucket.
+   */
+  async createDirectUpload(userId: string, file: FileDescriptor & { hash?: string }): Promise<DirectUploadTarget> {
+    if (file.encryption) {
+      throw new DirectUploadError('Encrypted uploads must go through the hub; use a resumable upload instead.');
+    }
+    if (file.expandArchive) {
+      throw new DirectUploadError('Archive expansion needs the hub to read the archive; use a resumable upload instead.');
+    }
+    if (file.hash !== undefined && !/^[0-9a-f]{64}$/i.test(file.hash)) {
+      throw new DirectUploadError('hash must be a hex-encoded SHA-256 digest.');
+    }
+    await this.usageService.assertWithinQuota(userId, file.size);
+
+    await this.cleanupExpiredIntents();
+
+    const id = uuidv4();
+    const s3Key = `uploads/${id}`;
+    const contentType = file.contentType || 'application/octet-stream';
+    const multipart = this.akaveService.supportsPresignedMultipart && file.size > DIRECT_UPLOAD_PART_SIZE;
+    const partSize = multipart ? Math.max(DIRECT_UPLOAD_PART_SIZE, Math.ceil(file.size / MAX_UPLOAD_PARTS)) : null;
+
+    let url: string | undefined;
+    let parts: DirectUploadTarget['parts'];
+    let uploadId: string | null = null;
+
+    if (partSize) {
+      const partCount = Math.ceil(file.size / partSize);
+      const presigned = await this.akaveService.createPresignedMultipartUpload(s3Key, contentType, partCount, DIRECT_UPLOAD_TTL_SECONDS);
+      uploadId = presigned.uploadId;
+      parts = presigned.partUrls.map((partUrl, index) => ({
+        partNumber: index + 1,
+        url: partUrl,
+        size: Math.min(partSize, file.size - index * partSize),
+      }));
+    } else {
+      url = await this.akaveService.getPresignedUploadUrl(s3Key, contentType, DIRECT_UPLOAD_TTL_SECONDS);
+    }
+
+    // Checked again as the intent is recorded, so parallel requests can't share the same free bytes
+    const intent = await this.dbService.createUploadIntent({
+      id,
+      userId,
+      filename: file.filename,
+      contentType,
+      size: file.size,
+      tags: toJson(file.tags, '[]'),
+      isMLData: !!file.isMLData,
+      metadata: toMetadata(file.metadata),
+      s3Key,
+      mode: partSize ? 'multipart' : 'single',
+      uploadId,
+      partSize,
+      expectedHash: file.hash ? file.hash.toLowerCase() : null,
+      workspaceId: file.workspaceId ?? null,
+      expiresAt: new Date(Date.now() + DIRECT_UPLOAD_TTL_SECONDS * 1000).toISOString(),
+    }, await this.usageService.getQuota(userId));
+
+    if (!intent) {
+      if (uploadId) {
+        await this.akaveService.abortMultipartUpload(s3Key, uploadId).catch(error => {
+          console.error(`Failed to abort multipart upload for ${s3Key}:`, error);
+        });
+      }
+      throw await this.usageService.quotaExceeded(userId, file.size);
+    }
+
+    // Multipart parts carry no Content-Type; it was fixed when the upload was created
+    return { intent, headers: partSize ? {} : { 'Content-Type': contentType }, url, parts };
+  }
+
+  async getDirectUpload(id: string): Promise<UploadIntent | null> {
+    return this.dbService.getUploadIntent(id);
+  }
+
+  /**
+   * Check the uploaded object against what was declared (size, and the hash if one was
+   * given) and record its manifest. An object that fails the checks is deleted and the
+   * intent closed, so the client starts over with a new one. Only one request completes
+   * an intent; a concurrent or retried one gets the same manifest.
+   */
+  async completeDirectUpload(intent: UploadIntent, parts?: CompletedUploadPart[]) {
+    if (intent.status === 'completed' && intent.manifestId) {
+      return this.dbService.getManifestById(intent.manifestId);
+    }
+    const inProgress = this.completing.get(intent.id);
+    if (inProgress) {
+      return inProgress;
+    }
+    if (intent.status === 'pending' && new Date(intent.expiresAt).getTime() < Date.now()) {
+      throw new DirectUploadError('Upload has expired or was cancelled.');
+    }
+
+    if (!(await this.dbService.claimUploadIntent(intent.id, 'completing'))) {
+      const current = await this.dbService.getUploadIntent(intent.id);
+      if (current?.status === 'completed' && current.manifestId) {
+        return this.dbService.getManifestById(current.manifestId);
+      }
+      if (current?.status === 'completing') {
+        const other = this.completing.get(intent.id);
+        if (other) return other;
+        throw new DirectUploadError('Upload is already being completed.');
+      }
+      throw new DirectUploadError('Upload has expired or was cancelled.');
+    }
+
+    const completion = this.finishDirectUpload(intent, parts);
+    this.completing.set(intent.id, completion);
+    try {
+      return await completion;
+    } finally {
+      this.completing.delete(intent.id);
+    }
+  }
+
+  private async finishDirectUpload(intent: UploadIntent, parts?: CompletedUploadPart[]) {
+    let info;
+    try {
+      if (intent.mode === 'multipart') {
+        const partCount = Math.ceil(intent.size / intent.partSize!);
+        if (
+          !Array.isArray(parts) ||
+          parts.length !== partCount ||
+          parts.some(part => !Number.isInteger(part?.partNumber) || typeof part.etag !== 'string')
+        ) {
+          throw new DirectUploadError(`Expected the ETag of each of the ${partCount} parts.`);
+        }
+        try {
+          await this.akaveService.completeMultipartUpload(intent.s3Key, intent.uploadId!, parts);
+        } catch (error: any) {
+          throw new DirectUploadError(`Could not complete the multipart upload: ${error?.message || 'unknown error'}`);
+        }
+      }
+
+      info = await this.akaveService.getObjectInfo(intent.s3Key);
+      if (!info) {
+        throw new DirectUploadError('Nothing has been uploaded yet.');
+      }
+    } catch (error) {
+      // Nothing has been checked yet, so the client may try again
+      await this.dbService.updateUploadIntent(intent.id, { status: 'pending' });
+      throw error;
+    }
+
+    try {
+      if (info.size !== intent.size) {
+        throw new DirectUploadError(`Uploaded ${info.size} bytes but ${intent.size} were declared.`);
+      }
+
+      // The hub never saw the bytes, so read them back once to learn what was stored
+      const hash = await this.akaveService.hashObject(intent.s3Key);
+      if (intent.expectedHash && hash !== intent.expectedHash) {
+        throw new IntegrityError(intent.s3Key, intent.expectedHash, hash);
+      }
+
+      await this.usageService.assertWithinQuota(intent.userId, intent.size, intent.size);
+
+      const manifest = await this.createDirectUploadManifest(intent, hash);
+      if (manifest.s3Key !== intent.s3Key) {
+        // The content was already stored, so this copy is redundant; reconciliation retries a failed delete
+        await this.deleteUnlessBlob(intent.s3Key).catch(error => {
+          console.error(`Failed to delete redundant upload ${intent.s3Key}:`, error);
+        });
+      }
+
+      await this.dbService.updateUploadIntent(intent.id, { status: 'completed', manifestId: manifest.id });
+      return manifest;
+    } catch (error) {
+      await this.deleteUnlessBlob(intent.s3Key).catch(() => undefined);
+      await this.dbService.updateUploadIntent(intent.id, { status: 'aborted' });
+      throw error;
+    }
+  }
+
+  /**
+   * Share the stored copy if this content is already known; the blob row takes over the
+   * intent's key otherwise
+   */
+  private async createDirectUploadManifest(intent: UploadIntent, hash: string) {
+    const manifest = {
+      filename: intent.filename,
+      size: intent.size,
+      hash,
+      contentType: intent.contentType,
+      tags: intent.tags,
+      isMLData: !!intent.isMLData,
+      metadata: intent.metadata,
+      userId: intent.userId,
+      workspaceId: intent.workspaceId,
+    };
+
+    const existingBlob = await this.dbService.getBlob(hash);
+    if (existingBlob) {
+      try {
+        return await this.dbService.createManifestForBlob({ ...manifest, s3Key: existingBlob.s3Key }, true);
+      } catch (error) {
+        // Deleted since it was looked up; keep the intent's copy instead
+        if (!(error instanceof BlobMissingError)) throw error;
+      }
+    }
+    return this.dbService.createManifestForBlob({ ...manifest, s3Key: intent.s3Key });
+  }
+
+  // An intent's object may have become a shared blob, which other manifests rely on
+  private async deleteUnlessBlob(s3Key: string): Promise<void> {
+    if (await this.dbService.getBlobByKey(s3Key)) return;
+    await this.akaveService.deleteFile(s3Key);
+  }
+
+  async cancelDirectUpload(intent: UploadIntent): Promise<void> {
+    // Close the intent first, so a completion can't take over the object being deleted
+    if (!(await this.dbService.claimUploadIntent(intent.id, 'aborted'))) return;
+
+    if (intent.mode === 'multipart' && intent.uploadId) {
+      await this.akaveService.abortMultipartUpload(intent.s3Key, intent.uploadId).catch(error => {
+        console.error(`Failed to abort multipart upload for ${intent.s3Key}:`, error);
+      });
+    }
+    // A single PUT may or may not have happened; deleting a missing object is harmless
+    await this.akaveService.deleteFile(intent.s3Key).catch(() => undefined);
+  }
+
+  /**
+   * Abort direct uploads that were never completed within their TTL
+   */
+  async cleanupExpiredIntents(): Promise<void> {
+    const expired = await this.dbService.listExpiredUploadIntents(new Date().toISOString());
+    for (const intent of expired) {
+      try {
+        await this.cancelDirectUpload(intent);
+      } catch (error) {
+        console.error(`Failed to clean up direct upload ${intent.id}:`, error);
+      }
+    }
+  }
+}
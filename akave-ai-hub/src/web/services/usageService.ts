@@ -0,0 +1,103 @@
+import { DatabaseService, UsageCategory } from './databaseService';
+
+// Applies to users without an explicit quota; 0 turns quota enforcement off
+const DEFAULT_QUOTA_BYTES = Number(process.env.STORAGE_QUOTA_BYTES ?? 10 * 1024 * 1024 * 1024);
+
+export class QuotaExceededError extends Error {
+  constructor(
+    public usedBytes: number,
+    public quotaBytes: number,
+    public requestedBytes: number
+  ) {
+    super(
+      `Storage quota exceeded: ${requestedBytes} bytes requested, ` +
+      `${Math.max(quotaBytes - usedBytes, 0)} of ${quotaBytes} bytes available.`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export interface UsageBreakdown {
+  bytes: number;
+  count: number;
+}
+
+export interface StorageUsage {
+  /** `null` when the user is not subject to a quota */
+  quotaBytes: number | null;
+  usedBytes: number;
+  /** Declared size of uploads still in flight, held against the quota until they complete */
+  reservedBytes: number;
+  availableBytes: number | null;
+  datasets: UsageBreakdown;
+  checkpoints: UsageBreakdown;
+  queryResults: UsageBreakdown;
+}
+
+/**
+ * Per-user storage quotas on top of the usage counters DatabaseService keeps current
+ * as manifests, training checkpoints and query results are written and removed.
+ */
+export class UsageService {
+  constructor(private dbService: DatabaseService) {}
+
+  async getUsage(userId: string): Promise<StorageUsage> {
+    const rows = await this.dbService.getStorageUsage(userId);
+    const breakdown = (category: UsageCategory): UsageBreakdown => {
+      const row = rows.find(candidate => candidate.category === category);
+      return { bytes: row?.bytes ?? 0, count: row?.objects ?? 0 };
+    };
+
+    const datasets = breakdown('datasets');
+    const checkpoints = breakdown('checkpoints');
+    const queryResults = breakdown('query_results');
+    const usedBytes = datasets.bytes + checkpoints.bytes + queryResults.bytes;
+    const reservedBytes = await this.dbService.getReservedUploadBytes(userId);
+    const quotaBytes = await this.getQuota(userId);
+
+    return {
+      quotaBytes,
+      usedBytes,
+      reservedBytes,
+      availableBytes: quotaBytes === null ? null : Math.max(quotaBytes - usedBytes - reservedBytes, 0),
+      datasets,
+      checkpoints,
+      queryResults,
+    };
+  }
+
+  /**
+   * Throw QuotaExceededError if storing `requestedBytes` more would put the user over quota.
+   * Uploads in flight count as used; pass `heldBytes` when the bytes being stored belong to
+   * one of them, so its own reservation is not counted twice.
+   */
+  async assertWithinQuota(userId: string, requestedBytes: number, heldBytes = 0): Promise<void> {
+    const usage = await this.getUsage(userId);
+    const usedBytes = usage.usedBytes + usage.reservedBytes - heldBytes;
+    if (usage.quotaBytes !== null && usedBytes + requestedBytes > usage.quotaBytes) {
+      throw new QuotaExceededError(usedBytes, usage.quotaBytes, requestedBytes);
+    }
+  }
+
+  /**
+   * The error to report when an upload of `requestedBytes` could not be reserved
+   */
+  async quotaExceeded(userId: string, requestedBytes: number): Promise<QuotaExceededError> {
+    const usage = await this.getUsage(userId);
+    return new QuotaExceededError(usage.usedBytes + usage.reservedBytes, usage.quotaBytes ?? 0, requestedBytes);
+  }
+
+  async getQuota(userId: string): Promise<number | null> {
+    const quotaBytes = await this.dbService.getStorageQuota(userId);
+    if (quotaBytes !== null) return quotaBytes;
+    return DEFAULT_QUOTA_BYTES > 0 ? DEFAULT_QUOTA_BYTES : null;
+  }
+
+  /**
+   * Give a user their own quota, or pass `null` to fall back to STORAGE_QUOTA_BYTES
+   */
+  async setQuota(userId: string, quotaBytes: number | null): Promise<StorageUsage> {
+    await this.dbService.setStorageQuota(userId, quotaBytes);
+    return this.getUsage(userId);
+  }
+}
@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DatabaseService,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+} from './databaseService';
+
+const INVITATION_TTL_DAYS = parseInt(process.env.WORKSPACE_INVITATION_TTL_DAYS || '', 10) || 7;
+
+const WALLET_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const WORKSPACE_ROLES: WorkspaceRole[] = ['viewer', 'member', 'admin'];
+
+// Each role includes everything the roles before it allow
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 1, member: 2, admin: 3 };
+
+export const hasWorkspaceRole = (role: WorkspaceRole, required: WorkspaceRole): boolean =>
+  WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[required];
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+/** The user is in the workspace, but their role doesn't allow this */
+export class WorkspacePermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspacePermissionError';
+  }
+}
+
+export interface ActiveWorkspace {
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+/**
+ * Organizations that own files, training jobs and query results. Every user has a personal
+ * workspace; shared ones have admins, who invite wallets and manage roles, members, who
+ * create content, and viewers, who can only read it.
+ */
+export class WorkspaceService {
+  constructor(private dbService: DatabaseService) {}
+
+  /**
+   * The workspace a request acts in: `workspaceId` (the token's claim) when the user is
+   * still a member of it, otherwise their personal workspace when no workspace was claimed.
+   * Null if the claimed workspace is one they no longer belong to.
+   */
+  async resolveActiveWorkspace(userId: string, workspaceId?: string): Promise<ActiveWorkspace | null> {
+    if (workspaceId) {
+      const workspace = await this.dbService.getWorkspace(workspaceId);
+      const membership = workspace && await this.dbService.getWorkspaceMember(workspaceId, userId);
+      return workspace && membership ? { workspace, role: membership.role } : null;
+    }
+
+    const personal = await this.dbService.getPersonalWorkspace(userId);
+    if (!personal) {
+      throw new Error(`User ${userId} has no personal workspace`);
+    }
+    return { workspace: personal, role: 'admin' };
+  }
+
+  async createWorkspace(userId: string, name: unknown): Promise<Workspace> {
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      throw new WorkspaceError('name is required and must be at most 100 characters.');
+    }
+    const workspace = await this.dbService.createWorkspace({ id: uuidv4(), name: name.trim(), createdBy: userId });
+    console.log(`🏢 Workspace ${workspace.id} created`);
+    return workspace;
+  }
+
+  async listWorkspaces(userId: string) {
+    return this.dbService.listWorkspacesForUser(userId);
+  }
+
+  /**
+   * A workspace with its members, visible to members only; null otherwise
+   */
+  async getWorkspace(userId: string, workspaceId: string): Promise<(Workspace & { role: WorkspaceRole; members: WorkspaceMember[] }) | null> {
+    const active = await this.resolveActiveWorkspace(userId, workspaceId);
+    if (!active) return null;
+    return { ...active.workspace, role: active.role, members: await this.dbService.listWorkspaceMembers(workspaceId) };
+  }
+
+  async invite(userId: string, workspaceId: string, walletAddress: unknown, role: unknown = 'member'): Promise<WorkspaceInvitation | null> {
+    const active = await this.requireAdmin(userId, workspaceId);
+    if (!active) return null;
+
+    if (active.workspace.personalUserId) {
+      throw new WorkspaceError('Personal workspaces cannot have other members; create a workspace to collaborate.');
+    }
+    if (typeof walletAddress !== 'string' || !WALLET_ADDRESS_PATTERN.test(walletAddress)) {
+      throw new WorkspaceError('walletAddress must be a 0x-prefixed Ethereum address.');
+    }
+    if (!WORKSPACE_ROLES.includes(role as WorkspaceRole)) {
+      throw new WorkspaceError(`role must be one of: ${WORKSPACE_ROLES.join(', ')}.`);
+    }
+
+    const existing = await this.dbService.getUserByWalletAddress(walletAddress);
+    if (existing && await this.dbService.getWorkspaceMember(workspaceId, existing.id)) {
+      throw new WorkspaceError('That wallet is already a member of this workspace.');
+    }
+
+    const invitation = await this.dbService.createWorkspaceInvitation({
+      id: uuidv4(),
+      workspaceId,
+      walletAddress,
+      role: role as WorkspaceRole,
+      invitedBy: userId,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 3600 * 1000).toISOString(),
+    });
+    console.log(`✉️ Invited ${walletAddress} to workspace ${workspaceId} as ${invitation.role}`);
+    return invitation;
+  }
+
+  async listInvitations(userId: string, workspaceId: string): Promise<WorkspaceInvitation[] | null> {
+    const active = await this.requireAdmin(userId, workspaceId);
+    return active ? this.dbService.listWorkspaceInvitations(workspaceId) : null;
+  }
+
+  async revokeInvitation(userId: string, workspaceId: string, invitationId: string): Promise<WorkspaceInvitation | null> {
+    const active = await this.requireAdmin(userId, workspaceId);
+    const invitation = active && await this.dbService.getWorkspaceInvitation(invitationId);
+    if (!invitation || invitation.workspaceId !== workspaceId) return null;
+
+    if (invitation.status !== 'pending') {
+      throw new WorkspaceError(`Invitation is already ${invitation.status}.`);
+    }
+    return this.dbService.setWorkspaceInvitationStatus(invitationId, 'revoked');
+  }
+
+  /**
+   * Pending invitations addressed to the wallet
+   */
+  async listMyInvitations(walletAddress: string) {
+    return this.dbService.listPendingInvitationsForWallet(walletAddress, new Date().toISOString());
+  }
+
+  async respondToInvitation(
+    user: { id: string; walletAddress: string },
+    invitationId: string,
+    accept: boolean
+  ): Promise<WorkspaceInvitation | null> {
+    const invitation = await this.dbService.getWorkspaceInvitation(invitationId);
+    if (!invitation || invitation.walletAddress.toLowerCase() !== user.walletAddress.toLowerCase()) {
+      return null;
+    }
+    if (invitation.status !== 'pending') {
+      throw new WorkspaceError(`Invitation is already ${invitation.status}.`);
+    }
+    if (new Date(invitation.expiresAt).getTime() <= Date.now()) {
+      throw new WorkspaceError('Invitation has expired.');
+    }
+
+    if (!accept) {
+      return this.dbService.setWorkspaceInvitationStatus(invitationId, 'declined');
+    }
+    await this.dbService.acceptWorkspaceInvitation(invitation, user.id);
+    console.log(`🤝 ${user.walletAddress} joined workspace ${invitation.workspaceId}`);
+    return this.dbService.getWorkspaceInvitation(invitationId);
+  }
+
+  async setMemberRole(userId: string, workspaceId: string, walletAddress: string, role: unknown): Promise<WorkspaceMember | null> {
+    const active = await this.requireAdmin(userId, workspaceId);
+    if (!active) return null;
+
+    if (!WORKSPACE_ROLES.includes(role as WorkspaceRole)) {
+      throw new WorkspaceError(`role must be one of: ${WORKSPACE_ROLES.join(', ')}.`);
+    }
+    const member = await this.findMember(workspaceId, walletAddress);
+    if (!member) return null;
+
+    if (member.role === 'admin' && role !== 'admin' && await this.dbService.countWorkspaceAdmins(workspaceId) <= 1) {
+      throw new WorkspaceError('A workspace needs at least one admin.');
+    }
+    await this.dbService.setWorkspaceMemberRole(workspaceId, member.userId, role as WorkspaceRole);
+    return this.dbService.getWorkspaceMember(workspaceId, member.userId);
+  }
+
+  /**
+   * Remove a member. Admins can remove anyone; everyone else can only leave.
+   */
+  async removeMember(userId: string, workspaceId: string, walletAddress: string): Promise<boolean | null> {
+    const active = await this.resolveActiveWorkspace(userId, workspaceId);
+    if (!active) return null;
+
+    const member = await this.findMember(workspaceId, walletAddress);
+    if (!member) return false;
+
+    if (member.userId !== userId && active.role !== 'admin') {
+      throw new WorkspacePermissionError('Only workspace admins can remove other members.');
+    }
+    if (active.workspace.personalUserId === member.userId) {
+      throw new WorkspaceError('You cannot leave your personal workspace.');
+    }
+    if (member.role === 'admin' && await this.dbService.countWorkspaceAdmins(workspaceId) <= 1) {
+      throw new WorkspaceError('A workspace needs at least one admin.');
+    }
+    return this.dbService.removeWorkspaceMember(workspaceId, member.userId);
+  }
+
+  private async findMember(workspaceId: string, walletAddress: string): Promise<WorkspaceMember | null> {
+    const user = await this.dbService.getUserByWalletAddress(walletAddress);
+    return user ? this.dbService.getWorkspaceMember(workspaceId, user.id) : null;
+  }
+
+  private async requireAdmin(userId: string, workspaceId: string): Promise<ActiveWorkspace | null> {
+    const active = await this.resolveActiveWorkspace(userId, workspaceId);
+    if (!active) return null;
+    if (active.role !== 'admin') {
+      throw new WorkspacePermissionError('Only workspace admins can do this.');
+    }
+    return active;
+  }
+}